@@ -0,0 +1,30 @@
+/**
+ * Chart input for the user's saved birth details and for their company's
+ * incorporation, or null until each has been saved.
+ */
+
+import { useMemo } from 'react';
+
+import { BirthInput } from '@/src/astro';
+import { useBusinessStore } from '@/stores/businessStore';
+import { birthDetailsInput, useProfileStore } from '@/stores/profileStore';
+
+/**
+ * Chart input for the user's saved birth details, or null until the
+ * profile has them
+ */
+export function useBirthInput(): BirthInput | null {
+  const birth = useProfileStore((state) => state.birth);
+
+  return useMemo(() => (birth ? birthDetailsInput(birth) : null), [birth]);
+}
+
+/**
+ * Chart input for the saved business's incorporation, or null until the
+ * business details are saved
+ */
+export function useBusinessBirthInput(): BirthInput | null {
+  const incorporation = useBusinessStore((state) => state.business?.incorporation);
+
+  return useMemo(() => (incorporation ? birthDetailsInput(incorporation) : null), [incorporation]);
+}
@@ -0,0 +1,14 @@
+/**
+ * Place the daily panchang and timings are read for: the user's saved
+ * current place, else their birth place, or null until either is set.
+ */
+
+import { Place } from '@/src/astro';
+import { useProfileStore } from '@/stores/profileStore';
+
+export function useCurrentPlace(): Place | null {
+  const currentPlace = useProfileStore((state) => state.currentPlace);
+  const birthPlace = useProfileStore((state) => state.birth?.place);
+
+  return currentPlace ?? birthPlace ?? null;
+}
@@ -0,0 +1,32 @@
+/**
+ * Partnership report for the user and their saved co-founders, or null
+ * until the profile has birth details and at least one partner is saved.
+ */
+
+import { useMemo } from 'react';
+
+import { PartnershipReport, analyzePartnership, castChart } from '@/src/astro';
+import { usePartnersStore } from '@/stores/partnersStore';
+import { birthDetailsInput, useProfileStore } from '@/stores/profileStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+
+export function usePartnershipReport(): PartnershipReport | null {
+  const name = useProfileStore((state) => state.name);
+  const birth = useProfileStore((state) => state.birth);
+  const partners = usePartnersStore((state) => state.partners);
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+
+  return useMemo(() => {
+    if (!birth || partners.length === 0) return null;
+    const members = [
+      { name: name || 'You', birth },
+      ...partners.map((partner) => ({ name: partner.name || 'Partner', birth: partner.birth })),
+    ];
+    return analyzePartnership(
+      members.map((member) => ({
+        name: member.name,
+        natal: castChart(birthDetailsInput(member.birth), { ayanamsa }),
+      }))
+    );
+  }, [name, birth, partners, ayanamsa]);
+}
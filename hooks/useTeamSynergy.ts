@@ -0,0 +1,37 @@
+/**
+ * Team synergy for the user and the team registered under their business,
+ * or null until there are at least two charts to compare. Energy is read
+ * at local noon so one score holds for the whole day.
+ */
+
+import { useMemo } from 'react';
+
+import { TeamSynergy, calculateTeamSynergy, castChart } from '@/src/astro';
+import { useBusinessStore } from '@/stores/businessStore';
+import { birthDetailsInput, useProfileStore } from '@/stores/profileStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+
+export function useTeamSynergy(): TeamSynergy | null {
+  const name = useProfileStore((state) => state.name);
+  const birth = useProfileStore((state) => state.birth);
+  const team = useBusinessStore((state) => state.team);
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+  const today = new Date().toDateString();
+
+  return useMemo(() => {
+    const members = [
+      ...(birth ? [{ name: name || 'You', birth }] : []),
+      ...team.map((member) => ({ name: member.name || 'Member', birth: member.birth })),
+    ];
+    if (members.length < 2) return null;
+    const noon = new Date(today);
+    noon.setHours(12, 0, 0, 0);
+    return calculateTeamSynergy(
+      members.map((member) => ({
+        name: member.name,
+        natal: castChart(birthDetailsInput(member.birth), { ayanamsa }),
+      })),
+      noon
+    );
+  }, [name, birth, team, ayanamsa, today]);
+}
@@ -0,0 +1,81 @@
+/**
+ * Corp Astro Engine - Sidereal Time & Angles
+ *
+ * Greenwich/local sidereal time and the two chart angles derived from
+ * them: the Lagna (ascendant) and the Midheaven. Angles are returned in
+ * the tropical zodiac; apply the ayanamsa for Vedic use.
+ *
+ * @module Ascendant
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { J2000, julianCenturies } from './JulianDay';
+import { meanObliquity } from './Ephemeris';
+import { normalizeDegrees } from './Zodiac';
+
+const DEG = Math.PI / 180;
+
+// ============================================================================
+// SIDEREAL TIME
+// ============================================================================
+
+/**
+ * Greenwich mean sidereal time in degrees for a Universal Time Julian Day
+ */
+export const greenwichSiderealTime = (jdUT: number): number => {
+  const T = julianCenturies(jdUT);
+  return normalizeDegrees(
+    280.46061837 + 360.98564736629 * (jdUT - J2000) + 0.000387933 * T * T - (T * T * T) / 38710000
+  );
+};
+
+/**
+ * Local sidereal time (RAMC) in degrees. Longitude is east-positive.
+ */
+export const localSiderealTime = (jdUT: number, longitude: number): number =>
+  normalizeDegrees(greenwichSiderealTime(jdUT) + longitude);
+
+// ============================================================================
+// ANGLES
+// ============================================================================
+
+/**
+ * Tropical ascendant for a RAMC, latitude and obliquity (all degrees)
+ */
+export const ascendantFromRamc = (ramc: number, latitude: number, obliquity: number): number => {
+  const r = ramc * DEG;
+  const eps = obliquity * DEG;
+  const phi = latitude * DEG;
+  const asc = Math.atan2(
+    Math.cos(r),
+    -(Math.sin(r) * Math.cos(eps) + Math.tan(phi) * Math.sin(eps))
+  );
+  return normalizeDegrees(asc / DEG);
+};
+
+/**
+ * Tropical midheaven for a RAMC and obliquity (degrees)
+ */
+export const midheavenFromRamc = (ramc: number, obliquity: number): number => {
+  const r = ramc * DEG;
+  const mc = Math.atan2(Math.sin(r), Math.cos(r) * Math.cos(obliquity * DEG));
+  return normalizeDegrees(mc / DEG);
+};
+
+/**
+ * Tropical Lagna for a Universal Time Julian Day and place.
+ * Latitude north-positive, longitude east-positive.
+ */
+export const calculateAscendant = (jdUT: number, latitude: number, longitude: number): number =>
+  ascendantFromRamc(
+    localSiderealTime(jdUT, longitude),
+    latitude,
+    meanObliquity(julianCenturies(jdUT))
+  );
+
+/**
+ * Tropical Midheaven for a Universal Time Julian Day and place
+ */
+export const calculateMidheaven = (jdUT: number, longitude: number): number =>
+  midheavenFromRamc(localSiderealTime(jdUT, longitude), meanObliquity(julianCenturies(jdUT)));
@@ -0,0 +1,235 @@
+/**
+ * Corp Astro Engine - Ashtakavarga
+ *
+ * Bhinnashtakavarga (individual bindu tables) for the seven grahas and the
+ * Lagna, and the Sarvashtakavarga totals per sign. Each table gives one
+ * bindu to a sign for every contributor (the seven grahas and the Lagna)
+ * that counts it as a benefic place, per the Parashari tables.
+ *
+ * The Sarvashtakavarga sums the seven grahas' tables (337 bindus); the
+ * Lagna's own table (49 bindus) is reported separately.
+ *
+ * @module Ashtakavarga
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart } from './Chart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Grahas and the Lagna, which both receive and contribute bindus
+ */
+export type AshtakavargaPoint = 'Su' | 'Mo' | 'Ma' | 'Me' | 'Ju' | 'Ve' | 'Sa' | 'As';
+
+/**
+ * One Bhinnashtakavarga table
+ */
+export interface Bhinnashtakavarga {
+  subject: AshtakavargaPoint;
+  /** Bindus per sign, index 0 = Aries */
+  bindus: number[];
+  /** 1 where a contributor gives its bindu to the sign, else 0 */
+  contributions: Record<AshtakavargaPoint, number[]>;
+  total: number;
+}
+
+/**
+ * Ashtakavarga of a natal chart
+ */
+export interface Ashtakavarga {
+  bhinna: Record<AshtakavargaPoint, Bhinnashtakavarga>;
+  /** Sarvashtakavarga per sign, from the seven grahas' tables */
+  sarva: number[];
+  total: number;
+}
+
+/**
+ * Bindu support for a graha in a sign
+ */
+export interface BinduScore {
+  /** The graha's own bindus in the sign, 0-8 */
+  bindus: number;
+  /** Sarvashtakavarga of the sign */
+  sarva: number;
+  /** At least 4 own bindus and an above-average sign */
+  favourable: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Contributors in table order */
+export const ASHTAKAVARGA_POINTS: AshtakavargaPoint[] = ['Su', 'Mo', 'Ma', 'Me', 'Ju', 'Ve', 'Sa', 'As'];
+
+/** Grahas whose tables make up the Sarvashtakavarga */
+const SARVA_POINTS = ASHTAKAVARGA_POINTS.slice(0, 7);
+
+/** Average Sarvashtakavarga per sign (337 / 12, rounded) */
+export const SARVA_AVERAGE = 28;
+
+/** Own bindus at or above which a graha is supported in a sign */
+export const BINDU_THRESHOLD = 4;
+
+/**
+ * Benefic places (houses counted from each contributor) for every table
+ */
+const BENEFIC_PLACES: Record<AshtakavargaPoint, Record<AshtakavargaPoint, number[]>> = {
+  Su: {
+    Su: [1, 2, 4, 7, 8, 9, 10, 11],
+    Mo: [3, 6, 10, 11],
+    Ma: [1, 2, 4, 7, 8, 9, 10, 11],
+    Me: [3, 5, 6, 9, 10, 11, 12],
+    Ju: [5, 6, 9, 11],
+    Ve: [6, 7, 12],
+    Sa: [1, 2, 4, 7, 8, 9, 10, 11],
+    As: [3, 4, 6, 10, 11, 12],
+  },
+  Mo: {
+    Su: [3, 6, 7, 8, 10, 11],
+    Mo: [1, 3, 6, 7, 10, 11],
+    Ma: [2, 3, 5, 6, 9, 10, 11],
+    Me: [1, 3, 4, 5, 7, 8, 10, 11],
+    Ju: [1, 4, 7, 8, 10, 11, 12],
+    Ve: [3, 4, 5, 7, 9, 10, 11],
+    Sa: [3, 5, 6, 11],
+    As: [3, 6, 10, 11],
+  },
+  Ma: {
+    Su: [3, 5, 6, 10, 11],
+    Mo: [3, 6, 11],
+    Ma: [1, 2, 4, 7, 8, 10, 11],
+    Me: [3, 5, 6, 11],
+    Ju: [6, 10, 11, 12],
+    Ve: [6, 8, 11, 12],
+    Sa: [1, 4, 7, 8, 9, 10, 11],
+    As: [1, 3, 6, 10, 11],
+  },
+  Me: {
+    Su: [5, 6, 9, 11, 12],
+    Mo: [2, 4, 6, 8, 10, 11],
+    Ma: [1, 2, 4, 7, 8, 9, 10, 11],
+    Me: [1, 3, 5, 6, 9, 10, 11, 12],
+    Ju: [6, 8, 11, 12],
+    Ve: [1, 2, 3, 4, 5, 8, 9, 11],
+    Sa: [1, 2, 4, 7, 8, 9, 10, 11],
+    As: [1, 2, 4, 6, 8, 10, 11],
+  },
+  Ju: {
+    Su: [1, 2, 3, 4, 7, 8, 9, 10, 11],
+    Mo: [2, 5, 7, 9, 11],
+    Ma: [1, 2, 4, 7, 8, 10, 11],
+    Me: [1, 2, 4, 5, 6, 9, 10, 11],
+    Ju: [1, 2, 3, 4, 7, 8, 10, 11],
+    Ve: [2, 5, 6, 9, 10, 11],
+    Sa: [3, 5, 6, 12],
+    As: [1, 2, 4, 5, 6, 7, 9, 10, 11],
+  },
+  Ve: {
+    Su: [8, 11, 12],
+    Mo: [1, 2, 3, 4, 5, 8, 9, 11, 12],
+    Ma: [3, 5, 6, 9, 11, 12],
+    Me: [3, 5, 6, 9, 11],
+    Ju: [5, 8, 9, 10, 11],
+    Ve: [1, 2, 3, 4, 5, 8, 9, 10, 11],
+    Sa: [3, 4, 5, 8, 9, 10, 11],
+    As: [1, 2, 3, 4, 5, 8, 9, 11],
+  },
+  Sa: {
+    Su: [1, 2, 4, 7, 8, 10, 11],
+    Mo: [3, 6, 11],
+    Ma: [3, 5, 6, 10, 11, 12],
+    Me: [6, 8, 9, 10, 11, 12],
+    Ju: [5, 6, 11, 12],
+    Ve: [6, 11, 12],
+    Sa: [3, 5, 6, 11],
+    As: [1, 3, 4, 6, 10, 11],
+  },
+  As: {
+    Su: [3, 4, 6, 10, 11, 12],
+    Mo: [3, 6, 10, 11, 12],
+    Ma: [1, 3, 6, 10, 11],
+    Me: [1, 2, 4, 6, 8, 10, 11],
+    Ju: [1, 2, 4, 5, 6, 7, 9, 10, 11],
+    Ve: [1, 2, 3, 4, 5, 8, 9],
+    Sa: [1, 3, 4, 6, 10, 11],
+    As: [3, 6, 10, 11],
+  },
+};
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Sign of every contributor in a natal chart
+ */
+const contributorSigns = (natal: NatalChart): Record<AshtakavargaPoint, number> => {
+  const signs = { As: natal.ascendant.sign } as Record<AshtakavargaPoint, number>;
+  natal.planets.forEach((planet) => {
+    if (planet.id in BENEFIC_PLACES) signs[planet.id as AshtakavargaPoint] = planet.sign;
+  });
+  return signs;
+};
+
+/**
+ * Bhinnashtakavarga of one subject from contributor signs
+ */
+export const calculateBhinnashtakavarga = (
+  subject: AshtakavargaPoint,
+  signs: Record<AshtakavargaPoint, number>
+): Bhinnashtakavarga => {
+  const contributions = {} as Record<AshtakavargaPoint, number[]>;
+  const bindus = new Array(12).fill(0);
+  ASHTAKAVARGA_POINTS.forEach((contributor) => {
+    const row = new Array(12).fill(0);
+    BENEFIC_PLACES[subject][contributor].forEach((place) => {
+      row[(signs[contributor] + place - 1) % 12] = 1;
+    });
+    row.forEach((bindu, sign) => (bindus[sign] += bindu));
+    contributions[contributor] = row;
+  });
+  return {
+    subject,
+    bindus,
+    contributions,
+    total: bindus.reduce((sum, bindu) => sum + bindu, 0),
+  };
+};
+
+/**
+ * Ashtakavarga of a natal chart
+ */
+export const calculateAshtakavarga = (natal: NatalChart): Ashtakavarga => {
+  const signs = contributorSigns(natal);
+  const bhinna = {} as Record<AshtakavargaPoint, Bhinnashtakavarga>;
+  ASHTAKAVARGA_POINTS.forEach((subject) => {
+    bhinna[subject] = calculateBhinnashtakavarga(subject, signs);
+  });
+  const sarva = Array.from({ length: 12 }, (_, sign) =>
+    SARVA_POINTS.reduce((sum, point) => sum + bhinna[point].bindus[sign], 0)
+  );
+  return { bhinna, sarva, total: sarva.reduce((sum, bindu) => sum + bindu, 0) };
+};
+
+/**
+ * Bindu support for a graha (or the Lagna) placed in a sign, e.g. a
+ * transit or a muhurta Lagna
+ */
+export const getBinduScore = (
+  ashtakavarga: Ashtakavarga,
+  point: AshtakavargaPoint,
+  sign: number
+): BinduScore => {
+  const bindus = ashtakavarga.bhinna[point].bindus[sign];
+  const sarva = ashtakavarga.sarva[sign];
+  return {
+    bindus,
+    sarva,
+    favourable: bindus >= BINDU_THRESHOLD && sarva >= SARVA_AVERAGE,
+  };
+};
@@ -0,0 +1,245 @@
+/**
+ * Corp Astro Engine - Aspects and Conjunctions
+ *
+ * Three ways of reading which grahas look at which:
+ * - Parashari graha drishti: every graha aspects the 7th sign from itself;
+ *   Mars also the 4th and 8th, Jupiter the 5th and 9th, Saturn the 3rd
+ *   and 10th. Rahu and Ketu cast the 7th only.
+ * - Jaimini rashi drishti: signs aspect signs. Movable signs aspect the
+ *   fixed signs except the one next to them, fixed signs the movable signs
+ *   except the one behind them, and dual signs each other. Grahas aspect
+ *   through the sign they occupy.
+ * - Western aspects: angular separations within an orb, the orbs set by
+ *   the user's aspect orb preference.
+ *
+ * Conjunctions are grahas sharing a sign.
+ *
+ * @module Aspects
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart } from './Chart';
+import { GrahaId, angleDifference, ordinal, signDistance } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Aspect system
+ */
+export type AspectMode = 'parashari' | 'jaimini' | 'western';
+
+/**
+ * Western orb presets
+ */
+export type AspectOrbId = 'tight' | 'default' | 'wide';
+
+/**
+ * Aspect system reference entry
+ */
+export interface AspectModeInfo {
+  id: AspectMode;
+  name: string;
+  description: string;
+}
+
+/**
+ * Orb preset reference entry
+ */
+export interface AspectOrbInfo {
+  id: AspectOrbId;
+  name: string;
+  description: string;
+  /** Multiplier on the standard orbs */
+  scale: number;
+}
+
+/**
+ * One graha aspecting another
+ */
+export interface GrahaAspect {
+  from: GrahaId;
+  to: GrahaId;
+  /** Short grid label, e.g. '7' for a 7th-sign drishti or '△' for a trine */
+  symbol: string;
+  /** Full name, e.g. '7th aspect', 'Trine' */
+  name: string;
+  /** Western only: degrees from exact */
+  orb?: number;
+}
+
+/**
+ * Houses (whole signs from the Lagna) a graha aspects
+ */
+export interface HouseAspect {
+  from: GrahaId;
+  houses: number[];
+}
+
+/**
+ * Aspects of a chart in one system
+ */
+export interface ChartAspects {
+  mode: AspectMode;
+  grahaAspects: GrahaAspect[];
+  /** Empty for Western aspects, which are between grahas only */
+  houseAspects: HouseAspect[];
+}
+
+/**
+ * Grahas sharing a sign
+ */
+export interface Conjunction {
+  sign: number;
+  grahas: GrahaId[];
+  /** Widest separation in degrees between them */
+  spread: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const ASPECT_MODES: AspectModeInfo[] = [
+  { id: 'parashari', name: 'Parashari', description: 'Graha drishti with the special aspects of Mars, Jupiter and Saturn' },
+  { id: 'jaimini', name: 'Jaimini', description: 'Rashi drishti between movable, fixed and dual signs' },
+  { id: 'western', name: 'Western', description: 'Angular aspects within orbs' },
+];
+
+export const ASPECT_ORBS: AspectOrbInfo[] = [
+  { id: 'tight', name: 'Tight', description: 'Close aspects only, about 5° for the majors', scale: 0.6 },
+  { id: 'default', name: 'Default', description: 'Standard orbs, 8° for conjunctions and oppositions', scale: 1 },
+  { id: 'wide', name: 'Wide', description: 'Generous orbs, 10° for conjunctions and oppositions', scale: 1.25 },
+];
+
+export const DEFAULT_ASPECT_ORBS: AspectOrbId = 'default';
+
+/** Signs counted from a graha (itself = 1) that it aspects */
+const GRAHA_DRISHTI: Record<GrahaId, number[]> = {
+  Su: [7],
+  Mo: [7],
+  Ma: [4, 7, 8],
+  Me: [7],
+  Ju: [5, 7, 9],
+  Ve: [7],
+  Sa: [3, 7, 10],
+  Ra: [7],
+  Ke: [7],
+};
+
+/** Major Western aspects with their standard orbs */
+const WESTERN_ASPECTS = [
+  { angle: 0, name: 'Conjunction', symbol: '☌', orb: 8 },
+  { angle: 60, name: 'Sextile', symbol: '⚹', orb: 6 },
+  { angle: 90, name: 'Square', symbol: '□', orb: 7 },
+  { angle: 120, name: 'Trine', symbol: '△', orb: 8 },
+  { angle: 180, name: 'Opposition', symbol: '☍', orb: 8 },
+];
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Look up an aspect orb preset by id
+ */
+export const getAspectOrbs = (id: AspectOrbId): AspectOrbInfo =>
+  ASPECT_ORBS.find((orbs) => orbs.id === id) as AspectOrbInfo;
+
+/**
+ * Signs aspected by a graha in a sign under Parashari graha drishti
+ */
+export const grahaDrishti = (id: GrahaId, sign: number): number[] =>
+  GRAHA_DRISHTI[id].map((count) => (sign + count - 1) % 12);
+
+/**
+ * Signs aspected by a sign under Jaimini rashi drishti
+ */
+export const rashiDrishti = (sign: number): number[] =>
+  Array.from({ length: 12 }, (_, other) => other).filter((other) => {
+    // Sign index mod 3: 0 movable, 1 fixed, 2 dual
+    switch (sign % 3) {
+      case 0:
+        return other % 3 === 1 && other !== (sign + 1) % 12;
+      case 1:
+        return other % 3 === 0 && other !== (sign + 11) % 12;
+      default:
+        return other % 3 === 2 && other !== sign;
+    }
+  });
+
+/**
+ * Aspects of a natal chart in one system
+ */
+export const calculateAspects = (
+  natal: NatalChart,
+  mode: AspectMode,
+  orbs: AspectOrbId = DEFAULT_ASPECT_ORBS
+): ChartAspects => {
+  const { planets } = natal;
+  const lagnaSign = natal.ascendant.sign;
+
+  if (mode === 'western') {
+    const { scale } = getAspectOrbs(orbs);
+    const grahaAspects = planets.flatMap((a, i) =>
+      planets.slice(i + 1).flatMap((b) => {
+        const separation = Math.abs(angleDifference(a.longitude, b.longitude));
+        const aspect = WESTERN_ASPECTS.find(
+          (candidate) => Math.abs(separation - candidate.angle) <= candidate.orb * scale
+        );
+        if (!aspect) return [];
+        const orb = Math.abs(separation - aspect.angle);
+        // Western aspects are mutual, so both directions are listed
+        return [
+          { from: a.id, to: b.id, symbol: aspect.symbol, name: aspect.name, orb },
+          { from: b.id, to: a.id, symbol: aspect.symbol, name: aspect.name, orb },
+        ];
+      })
+    );
+    return { mode, grahaAspects, houseAspects: [] };
+  }
+
+  const aspectedSigns = (id: GrahaId, sign: number): number[] =>
+    mode === 'jaimini' ? rashiDrishti(sign) : grahaDrishti(id, sign);
+
+  const houseAspects = planets.map(({ id, sign }) => ({
+    from: id,
+    houses: aspectedSigns(id, sign)
+      .map((target) => signDistance(lagnaSign, target))
+      .sort((a, b) => a - b),
+  }));
+
+  const grahaAspects = planets.flatMap((from) => {
+    const signs = aspectedSigns(from.id, from.sign);
+    return planets
+      .filter((to) => to.id !== from.id && signs.includes(to.sign))
+      .map((to): GrahaAspect => {
+        const count = signDistance(from.sign, to.sign);
+        return {
+          from: from.id,
+          to: to.id,
+          symbol: String(count),
+          name: mode === 'jaimini' ? `Rashi drishti (${ordinal(count)})` : `${ordinal(count)} aspect`,
+        };
+      });
+  });
+
+  return { mode, grahaAspects, houseAspects };
+};
+
+/**
+ * Grahas sharing a sign, largest groups first
+ */
+export const calculateConjunctions = (natal: NatalChart): Conjunction[] =>
+  Array.from({ length: 12 }, (_, sign) => natal.planets.filter((planet) => planet.sign === sign))
+    .filter((group) => group.length > 1)
+    .map((group) => ({
+      sign: group[0].sign,
+      grahas: group.map((planet) => planet.id),
+      spread:
+        Math.max(...group.map((planet) => planet.longitude)) -
+        Math.min(...group.map((planet) => planet.longitude)),
+    }))
+    .sort((a, b) => b.grahas.length - a.grahas.length);
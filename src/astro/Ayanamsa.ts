@@ -0,0 +1,116 @@
+/**
+ * Corp Astro Engine - Ayanamsa
+ *
+ * Precession offset between the tropical and sidereal zodiacs.
+ * Supports the ayanamsas consultants most often match against their
+ * desktop software, plus a tropical mode with no offset.
+ * Lahiri (Chitrapaksha) is the Government of India standard and the
+ * engine default.
+ *
+ * @module Ayanamsa
+ * @version 1.1.0
+ * @since 2025
+ */
+
+import { julianCenturies } from './JulianDay';
+import { precessionSinceJ2000 } from './Ephemeris';
+import { normalizeDegrees } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Supported zodiac/ayanamsa systems
+ */
+export type AyanamsaId =
+  | 'lahiri'
+  | 'raman'
+  | 'kp'
+  | 'fagan_bradley'
+  | 'true_chitra'
+  | 'tropical';
+
+/**
+ * Ayanamsa reference entry
+ */
+export interface AyanamsaInfo {
+  id: AyanamsaId;
+  /** Display name */
+  name: string;
+  /** One-line description for settings */
+  description: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Default system used when nothing is configured */
+export const DEFAULT_AYANAMSA: AyanamsaId = 'lahiri';
+
+/**
+ * Ayanamsa options in display order
+ */
+export const AYANAMSAS: AyanamsaInfo[] = [
+  { id: 'lahiri', name: 'Lahiri', description: 'Chitrapaksha, Indian national standard' },
+  { id: 'raman', name: 'Raman', description: 'B. V. Raman' },
+  { id: 'kp', name: 'KP (Krishnamurti)', description: 'Krishnamurti Paddhati' },
+  { id: 'fagan_bradley', name: 'Fagan-Bradley', description: 'Western sidereal' },
+  { id: 'true_chitra', name: 'True Chitra', description: 'Spica fixed at 0° Libra' },
+  { id: 'tropical', name: 'Tropical', description: 'Western zodiac, no ayanamsa' },
+];
+
+/**
+ * Reference epochs (Julian Day) and mean ayanamsa values at those
+ * epochs, carried to any date by general precession
+ */
+const EPOCH_AYANAMSAS: Record<'lahiri' | 'raman' | 'kp' | 'fagan_bradley', [number, number]> = {
+  lahiri: [2435553.5, 23.245524743],
+  raman: [2415020.0, 21.014444],
+  kp: [2415020.0, 22.363889],
+  fagan_bradley: [2433282.42346, 24.042044444],
+};
+
+/** Tropical longitude of Spica (Chitra) at J2000 */
+const SPICA_LONGITUDE_J2000 = 203.841356;
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+const precessionBetween = (fromJd: number, toJd: number): number =>
+  precessionSinceJ2000(julianCenturies(toJd)) - precessionSinceJ2000(julianCenturies(fromJd));
+
+/**
+ * Ayanamsa in degrees for a Julian Day and system
+ */
+export const calculateAyanamsa = (jd: number, id: AyanamsaId = DEFAULT_AYANAMSA): number => {
+  switch (id) {
+    case 'tropical':
+      return 0;
+    case 'true_chitra':
+      return SPICA_LONGITUDE_J2000 + precessionSinceJ2000(julianCenturies(jd)) - 180;
+    default: {
+      const [epoch, value] = EPOCH_AYANAMSAS[id];
+      return value + precessionBetween(epoch, jd);
+    }
+  }
+};
+
+/**
+ * Lahiri ayanamsa in degrees for a Julian Day
+ */
+export const lahiriAyanamsa = (jd: number): number => calculateAyanamsa(jd, 'lahiri');
+
+/**
+ * Look up an ayanamsa by id
+ */
+export const getAyanamsa = (id: AyanamsaId): AyanamsaInfo =>
+  AYANAMSAS.find((ayanamsa) => ayanamsa.id === id) as AyanamsaInfo;
+
+/**
+ * Convert a tropical longitude to sidereal
+ */
+export const toSidereal = (tropicalLongitude: number, ayanamsa: number): number =>
+  normalizeDegrees(tropicalLongitude - ayanamsa);
@@ -0,0 +1,180 @@
+/**
+ * Corp Astro Engine - Business Guidance
+ *
+ * DOs and DON'Ts for a company read from its incorporation chart, the way
+ * a native's transits are read:
+ * - Each transiting graha falls in a house of the company chart, and each
+ *   house stands for an area of the business (cash, contracts, launches...)
+ * - A transit with at least four of its own Ashtakavarga bindus is a DO
+ *   for that area, one with fewer is a DON'T
+ * - Today reads the fast grahas and the day's Tara; the week and month
+ *   read slower grahas at the middle of the period, and the month adds
+ *   the company's running Antardasha lord
+ *
+ * @module BusinessGuidance
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { BINDU_THRESHOLD, calculateAshtakavarga, getBinduScore, AshtakavargaPoint } from './Ashtakavarga';
+import { NatalChart, PlanetPosition } from './Chart';
+import { taraFrom } from './Compatibility';
+import { calculateNatalDashas, findRunningPeriods } from './Dasha';
+import { calculateTransits } from './Transit';
+import { GrahaId, dignityOf, ordinal } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Span the guidance covers from its start date
+ */
+export type GuidancePeriod = 'today' | 'week' | 'month';
+
+/**
+ * One DO or DON'T with the placement it comes from
+ */
+export interface GuidanceItem {
+  text: string;
+  basis: string;
+  /** House of the chart the item concerns, 1-12; none for the day's Tara */
+  house?: number;
+}
+
+/**
+ * DOs and DON'Ts for a period
+ */
+export interface BusinessGuidance {
+  period: GuidancePeriod;
+  dos: GuidanceItem[];
+  donts: GuidanceItem[];
+}
+
+/** A DO or DON'T before houses are settled; weight is how clear-cut it is */
+interface Reading {
+  kind: 'dos' | 'donts';
+  item: GuidanceItem;
+  weight: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Business area of each house 1-12, as a DO and a DON'T */
+export const HOUSE_BUSINESS_THEMES: { dos: string; donts: string }[] = [
+  { dos: 'Put the brand and founders forward', donts: 'Rebrand or change leadership' },
+  { dos: 'Chase receivables and review cash flow', donts: 'Commit cash to large outlays' },
+  { dos: 'Run marketing pushes and make outreach calls', donts: 'Rush out announcements' },
+  { dos: 'Invest in premises and infrastructure', donts: 'Move offices or sign leases' },
+  { dos: 'Pitch new ideas and creative projects', donts: 'Take speculative bets' },
+  { dos: 'Take on competitors and fill open roles', donts: 'Escalate disputes or take on debt' },
+  { dos: 'Close deals and sign agreements', donts: 'Sign major contracts or start new partnerships' },
+  { dos: 'Run audits and restructure quietly', donts: 'Take on hidden liabilities or risky investments' },
+  { dos: 'Expand into new markets and seek expert advice', donts: 'Begin legal action or distant ventures' },
+  { dos: 'Launch products and make leadership moves', donts: 'Make public commitments you cannot keep' },
+  { dos: 'Network, raise funds and set growth targets', donts: 'Spend gains before they arrive' },
+  { dos: 'Plan, research and cut waste', donts: 'Make large or overseas expenditures' },
+];
+
+/** Transiting grahas read for each period */
+const PERIOD_GRAHAS: Record<GuidancePeriod, GrahaId[]> = {
+  today: ['Mo', 'Me', 'Ve', 'Su'],
+  week: ['Su', 'Me', 'Ve', 'Ma'],
+  month: ['Ma', 'Ju', 'Sa'],
+};
+
+/** Days from the start date at which a period's transits are read */
+const PERIOD_MIDPOINT_DAYS: Record<GuidancePeriod, number> = {
+  today: 0,
+  week: 3,
+  month: 15,
+};
+
+/** Taras 1-9 that favour starting work; Vipat, Pratyak and Naidhana do not */
+const GOOD_TARAS = [2, 4, 6, 8, 9];
+const BAD_TARAS = [3, 5, 7];
+
+const TARA_NAMES = ['Janma', 'Sampat', 'Vipat', 'Kshema', 'Pratyak', 'Sadhana', 'Naidhana', 'Mitra', 'Parama Mitra'];
+
+const TARA_THEME = { dos: 'Start new work and hold key meetings', donts: 'Start new ventures or decide on the spot' };
+
+/** Clarity of the Antardasha lord's reading, against a transit's bindu margin */
+const DASHA_WEIGHT = 2;
+
+/** Houses that spoil a dasha lord's results */
+const DUSTHANAS = [6, 8, 12];
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+const houseReading = (house: number, kind: Reading['kind'], basis: string, weight: number): Reading => ({
+  kind,
+  item: { text: HOUSE_BUSINESS_THEMES[house - 1][kind], basis, house },
+  weight,
+});
+
+/** Keeps the clearest reading for each house, so a house is never both a DO and a DON'T */
+const settle = (readings: Reading[]): Omit<BusinessGuidance, 'period'> => {
+  // Ties go to the earlier reading
+  const clearer = (other: Reading, reading: Reading) =>
+    other.weight > reading.weight ||
+    (other.weight === reading.weight && readings.indexOf(other) < readings.indexOf(reading));
+  const kept = readings.filter(
+    (reading) =>
+      reading.item.house === undefined ||
+      !readings.some((other) => other.item.house === reading.item.house && clearer(other, reading))
+  );
+  return {
+    dos: kept.filter((reading) => reading.kind === 'dos').map((reading) => reading.item),
+    donts: kept.filter((reading) => reading.kind === 'donts').map((reading) => reading.item),
+  };
+};
+
+/**
+ * DOs and DON'Ts for a chart over a period starting on a date, today
+ * when omitted
+ */
+export const calculateBusinessGuidance = (
+  natal: NatalChart,
+  period: GuidancePeriod,
+  from: Date = new Date()
+): BusinessGuidance => {
+  const date = new Date(from.getTime() + PERIOD_MIDPOINT_DAYS[period] * 86400000);
+  const ashtakavarga = calculateAshtakavarga(natal);
+  const transits = calculateTransits(natal, date);
+  const readings: Reading[] = [];
+
+  PERIOD_GRAHAS[period].forEach((id) => {
+    const transit = transits.find((position) => position.id === id) as PlanetPosition;
+    const { bindus } = getBinduScore(ashtakavarga, id as AshtakavargaPoint, transit.sign);
+    const basis = `${transit.name} transits the ${ordinal(transit.house)} with ${bindus} bindus`;
+    const kind = bindus >= BINDU_THRESHOLD ? 'dos' : 'donts';
+    readings.push(houseReading(transit.house, kind, basis, Math.abs(bindus - BINDU_THRESHOLD + 0.5)));
+  });
+
+  if (period === 'today') {
+    const natalMoon = natal.planets.find((planet) => planet.id === 'Mo') as PlanetPosition;
+    const moon = transits.find((position) => position.id === 'Mo') as PlanetPosition;
+    const tara = taraFrom(natalMoon.nakshatra, moon.nakshatra);
+    const basis = `${TARA_NAMES[tara - 1]} tara from the chart's Moon`;
+    if (GOOD_TARAS.includes(tara)) readings.push({ kind: 'dos', item: { text: TARA_THEME.dos, basis }, weight: 1 });
+    if (BAD_TARAS.includes(tara)) readings.push({ kind: 'donts', item: { text: TARA_THEME.donts, basis }, weight: 1 });
+  }
+
+  if (period === 'month') {
+    const running = findRunningPeriods(calculateNatalDashas(natal, 'vimshottari', 2).mahadashas, date);
+    const antardasha = running[running.length - 1];
+    if (antardasha) {
+      const lord = natal.planets.find((planet) => planet.id === antardasha.lord) as PlanetPosition;
+      const dignity = dignityOf(lord.id, lord.sign);
+      const basis = `${lord.name} Antardasha, placed in the ${ordinal(lord.house)}`;
+      const kind = DUSTHANAS.includes(lord.house) || dignity === 'debilitated' ? 'donts' : 'dos';
+      readings.push(houseReading(lord.house, kind, basis, DASHA_WEIGHT));
+    }
+  }
+
+  return { period, ...settle(readings) };
+};
@@ -0,0 +1,187 @@
+/**
+ * Corp Astro Engine - Natal Chart
+ *
+ * Typed entry point used by the screens: takes birth date, time, place
+ * and UTC offset and returns sidereal graha positions, daily motion,
+ * retrograde flags, the Lagna and house cusps. Results are deterministic
+ * for the same input, so a chart never changes between renders.
+ *
+ * @module Chart
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { CivilDateTime, julianDayFromCivil, julianCenturies } from './JulianDay';
+import { calculateTropicalPositions, meanObliquity } from './Ephemeris';
+import { calculateAscendant, calculateMidheaven, localSiderealTime } from './Ascendant';
+import {
+  HouseCusps,
+  HouseSystemId,
+  DEFAULT_HOUSE_SYSTEM,
+  calculateHouseCusps,
+} from './Houses';
+import {
+  AyanamsaId,
+  DEFAULT_AYANAMSA,
+  calculateAyanamsa,
+  toSidereal,
+} from './Ayanamsa';
+import {
+  GrahaId,
+  getGraha,
+  signOf,
+  degreeInSign,
+  nakshatraOf,
+} from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Birth moment and place
+ */
+export interface BirthInput extends CivilDateTime {
+  /** Degrees, north positive */
+  latitude: number;
+  /** Degrees, east positive */
+  longitude: number;
+}
+
+/**
+ * Calculation preferences shared by every chart-producing module
+ */
+export interface ChartOptions {
+  /** Zodiac/ayanamsa system, Lahiri when omitted */
+  ayanamsa?: AyanamsaId;
+  /** House system for cusps and Bhava Chalit, Placidus when omitted */
+  houseSystem?: HouseSystemId;
+}
+
+/**
+ * A sidereal point placed in sign and nakshatra
+ */
+export interface ZodiacPoint {
+  /** Sidereal longitude 0-360 */
+  longitude: number;
+  /** Tropical longitude 0-360 */
+  tropicalLongitude: number;
+  /** Sign index 0-11 */
+  sign: number;
+  /** Degrees within the sign 0-30 */
+  degreeInSign: number;
+  /** Nakshatra index 0-26 */
+  nakshatra: number;
+  /** Nakshatra pada 1-4 */
+  pada: number;
+}
+
+/**
+ * Sidereal graha position
+ */
+export interface PlanetPosition extends ZodiacPoint {
+  id: GrahaId;
+  name: string;
+  /** Ecliptic latitude in degrees */
+  latitude: number;
+  /** Daily motion in degrees/day */
+  speed: number;
+  isRetrograde: boolean;
+  /** Whole-sign house counted from the Lagna, 1-12 */
+  house: number;
+}
+
+/**
+ * Complete natal chart
+ */
+export interface NatalChart {
+  input: BirthInput;
+  /** Universal Time Julian Day of birth */
+  julianDay: number;
+  /** Ayanamsa system used */
+  ayanamsaId: AyanamsaId;
+  /** Ayanamsa applied, in degrees */
+  ayanamsa: number;
+  ascendant: ZodiacPoint;
+  midheaven: ZodiacPoint;
+  /** Sidereal house cusps in the chosen system */
+  houses: HouseCusps;
+  planets: PlanetPosition[];
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Place a tropical longitude in the sidereal zodiac
+ */
+export const toZodiacPoint = (tropicalLongitude: number, ayanamsa: number): ZodiacPoint => {
+  const longitude = toSidereal(tropicalLongitude, ayanamsa);
+  const { index, pada } = nakshatraOf(longitude);
+  return {
+    longitude,
+    tropicalLongitude,
+    sign: signOf(longitude),
+    degreeInSign: degreeInSign(longitude),
+    nakshatra: index,
+    pada,
+  };
+};
+
+/**
+ * Sidereal graha positions for any moment. Houses are counted from
+ * `lagnaSign` when given, otherwise from Aries.
+ */
+export const calculatePlanetPositions = (
+  jdUT: number,
+  lagnaSign: number = 0,
+  options: ChartOptions = {}
+): PlanetPosition[] => {
+  const ayanamsa = calculateAyanamsa(jdUT, options.ayanamsa ?? DEFAULT_AYANAMSA);
+  return calculateTropicalPositions(jdUT).map((tropical) => {
+    const point = toZodiacPoint(tropical.longitude, ayanamsa);
+    return {
+      ...point,
+      id: tropical.id,
+      name: getGraha(tropical.id).name,
+      latitude: tropical.latitude,
+      speed: tropical.speed,
+      isRetrograde: tropical.speed < 0,
+      house: ((point.sign - lagnaSign + 12) % 12) + 1,
+    };
+  });
+};
+
+/**
+ * Cast a natal chart for a birth moment and place
+ */
+export const castChart = (input: BirthInput, options: ChartOptions = {}): NatalChart => {
+  const ayanamsaId = options.ayanamsa ?? DEFAULT_AYANAMSA;
+  const julianDay = julianDayFromCivil(input);
+  const ayanamsa = calculateAyanamsa(julianDay, ayanamsaId);
+  const ascendant = toZodiacPoint(
+    calculateAscendant(julianDay, input.latitude, input.longitude),
+    ayanamsa
+  );
+  const midheaven = toZodiacPoint(calculateMidheaven(julianDay, input.longitude), ayanamsa);
+  const houseSystem = options.houseSystem ?? DEFAULT_HOUSE_SYSTEM;
+  const cusps = calculateHouseCusps(
+    localSiderealTime(julianDay, input.longitude),
+    input.latitude,
+    meanObliquity(julianCenturies(julianDay)),
+    houseSystem,
+    ayanamsa
+  );
+
+  return {
+    input,
+    julianDay,
+    ayanamsaId,
+    ayanamsa,
+    ascendant,
+    midheaven,
+    houses: { system: houseSystem, cusps },
+    planets: calculatePlanetPositions(julianDay, ascendant.sign, { ayanamsa: ayanamsaId }),
+  };
+};
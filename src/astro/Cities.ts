@@ -0,0 +1,366 @@
+/**
+ * Corp Astro Engine - City Database
+ *
+ * Offline birthplace reference: Indian cities down to district towns,
+ * plus the cities abroad where most of our clients were born or live.
+ * Coordinates are to two decimals (about a kilometre), enough for the
+ * ascendant to within a few seconds of arc. Former and alternative
+ * names are kept as aliases so 'Bombay' finds Mumbai.
+ *
+ * @module Cities
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { TimeZoneId } from './TimeZones';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A birthplace
+ */
+export interface Place {
+  name: string;
+  /** State, province or region */
+  state: string;
+  country: string;
+  /** Degrees, north positive */
+  latitude: number;
+  /** Degrees, east positive */
+  longitude: number;
+  zone: TimeZoneId;
+  /** Former or alternative names matched by search */
+  aliases?: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const india = (
+  name: string,
+  state: string,
+  latitude: number,
+  longitude: number,
+  aliases?: string[]
+): Place => ({ name, state, country: 'India', latitude, longitude, zone: 'Asia/Kolkata', aliases });
+
+const abroad = (
+  name: string,
+  state: string,
+  country: string,
+  latitude: number,
+  longitude: number,
+  zone: TimeZoneId,
+  aliases?: string[]
+): Place => ({ name, state, country, latitude, longitude, zone, aliases });
+
+export const CITIES: Place[] = [
+  // Andhra Pradesh
+  india('Visakhapatnam', 'Andhra Pradesh', 17.69, 83.22, ['Vizag', 'Waltair']),
+  india('Vijayawada', 'Andhra Pradesh', 16.51, 80.65, ['Bezawada']),
+  india('Guntur', 'Andhra Pradesh', 16.31, 80.44),
+  india('Tirupati', 'Andhra Pradesh', 13.63, 79.42),
+  india('Nellore', 'Andhra Pradesh', 14.44, 79.99),
+  india('Kurnool', 'Andhra Pradesh', 15.83, 78.04),
+  india('Kakinada', 'Andhra Pradesh', 16.99, 82.25, ['Cocanada']),
+  india('Rajahmundry', 'Andhra Pradesh', 17.0, 81.8, ['Rajamahendravaram']),
+  india('Anantapur', 'Andhra Pradesh', 14.68, 77.6),
+  india('Amaravati', 'Andhra Pradesh', 16.51, 80.52),
+  // Arunachal Pradesh
+  india('Itanagar', 'Arunachal Pradesh', 27.08, 93.61),
+  // Assam
+  india('Guwahati', 'Assam', 26.14, 91.74, ['Gauhati']),
+  india('Dispur', 'Assam', 26.14, 91.79),
+  india('Dibrugarh', 'Assam', 27.47, 94.91),
+  india('Silchar', 'Assam', 24.83, 92.78),
+  india('Jorhat', 'Assam', 26.75, 94.2),
+  // Bihar
+  india('Patna', 'Bihar', 25.59, 85.14),
+  india('Gaya', 'Bihar', 24.79, 85.0),
+  india('Bhagalpur', 'Bihar', 25.24, 86.97),
+  india('Muzaffarpur', 'Bihar', 26.12, 85.39),
+  india('Darbhanga', 'Bihar', 26.15, 85.9),
+  // Chhattisgarh
+  india('Raipur', 'Chhattisgarh', 21.25, 81.63),
+  india('Bhilai', 'Chhattisgarh', 21.21, 81.38),
+  india('Bilaspur', 'Chhattisgarh', 22.08, 82.15),
+  // Goa
+  india('Panaji', 'Goa', 15.5, 73.83, ['Panjim']),
+  india('Margao', 'Goa', 15.27, 73.96, ['Madgaon']),
+  india('Vasco da Gama', 'Goa', 15.4, 73.81),
+  // Gujarat
+  india('Ahmedabad', 'Gujarat', 23.02, 72.57, ['Amdavad']),
+  india('Surat', 'Gujarat', 21.17, 72.83),
+  india('Vadodara', 'Gujarat', 22.31, 73.18, ['Baroda']),
+  india('Rajkot', 'Gujarat', 22.3, 70.8),
+  india('Gandhinagar', 'Gujarat', 23.22, 72.64),
+  india('Bhavnagar', 'Gujarat', 21.76, 72.15),
+  india('Jamnagar', 'Gujarat', 22.47, 70.06),
+  india('Junagadh', 'Gujarat', 21.52, 70.46),
+  india('Anand', 'Gujarat', 22.56, 72.95),
+  india('Bhuj', 'Gujarat', 23.24, 69.67),
+  india('Dwarka', 'Gujarat', 22.24, 68.97),
+  // Haryana
+  india('Gurugram', 'Haryana', 28.46, 77.03, ['Gurgaon']),
+  india('Faridabad', 'Haryana', 28.41, 77.32),
+  india('Panipat', 'Haryana', 29.39, 76.97),
+  india('Ambala', 'Haryana', 30.38, 76.78),
+  india('Hisar', 'Haryana', 29.15, 75.72, ['Hissar']),
+  india('Rohtak', 'Haryana', 28.9, 76.61),
+  india('Karnal', 'Haryana', 29.69, 76.99),
+  india('Kurukshetra', 'Haryana', 29.97, 76.88),
+  // Himachal Pradesh
+  india('Shimla', 'Himachal Pradesh', 31.1, 77.17, ['Simla']),
+  india('Dharamshala', 'Himachal Pradesh', 32.22, 76.32, ['Dharamsala']),
+  india('Manali', 'Himachal Pradesh', 32.24, 77.19),
+  india('Mandi', 'Himachal Pradesh', 31.71, 76.93),
+  // Jharkhand
+  india('Ranchi', 'Jharkhand', 23.34, 85.31),
+  india('Jamshedpur', 'Jharkhand', 22.8, 86.2, ['Tatanagar']),
+  india('Dhanbad', 'Jharkhand', 23.8, 86.43),
+  india('Bokaro', 'Jharkhand', 23.67, 86.15),
+  // Karnataka
+  india('Bengaluru', 'Karnataka', 12.97, 77.59, ['Bangalore']),
+  india('Mysuru', 'Karnataka', 12.3, 76.64, ['Mysore']),
+  india('Mangaluru', 'Karnataka', 12.91, 74.86, ['Mangalore']),
+  india('Hubballi', 'Karnataka', 15.36, 75.12, ['Hubli']),
+  india('Belagavi', 'Karnataka', 15.85, 74.5, ['Belgaum']),
+  india('Kalaburagi', 'Karnataka', 17.33, 76.83, ['Gulbarga']),
+  india('Udupi', 'Karnataka', 13.34, 74.75),
+  india('Davanagere', 'Karnataka', 14.46, 75.92),
+  india('Shivamogga', 'Karnataka', 13.93, 75.57, ['Shimoga']),
+  // Kerala
+  india('Thiruvananthapuram', 'Kerala', 8.52, 76.94, ['Trivandrum']),
+  india('Kochi', 'Kerala', 9.93, 76.27, ['Cochin', 'Ernakulam']),
+  india('Kozhikode', 'Kerala', 11.26, 75.78, ['Calicut']),
+  india('Thrissur', 'Kerala', 10.53, 76.21, ['Trichur']),
+  india('Kollam', 'Kerala', 8.89, 76.61, ['Quilon']),
+  india('Kannur', 'Kerala', 11.87, 75.37, ['Cannanore']),
+  india('Alappuzha', 'Kerala', 9.5, 76.34, ['Alleppey']),
+  india('Palakkad', 'Kerala', 10.78, 76.65, ['Palghat']),
+  india('Kottayam', 'Kerala', 9.59, 76.52),
+  // Madhya Pradesh
+  india('Bhopal', 'Madhya Pradesh', 23.26, 77.41),
+  india('Indore', 'Madhya Pradesh', 22.72, 75.86),
+  india('Gwalior', 'Madhya Pradesh', 26.22, 78.18),
+  india('Jabalpur', 'Madhya Pradesh', 23.18, 79.99, ['Jubbulpore']),
+  india('Ujjain', 'Madhya Pradesh', 23.18, 75.78),
+  india('Sagar', 'Madhya Pradesh', 23.84, 78.74, ['Saugor']),
+  india('Rewa', 'Madhya Pradesh', 24.53, 81.3),
+  // Maharashtra
+  india('Mumbai', 'Maharashtra', 19.08, 72.88, ['Bombay']),
+  india('Pune', 'Maharashtra', 18.52, 73.86, ['Poona']),
+  india('Nagpur', 'Maharashtra', 21.15, 79.09),
+  india('Nashik', 'Maharashtra', 20.0, 73.79, ['Nasik']),
+  india('Chhatrapati Sambhajinagar', 'Maharashtra', 19.88, 75.34, ['Aurangabad']),
+  india('Thane', 'Maharashtra', 19.22, 72.98, ['Thana']),
+  india('Navi Mumbai', 'Maharashtra', 19.03, 73.03, ['New Bombay']),
+  india('Solapur', 'Maharashtra', 17.66, 75.91, ['Sholapur']),
+  india('Kolhapur', 'Maharashtra', 16.7, 74.24),
+  india('Amravati', 'Maharashtra', 20.93, 77.75),
+  india('Nanded', 'Maharashtra', 19.14, 77.32),
+  india('Sangli', 'Maharashtra', 16.85, 74.58),
+  india('Jalgaon', 'Maharashtra', 21.0, 75.56),
+  india('Akola', 'Maharashtra', 20.7, 77.0),
+  india('Latur', 'Maharashtra', 18.41, 76.56),
+  india('Ahilyanagar', 'Maharashtra', 19.09, 74.74, ['Ahmednagar']),
+  india('Satara', 'Maharashtra', 17.68, 74.0),
+  india('Ratnagiri', 'Maharashtra', 16.99, 73.3),
+  // North-east
+  india('Imphal', 'Manipur', 24.82, 93.94),
+  india('Shillong', 'Meghalaya', 25.58, 91.89),
+  india('Aizawl', 'Mizoram', 23.73, 92.72),
+  india('Kohima', 'Nagaland', 25.67, 94.11),
+  india('Dimapur', 'Nagaland', 25.91, 93.73),
+  india('Agartala', 'Tripura', 23.83, 91.29),
+  india('Gangtok', 'Sikkim', 27.33, 88.61),
+  // Odisha
+  india('Bhubaneswar', 'Odisha', 20.3, 85.82),
+  india('Cuttack', 'Odisha', 20.46, 85.88),
+  india('Rourkela', 'Odisha', 22.26, 84.85),
+  india('Puri', 'Odisha', 19.81, 85.83),
+  india('Berhampur', 'Odisha', 19.31, 84.79, ['Brahmapur']),
+  india('Sambalpur', 'Odisha', 21.47, 83.97),
+  // Punjab
+  india('Ludhiana', 'Punjab', 30.9, 75.86),
+  india('Amritsar', 'Punjab', 31.63, 74.87),
+  india('Jalandhar', 'Punjab', 31.33, 75.58, ['Jullundur']),
+  india('Patiala', 'Punjab', 30.34, 76.39),
+  india('Bathinda', 'Punjab', 30.21, 74.95, ['Bhatinda']),
+  india('Mohali', 'Punjab', 30.7, 76.72, ['Sahibzada Ajit Singh Nagar']),
+  // Rajasthan
+  india('Jaipur', 'Rajasthan', 26.91, 75.79),
+  india('Jodhpur', 'Rajasthan', 26.24, 73.02),
+  india('Udaipur', 'Rajasthan', 24.59, 73.71),
+  india('Kota', 'Rajasthan', 25.21, 75.86),
+  india('Ajmer', 'Rajasthan', 26.45, 74.64),
+  india('Bikaner', 'Rajasthan', 28.02, 73.31),
+  india('Alwar', 'Rajasthan', 27.55, 76.63),
+  india('Bhilwara', 'Rajasthan', 25.35, 74.63),
+  india('Jaisalmer', 'Rajasthan', 26.92, 70.91),
+  india('Pushkar', 'Rajasthan', 26.49, 74.55),
+  // Tamil Nadu
+  india('Chennai', 'Tamil Nadu', 13.08, 80.27, ['Madras']),
+  india('Coimbatore', 'Tamil Nadu', 11.02, 76.96, ['Kovai']),
+  india('Madurai', 'Tamil Nadu', 9.93, 78.12),
+  india('Tiruchirappalli', 'Tamil Nadu', 10.79, 78.7, ['Trichy', 'Trichinopoly']),
+  india('Salem', 'Tamil Nadu', 11.66, 78.15),
+  india('Tirunelveli', 'Tamil Nadu', 8.71, 77.76),
+  india('Vellore', 'Tamil Nadu', 12.92, 79.13),
+  india('Erode', 'Tamil Nadu', 11.34, 77.72),
+  india('Thanjavur', 'Tamil Nadu', 10.79, 79.14, ['Tanjore']),
+  india('Tiruppur', 'Tamil Nadu', 11.11, 77.34),
+  india('Kanchipuram', 'Tamil Nadu', 12.83, 79.7, ['Conjeevaram']),
+  india('Kanyakumari', 'Tamil Nadu', 8.08, 77.55, ['Cape Comorin']),
+  india('Rameswaram', 'Tamil Nadu', 9.29, 79.31),
+  india('Udhagamandalam', 'Tamil Nadu', 11.41, 76.7, ['Ooty', 'Ootacamund']),
+  // Telangana
+  india('Hyderabad', 'Telangana', 17.39, 78.49),
+  india('Secunderabad', 'Telangana', 17.44, 78.5),
+  india('Warangal', 'Telangana', 17.97, 79.59),
+  india('Karimnagar', 'Telangana', 18.44, 79.13),
+  india('Nizamabad', 'Telangana', 18.67, 78.09),
+  india('Khammam', 'Telangana', 17.25, 80.15),
+  // Uttar Pradesh
+  india('Lucknow', 'Uttar Pradesh', 26.85, 80.95),
+  india('Kanpur', 'Uttar Pradesh', 26.45, 80.33, ['Cawnpore']),
+  india('Varanasi', 'Uttar Pradesh', 25.32, 82.97, ['Benares', 'Banaras', 'Kashi']),
+  india('Prayagraj', 'Uttar Pradesh', 25.44, 81.85, ['Allahabad']),
+  india('Agra', 'Uttar Pradesh', 27.18, 78.01),
+  india('Mathura', 'Uttar Pradesh', 27.49, 77.67),
+  india('Vrindavan', 'Uttar Pradesh', 27.58, 77.7, ['Brindavan']),
+  india('Ayodhya', 'Uttar Pradesh', 26.8, 82.2, ['Faizabad']),
+  india('Ghaziabad', 'Uttar Pradesh', 28.67, 77.45),
+  india('Noida', 'Uttar Pradesh', 28.54, 77.39),
+  india('Meerut', 'Uttar Pradesh', 28.98, 77.71),
+  india('Aligarh', 'Uttar Pradesh', 27.88, 78.08),
+  india('Bareilly', 'Uttar Pradesh', 28.37, 79.43),
+  india('Moradabad', 'Uttar Pradesh', 28.84, 78.77),
+  india('Gorakhpur', 'Uttar Pradesh', 26.76, 83.37),
+  india('Jhansi', 'Uttar Pradesh', 25.45, 78.57),
+  india('Saharanpur', 'Uttar Pradesh', 29.96, 77.55),
+  // Uttarakhand
+  india('Dehradun', 'Uttarakhand', 30.32, 78.03),
+  india('Haridwar', 'Uttarakhand', 29.95, 78.16, ['Hardwar']),
+  india('Rishikesh', 'Uttarakhand', 30.09, 78.27),
+  india('Nainital', 'Uttarakhand', 29.38, 79.46),
+  india('Haldwani', 'Uttarakhand', 29.22, 79.51),
+  // West Bengal
+  india('Kolkata', 'West Bengal', 22.57, 88.36, ['Calcutta']),
+  india('Howrah', 'West Bengal', 22.59, 88.26),
+  india('Durgapur', 'West Bengal', 23.52, 87.31),
+  india('Asansol', 'West Bengal', 23.68, 86.98),
+  india('Siliguri', 'West Bengal', 26.73, 88.4),
+  india('Darjeeling', 'West Bengal', 27.04, 88.26),
+  india('Kharagpur', 'West Bengal', 22.35, 87.23),
+  india('Bardhaman', 'West Bengal', 23.23, 87.86, ['Burdwan']),
+  // Union territories
+  india('New Delhi', 'Delhi', 28.61, 77.21, ['Delhi']),
+  india('Chandigarh', 'Chandigarh', 30.73, 76.78),
+  india('Srinagar', 'Jammu and Kashmir', 34.08, 74.8),
+  india('Jammu', 'Jammu and Kashmir', 32.73, 74.86),
+  india('Leh', 'Ladakh', 34.16, 77.58),
+  india('Puducherry', 'Puducherry', 11.94, 79.81, ['Pondicherry']),
+  india('Port Blair', 'Andaman and Nicobar Islands', 11.62, 92.73, ['Sri Vijaya Puram']),
+  india('Daman', 'Dadra and Nagar Haveli and Daman and Diu', 20.4, 72.83),
+  india('Kavaratti', 'Lakshadweep', 10.57, 72.64),
+
+  // South Asia
+  abroad('Karachi', 'Sindh', 'Pakistan', 24.86, 67.01, 'Asia/Karachi'),
+  abroad('Lahore', 'Punjab', 'Pakistan', 31.55, 74.34, 'Asia/Karachi'),
+  abroad('Islamabad', 'Islamabad Capital Territory', 'Pakistan', 33.68, 73.05, 'Asia/Karachi'),
+  abroad('Dhaka', 'Dhaka', 'Bangladesh', 23.81, 90.41, 'Asia/Dhaka', ['Dacca']),
+  abroad('Chattogram', 'Chattogram', 'Bangladesh', 22.36, 91.78, 'Asia/Dhaka', ['Chittagong']),
+  abroad('Kathmandu', 'Bagmati', 'Nepal', 27.72, 85.32, 'Asia/Kathmandu'),
+  abroad('Pokhara', 'Gandaki', 'Nepal', 28.21, 83.99, 'Asia/Kathmandu'),
+  abroad('Colombo', 'Western', 'Sri Lanka', 6.93, 79.86, 'Asia/Colombo'),
+  abroad('Kandy', 'Central', 'Sri Lanka', 7.29, 80.63, 'Asia/Colombo'),
+  abroad('Thimphu', 'Thimphu', 'Bhutan', 27.47, 89.64, 'Asia/Thimphu'),
+  // Gulf
+  abroad('Dubai', 'Dubai', 'United Arab Emirates', 25.2, 55.27, 'Asia/Dubai'),
+  abroad('Abu Dhabi', 'Abu Dhabi', 'United Arab Emirates', 24.45, 54.38, 'Asia/Dubai'),
+  abroad('Sharjah', 'Sharjah', 'United Arab Emirates', 25.35, 55.42, 'Asia/Dubai'),
+  abroad('Muscat', 'Muscat', 'Oman', 23.59, 58.41, 'Asia/Muscat'),
+  abroad('Riyadh', 'Riyadh', 'Saudi Arabia', 24.71, 46.68, 'Asia/Riyadh'),
+  abroad('Jeddah', 'Makkah', 'Saudi Arabia', 21.49, 39.19, 'Asia/Riyadh'),
+  abroad('Doha', 'Doha', 'Qatar', 25.29, 51.53, 'Asia/Qatar'),
+  abroad('Manama', 'Capital', 'Bahrain', 26.23, 50.59, 'Asia/Bahrain'),
+  abroad('Kuwait City', 'Al Asimah', 'Kuwait', 29.38, 47.99, 'Asia/Kuwait'),
+  // East and South-east Asia
+  abroad('Singapore', 'Singapore', 'Singapore', 1.35, 103.82, 'Asia/Singapore'),
+  abroad('Kuala Lumpur', 'Federal Territory', 'Malaysia', 3.14, 101.69, 'Asia/Kuala_Lumpur'),
+  abroad('Bangkok', 'Bangkok', 'Thailand', 13.76, 100.5, 'Asia/Bangkok'),
+  abroad('Jakarta', 'Jakarta', 'Indonesia', -6.21, 106.85, 'Asia/Jakarta', ['Batavia']),
+  abroad('Hong Kong', 'Hong Kong', 'China', 22.32, 114.17, 'Asia/Hong_Kong'),
+  abroad('Shanghai', 'Shanghai', 'China', 31.23, 121.47, 'Asia/Shanghai'),
+  abroad('Beijing', 'Beijing', 'China', 39.9, 116.41, 'Asia/Shanghai', ['Peking']),
+  abroad('Tokyo', 'Tokyo', 'Japan', 35.68, 139.69, 'Asia/Tokyo'),
+  abroad('Seoul', 'Seoul', 'South Korea', 37.57, 126.98, 'Asia/Seoul'),
+  abroad('Manila', 'Metro Manila', 'Philippines', 14.6, 120.98, 'Asia/Manila'),
+  // Africa and the Indian Ocean
+  abroad('Port Louis', 'Port Louis', 'Mauritius', -20.16, 57.5, 'Indian/Mauritius'),
+  abroad('Johannesburg', 'Gauteng', 'South Africa', -26.2, 28.05, 'Africa/Johannesburg'),
+  abroad('Durban', 'KwaZulu-Natal', 'South Africa', -29.86, 31.02, 'Africa/Johannesburg'),
+  abroad('Cape Town', 'Western Cape', 'South Africa', -33.92, 18.42, 'Africa/Johannesburg'),
+  abroad('Nairobi', 'Nairobi', 'Kenya', -1.29, 36.82, 'Africa/Nairobi'),
+  abroad('Lagos', 'Lagos', 'Nigeria', 6.52, 3.38, 'Africa/Lagos'),
+  // Europe
+  abroad('London', 'England', 'United Kingdom', 51.51, -0.13, 'Europe/London'),
+  abroad('Birmingham', 'England', 'United Kingdom', 52.49, -1.89, 'Europe/London'),
+  abroad('Manchester', 'England', 'United Kingdom', 53.48, -2.24, 'Europe/London'),
+  abroad('Leicester', 'England', 'United Kingdom', 52.64, -1.13, 'Europe/London'),
+  abroad('Edinburgh', 'Scotland', 'United Kingdom', 55.95, -3.19, 'Europe/London'),
+  abroad('Glasgow', 'Scotland', 'United Kingdom', 55.86, -4.25, 'Europe/London'),
+  abroad('Dublin', 'Leinster', 'Ireland', 53.35, -6.26, 'Europe/Dublin'),
+  abroad('Paris', 'Île-de-France', 'France', 48.86, 2.35, 'Europe/Paris'),
+  abroad('Berlin', 'Berlin', 'Germany', 52.52, 13.41, 'Europe/Berlin'),
+  abroad('Frankfurt', 'Hesse', 'Germany', 50.11, 8.68, 'Europe/Berlin'),
+  abroad('Munich', 'Bavaria', 'Germany', 48.14, 11.58, 'Europe/Berlin', ['München']),
+  abroad('Amsterdam', 'North Holland', 'Netherlands', 52.37, 4.9, 'Europe/Amsterdam'),
+  abroad('Zurich', 'Zurich', 'Switzerland', 47.38, 8.54, 'Europe/Zurich', ['Zürich']),
+  abroad('Geneva', 'Geneva', 'Switzerland', 46.2, 6.15, 'Europe/Zurich'),
+  abroad('Rome', 'Lazio', 'Italy', 41.9, 12.5, 'Europe/Rome'),
+  abroad('Milan', 'Lombardy', 'Italy', 45.46, 9.19, 'Europe/Rome'),
+  abroad('Madrid', 'Madrid', 'Spain', 40.42, -3.7, 'Europe/Madrid'),
+  abroad('Barcelona', 'Catalonia', 'Spain', 41.39, 2.17, 'Europe/Madrid'),
+  abroad('Moscow', 'Moscow', 'Russia', 55.76, 37.62, 'Europe/Moscow'),
+  // North America
+  abroad('New York', 'New York', 'United States', 40.71, -74.01, 'America/New_York'),
+  abroad('Jersey City', 'New Jersey', 'United States', 40.73, -74.08, 'America/New_York'),
+  abroad('Edison', 'New Jersey', 'United States', 40.52, -74.41, 'America/New_York'),
+  abroad('Boston', 'Massachusetts', 'United States', 42.36, -71.06, 'America/New_York'),
+  abroad('Philadelphia', 'Pennsylvania', 'United States', 39.95, -75.17, 'America/New_York'),
+  abroad('Washington', 'District of Columbia', 'United States', 38.91, -77.04, 'America/New_York'),
+  abroad('Atlanta', 'Georgia', 'United States', 33.75, -84.39, 'America/New_York'),
+  abroad('Miami', 'Florida', 'United States', 25.76, -80.19, 'America/New_York'),
+  abroad('Raleigh', 'North Carolina', 'United States', 35.78, -78.64, 'America/New_York'),
+  abroad('Chicago', 'Illinois', 'United States', 41.88, -87.63, 'America/Chicago'),
+  abroad('Houston', 'Texas', 'United States', 29.76, -95.37, 'America/Chicago'),
+  abroad('Dallas', 'Texas', 'United States', 32.78, -96.8, 'America/Chicago'),
+  abroad('Austin', 'Texas', 'United States', 30.27, -97.74, 'America/Chicago'),
+  abroad('Denver', 'Colorado', 'United States', 39.74, -104.99, 'America/Denver'),
+  abroad('Phoenix', 'Arizona', 'United States', 33.45, -112.07, 'America/Phoenix'),
+  abroad('Los Angeles', 'California', 'United States', 34.05, -118.24, 'America/Los_Angeles'),
+  abroad('San Francisco', 'California', 'United States', 37.77, -122.42, 'America/Los_Angeles'),
+  abroad('San Jose', 'California', 'United States', 37.34, -121.89, 'America/Los_Angeles'),
+  abroad('Seattle', 'Washington', 'United States', 47.61, -122.33, 'America/Los_Angeles'),
+  abroad('Toronto', 'Ontario', 'Canada', 43.65, -79.38, 'America/Toronto'),
+  abroad('Brampton', 'Ontario', 'Canada', 43.73, -79.76, 'America/Toronto'),
+  abroad('Ottawa', 'Ontario', 'Canada', 45.42, -75.7, 'America/Toronto'),
+  abroad('Montreal', 'Quebec', 'Canada', 45.5, -73.57, 'America/Toronto', ['Montréal']),
+  abroad('Vancouver', 'British Columbia', 'Canada', 49.28, -123.12, 'America/Vancouver'),
+  abroad('Calgary', 'Alberta', 'Canada', 51.05, -114.07, 'America/Edmonton'),
+  abroad('Mexico City', 'Mexico City', 'Mexico', 19.43, -99.13, 'America/Mexico_City'),
+  abroad('Port of Spain', 'Port of Spain', 'Trinidad and Tobago', 10.65, -61.51, 'America/Port_of_Spain'),
+  // Oceania
+  abroad('Sydney', 'New South Wales', 'Australia', -33.87, 151.21, 'Australia/Sydney'),
+  abroad('Melbourne', 'Victoria', 'Australia', -37.81, 144.96, 'Australia/Melbourne'),
+  abroad('Brisbane', 'Queensland', 'Australia', -27.47, 153.03, 'Australia/Brisbane'),
+  abroad('Perth', 'Western Australia', 'Australia', -31.95, 115.86, 'Australia/Perth'),
+  abroad('Auckland', 'Auckland', 'New Zealand', -36.85, 174.76, 'Pacific/Auckland'),
+  abroad('Wellington', 'Wellington', 'New Zealand', -41.29, 174.78, 'Pacific/Auckland'),
+  abroad('Suva', 'Central', 'Fiji', -18.14, 178.44, 'Pacific/Fiji'),
+];
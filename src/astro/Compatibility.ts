@@ -0,0 +1,420 @@
+/**
+ * Corp Astro Engine - Ashtakoota (Guna Milan) Matching
+ *
+ * The 36-point marriage match read from the Moon of each chart:
+ * Varna 1, Vashya 2, Tara 3, Yoni 4, Graha Maitri 5, Gana 6, Bhakoot 7
+ * and Nadi 8. Varna, Vashya and Gana are read from the groom to the
+ * bride, as the classical tables are.
+ *
+ * Nadi, Bhakoot and Gana doshas are checked against the common
+ * cancellation rules; a cancelled dosha restores that koota's points in
+ * the adjusted total. Mangal dosha is compared from the Lagna and the
+ * Moon: it is matched when both partners have it or neither does.
+ *
+ * @module Compatibility
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart, PlanetPosition } from './Chart';
+import { GrahaId, NAKSHATRAS, SIGNS, dignityOf, getGraha, naturalRelation, signDistance } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * The eight kootas
+ */
+export type KootaId =
+  | 'varna'
+  | 'vashya'
+  | 'tara'
+  | 'yoni'
+  | 'graha_maitri'
+  | 'gana'
+  | 'bhakoot'
+  | 'nadi';
+
+/**
+ * Overall reading of the adjusted total
+ */
+export type MatchVerdict = 'excellent' | 'good' | 'average' | 'not_recommended';
+
+/**
+ * Koota reference entry
+ */
+export interface KootaInfo {
+  id: KootaId;
+  name: string;
+  maxPoints: number;
+  /** What the koota measures */
+  description: string;
+}
+
+/**
+ * One koota scored for a couple
+ */
+export interface KootaScore {
+  id: KootaId;
+  name: string;
+  maxPoints: number;
+  points: number;
+  /** The groom's attribute, e.g. 'Deva' for Gana */
+  groom: string;
+  bride: string;
+  /** Set for kootas whose zero score is a named dosha */
+  dosha?: {
+    name: string;
+    cancelled: boolean;
+    /** Why the dosha is cancelled */
+    reason?: string;
+  };
+}
+
+/**
+ * Mangal dosha in one chart
+ */
+export interface MangalStatus {
+  fromLagna: boolean;
+  fromMoon: boolean;
+  present: boolean;
+}
+
+/**
+ * Mangal dosha of both partners
+ */
+export interface MangalComparison {
+  groom: MangalStatus;
+  bride: MangalStatus;
+  /** Both have it or neither does */
+  matched: boolean;
+  description: string;
+}
+
+/**
+ * Ashtakoota match between a groom and a bride
+ */
+export interface AshtakootaResult {
+  kootas: KootaScore[];
+  /** Points scored, out of 36 */
+  total: number;
+  /** Total with cancelled doshas' points restored */
+  adjustedTotal: number;
+  maxTotal: number;
+  verdict: MatchVerdict;
+  mangal: MangalComparison;
+}
+
+/** Moon placement the kootas are read from */
+interface MoonInfo {
+  sign: number;
+  nakshatra: number;
+  pada: number;
+  degreeInSign: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const KOOTAS: KootaInfo[] = [
+  { id: 'varna', name: 'Varna', maxPoints: 1, description: 'Spiritual temperament and ego' },
+  { id: 'vashya', name: 'Vashya', maxPoints: 2, description: 'Mutual attraction and influence' },
+  { id: 'tara', name: 'Tara', maxPoints: 3, description: 'Health and wellbeing through the birth stars' },
+  { id: 'yoni', name: 'Yoni', maxPoints: 4, description: 'Physical and intimate compatibility' },
+  { id: 'graha_maitri', name: 'Graha Maitri', maxPoints: 5, description: 'Friendship of the Moon sign lords' },
+  { id: 'gana', name: 'Gana', maxPoints: 6, description: 'Temperament: divine, human or demonic' },
+  { id: 'bhakoot', name: 'Bhakoot', maxPoints: 7, description: 'Family welfare and prosperity' },
+  { id: 'nadi', name: 'Nadi', maxPoints: 8, description: 'Health and progeny' },
+];
+
+export const ASHTAKOOTA_MAX = 36;
+
+/** Adjusted totals at or above which each verdict applies */
+export const MATCH_VERDICTS: { id: MatchVerdict; name: string; minPoints: number }[] = [
+  { id: 'excellent', name: 'Excellent match', minPoints: 28 },
+  { id: 'good', name: 'Good match', minPoints: 24 },
+  { id: 'average', name: 'Acceptable match', minPoints: 18 },
+  { id: 'not_recommended', name: 'Not recommended', minPoints: 0 },
+];
+
+/** Varna by Moon sign: 3 Brahmin, 2 Kshatriya, 1 Vaishya, 0 Shudra */
+const SIGN_VARNA = [2, 1, 0, 3, 2, 1, 0, 3, 2, 1, 0, 3];
+const VARNA_NAMES = ['Shudra', 'Vaishya', 'Kshatriya', 'Brahmin'];
+
+/** Vashya groups */
+const VASHYA_NAMES = ['Chatushpada', 'Manava', 'Jalachara', 'Vanachara', 'Keeta'];
+
+/** Vashya group by Moon sign; Sagittarius and Capricorn change at 15° */
+const SIGN_VASHYA: [number, number][] = [
+  [0, 0], [0, 0], [1, 1], [2, 2], [3, 3], [1, 1],
+  [1, 1], [4, 4], [1, 0], [0, 2], [1, 1], [2, 2],
+];
+
+/** Vashya points, groom's group by row */
+const VASHYA_POINTS = [
+  [2, 1, 1, 0.5, 1],
+  [1, 2, 0.5, 0, 1],
+  [1, 0.5, 2, 1, 1],
+  [0.5, 0, 1, 2, 0],
+  [1, 1, 1, 0, 2],
+];
+
+/** Taras counted from the other's star that harm: Vipat, Pratyak, Naidhana */
+const BAD_TARAS = [3, 5, 7];
+
+const YONI_NAMES = [
+  'Horse', 'Elephant', 'Sheep', 'Serpent', 'Dog', 'Cat', 'Rat',
+  'Cow', 'Buffalo', 'Tiger', 'Deer', 'Monkey', 'Mongoose', 'Lion',
+];
+
+/** Yoni animal by nakshatra */
+const NAKSHATRA_YONI = [
+  0, 1, 2, 3, 3, 4, 5, 2, 5, 6, 6, 7, 8, 9,
+  8, 9, 10, 10, 4, 11, 12, 11, 13, 0, 13, 7, 1,
+];
+
+/** Yoni points; 0 marks sworn enemies */
+const YONI_POINTS = [
+  [4, 2, 2, 3, 2, 2, 2, 1, 0, 1, 3, 3, 2, 1],
+  [2, 4, 3, 3, 2, 2, 2, 2, 3, 1, 2, 3, 2, 0],
+  [2, 3, 4, 2, 1, 2, 1, 3, 3, 1, 2, 0, 3, 1],
+  [3, 3, 2, 4, 2, 1, 1, 1, 1, 2, 2, 2, 0, 2],
+  [2, 2, 1, 2, 4, 2, 1, 2, 2, 1, 0, 2, 1, 1],
+  [2, 2, 2, 1, 2, 4, 0, 2, 2, 1, 3, 3, 2, 1],
+  [2, 2, 1, 1, 1, 0, 4, 2, 2, 2, 2, 2, 1, 2],
+  [1, 2, 3, 1, 2, 2, 2, 4, 3, 0, 3, 2, 2, 1],
+  [0, 3, 3, 1, 2, 2, 2, 3, 4, 1, 2, 2, 2, 1],
+  [1, 1, 1, 2, 1, 1, 2, 0, 1, 4, 1, 1, 2, 1],
+  [3, 2, 2, 2, 0, 3, 2, 3, 2, 1, 4, 2, 2, 1],
+  [3, 3, 0, 2, 2, 3, 2, 2, 2, 1, 2, 4, 3, 2],
+  [2, 2, 3, 0, 1, 2, 1, 2, 2, 2, 2, 3, 4, 2],
+  [1, 0, 1, 2, 1, 1, 2, 1, 1, 1, 1, 2, 2, 4],
+];
+
+const GANA_NAMES = ['Deva', 'Manushya', 'Rakshasa'];
+
+/** Gana by nakshatra */
+const NAKSHATRA_GANA = [
+  0, 1, 2, 1, 0, 1, 0, 0, 2, 2, 1, 1, 0, 2,
+  0, 2, 0, 2, 2, 1, 1, 0, 2, 2, 1, 1, 0,
+];
+
+/** Gana points, groom's gana by row */
+const GANA_POINTS = [
+  [6, 6, 1],
+  [5, 6, 0],
+  [1, 0, 6],
+];
+
+/** Sign distances (both ways) that form Bhakoot dosha: 2/12, 5/9, 6/8 */
+const BHAKOOT_DOSHA_DISTANCES = [2, 12, 5, 9, 6, 8];
+
+const NADI_NAMES = ['Aadi', 'Madhya', 'Antya'];
+
+/** Nadi runs Aadi, Madhya, Antya, Antya, Madhya, Aadi through the nakshatras */
+const NADI_PATTERN = [0, 1, 2, 2, 1, 0];
+
+/** Houses from the Lagna or Moon where Mars gives Mangal dosha */
+const MANGAL_HOUSES = [1, 2, 4, 7, 8, 12];
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+const kootaInfo = (id: KootaId): KootaInfo => KOOTAS.find((koota) => koota.id === id) as KootaInfo;
+
+const planetOf = (natal: NatalChart, id: GrahaId): PlanetPosition =>
+  natal.planets.find((planet) => planet.id === id) as PlanetPosition;
+
+const moonOf = (natal: NatalChart): MoonInfo => {
+  const { sign, nakshatra, pada, degreeInSign } = planetOf(natal, 'Mo');
+  return { sign, nakshatra, pada, degreeInSign };
+};
+
+const score = (
+  id: KootaId,
+  points: number,
+  groom: string,
+  bride: string,
+  dosha?: KootaScore['dosha']
+): KootaScore => {
+  const { name, maxPoints } = kootaInfo(id);
+  return { id, name, maxPoints, points, groom, bride, ...(dosha ? { dosha } : {}) };
+};
+
+const vashyaOf = (moon: MoonInfo): number => SIGN_VASHYA[moon.sign][moon.degreeInSign < 15 ? 0 : 1];
+
+/**
+ * Tara (1-9) of a nakshatra counted from another
+ */
+export const taraFrom = (from: number, to: number): number => (((to - from + 27) % 27) % 9) + 1;
+
+/** Graha Maitri points for the two lords' views of each other */
+const maitriPoints = (a: GrahaId, b: GrahaId): number => {
+  if (a === b) return 5;
+  const views = [naturalRelation(a, b), naturalRelation(b, a)].sort().join('-');
+  switch (views) {
+    case 'friend-friend':
+      return 5;
+    case 'friend-neutral':
+      return 4;
+    case 'neutral-neutral':
+      return 3;
+    case 'enemy-friend':
+      return 1;
+    case 'enemy-neutral':
+      return 0.5;
+    default:
+      return 0;
+  }
+};
+
+/** Sign lords that are the same or mutual friends */
+const lordsFriendly = (a: GrahaId, b: GrahaId): boolean =>
+  a === b || (naturalRelation(a, b) === 'friend' && naturalRelation(b, a) === 'friend');
+
+/**
+ * Mangal dosha in a chart, read from the Lagna and from the Moon
+ */
+export const mangalStatus = (natal: NatalChart): MangalStatus => {
+  const mars = planetOf(natal, 'Ma');
+  const dignity = dignityOf('Ma', mars.sign);
+  const strong = dignity === 'own' || dignity === 'exalted';
+  const fromLagna = !strong && MANGAL_HOUSES.includes(mars.house);
+  const fromMoon = !strong && MANGAL_HOUSES.includes(signDistance(moonOf(natal).sign, mars.sign));
+  return { fromLagna, fromMoon, present: fromLagna || fromMoon };
+};
+
+const compareMangal = (groomChart: NatalChart, brideChart: NatalChart): MangalComparison => {
+  const groom = mangalStatus(groomChart);
+  const bride = mangalStatus(brideChart);
+  const matched = groom.present === bride.present;
+  const description = !groom.present && !bride.present
+    ? 'Neither chart has Mangal dosha'
+    : matched
+      ? 'Both charts have Mangal dosha, so it cancels out'
+      : `Only the ${groom.present ? 'groom' : 'bride'} has Mangal dosha; remedies are advised before marriage`;
+  return { groom, bride, matched, description };
+};
+
+/**
+ * Verdict for an adjusted Ashtakoota total
+ */
+export const matchVerdict = (points: number): MatchVerdict =>
+  (MATCH_VERDICTS.find((verdict) => points >= verdict.minPoints) ?? MATCH_VERDICTS[MATCH_VERDICTS.length - 1]).id;
+
+/**
+ * Ashtakoota match between a groom's and a bride's natal charts
+ */
+export const calculateAshtakoota = (groomChart: NatalChart, brideChart: NatalChart): AshtakootaResult => {
+  const groom = moonOf(groomChart);
+  const bride = moonOf(brideChart);
+  const groomLord = SIGNS[groom.sign].lord;
+  const brideLord = SIGNS[bride.sign].lord;
+
+  // Varna: the groom's varna should be equal or higher
+  const groomVarna = SIGN_VARNA[groom.sign];
+  const brideVarna = SIGN_VARNA[bride.sign];
+  const varna = score('varna', groomVarna >= brideVarna ? 1 : 0, VARNA_NAMES[groomVarna], VARNA_NAMES[brideVarna]);
+
+  const groomVashya = vashyaOf(groom);
+  const brideVashya = vashyaOf(bride);
+  const vashya = score(
+    'vashya',
+    VASHYA_POINTS[groomVashya][brideVashya],
+    VASHYA_NAMES[groomVashya],
+    VASHYA_NAMES[brideVashya]
+  );
+
+  // Tara: 1.5 points for each direction that avoids a harmful tara
+  const groomTara = taraFrom(bride.nakshatra, groom.nakshatra);
+  const brideTara = taraFrom(groom.nakshatra, bride.nakshatra);
+  const tara = score(
+    'tara',
+    [groomTara, brideTara].filter((count) => !BAD_TARAS.includes(count)).length * 1.5,
+    NAKSHATRAS[groom.nakshatra].name,
+    NAKSHATRAS[bride.nakshatra].name
+  );
+
+  const groomYoni = NAKSHATRA_YONI[groom.nakshatra];
+  const brideYoni = NAKSHATRA_YONI[bride.nakshatra];
+  const yoni = score('yoni', YONI_POINTS[groomYoni][brideYoni], YONI_NAMES[groomYoni], YONI_NAMES[brideYoni]);
+
+  const maitri = maitriPoints(groomLord, brideLord);
+  const grahaMaitri = score('graha_maitri', maitri, getGraha(groomLord).name, getGraha(brideLord).name);
+
+  const groomGana = NAKSHATRA_GANA[groom.nakshatra];
+  const brideGana = NAKSHATRA_GANA[bride.nakshatra];
+  const ganaPoints = GANA_POINTS[groomGana][brideGana];
+  const gana = score(
+    'gana',
+    ganaPoints,
+    GANA_NAMES[groomGana],
+    GANA_NAMES[brideGana],
+    ganaPoints <= 1
+      ? {
+          name: 'Gana dosha',
+          cancelled: maitri >= 4,
+          reason: maitri >= 4 ? 'The Moon sign lords are friendly' : undefined,
+        }
+      : undefined
+  );
+
+  const distance = signDistance(groom.sign, bride.sign);
+  const bhakootDosha = BHAKOOT_DOSHA_DISTANCES.includes(distance);
+  const bhakootCancelled = bhakootDosha && lordsFriendly(groomLord, brideLord);
+  const bhakoot = score(
+    'bhakoot',
+    bhakootDosha ? 0 : 7,
+    SIGNS[groom.sign].name,
+    SIGNS[bride.sign].name,
+    bhakootDosha
+      ? {
+          name: 'Bhakoot dosha',
+          cancelled: bhakootCancelled,
+          reason: bhakootCancelled
+            ? groomLord === brideLord
+              ? 'Both Moon signs share the same lord'
+              : 'The Moon sign lords are mutual friends'
+            : undefined,
+        }
+      : undefined
+  );
+
+  const groomNadi = NADI_PATTERN[groom.nakshatra % 6];
+  const brideNadi = NADI_PATTERN[bride.nakshatra % 6];
+  const nadiDosha = groomNadi === brideNadi;
+  const nadiReason =
+    groom.sign === bride.sign && groom.nakshatra !== bride.nakshatra
+      ? 'Same Moon sign with different nakshatras'
+      : groom.nakshatra === bride.nakshatra && groom.sign !== bride.sign
+        ? 'Same nakshatra falling in different Moon signs'
+        : groom.nakshatra === bride.nakshatra && groom.pada !== bride.pada
+          ? 'Same nakshatra in different padas'
+          : undefined;
+  const nadi = score(
+    'nadi',
+    nadiDosha ? 0 : 8,
+    NADI_NAMES[groomNadi],
+    NADI_NAMES[brideNadi],
+    nadiDosha ? { name: 'Nadi dosha', cancelled: !!nadiReason, reason: nadiReason } : undefined
+  );
+
+  const kootas = [varna, vashya, tara, yoni, grahaMaitri, gana, bhakoot, nadi];
+  const total = kootas.reduce((sum, koota) => sum + koota.points, 0);
+  const adjustedTotal = kootas.reduce(
+    (sum, koota) => sum + (koota.dosha?.cancelled ? koota.maxPoints : koota.points),
+    0
+  );
+
+  return {
+    kootas,
+    total,
+    adjustedTotal,
+    maxTotal: ASHTAKOOTA_MAX,
+    verdict: matchVerdict(adjustedTotal),
+    mangal: compareMangal(groomChart, brideChart),
+  };
+};
@@ -0,0 +1,241 @@
+/**
+ * Corp Astro Engine - Dasha Periods
+ *
+ * Vimshottari (120 years) and Ashtottari (108 years) planetary periods
+ * from the Moon's sidereal longitude at birth. Each Mahadasha is split
+ * into Antardashas and Pratyantardashas in proportion to the lords'
+ * years, starting from the period's own lord.
+ *
+ * Dasha years are Julian years of 365.25 days. Ashtottari follows the
+ * Parashari nakshatra groups counted from Ardra, with Abhijit folded into
+ * Saturn's group so the balance is taken over each group's arc.
+ *
+ * @module Dasha
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart } from './Chart';
+import { dateFromJulianDay, julianDayFromDate } from './JulianDay';
+import { GrahaId, NAKSHATRAS, NAKSHATRA_SPAN, normalizeDegrees } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Supported dasha systems
+ */
+export type DashaSystemId = 'vimshottari' | 'ashtottari';
+
+/**
+ * Period depth: 1 = Mahadasha, 2 = Antardasha, 3 = Pratyantardasha
+ */
+export type DashaLevel = 1 | 2 | 3;
+
+/**
+ * One dasha period with its sub-periods
+ */
+export interface DashaPeriod {
+  lord: GrahaId;
+  level: DashaLevel;
+  /** Julian Day (UT) the period begins */
+  startJd: number;
+  /** Julian Day (UT) the period ends */
+  endJd: number;
+  start: Date;
+  end: Date;
+  /** Length in years */
+  years: number;
+  /** Sub-periods, empty at the deepest level requested */
+  periods: DashaPeriod[];
+}
+
+/**
+ * Dasha system definition
+ */
+export interface DashaSystemInfo {
+  id: DashaSystemId;
+  name: string;
+  /** Full cycle in years */
+  totalYears: number;
+  /** Lords and their years in sequence */
+  sequence: [GrahaId, number][];
+}
+
+/**
+ * Dasha timeline for a birth
+ */
+export interface DashaTimeline {
+  system: DashaSystemInfo;
+  /** Lord running at birth */
+  birthLord: GrahaId;
+  /** Years of the birth Mahadasha left at birth */
+  balanceYears: number;
+  mahadashas: DashaPeriod[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Days in a dasha year */
+export const DASHA_YEAR_DAYS = 365.25;
+
+/** Names of the period levels */
+export const DASHA_LEVEL_NAMES: Record<DashaLevel, string> = {
+  1: 'Mahadasha',
+  2: 'Antardasha',
+  3: 'Pratyantardasha',
+};
+
+/**
+ * Dasha systems
+ */
+export const DASHA_SYSTEMS: Record<DashaSystemId, DashaSystemInfo> = {
+  vimshottari: {
+    id: 'vimshottari',
+    name: 'Vimshottari',
+    totalYears: 120,
+    sequence: [
+      ['Ke', 7], ['Ve', 20], ['Su', 6], ['Mo', 10], ['Ma', 7],
+      ['Ra', 18], ['Ju', 16], ['Sa', 19], ['Me', 17],
+    ],
+  },
+  ashtottari: {
+    id: 'ashtottari',
+    name: 'Ashtottari',
+    totalYears: 108,
+    sequence: [
+      ['Su', 6], ['Mo', 15], ['Ma', 8], ['Me', 17],
+      ['Sa', 10], ['Ju', 19], ['Ra', 12], ['Ve', 21],
+    ],
+  },
+};
+
+/** Nakshatras in each Ashtottari lord's group, in sequence order from Ardra */
+const ASHTOTTARI_GROUP_SIZES = [4, 3, 4, 3, 3, 3, 4, 3];
+
+/** Ardra, where the Ashtottari groups begin */
+const ASHTOTTARI_START_NAKSHATRA = 5;
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Index in the system sequence of the lord ruling a Moon longitude, and
+ * the fraction of that lord's arc still to be traversed
+ */
+const birthDashaPosition = (
+  moonLongitude: number,
+  system: DashaSystemId
+): { index: number; remaining: number } => {
+  const lon = normalizeDegrees(moonLongitude);
+
+  if (system === 'vimshottari') {
+    const nakshatra = Math.floor(lon / NAKSHATRA_SPAN);
+    const lord = NAKSHATRAS[nakshatra].lord;
+    return {
+      index: DASHA_SYSTEMS.vimshottari.sequence.findIndex(([id]) => id === lord),
+      remaining: 1 - (lon - nakshatra * NAKSHATRA_SPAN) / NAKSHATRA_SPAN,
+    };
+  }
+
+  const fromArdra = normalizeDegrees(lon - ASHTOTTARI_START_NAKSHATRA * NAKSHATRA_SPAN);
+  let groupStart = 0;
+  for (let index = 0; index < ASHTOTTARI_GROUP_SIZES.length; index++) {
+    const arc = ASHTOTTARI_GROUP_SIZES[index] * NAKSHATRA_SPAN;
+    if (fromArdra < groupStart + arc || index === ASHTOTTARI_GROUP_SIZES.length - 1) {
+      return { index, remaining: 1 - (fromArdra - groupStart) / arc };
+    }
+    groupStart += arc;
+  }
+  return { index: 0, remaining: 1 };
+};
+
+/**
+ * Split a period into sub-periods starting from its own lord
+ */
+const subdivide = (
+  system: DashaSystemInfo,
+  lordIndex: number,
+  startJd: number,
+  years: number,
+  level: DashaLevel,
+  depth: DashaLevel
+): DashaPeriod => {
+  const [lord] = system.sequence[lordIndex];
+  const endJd = startJd + years * DASHA_YEAR_DAYS;
+  const periods: DashaPeriod[] = [];
+
+  if (level < depth) {
+    let subStart = startJd;
+    for (let i = 0; i < system.sequence.length; i++) {
+      const subIndex = (lordIndex + i) % system.sequence.length;
+      const subYears = (years * system.sequence[subIndex][1]) / system.totalYears;
+      periods.push(subdivide(system, subIndex, subStart, subYears, (level + 1) as DashaLevel, depth));
+      subStart += subYears * DASHA_YEAR_DAYS;
+    }
+  }
+
+  return {
+    lord,
+    level,
+    startJd,
+    endJd,
+    start: dateFromJulianDay(startJd),
+    end: dateFromJulianDay(endJd),
+    years,
+    periods,
+  };
+};
+
+/**
+ * Dasha timeline for a Moon longitude and birth Julian Day (UT). The
+ * first Mahadasha starts before birth, by the part already elapsed;
+ * one full cycle of Mahadashas is returned.
+ */
+export const calculateDashas = (
+  moonLongitude: number,
+  birthJd: number,
+  systemId: DashaSystemId = 'vimshottari',
+  depth: DashaLevel = 3
+): DashaTimeline => {
+  const system = DASHA_SYSTEMS[systemId];
+  const { index, remaining } = birthDashaPosition(moonLongitude, systemId);
+  const [birthLord, birthYears] = system.sequence[index];
+
+  const mahadashas: DashaPeriod[] = [];
+  let startJd = birthJd - (1 - remaining) * birthYears * DASHA_YEAR_DAYS;
+  for (let i = 0; i < system.sequence.length; i++) {
+    const lordIndex = (index + i) % system.sequence.length;
+    const years = system.sequence[lordIndex][1];
+    mahadashas.push(subdivide(system, lordIndex, startJd, years, 1, depth));
+    startJd += years * DASHA_YEAR_DAYS;
+  }
+
+  return { system, birthLord, balanceYears: remaining * birthYears, mahadashas };
+};
+
+/**
+ * Dasha timeline for a natal chart
+ */
+export const calculateNatalDashas = (
+  natal: NatalChart,
+  systemId: DashaSystemId = 'vimshottari',
+  depth: DashaLevel = 3
+): DashaTimeline => {
+  const moon = natal.planets.find((planet) => planet.id === 'Mo');
+  return calculateDashas(moon?.longitude ?? 0, natal.julianDay, systemId, depth);
+};
+
+/**
+ * Chain of periods running on a date, Mahadasha first. Empty when the
+ * date is outside the timeline.
+ */
+export const findRunningPeriods = (periods: DashaPeriod[], date: Date = new Date()): DashaPeriod[] => {
+  const jd = julianDayFromDate(date);
+  const running = periods.find((period) => jd >= period.startJd && jd < period.endJd);
+  return running ? [running, ...findRunningPeriods(running.periods, date)] : [];
+};
@@ -0,0 +1,462 @@
+/**
+ * Corp Astro Engine - Planetary Ephemeris
+ *
+ * Offline geocentric positions for the nine grahas:
+ * - Sun: Meeus low-precision solar theory
+ * - Moon: Meeus/ELP truncated series (Tables 47.A and 47.B)
+ * - Mercury to Saturn: JPL Keplerian elements with secular rates, plus
+ *   fitted Jupiter-Saturn mutual perturbations
+ * - Rahu/Ketu: mean lunar node
+ *
+ * Accuracy is of the order of an arcminute for the Sun and Moon and a few
+ * arcminutes for the planets between 1800 and 2100, which is well
+ * inside the tolerance of sign, nakshatra and pada boundaries in practice.
+ * All longitudes returned here are tropical (of date); the Chart module
+ * applies the ayanamsa.
+ *
+ * @module Ephemeris
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { GrahaId, normalizeDegrees, angleDifference } from './Zodiac';
+import { julianCenturies, toTerrestrialTime } from './JulianDay';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Geocentric ecliptic position of date
+ */
+export interface EclipticPosition {
+  /** Tropical ecliptic longitude in degrees */
+  longitude: number;
+  /** Ecliptic latitude in degrees */
+  latitude: number;
+}
+
+/**
+ * Tropical position with daily motion
+ */
+export interface TropicalPlanetPosition extends EclipticPosition {
+  id: GrahaId;
+  /** Daily motion in longitude, degrees/day (negative when retrograde) */
+  speed: number;
+}
+
+interface OrbitalElements {
+  /** Semi-major axis (AU) and rate per century */
+  a: [number, number];
+  /** Eccentricity and rate */
+  e: [number, number];
+  /** Inclination (deg) and rate */
+  i: [number, number];
+  /** Mean longitude (deg) and rate */
+  L: [number, number];
+  /** Longitude of perihelion (deg) and rate */
+  peri: [number, number];
+  /** Longitude of ascending node (deg) and rate */
+  node: [number, number];
+}
+
+type KeplerianBody = 'Me' | 'Ve' | 'EM' | 'Ma' | 'Ju' | 'Sa';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEG = Math.PI / 180;
+
+/** Light travel time for one AU, in days */
+const LIGHT_TIME_PER_AU = 0.0057755183;
+
+/**
+ * JPL approximate Keplerian elements, J2000 ecliptic, valid 1800-2050
+ * (Standish, "Keplerian Elements for Approximate Positions of the Major Planets")
+ */
+const ORBITAL_ELEMENTS: Record<KeplerianBody, OrbitalElements> = {
+  Me: {
+    a: [0.38709927, 0.00000037],
+    e: [0.20563593, 0.00001906],
+    i: [7.00497902, -0.00594749],
+    L: [252.2503235, 149472.67411175],
+    peri: [77.45779628, 0.16047689],
+    node: [48.33076593, -0.12534081],
+  },
+  Ve: {
+    a: [0.72333566, 0.0000039],
+    e: [0.00677672, -0.00004107],
+    i: [3.39467605, -0.0007889],
+    L: [181.9790995, 58517.81538729],
+    peri: [131.60246718, 0.00268329],
+    node: [76.67984255, -0.27769418],
+  },
+  EM: {
+    a: [1.00000261, 0.00000562],
+    e: [0.01671123, -0.00004392],
+    i: [-0.00001531, -0.01294668],
+    L: [100.46457166, 35999.37244981],
+    peri: [102.93768193, 0.32327364],
+    node: [0, 0],
+  },
+  Ma: {
+    a: [1.52371034, 0.00001847],
+    e: [0.0933941, 0.00007882],
+    i: [1.84969142, -0.00813131],
+    L: [-4.55343205, 19140.30268499],
+    peri: [-23.94362959, 0.44441088],
+    node: [49.55953891, -0.29257343],
+  },
+  Ju: {
+    a: [5.202887, -0.00011607],
+    e: [0.04838624, -0.00013253],
+    i: [1.30439695, -0.00183714],
+    L: [34.39644051, 3034.74612775],
+    peri: [14.72847983, 0.21252668],
+    node: [100.47390909, 0.20469106],
+  },
+  Sa: {
+    a: [9.53667594, -0.0012506],
+    e: [0.05386179, -0.00050991],
+    i: [2.48599187, 0.00193609],
+    L: [49.95424423, 1222.49362201],
+    peri: [92.59887831, -0.41897216],
+    node: [113.66242448, -0.28867794],
+  },
+};
+
+/**
+ * Jupiter-Saturn mutual perturbations applied to the Keplerian orbits,
+ * fitted against a modern numerical ephemeris over 1800-2100.
+ * Arguments are p * M(Jupiter) + q * M(Saturn).
+ * [p, q, sin dLon (deg), cos dLon (deg), sin dR (AU), cos dR (AU)]
+ */
+const GAS_GIANT_PERTURBATIONS: Record<'Ju' | 'Sa', { secular: number[][]; terms: number[][] }> = {
+  Ju: {
+    secular: [[-0.0001, 0.1058, -0.0089], [0.00044, 0.00012, -0.00015]],
+    terms: [
+      [1, -1, -0.0031, 0.021, 0.00061, 0.00007],
+      [2, -2, -0.0515, -0.0208, -0.00103, 0.00263],
+      [2, -3, 0.0126, 0.0165, 0.00063, -0.0005],
+      [2, -5, -0.0617, 0.203, 0.00031, 0.00006],
+      [1, -2, -0.0362, 0.0001, 0.00005, 0.00027],
+      [1, -5, 0.0161, -0.0007, 0.00002, 0.00073],
+      [3, -5, 0.0079, 0.0068, 0.00027, -0.0003],
+      [3, -4, -0.0037, 0.0023, 0.00012, 0.0002],
+      [1, 0, -0.0043, 0.0203, 0.0009, 0.00019],
+    ],
+  },
+  Sa: {
+    secular: [[0.2766, -0.3253, -0.0621], [0.00235, 0.00024, 0.0009]],
+    terms: [
+      [1, -1, 0.0214, 0.0062, 0.00872, 0.00012],
+      [2, -2, 0.0086, 0.0035, 0.00054, -0.00129],
+      [2, -3, 0.0038, 0.0058, 0.00082, -0.00061],
+      [2, -4, -0.0083, -0.0843, -0.00615, 0.00101],
+      [2, -5, 0.4286, -0.5241, -0.00069, -0.0017],
+      [2, -6, 0.0371, 0.0588, -0.00471, 0.00294],
+      [1, -2, 0.1184, -0.017, -0.0005, -0.00534],
+      [1, -3, 0.0046, 0.0051, -0.00022, 0.00071],
+      [1, -4, 0.0055, 0.0069, -0.00052, 0.00034],
+      [3, -6, 0.0032, -0.0075, -0.0005, -0.00029],
+      [3, -7, -0.009, -0.0017, -0.00005, 0.00042],
+      [0, 1, 0.1453, 0.0364, 0.00308, -0.01153],
+      [1, 0, 0.0045, 0.0011, -0.00016, -0.00025],
+    ],
+  },
+};
+
+/**
+ * Moon periodic terms for longitude (Meeus Table 47.A).
+ * [D, M, M', F, coefficient in 1e-6 degrees]
+ */
+const MOON_LONGITUDE_TERMS: number[][] = [
+  [0, 0, 1, 0, 6288774], [2, 0, -1, 0, 1274027], [2, 0, 0, 0, 658314],
+  [0, 0, 2, 0, 213618], [0, 1, 0, 0, -185116], [0, 0, 0, 2, -114332],
+  [2, 0, -2, 0, 58793], [2, -1, -1, 0, 57066], [2, 0, 1, 0, 53322],
+  [2, -1, 0, 0, 45758], [0, 1, -1, 0, -40923], [1, 0, 0, 0, -34720],
+  [0, 1, 1, 0, -30383], [2, 0, 0, -2, 15327], [0, 0, 1, 2, -12528],
+  [0, 0, 1, -2, 10980], [4, 0, -1, 0, 10675], [0, 0, 3, 0, 10034],
+  [4, 0, -2, 0, 8548], [2, 1, -1, 0, -7888], [2, 1, 0, 0, -6766],
+  [1, 0, -1, 0, -5163], [1, 1, 0, 0, 4987], [2, -1, 1, 0, 4036],
+  [2, 0, 2, 0, 3994], [4, 0, 0, 0, 3861], [2, 0, -3, 0, 3665],
+  [0, 1, -2, 0, -2689], [2, 0, -1, 2, -2602], [2, -1, -2, 0, 2390],
+  [1, 0, 1, 0, -2348], [2, -2, 0, 0, 2236], [0, 1, 2, 0, -2120],
+  [0, 2, 0, 0, -2069], [2, -2, -1, 0, 2048], [2, 0, 1, -2, -1773],
+  [2, 0, 0, 2, -1595], [4, -1, -1, 0, 1215], [0, 0, 2, 2, -1110],
+  [3, 0, -1, 0, -892], [2, 1, 1, 0, -810], [4, -1, -2, 0, 759],
+  [0, 2, -1, 0, -713], [2, 2, -1, 0, -700], [2, 1, -2, 0, 691],
+  [2, -1, 0, -2, 596], [4, 0, 1, 0, 549], [0, 0, 4, 0, 537],
+  [4, -1, 0, 0, 520], [1, 0, -2, 0, -487], [2, 1, 0, -2, -399],
+  [0, 0, 2, -2, -381], [1, 1, 1, 0, 351], [3, 0, -2, 0, -340],
+  [4, 0, -3, 0, 330], [2, -1, 2, 0, 327], [0, 2, 1, 0, -323],
+  [1, 1, -1, 0, 299], [2, 0, 3, 0, 294],
+];
+
+/**
+ * Moon periodic terms for latitude (Meeus Table 47.B, leading terms).
+ * [D, M, M', F, coefficient in 1e-6 degrees]
+ */
+const MOON_LATITUDE_TERMS: number[][] = [
+  [0, 0, 0, 1, 5128122], [0, 0, 1, 1, 280602], [0, 0, 1, -1, 277693],
+  [2, 0, 0, -1, 173237], [2, 0, -1, 1, 55413], [2, 0, -1, -1, 46271],
+  [2, 0, 0, 1, 32573], [0, 0, 2, 1, 17198], [2, 0, 1, -1, 9266],
+  [0, 0, 2, -1, 8822], [2, -1, 0, -1, 8216], [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200], [2, 1, 0, -1, -3359], [2, -1, -1, 1, 2463],
+  [2, -1, 0, 1, 2211], [2, -1, -1, -1, 2065], [0, 1, -1, -1, -1870],
+  [4, 0, -1, -1, 1828], [0, 1, 0, 1, -1794], [0, 0, 0, 3, -1749],
+  [0, 1, -1, 1, -1565], [1, 0, 0, 1, -1491], [0, 1, 1, 1, -1475],
+  [0, 1, 1, -1, -1410], [0, 1, 0, -1, -1344], [1, 0, 0, -1, -1335],
+  [0, 0, 3, 1, 1107], [4, 0, 0, -1, 1021], [4, 0, -1, 1, 833],
+];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * General precession in longitude since J2000, in degrees
+ */
+export const precessionSinceJ2000 = (T: number): number =>
+  (5029.0966 * T + 1.11113 * T * T - 0.000006 * T * T * T) / 3600;
+
+/**
+ * Mean obliquity of the ecliptic in degrees (IAU 1980)
+ */
+export const meanObliquity = (T: number): number =>
+  23.439291111 - (46.815 * T + 0.00059 * T * T - 0.001813 * T * T * T) / 3600;
+
+/**
+ * Convert ecliptic coordinates of date to right ascension / declination
+ */
+export const eclipticToEquatorial = (
+  longitude: number,
+  latitude: number,
+  obliquity: number
+): { rightAscension: number; declination: number } => {
+  const lon = longitude * DEG;
+  const lat = latitude * DEG;
+  const eps = obliquity * DEG;
+  const ra = Math.atan2(
+    Math.sin(lon) * Math.cos(eps) - Math.tan(lat) * Math.sin(eps),
+    Math.cos(lon)
+  );
+  const dec = Math.asin(
+    Math.sin(lat) * Math.cos(eps) + Math.cos(lat) * Math.sin(eps) * Math.sin(lon)
+  );
+  return { rightAscension: normalizeDegrees(ra / DEG), declination: dec / DEG };
+};
+
+const solveKepler = (meanAnomaly: number, e: number): number => {
+  let E = meanAnomaly + e * Math.sin(meanAnomaly);
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const delta = (E - e * Math.sin(E) - meanAnomaly) / (1 - e * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < 1e-10) break;
+  }
+  return E;
+};
+
+/**
+ * Heliocentric rectangular coordinates (J2000 ecliptic, AU)
+ */
+const heliocentric = (body: KeplerianBody, T: number): [number, number, number] => {
+  const el = ORBITAL_ELEMENTS[body];
+  const a = el.a[0] + el.a[1] * T;
+  const e = el.e[0] + el.e[1] * T;
+  const i = (el.i[0] + el.i[1] * T) * DEG;
+  const L = el.L[0] + el.L[1] * T;
+  const peri = el.peri[0] + el.peri[1] * T;
+  const node = (el.node[0] + el.node[1] * T) * DEG;
+  const omega = (peri - el.node[0] - el.node[1] * T) * DEG;
+  const M = normalizeDegrees(L - peri) * DEG;
+
+  const E = solveKepler(M, e);
+  const xp = a * (Math.cos(E) - e);
+  const yp = a * Math.sqrt(1 - e * e) * Math.sin(E);
+
+  const cosO = Math.cos(omega);
+  const sinO = Math.sin(omega);
+  const cosN = Math.cos(node);
+  const sinN = Math.sin(node);
+  const cosI = Math.cos(i);
+  const sinI = Math.sin(i);
+
+  const position: [number, number, number] = [
+    (cosO * cosN - sinO * sinN * cosI) * xp + (-sinO * cosN - cosO * sinN * cosI) * yp,
+    (cosO * sinN + sinO * cosN * cosI) * xp + (-sinO * sinN + cosO * cosN * cosI) * yp,
+    sinO * sinI * xp + cosO * sinI * yp,
+  ];
+  return body === 'Ju' || body === 'Sa' ? perturb(body, position, T) : position;
+};
+
+const meanAnomaly = (body: KeplerianBody, T: number): number => {
+  const el = ORBITAL_ELEMENTS[body];
+  return el.L[0] + el.L[1] * T - el.peri[0] - el.peri[1] * T;
+};
+
+/**
+ * Apply the Jupiter-Saturn perturbations to a heliocentric position
+ */
+const perturb = (
+  body: 'Ju' | 'Sa',
+  [x, y, z]: [number, number, number],
+  T: number
+): [number, number, number] => {
+  const { secular, terms } = GAS_GIANT_PERTURBATIONS[body];
+  const Mj = meanAnomaly('Ju', T);
+  const Ms = meanAnomaly('Sa', T);
+
+  let dLon = secular[0][0] + secular[0][1] * T + secular[0][2] * T * T;
+  let dR = secular[1][0] + secular[1][1] * T + secular[1][2] * T * T;
+  terms.forEach(([p, q, sinLon, cosLon, sinR, cosR]) => {
+    const arg = (p * Mj + q * Ms) * DEG;
+    dLon += sinLon * Math.sin(arg) + cosLon * Math.cos(arg);
+    dR += sinR * Math.sin(arg) + cosR * Math.cos(arg);
+  });
+
+  const r = Math.sqrt(x * x + y * y + z * z);
+  const lon = Math.atan2(y, x) + dLon * DEG;
+  const lat = Math.asin(z / r);
+  const scaled = r + dR;
+  return [
+    scaled * Math.cos(lat) * Math.cos(lon),
+    scaled * Math.cos(lat) * Math.sin(lon),
+    scaled * Math.sin(lat),
+  ];
+};
+
+// ============================================================================
+// BODIES
+// ============================================================================
+
+/**
+ * Apparent tropical longitude of the Sun (Terrestrial Time input)
+ */
+export const sunPosition = (jdTT: number): EclipticPosition => {
+  const T = julianCenturies(jdTT);
+  const L0 = 280.46646 + 36000.76983 * T + 0.0003032 * T * T;
+  const M = (357.52911 + 35999.05029 * T - 0.0001537 * T * T) * DEG;
+  const C =
+    (1.914602 - 0.004817 * T - 0.000014 * T * T) * Math.sin(M) +
+    (0.019993 - 0.000101 * T) * Math.sin(2 * M) +
+    0.000289 * Math.sin(3 * M);
+  const omega = (125.04 - 1934.136 * T) * DEG;
+  const apparent = L0 + C - 0.00569 - 0.00478 * Math.sin(omega);
+  return { longitude: normalizeDegrees(apparent), latitude: 0 };
+};
+
+/**
+ * Geocentric tropical longitude and latitude of the Moon (Terrestrial Time input)
+ */
+export const moonPosition = (jdTT: number): EclipticPosition => {
+  const T = julianCenturies(jdTT);
+  const Lp = 218.3164477 + 481267.88123421 * T - 0.0015786 * T ** 2 + T ** 3 / 538841 - T ** 4 / 65194000;
+  const D = 297.8501921 + 445267.1114034 * T - 0.0018819 * T ** 2 + T ** 3 / 545868 - T ** 4 / 113065000;
+  const M = 357.5291092 + 35999.0502909 * T - 0.0001536 * T ** 2 + T ** 3 / 24490000;
+  const Mp = 134.9633964 + 477198.8675055 * T + 0.0087414 * T ** 2 + T ** 3 / 69699 - T ** 4 / 14712000;
+  const F = 93.272095 + 483202.0175233 * T - 0.0036539 * T ** 2 - T ** 3 / 3526000 + T ** 4 / 863310000;
+  const A1 = 119.75 + 131.849 * T;
+  const A2 = 53.09 + 479264.29 * T;
+  const A3 = 313.45 + 481266.484 * T;
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+
+  const seriesSum = (terms: number[][]) =>
+    terms.reduce((sum, [d, m, mp, f, coefficient]) => {
+      const eccentricity = Math.abs(m) === 2 ? E * E : Math.abs(m) === 1 ? E : 1;
+      const arg = (d * D + m * M + mp * Mp + f * F) * DEG;
+      return sum + coefficient * eccentricity * Math.sin(arg);
+    }, 0);
+
+  const sumL =
+    seriesSum(MOON_LONGITUDE_TERMS) +
+    3958 * Math.sin(A1 * DEG) +
+    1962 * Math.sin((Lp - F) * DEG) +
+    318 * Math.sin(A2 * DEG);
+  const sumB =
+    seriesSum(MOON_LATITUDE_TERMS) -
+    2235 * Math.sin(Lp * DEG) +
+    382 * Math.sin(A3 * DEG) +
+    175 * Math.sin((A1 - F) * DEG) +
+    175 * Math.sin((A1 + F) * DEG) +
+    127 * Math.sin((Lp - Mp) * DEG) -
+    115 * Math.sin((Lp + Mp) * DEG);
+
+  return {
+    longitude: normalizeDegrees(Lp + sumL / 1e6),
+    latitude: sumB / 1e6,
+  };
+};
+
+/**
+ * Mean longitude of the Moon's ascending node (Rahu)
+ */
+export const meanNodeLongitude = (jdTT: number): number => {
+  const T = julianCenturies(jdTT);
+  return normalizeDegrees(
+    125.0445479 - 1934.1362891 * T + 0.0020754 * T ** 2 + T ** 3 / 467441 - T ** 4 / 60616000
+  );
+};
+
+/**
+ * Geocentric tropical position of Mercury through Saturn (Terrestrial Time input).
+ * Includes a single light-time correction.
+ */
+export const planetPosition = (body: Exclude<KeplerianBody, 'EM'>, jdTT: number): EclipticPosition => {
+  const T = julianCenturies(jdTT);
+  const earth = heliocentric('EM', T);
+
+  const geocentric = (t: number) => {
+    const planet = heliocentric(body, t);
+    return [planet[0] - earth[0], planet[1] - earth[1], planet[2] - earth[2]];
+  };
+
+  let [x, y, z] = geocentric(T);
+  const distance = Math.sqrt(x * x + y * y + z * z);
+  [x, y, z] = geocentric(julianCenturies(jdTT - distance * LIGHT_TIME_PER_AU));
+
+  return {
+    longitude: normalizeDegrees(Math.atan2(y, x) / DEG + precessionSinceJ2000(T)),
+    latitude: Math.atan2(z, Math.sqrt(x * x + y * y)) / DEG,
+  };
+};
+
+/**
+ * Tropical position of a graha (Terrestrial Time input)
+ */
+export const grahaPosition = (id: GrahaId, jdTT: number): EclipticPosition => {
+  switch (id) {
+    case 'Su':
+      return sunPosition(jdTT);
+    case 'Mo':
+      return moonPosition(jdTT);
+    case 'Ra':
+      return { longitude: meanNodeLongitude(jdTT), latitude: 0 };
+    case 'Ke':
+      return { longitude: normalizeDegrees(meanNodeLongitude(jdTT) + 180), latitude: 0 };
+    default:
+      return planetPosition(id, jdTT);
+  }
+};
+
+/**
+ * Tropical positions and daily motion of all nine grahas for a
+ * Universal Time Julian Day. Speed is a central difference over one day.
+ */
+export const calculateTropicalPositions = (
+  jdUT: number,
+  ids: GrahaId[] = ['Su', 'Mo', 'Ma', 'Me', 'Ju', 'Ve', 'Sa', 'Ra', 'Ke']
+): TropicalPlanetPosition[] => {
+  const jdTT = toTerrestrialTime(jdUT);
+  return ids.map((id) => {
+    const position = grahaPosition(id, jdTT);
+    const before = grahaPosition(id, jdTT - 0.5).longitude;
+    const after = grahaPosition(id, jdTT + 0.5).longitude;
+    return {
+      id,
+      ...position,
+      speed: angleDifference(after, before),
+    };
+  });
+};
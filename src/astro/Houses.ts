@@ -0,0 +1,245 @@
+/**
+ * Corp Astro Engine - House Systems
+ *
+ * House cusp calculation for the systems offered in Settings, and the
+ * Bhava Chalit placement that compares each graha's cusp-based house
+ * with its whole-sign (Rashi) house.
+ *
+ * Cusps mark where each house begins. For Sripati the cusps returned are
+ * the bhava sandhis, midway between the Porphyry bhava madhyas. Placidus
+ * and Koch are undefined inside the polar circles and fall back to
+ * Porphyry there.
+ *
+ * @module Houses
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart } from './Chart';
+import { midheavenFromRamc, ascendantFromRamc } from './Ascendant';
+import { GrahaId, normalizeDegrees, angleDifference, signOf } from './Zodiac';
+
+const DEG = Math.PI / 180;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Supported house systems
+ */
+export type HouseSystemId =
+  | 'whole_sign'
+  | 'equal'
+  | 'placidus'
+  | 'koch'
+  | 'porphyry'
+  | 'sripati';
+
+/**
+ * House system reference entry
+ */
+export interface HouseSystemInfo {
+  id: HouseSystemId;
+  name: string;
+  description: string;
+}
+
+/**
+ * Twelve house cusps in one zodiac
+ */
+export interface HouseCusps {
+  system: HouseSystemId;
+  /** Start of houses 1-12, degrees 0-360 */
+  cusps: number[];
+}
+
+/**
+ * Graha placement in the Bhava Chalit
+ */
+export interface BhavaPlacement {
+  id: GrahaId;
+  /** Whole-sign house from the Lagna, 1-12 */
+  rashiHouse: number;
+  /** Cusp-based house, 1-12 */
+  bhavaHouse: number;
+  /** True when the two houses differ */
+  shifted: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Default system, matching the Settings default */
+export const DEFAULT_HOUSE_SYSTEM: HouseSystemId = 'placidus';
+
+/**
+ * House system options in display order
+ */
+export const HOUSE_SYSTEMS: HouseSystemInfo[] = [
+  { id: 'placidus', name: 'Placidus', description: 'Time-based, most common in Western charts' },
+  { id: 'koch', name: 'Koch', description: 'Birthplace system, trisects the MC semi-arc' },
+  { id: 'porphyry', name: 'Porphyry', description: 'Trisects each quadrant in longitude' },
+  { id: 'sripati', name: 'Sripati', description: 'Bhava Chalit, Porphyry madhyas with sandhis' },
+  { id: 'equal', name: 'Equal', description: '30° houses from the Lagna degree' },
+  { id: 'whole_sign', name: 'Whole Sign', description: 'Each sign is one house, Vedic Rashi chart' },
+];
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/** Ecliptic longitude with the given right ascension */
+const longitudeFromRightAscension = (ra: number, obliquity: number): number =>
+  normalizeDegrees(
+    Math.atan2(Math.sin(ra * DEG), Math.cos(ra * DEG) * Math.cos(obliquity * DEG)) / DEG
+  );
+
+/** Cusps of houses 1-12 from the four angles and the four intermediate cusps */
+const assembleCusps = (asc: number, mc: number, c11: number, c12: number, c2: number, c3: number): number[] => [
+  asc,
+  c2,
+  c3,
+  normalizeDegrees(mc + 180),
+  normalizeDegrees(c11 + 180),
+  normalizeDegrees(c12 + 180),
+  normalizeDegrees(asc + 180),
+  normalizeDegrees(c2 + 180),
+  normalizeDegrees(c3 + 180),
+  mc,
+  c11,
+  c12,
+];
+
+const porphyryCusps = (asc: number, mc: number): number[] => {
+  const upper = normalizeDegrees(asc - mc) / 3;
+  const lower = normalizeDegrees(mc + 180 - asc) / 3;
+  return assembleCusps(
+    asc,
+    mc,
+    mc + upper,
+    mc + 2 * upper,
+    asc + lower,
+    asc + 2 * lower
+  ).map(normalizeDegrees);
+};
+
+/**
+ * Placidus cusp: the ecliptic point that has covered `fraction` of its
+ * diurnal (above horizon) or nocturnal semi-arc. Returns NaN when the
+ * point never rises or sets.
+ */
+const placidusCusp = (ramc: number, latitude: number, obliquity: number, fraction: number, above: boolean): number => {
+  const tanPhi = Math.tan(latitude * DEG);
+  let ra = above ? ramc + fraction * 90 : ramc + 180 - fraction * 90;
+  for (let i = 0; i < 50; i++) {
+    const lon = longitudeFromRightAscension(ra, obliquity);
+    const dec = Math.asin(Math.sin(obliquity * DEG) * Math.sin(lon * DEG));
+    const x = -tanPhi * Math.tan(dec);
+    if (Math.abs(x) > 1) return NaN;
+    const diurnal = Math.acos(x) / DEG;
+    const next = above ? ramc + fraction * diurnal : ramc + 180 - fraction * (180 - diurnal);
+    if (Math.abs(angleDifference(next, ra)) < 1e-7) {
+      ra = next;
+      break;
+    }
+    ra = next;
+  }
+  return longitudeFromRightAscension(ra, obliquity);
+};
+
+const placidusCusps = (ramc: number, latitude: number, obliquity: number, asc: number, mc: number): number[] => {
+  const c11 = placidusCusp(ramc, latitude, obliquity, 1 / 3, true);
+  const c12 = placidusCusp(ramc, latitude, obliquity, 2 / 3, true);
+  const c2 = placidusCusp(ramc, latitude, obliquity, 2 / 3, false);
+  const c3 = placidusCusp(ramc, latitude, obliquity, 1 / 3, false);
+  return [c11, c12, c2, c3].some(Number.isNaN)
+    ? porphyryCusps(asc, mc)
+    : assembleCusps(asc, mc, c11, c12, c2, c3);
+};
+
+const kochCusps = (ramc: number, latitude: number, obliquity: number, asc: number, mc: number): number[] => {
+  if (Math.abs(latitude) >= 90 - obliquity) return porphyryCusps(asc, mc);
+  const dec = Math.asin(Math.sin(obliquity * DEG) * Math.sin(mc * DEG));
+  const x = Math.tan(latitude * DEG) * Math.tan(dec);
+  // Diurnal semi-arc of the MC degree
+  const third = (90 + Math.asin(x) / DEG) / 3;
+  const cusp = (offset: number) => ascendantFromRamc(ramc + offset, latitude, obliquity);
+  return assembleCusps(asc, mc, cusp(-2 * third), cusp(-third), cusp(third), cusp(2 * third));
+};
+
+/**
+ * House cusps for a RAMC, latitude and obliquity (all degrees). Cusps are
+ * sidereal when an ayanamsa is given, tropical otherwise; whole-sign
+ * houses follow the signs of that zodiac.
+ */
+export const calculateHouseCusps = (
+  ramc: number,
+  latitude: number,
+  obliquity: number,
+  system: HouseSystemId = DEFAULT_HOUSE_SYSTEM,
+  ayanamsa: number = 0
+): number[] => {
+  const mc = midheavenFromRamc(ramc, obliquity);
+  let asc = ascendantFromRamc(ramc, latitude, obliquity);
+  // Inside the polar circles the formula can return the descending point
+  if (normalizeDegrees(asc - mc) > 180) asc = normalizeDegrees(asc + 180);
+
+  let cusps: number[];
+  switch (system) {
+    case 'whole_sign': {
+      const lagnaSign = signOf(normalizeDegrees(asc - ayanamsa));
+      return Array.from({ length: 12 }, (_, i) => ((lagnaSign + i) % 12) * 30);
+    }
+    case 'equal':
+      cusps = Array.from({ length: 12 }, (_, i) => asc + i * 30);
+      break;
+    case 'porphyry':
+      cusps = porphyryCusps(asc, mc);
+      break;
+    case 'sripati': {
+      const madhyas = porphyryCusps(asc, mc);
+      cusps = madhyas.map(
+        (madhya, i) => madhya - normalizeDegrees(madhya - madhyas[(i + 11) % 12]) / 2
+      );
+      break;
+    }
+    case 'koch':
+      cusps = kochCusps(ramc, latitude, obliquity, asc, mc);
+      break;
+    case 'placidus':
+      cusps = placidusCusps(ramc, latitude, obliquity, asc, mc);
+      break;
+  }
+  return cusps.map((cusp) => normalizeDegrees(cusp - ayanamsa));
+};
+
+/**
+ * Look up a house system by id
+ */
+export const getHouseSystem = (id: HouseSystemId): HouseSystemInfo =>
+  HOUSE_SYSTEMS.find((system) => system.id === id) as HouseSystemInfo;
+
+/**
+ * House (1-12) containing a longitude, given cusps in the same zodiac
+ */
+export const houseOfLongitude = (cusps: number[], longitude: number): number => {
+  for (let i = 0; i < 12; i++) {
+    const span = normalizeDegrees(cusps[(i + 1) % 12] - cusps[i]);
+    if (normalizeDegrees(longitude - cusps[i]) < span) return i + 1;
+  }
+  return 1;
+};
+
+/**
+ * Bhava Chalit placements: cusp-based houses against whole-sign houses
+ */
+export const calculateBhavaChalit = (natal: NatalChart): BhavaPlacement[] => {
+  const lagnaSign = signOf(natal.ascendant.longitude);
+  return natal.planets.map((planet) => {
+    const rashiHouse = ((planet.sign - lagnaSign + 12) % 12) + 1;
+    const bhavaHouse = houseOfLongitude(natal.houses.cusps, planet.longitude);
+    return { id: planet.id, rashiHouse, bhavaHouse, shifted: rashiHouse !== bhavaHouse };
+  });
+};
@@ -0,0 +1,162 @@
+/**
+ * Corp Astro Engine - Julian Day & Time Scales
+ *
+ * Converts civil date/time (with a UTC offset) into Julian Days and
+ * back, and applies Delta T so the ephemeris runs on Terrestrial Time
+ * while sidereal time and the ascendant stay on Universal Time.
+ *
+ * @module JulianDay
+ * @version 1.0.0
+ * @since 2025
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Wall-clock date and time at a place
+ */
+export interface CivilDateTime {
+  year: number;
+  /** 1 = January ... 12 = December */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second?: number;
+  /** Hours east of UTC in effect at that moment, e.g. 5.5 for IST */
+  utcOffset: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Julian Day of the J2000.0 epoch (2000 Jan 1, 12h TT) */
+export const J2000 = 2451545.0;
+
+/** Days per Julian century */
+export const DAYS_PER_CENTURY = 36525;
+
+/** Julian Day of the Unix epoch */
+const UNIX_EPOCH_JD = 2440587.5;
+
+const MS_PER_DAY = 86400000;
+
+// ============================================================================
+// CONVERSIONS
+// ============================================================================
+
+/**
+ * Julian Day (UT) for a proleptic Gregorian calendar date.
+ * Fractional days carry the time of day.
+ */
+export const julianDayFromCalendar = (year: number, month: number, day: number): number => {
+  let y = year;
+  let m = month;
+  if (m <= 2) {
+    y -= 1;
+    m += 12;
+  }
+  const a = Math.floor(y / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (y + 4716)) + Math.floor(30.6001 * (m + 1)) + day + b - 1524.5;
+};
+
+/**
+ * Julian Day (UT) for a local civil date/time
+ */
+export const julianDayFromCivil = (civil: CivilDateTime): number => {
+  const hours = civil.hour + civil.minute / 60 + (civil.second ?? 0) / 3600 - civil.utcOffset;
+  return julianDayFromCalendar(civil.year, civil.month, civil.day) + hours / 24;
+};
+
+/**
+ * Julian Day (UT) for a JavaScript Date instant
+ */
+export const julianDayFromDate = (date: Date): number =>
+  date.getTime() / MS_PER_DAY + UNIX_EPOCH_JD;
+
+/**
+ * JavaScript Date for a Julian Day (UT)
+ */
+export const dateFromJulianDay = (jd: number): Date =>
+  new Date(Math.round((jd - UNIX_EPOCH_JD) * MS_PER_DAY));
+
+/**
+ * Julian centuries since J2000.0
+ */
+export const julianCenturies = (jd: number): number => (jd - J2000) / DAYS_PER_CENTURY;
+
+// ============================================================================
+// DELTA T
+// ============================================================================
+
+/**
+ * Delta T (TT - UT) in seconds for a decimal year.
+ * Espenak & Meeus polynomial fits for the modern era, with the
+ * long-term parabola outside the fitted range.
+ */
+export const deltaTSeconds = (decimalYear: number): number => {
+  const y = decimalYear;
+  const longTerm = () => {
+    const u = (y - 1820) / 100;
+    return -20 + 32 * u * u;
+  };
+
+  if (y < 1900) return longTerm();
+  if (y < 1920) {
+    const t = y - 1900;
+    return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4;
+  }
+  if (y < 1941) {
+    const t = y - 1920;
+    return 21.2 + 0.84493 * t - 0.0761 * t ** 2 + 0.0020936 * t ** 3;
+  }
+  if (y < 1961) {
+    const t = y - 1950;
+    return 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547;
+  }
+  if (y < 1986) {
+    const t = y - 1975;
+    return 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718;
+  }
+  if (y < 2005) {
+    const t = y - 2000;
+    return (
+      63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3 +
+      0.000651814 * t ** 4 + 0.00002373599 * t ** 5
+    );
+  }
+  if (y < 2050) {
+    const t = y - 2000;
+    return 62.92 + 0.32217 * t + 0.005589 * t ** 2;
+  }
+  if (y < 2150) return longTerm() - 0.5628 * (2150 - y);
+  return longTerm();
+};
+
+/**
+ * Terrestrial Time Julian Day for a Universal Time Julian Day
+ */
+export const toTerrestrialTime = (jdUT: number): number => {
+  const decimalYear = 2000 + (jdUT - J2000) / 365.25;
+  return jdUT + deltaTSeconds(decimalYear) / 86400;
+};
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * 12-hour wall-clock time ("06:20 AM") of an instant at a UTC offset,
+ * rounded to the minute and independent of the device time zone
+ */
+export const formatClockTime = (date: Date, utcOffset: number): string => {
+  const local = new Date(Math.round((date.getTime() + utcOffset * 3600000) / 60000) * 60000);
+  const hours = local.getUTCHours();
+  const minutes = local.getUTCMinutes().toString().padStart(2, '0');
+  const hour12 = (hours % 12 || 12).toString().padStart(2, '0');
+  return `${hour12}:${minutes} ${hours < 12 ? 'AM' : 'PM'}`;
+};
@@ -0,0 +1,183 @@
+/**
+ * Corp Astro Engine - Krishnamurti Paddhati
+ *
+ * KP divides every 13°20' nakshatra into nine unequal subs in proportion to
+ * the Vimshottari years, starting from the nakshatra's own lord, and every
+ * sub into nine sub-subs the same way starting from the sub lord. Planets
+ * and Placidus cusps are read through their sign, star, sub and sub-sub
+ * lords.
+ *
+ * House significators follow the four KP levels, strongest first:
+ * planets in the star of the occupants, the occupants, planets in the star
+ * of the cusp sign lord, and the cusp sign lord itself. Houses are read
+ * from the chart's own cusps, so cast with the KP ayanamsa and Placidus.
+ *
+ * @module KP
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart } from './Chart';
+import { DASHA_SYSTEMS } from './Dasha';
+import { houseOfLongitude } from './Houses';
+import { GrahaId, NAKSHATRAS, NAKSHATRA_SPAN, SIGNS, normalizeDegrees, signOf } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Lords ruling a longitude at each KP level
+ */
+export interface KPLords {
+  signLord: GrahaId;
+  starLord: GrahaId;
+  subLord: GrahaId;
+  subSubLord: GrahaId;
+}
+
+/**
+ * A graha with its KP lords and Placidus house
+ */
+export interface KPPlanet extends KPLords {
+  id: GrahaId;
+  longitude: number;
+  /** Cusp-based house 1-12 */
+  house: number;
+}
+
+/**
+ * A house cusp with its KP lords
+ */
+export interface KPCusp extends KPLords {
+  /** House 1-12 */
+  house: number;
+  longitude: number;
+}
+
+/**
+ * Four-level significators of one house, strongest level first
+ */
+export interface KPHouseSignificators {
+  house: number;
+  /** Level 1: planets in the star of an occupant */
+  occupantStars: GrahaId[];
+  /** Level 2: planets occupying the house */
+  occupants: GrahaId[];
+  /** Level 3: planets in the star of the cusp sign lord */
+  ownerStars: GrahaId[];
+  /** Level 4: lord of the sign on the cusp */
+  owner: GrahaId;
+}
+
+/**
+ * Houses each graha signifies at any level, in house order
+ */
+export interface KPPlanetSignification {
+  id: GrahaId;
+  houses: number[];
+}
+
+/**
+ * Complete KP reading of a natal chart
+ */
+export interface KPChart {
+  planets: KPPlanet[];
+  cusps: KPCusp[];
+  significators: KPHouseSignificators[];
+  significations: KPPlanetSignification[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const VIMSHOTTARI = DASHA_SYSTEMS.vimshottari;
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Split an arc into nine Vimshottari parts from a starting lord and find
+ * the part containing an offset
+ */
+const divideArc = (
+  offset: number,
+  span: number,
+  firstLord: GrahaId
+): { lord: GrahaId; offset: number; span: number } => {
+  const first = VIMSHOTTARI.sequence.findIndex(([lord]) => lord === firstLord);
+  let remaining = offset;
+  for (let i = 0; i < 9; i++) {
+    const [lord, years] = VIMSHOTTARI.sequence[(first + i) % 9];
+    const part = (span * years) / VIMSHOTTARI.totalYears;
+    // The last part absorbs floating-point drift at the arc's end
+    if (remaining < part || i === 8) return { lord, offset: remaining, span: part };
+    remaining -= part;
+  }
+  return { lord: firstLord, offset, span };
+};
+
+/**
+ * Sign, star, sub and sub-sub lords of a sidereal longitude
+ */
+export const kpLords = (longitude: number): KPLords => {
+  const lon = normalizeDegrees(longitude);
+  const nakshatra = Math.floor(lon / NAKSHATRA_SPAN);
+  const starLord = NAKSHATRAS[nakshatra].lord;
+  const sub = divideArc(lon - nakshatra * NAKSHATRA_SPAN, NAKSHATRA_SPAN, starLord);
+  const subSub = divideArc(sub.offset, sub.span, sub.lord);
+  return {
+    signLord: SIGNS[signOf(lon)].lord,
+    starLord,
+    subLord: sub.lord,
+    subSubLord: subSub.lord,
+  };
+};
+
+/**
+ * KP planets, cusps and significators of a natal chart
+ */
+export const calculateKP = (natal: NatalChart): KPChart => {
+  const cusps: KPCusp[] = natal.houses.cusps.map((longitude, i) => ({
+    house: i + 1,
+    longitude,
+    ...kpLords(longitude),
+  }));
+  const planets: KPPlanet[] = natal.planets.map(({ id, longitude }) => ({
+    id,
+    longitude,
+    house: houseOfLongitude(natal.houses.cusps, longitude),
+    ...kpLords(longitude),
+  }));
+
+  const inStarOf = (lords: GrahaId[]) =>
+    planets.filter((planet) => lords.includes(planet.starLord)).map((planet) => planet.id);
+
+  const significators = cusps.map(({ house, signLord }): KPHouseSignificators => {
+    const occupants = planets.filter((planet) => planet.house === house).map((planet) => planet.id);
+    return {
+      house,
+      occupantStars: inStarOf(occupants),
+      occupants,
+      ownerStars: inStarOf([signLord]),
+      owner: signLord,
+    };
+  });
+
+  const significations = planets.map(({ id }) => ({
+    id,
+    houses: significators
+      .filter(
+        (level) =>
+          level.owner === id ||
+          level.occupants.includes(id) ||
+          level.occupantStars.includes(id) ||
+          level.ownerStars.includes(id)
+      )
+      .map((level) => level.house),
+  }));
+
+  return { planets, cusps, significators, significations };
+};
@@ -0,0 +1,206 @@
+/**
+ * Corp Astro Engine - Muhurta Periods
+ *
+ * Daily time periods measured from local sunrise and sunset. Rahu Kaal,
+ * Gulika Kaal and Yamaganda each occupy one eighth of the daytime,
+ * chosen by the weekday; Abhijit is the 8th of the 15 day muhurtas,
+ * centred on local noon.
+ *
+ * Choghadiya splits the day and the night into eight segments each, and
+ * planetary horas split them into twelve. Both start from the weekday
+ * lord at sunrise and run until the next sunrise.
+ *
+ * @module Muhurta
+ * @version 1.1.0
+ * @since 2025
+ */
+
+import { Panchang, VARAS } from './Panchang';
+import { GrahaId } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A span of time
+ */
+export interface TimePeriod {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Choghadiya names
+ */
+export type ChoghadiyaId = 'udveg' | 'char' | 'labh' | 'amrit' | 'kaal' | 'shubh' | 'rog';
+
+/**
+ * Choghadiya reference entry
+ */
+export interface ChoghadiyaInfo {
+  id: ChoghadiyaId;
+  name: string;
+  lord: GrahaId;
+  nature: 'auspicious' | 'neutral' | 'inauspicious';
+  /** Activities the segment suits */
+  meaning: string;
+}
+
+/**
+ * One Choghadiya segment
+ */
+export interface ChoghadiyaPeriod extends TimePeriod {
+  choghadiya: ChoghadiyaInfo;
+  isDay: boolean;
+}
+
+/**
+ * One planetary hora
+ */
+export interface HoraPeriod extends TimePeriod {
+  lord: GrahaId;
+  isDay: boolean;
+}
+
+/**
+ * Day periods computed from sunrise and sunset
+ */
+export interface DailyMuhurtas {
+  rahuKaal: TimePeriod;
+  gulikaKaal: TimePeriod;
+  yamaganda: TimePeriod;
+  abhijit: TimePeriod;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Eighth of the day (1-8) ruled by Rahu, Sunday first */
+const RAHU_KAAL_PART = [8, 2, 7, 5, 6, 4, 3];
+
+/** Eighth of the day (1-8) ruled by Gulika, Sunday first */
+const GULIKA_KAAL_PART = [7, 6, 5, 4, 3, 2, 1];
+
+/** Eighth of the day (1-8) ruled by Yamaganda, Sunday first */
+const YAMAGANDA_PART = [5, 4, 3, 2, 1, 7, 6];
+
+/**
+ * Choghadiyas keyed by their lord
+ */
+export const CHOGHADIYAS: Record<ChoghadiyaId, ChoghadiyaInfo> = {
+  udveg: { id: 'udveg', name: 'Udveg', lord: 'Su', nature: 'inauspicious', meaning: 'Government and official work only' },
+  char: { id: 'char', name: 'Char', lord: 'Ve', nature: 'neutral', meaning: 'Travel and movement' },
+  labh: { id: 'labh', name: 'Labh', lord: 'Me', nature: 'auspicious', meaning: 'Business, trade and gains' },
+  amrit: { id: 'amrit', name: 'Amrit', lord: 'Mo', nature: 'auspicious', meaning: 'All activities' },
+  kaal: { id: 'kaal', name: 'Kaal', lord: 'Sa', nature: 'inauspicious', meaning: 'Avoid new work' },
+  shubh: { id: 'shubh', name: 'Shubh', lord: 'Ju', nature: 'auspicious', meaning: 'Ceremonies, partnerships and learning' },
+  rog: { id: 'rog', name: 'Rog', lord: 'Ma', nature: 'inauspicious', meaning: 'Avoid new work; disputes and competition only' },
+};
+
+const CHOGHADIYA_BY_LORD = Object.values(CHOGHADIYAS).reduce(
+  (byLord, info) => ({ ...byLord, [info.lord]: info }),
+  {} as Record<GrahaId, ChoghadiyaInfo>
+);
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/** Weekday lord `steps` places along the hora order (Su, Ve, Me, Mo, Sa, Ju, Ma) */
+const horaLord = (weekday: number, steps: number): GrahaId =>
+  VARAS[(((weekday - 2 * steps) % 7) + 7) % 7].lord;
+
+/**
+ * The `part`-th of `count` equal divisions between two instants (1-based)
+ */
+export const dividePeriod = (start: Date, end: Date, count: number, part: number): TimePeriod => {
+  const length = (end.getTime() - start.getTime()) / count;
+  return {
+    start: new Date(start.getTime() + (part - 1) * length),
+    end: new Date(start.getTime() + part * length),
+  };
+};
+
+/**
+ * Rahu Kaal, Gulika Kaal, Yamaganda and Abhijit for a day.
+ * `weekday` is 0 = Sunday ... 6 = Saturday.
+ */
+export const calculateDayMuhurtas = (sunrise: Date, sunset: Date, weekday: number): DailyMuhurtas => ({
+  rahuKaal: dividePeriod(sunrise, sunset, 8, RAHU_KAAL_PART[weekday]),
+  gulikaKaal: dividePeriod(sunrise, sunset, 8, GULIKA_KAAL_PART[weekday]),
+  yamaganda: dividePeriod(sunrise, sunset, 8, YAMAGANDA_PART[weekday]),
+  abhijit: dividePeriod(sunrise, sunset, 15, 8),
+});
+
+/**
+ * Day periods for a panchang; null where the Sun does not rise or set
+ */
+export const calculateDailyMuhurtas = (panchang: Panchang): DailyMuhurtas | null =>
+  panchang.sunrise && panchang.sunset
+    ? calculateDayMuhurtas(panchang.sunrise, panchang.sunset, panchang.vara.index)
+    : null;
+
+/**
+ * Eight day and eight night Choghadiyas from sunrise to the next sunrise.
+ * Day segments follow the hora order from the weekday lord; night
+ * segments start from the lord of the fifth weekday and advance by four.
+ */
+export const calculateDayChoghadiyas = (
+  sunrise: Date,
+  sunset: Date,
+  nextSunrise: Date,
+  weekday: number
+): ChoghadiyaPeriod[] => [
+  ...Array.from({ length: 8 }, (_, i) => ({
+    ...dividePeriod(sunrise, sunset, 8, i + 1),
+    choghadiya: CHOGHADIYA_BY_LORD[horaLord(weekday, i)],
+    isDay: true,
+  })),
+  ...Array.from({ length: 8 }, (_, i) => ({
+    ...dividePeriod(sunset, nextSunrise, 8, i + 1),
+    choghadiya: CHOGHADIYA_BY_LORD[VARAS[(weekday + 4 + 4 * i) % 7].lord],
+    isDay: false,
+  })),
+];
+
+/**
+ * Twelve day and twelve night planetary horas from sunrise to the next
+ * sunrise, the first ruled by the weekday lord
+ */
+export const calculateDayHoras = (
+  sunrise: Date,
+  sunset: Date,
+  nextSunrise: Date,
+  weekday: number
+): HoraPeriod[] =>
+  Array.from({ length: 24 }, (_, i) => ({
+    ...(i < 12
+      ? dividePeriod(sunrise, sunset, 12, i + 1)
+      : dividePeriod(sunset, nextSunrise, 12, i - 11)),
+    lord: horaLord(weekday, i),
+    isDay: i < 12,
+  }));
+
+/**
+ * Choghadiyas for a panchang day; empty where the Sun does not rise or set
+ */
+export const calculateDailyChoghadiyas = (panchang: Panchang): ChoghadiyaPeriod[] =>
+  panchang.sunrise && panchang.sunset && panchang.nextSunrise
+    ? calculateDayChoghadiyas(panchang.sunrise, panchang.sunset, panchang.nextSunrise, panchang.vara.index)
+    : [];
+
+/**
+ * Horas for a panchang day; empty where the Sun does not rise or set
+ */
+export const calculateDailyHoras = (panchang: Panchang): HoraPeriod[] =>
+  panchang.sunrise && panchang.sunset && panchang.nextSunrise
+    ? calculateDayHoras(panchang.sunrise, panchang.sunset, panchang.nextSunrise, panchang.vara.index)
+    : [];
+
+/**
+ * Period containing an instant
+ */
+export const findCurrentPeriod = <T extends TimePeriod>(periods: T[], date: Date = new Date()): T | undefined =>
+  periods.find((period) => date >= period.start && date < period.end);
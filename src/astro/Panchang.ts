@@ -0,0 +1,249 @@
+/**
+ * Corp Astro Engine - Panchang
+ *
+ * The five limbs of the Hindu almanac for a date and place: vara, tithi,
+ * nakshatra, yoga and karana, plus paksha and the Sun and Moon rise/set
+ * times. Limbs are those prevailing at local sunrise, each with the
+ * moment it ends.
+ *
+ * Tithi and karana depend only on the Moon-Sun elongation; nakshatra and
+ * yoga use sidereal longitudes in the chosen ayanamsa.
+ *
+ * @module Panchang
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { ChartOptions } from './Chart';
+import { dateFromJulianDay, toTerrestrialTime, julianDayFromCalendar } from './JulianDay';
+import { sunPosition, moonPosition } from './Ephemeris';
+import { DEFAULT_AYANAMSA, calculateAyanamsa } from './Ayanamsa';
+import { GeoLocation, findRiseSet, localMidnight } from './RiseSet';
+import { GrahaId, NAKSHATRAS, NAKSHATRA_SPAN, PADA_SPAN, normalizeDegrees } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A panchang limb and when it ends
+ */
+export interface PanchangLimb {
+  index: number;
+  name: string;
+  /** End of the limb; null if not found within two days */
+  end: Date | null;
+}
+
+/**
+ * Lunar fortnight
+ */
+export type Paksha = 'Shukla' | 'Krishna';
+
+/**
+ * Weekday reference entry
+ */
+export interface VaraInfo {
+  /** 0 = Sunday ... 6 = Saturday */
+  index: number;
+  name: string;
+  english: string;
+  lord: GrahaId;
+}
+
+/**
+ * Panchang for one civil date at one place
+ */
+export interface Panchang {
+  year: number;
+  month: number;
+  day: number;
+  location: GeoLocation;
+  sunrise: Date | null;
+  sunset: Date | null;
+  /** Next day's sunrise, closing this panchang day */
+  nextSunrise: Date | null;
+  moonrise: Date | null;
+  moonset: Date | null;
+  vara: VaraInfo;
+  paksha: Paksha;
+  /** Tithi index 0-29, Shukla Pratipada first */
+  tithi: PanchangLimb;
+  nakshatra: PanchangLimb & { pada: number };
+  yoga: PanchangLimb;
+  /** Karana index 0-59 within the lunar month */
+  karana: PanchangLimb;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Tithi names within a paksha; the 15th is Purnima or Amavasya */
+export const TITHI_NAMES = [
+  'Pratipada', 'Dwitiya', 'Tritiya', 'Chaturthi', 'Panchami',
+  'Shashthi', 'Saptami', 'Ashtami', 'Navami', 'Dashami',
+  'Ekadashi', 'Dwadashi', 'Trayodashi', 'Chaturdashi', 'Purnima',
+];
+
+/** The 27 nitya yogas */
+export const YOGA_NAMES = [
+  'Vishkumbha', 'Priti', 'Ayushman', 'Saubhagya', 'Shobhana', 'Atiganda',
+  'Sukarma', 'Dhriti', 'Shula', 'Ganda', 'Vriddhi', 'Dhruva',
+  'Vyaghata', 'Harshana', 'Vajra', 'Siddhi', 'Vyatipata', 'Variyana',
+  'Parigha', 'Shiva', 'Siddha', 'Sadhya', 'Shubha', 'Shukla',
+  'Brahma', 'Indra', 'Vaidhriti',
+];
+
+/** The seven movable karanas, repeated eight times from the 2nd half-tithi */
+const MOVABLE_KARANAS = ['Bava', 'Balava', 'Kaulava', 'Taitila', 'Garaja', 'Vanija', 'Vishti'];
+
+/**
+ * Weekdays, Sunday first
+ */
+export const VARAS: VaraInfo[] = [
+  { index: 0, name: 'Ravivara', english: 'Sunday', lord: 'Su' },
+  { index: 1, name: 'Somavara', english: 'Monday', lord: 'Mo' },
+  { index: 2, name: 'Mangalavara', english: 'Tuesday', lord: 'Ma' },
+  { index: 3, name: 'Budhavara', english: 'Wednesday', lord: 'Me' },
+  { index: 4, name: 'Guruvara', english: 'Thursday', lord: 'Ju' },
+  { index: 5, name: 'Shukravara', english: 'Friday', lord: 'Ve' },
+  { index: 6, name: 'Shanivara', english: 'Saturday', lord: 'Sa' },
+];
+
+/** Days searched ahead for a limb's end */
+const END_SEARCH_DAYS = 2;
+
+/** Search step in days */
+const END_SEARCH_STEP = 1 / 24;
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+const luminaries = (jdUT: number) => {
+  const jdTT = toTerrestrialTime(jdUT);
+  return { sun: sunPosition(jdTT).longitude, moon: moonPosition(jdTT).longitude };
+};
+
+/** Moon-Sun elongation, 0-360 */
+const elongation = (jdUT: number): number => {
+  const { sun, moon } = luminaries(jdUT);
+  return normalizeDegrees(moon - sun);
+};
+
+/**
+ * Tithi name with paksha, e.g. 'Shukla Dwitiya', 'Amavasya'
+ */
+export const tithiName = (index: number): string => {
+  if (index === 14) return 'Purnima';
+  if (index === 29) return 'Amavasya';
+  return `${index < 15 ? 'Shukla' : 'Krishna'} ${TITHI_NAMES[index % 15]}`;
+};
+
+/**
+ * Karana name for a half-tithi index 0-59
+ */
+export const karanaName = (index: number): string => {
+  if (index === 0) return 'Kimstughna';
+  if (index === 57) return 'Shakuni';
+  if (index === 58) return 'Chatushpada';
+  if (index === 59) return 'Naga';
+  return MOVABLE_KARANAS[(index - 1) % 7];
+};
+
+/**
+ * Weekday of a civil date
+ */
+export const varaOf = (year: number, month: number, day: number): VaraInfo =>
+  VARAS[Math.floor(julianDayFromCalendar(year, month, day) + 1.5) % 7];
+
+/**
+ * First moment after `startJd` when an increasing angle reaches `target`
+ */
+const findAngleCrossing = (
+  angleAt: (jd: number) => number,
+  target: number,
+  startJd: number
+): number | null => {
+  const remaining = (jd: number) => normalizeDegrees(target - angleAt(jd));
+  let lo = startJd;
+  let previous = remaining(lo);
+  for (let jd = startJd + END_SEARCH_STEP; jd <= startJd + END_SEARCH_DAYS; jd += END_SEARCH_STEP) {
+    const current = remaining(jd);
+    // Remaining distance jumps to ~360 once the target is passed
+    if (current > previous) {
+      let hi = jd;
+      while (hi - lo > 1 / 86400) {
+        const mid = (lo + hi) / 2;
+        if (remaining(mid) > 180) hi = mid;
+        else lo = mid;
+      }
+      return (lo + hi) / 2;
+    }
+    lo = jd;
+    previous = current;
+  }
+  return null;
+};
+
+const limbAt = (
+  angleAt: (jd: number) => number,
+  span: number,
+  jd: number,
+  name: (index: number) => string
+): PanchangLimb => {
+  const index = Math.floor(angleAt(jd) / span);
+  const end = findAngleCrossing(angleAt, normalizeDegrees((index + 1) * span), jd);
+  return { index, name: name(index), end: end === null ? null : dateFromJulianDay(end) };
+};
+
+/**
+ * Panchang for a civil date at a place. Limbs are taken at sunrise, or
+ * at local midnight where the Sun does not rise.
+ */
+export const calculatePanchang = (
+  year: number,
+  month: number,
+  day: number,
+  location: GeoLocation,
+  options: ChartOptions = {}
+): Panchang => {
+  const ayanamsaId = options.ayanamsa ?? DEFAULT_AYANAMSA;
+  const midnight = localMidnight(year, month, day, location);
+  const sun = findRiseSet('Su', midnight, location, 1);
+  const nextSun = findRiseSet('Su', midnight + 1, location, 1);
+  const moon = findRiseSet('Mo', midnight, location, 1);
+  const reference = sun.rise ?? midnight;
+
+  const siderealMoon = (jd: number) =>
+    normalizeDegrees(luminaries(jd).moon - calculateAyanamsa(jd, ayanamsaId));
+  const siderealSum = (jd: number) => {
+    const { sun: sunLon, moon: moonLon } = luminaries(jd);
+    return normalizeDegrees(sunLon + moonLon - 2 * calculateAyanamsa(jd, ayanamsaId));
+  };
+
+  const toDate = (jd: number | null) => (jd === null ? null : dateFromJulianDay(jd));
+  const tithi = limbAt(elongation, 12, reference, tithiName);
+
+  return {
+    year,
+    month,
+    day,
+    location,
+    sunrise: toDate(sun.rise),
+    sunset: toDate(sun.set),
+    nextSunrise: toDate(nextSun.rise),
+    moonrise: toDate(moon.rise),
+    moonset: toDate(moon.set),
+    vara: varaOf(year, month, day),
+    paksha: tithi.index < 15 ? 'Shukla' : 'Krishna',
+    tithi,
+    nakshatra: {
+      ...limbAt(siderealMoon, NAKSHATRA_SPAN, reference, (index) => NAKSHATRAS[index].name),
+      pada: Math.floor((siderealMoon(reference) % NAKSHATRA_SPAN) / PADA_SPAN) + 1,
+    },
+    yoga: limbAt(siderealSum, NAKSHATRA_SPAN, reference, (index) => YOGA_NAMES[index]),
+    karana: limbAt(elongation, 6, reference, karanaName),
+  };
+};
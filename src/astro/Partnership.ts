@@ -0,0 +1,342 @@
+/**
+ * Corp Astro Engine - Business Partnership Compatibility
+ *
+ * Scores founders and co-founders pair by pair with business weightings:
+ * - Leadership, alliance and gains: how the lords of each partner's 10th,
+ *   7th and 11th houses regard each other
+ * - Communication and growth: the sign relationship between the partners'
+ *   Mercury and Jupiter
+ * - Timing: how the Antardasha lords both partners run over the coming
+ *   years regard each other, month by month
+ *
+ * Graha relationships are the natural friendships. A factor that scores
+ * poorly is reported as a risk area, as is each stretch of months when
+ * the partners' dasha lords are hostile.
+ *
+ * @module Partnership
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart, PlanetPosition } from './Chart';
+import { DASHA_YEAR_DAYS, DashaPeriod, calculateNatalDashas, findRunningPeriods } from './Dasha';
+import { GrahaId, SIGNS, getGraha, naturalRelation, ordinal } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * What a partnership is scored on
+ */
+export type PartnershipFactorId =
+  | 'leadership'
+  | 'alliance'
+  | 'gains'
+  | 'communication'
+  | 'growth'
+  | 'timing';
+
+/**
+ * Overall reading of a partnership score
+ */
+export type PartnershipRating = 'strong' | 'workable' | 'challenging';
+
+/**
+ * Factor reference entry
+ */
+export interface PartnershipFactorInfo {
+  id: PartnershipFactorId;
+  name: string;
+  /** Points out of 100 */
+  weight: number;
+  description: string;
+}
+
+/**
+ * A partner whose chart is compared
+ */
+export interface PartnershipMember {
+  name: string;
+  natal: NatalChart;
+}
+
+/**
+ * One factor scored for a pair
+ */
+export interface PartnershipFactor {
+  id: PartnershipFactorId;
+  name: string;
+  weight: number;
+  /** 0-1 */
+  harmony: number;
+  points: number;
+  detail: string;
+}
+
+/**
+ * Months when both partners run mutually hostile dasha lords
+ */
+export interface FrictionPeriod {
+  start: Date;
+  end: Date;
+  /** Antardasha lords of the first and second partner */
+  lords: [GrahaId, GrahaId];
+}
+
+/**
+ * Two partners compared
+ */
+export interface PartnerPairScore {
+  /** Indices into the members */
+  a: number;
+  b: number;
+  /** 0-100 */
+  score: number;
+  factors: PartnershipFactor[];
+  frictionPeriods: FrictionPeriod[];
+}
+
+/**
+ * Something a pair should watch
+ */
+export interface PartnershipRisk {
+  a: number;
+  b: number;
+  factor: PartnershipFactorId;
+  severity: 'high' | 'medium';
+  description: string;
+}
+
+/**
+ * Compatibility of a founding team
+ */
+export interface PartnershipReport {
+  members: string[];
+  pairs: PartnerPairScore[];
+  /** Mean of the pair scores, 0-100 */
+  score: number;
+  rating: PartnershipRating;
+  /** Most severe first */
+  risks: PartnershipRisk[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const PARTNERSHIP_FACTORS: PartnershipFactorInfo[] = [
+  { id: 'leadership', name: 'Leadership', weight: 20, description: '10th house lords: vision, authority and public standing' },
+  { id: 'alliance', name: 'Alliance', weight: 15, description: '7th house lords: the partnership contract itself' },
+  { id: 'gains', name: 'Gains', weight: 15, description: '11th house lords: revenue, networks and shared goals' },
+  { id: 'communication', name: 'Communication', weight: 15, description: 'Mercury: negotiation, deals and day-to-day decisions' },
+  { id: 'growth', name: 'Growth', weight: 15, description: 'Jupiter: ethics, judgement and expansion' },
+  { id: 'timing', name: 'Timing', weight: 20, description: 'Dasha overlap over the coming years' },
+];
+
+export const PARTNERSHIP_RATINGS: { id: PartnershipRating; name: string; minScore: number }[] = [
+  { id: 'strong', name: 'Strong partnership', minScore: 75 },
+  { id: 'workable', name: 'Workable partnership', minScore: 55 },
+  { id: 'challenging', name: 'Challenging partnership', minScore: 0 },
+];
+
+/** Years ahead the dasha overlap covers */
+export const PARTNERSHIP_TIMING_YEARS = 5;
+
+/** Days between dasha overlap samples */
+const TIMING_STEP_DAYS = 30;
+
+/** Harmony of two grahas' views of each other, sorted alphabetically */
+const RELATION_HARMONY: Record<string, number> = {
+  'friend-friend': 1,
+  'friend-neutral': 0.75,
+  'neutral-neutral': 0.5,
+  'enemy-friend': 0.25,
+  'enemy-neutral': 0.1,
+  'enemy-enemy': 0,
+};
+
+/** Harmony of two placements by signs counted between them (1-12) */
+const SIGN_HARMONY = [1, 0, 0.75, 0.25, 1, 0, 0.5, 0, 1, 0.25, 0.75, 0];
+
+/** Below these a factor is reported as a risk */
+const MEDIUM_RISK_HARMONY = 0.4;
+const HIGH_RISK_HARMONY = 0.2;
+
+/** At or below this two dasha lords are in friction */
+const FRICTION_HARMONY = 0.1;
+
+const FACTOR_HOUSES: Partial<Record<PartnershipFactorId, number>> = {
+  leadership: 10,
+  alliance: 7,
+  gains: 11,
+};
+
+const FACTOR_PLANETS: Partial<Record<PartnershipFactorId, GrahaId>> = {
+  communication: 'Me',
+  growth: 'Ju',
+};
+
+const RISK_TEXT: Record<PartnershipFactorId, string> = {
+  leadership: 'Clashing ideas of direction and authority; agree who leads which decisions',
+  alliance: 'The partnership bond itself is strained; put roles and exits in writing',
+  gains: 'Different ideas of what success and profit mean; align targets early',
+  communication: 'Negotiation styles grate; formalise how decisions are recorded',
+  growth: 'Different appetites for risk and expansion; set investment rules together',
+  timing: 'Both run hostile dasha lords at the same time',
+};
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Harmony (0-1) between two grahas from their natural relationships
+ */
+export const relationHarmony = (a: GrahaId, b: GrahaId): number =>
+  a === b ? 1 : RELATION_HARMONY[[naturalRelation(a, b), naturalRelation(b, a)].sort().join('-')];
+
+/**
+ * Rating for a partnership score
+ */
+export const partnershipRating = (score: number): PartnershipRating =>
+  (PARTNERSHIP_RATINGS.find((rating) => score >= rating.minScore) ??
+    PARTNERSHIP_RATINGS[PARTNERSHIP_RATINGS.length - 1]).id;
+
+const houseLord = (natal: NatalChart, house: number): GrahaId =>
+  SIGNS[(natal.ascendant.sign + house - 1) % 12].lord;
+
+const planetOf = (natal: NatalChart, id: GrahaId): PlanetPosition =>
+  natal.planets.find((planet) => planet.id === id) as PlanetPosition;
+
+const factorOf = (id: PartnershipFactorId, harmony: number, detail: string): PartnershipFactor => {
+  const { name, weight } = PARTNERSHIP_FACTORS.find((factor) => factor.id === id) as PartnershipFactorInfo;
+  return { id, name, weight, harmony, points: Math.round(harmony * weight * 10) / 10, detail };
+};
+
+/** Antardasha lord sampled every step over the timing years */
+const antardashaLords = (mahadashas: DashaPeriod[], dates: Date[]): (GrahaId | null)[] =>
+  dates.map((date) => findRunningPeriods(mahadashas, date)[1]?.lord ?? null);
+
+const scorePair = (
+  members: PartnershipMember[],
+  lords: (GrahaId | null)[][],
+  dates: Date[],
+  a: number,
+  b: number
+): PartnerPairScore => {
+  const first = members[a].natal;
+  const second = members[b].natal;
+
+  const houseFactors = (['leadership', 'alliance', 'gains'] as PartnershipFactorId[]).map((id) => {
+    const house = FACTOR_HOUSES[id] as number;
+    const lordA = houseLord(first, house);
+    const lordB = houseLord(second, house);
+    return factorOf(
+      id,
+      relationHarmony(lordA, lordB),
+      lordA === lordB
+        ? `Both ${ordinal(house)} houses are ruled by ${getGraha(lordA).name}`
+        : `${ordinal(house)} lords ${getGraha(lordA).name} and ${getGraha(lordB).name} are ${naturalRelation(lordA, lordB)} and ${naturalRelation(lordB, lordA)}`
+    );
+  });
+
+  const planetFactors = (['communication', 'growth'] as PartnershipFactorId[]).map((id) => {
+    const planet = FACTOR_PLANETS[id] as GrahaId;
+    const signA = planetOf(first, planet).sign;
+    const signB = planetOf(second, planet).sign;
+    const distance = ((signB - signA + 12) % 12) + 1;
+    return factorOf(
+      id,
+      SIGN_HARMONY[distance - 1],
+      `${getGraha(planet).name} in ${SIGNS[signA].name} and ${SIGNS[signB].name}, ${distance}/${((signA - signB + 12) % 12) + 1} apart`
+    );
+  });
+
+  // Dasha overlap: mean harmony of the Antardasha lords both run
+  const samples = dates
+    .map((date, i) => ({ date, lordA: lords[a][i], lordB: lords[b][i] }))
+    .filter((sample): sample is { date: Date; lordA: GrahaId; lordB: GrahaId } =>
+      sample.lordA !== null && sample.lordB !== null
+    );
+  const harmonies = samples.map((sample) => relationHarmony(sample.lordA, sample.lordB));
+  const timingHarmony =
+    harmonies.length > 0 ? harmonies.reduce((sum, value) => sum + value, 0) / harmonies.length : 0.5;
+
+  const frictionPeriods: FrictionPeriod[] = [];
+  samples.forEach((sample, i) => {
+    if (harmonies[i] > FRICTION_HARMONY) return;
+    const last = frictionPeriods[frictionPeriods.length - 1];
+    const end = new Date(sample.date.getTime() + TIMING_STEP_DAYS * 86400000);
+    if (last && last.end.getTime() === sample.date.getTime() && last.lords[0] === sample.lordA && last.lords[1] === sample.lordB) {
+      last.end = end;
+    } else {
+      frictionPeriods.push({ start: sample.date, end, lords: [sample.lordA, sample.lordB] });
+    }
+  });
+  const timing = factorOf(
+    'timing',
+    timingHarmony,
+    `${Math.round(timingHarmony * 100)}% dasha harmony over the next ${PARTNERSHIP_TIMING_YEARS} years`
+  );
+
+  const factors = [...houseFactors, ...planetFactors, timing];
+  const score = Math.round(factors.reduce((sum, factor) => sum + factor.harmony * factor.weight, 0));
+  return { a, b, score, factors, frictionPeriods };
+};
+
+const risksOf = (pair: PartnerPairScore): PartnershipRisk[] => {
+  const { a, b } = pair;
+  const factorRisks = pair.factors
+    .filter((factor) => factor.id !== 'timing' && factor.harmony < MEDIUM_RISK_HARMONY)
+    .map((factor): PartnershipRisk => ({
+      a,
+      b,
+      factor: factor.id,
+      severity: factor.harmony < HIGH_RISK_HARMONY ? 'high' : 'medium',
+      description: `${RISK_TEXT[factor.id]}. ${factor.detail}.`,
+    }));
+  const timingRisks = pair.frictionPeriods.map((period): PartnershipRisk => {
+    const months = Math.round((period.end.getTime() - period.start.getTime()) / (TIMING_STEP_DAYS * 86400000));
+    return {
+      a,
+      b,
+      factor: 'timing',
+      severity: months >= 6 ? 'high' : 'medium',
+      description: `${RISK_TEXT.timing} (${getGraha(period.lords[0]).name} and ${getGraha(period.lords[1]).name}) from ${period.start.toISOString().slice(0, 7)} to ${period.end.toISOString().slice(0, 7)}; avoid major commitments together.`,
+    };
+  });
+  return [...factorRisks, ...timingRisks];
+};
+
+/**
+ * Partnership compatibility of two or more members, with timing read
+ * from a start date (today when omitted)
+ */
+export const analyzePartnership = (
+  members: PartnershipMember[],
+  from: Date = new Date()
+): PartnershipReport => {
+  const steps = Math.floor((PARTNERSHIP_TIMING_YEARS * DASHA_YEAR_DAYS) / TIMING_STEP_DAYS);
+  const dates = Array.from(
+    { length: steps },
+    (_, i) => new Date(from.getTime() + i * TIMING_STEP_DAYS * 86400000)
+  );
+  const lords = members.map((member) => antardashaLords(calculateNatalDashas(member.natal, 'vimshottari', 2).mahadashas, dates));
+
+  const pairs = members.flatMap((_, a) =>
+    members.slice(a + 1).map((__, offset) => scorePair(members, lords, dates, a, a + 1 + offset))
+  );
+  const score = pairs.length > 0 ? Math.round(pairs.reduce((sum, pair) => sum + pair.score, 0) / pairs.length) : 0;
+  const risks = pairs
+    .flatMap(risksOf)
+    .sort((x, y) => (x.severity === y.severity ? 0 : x.severity === 'high' ? -1 : 1));
+
+  return {
+    members: members.map((member) => member.name),
+    pairs,
+    score,
+    rating: partnershipRating(score),
+    risks,
+  };
+};
@@ -0,0 +1,170 @@
+/**
+ * Corp Astro Engine - Birthplace Search
+ *
+ * Fuzzy search over the bundled city database, and the glue that turns a
+ * place and a wall-clock birth time into chart input with the UTC offset
+ * the clocks showed at that date, or a place and a day into a panchang
+ * location.
+ *
+ * A query matches city names and aliases by exact name, prefix, word
+ * prefix, substring, and finally by edit distance so small typos
+ * ('Banglore') still find the city. Parts after a comma narrow the
+ * results by state or country prefix ('Perth, Aus', 'Hyderabad, Tel').
+ *
+ * @module Places
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { BirthInput } from './Chart';
+import { CITIES, Place } from './Cities';
+import { GeoLocation } from './RiseSet';
+import { LocalDateTime, ResolvedOffset, resolveUtcOffset } from './TimeZones';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Results returned when no limit is given */
+export const DEFAULT_PLACE_RESULTS = 20;
+
+/** Match scores, best first */
+const SCORE_EXACT = 100;
+const SCORE_PREFIX = 80;
+const SCORE_WORD_PREFIX = 60;
+const SCORE_SUBSTRING = 50;
+const SCORE_TYPO = 40;
+
+/** Penalty for matching a former name rather than the current one */
+const ALIAS_PENALTY = 5;
+
+const HOUR_MS = 3600000;
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/** Lower case without accents or punctuation, for comparison */
+const normalize = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** How well a query matches one name, 0 for no match */
+const nameScore = (query: string, name: string): number => {
+  if (name === query) return SCORE_EXACT;
+  if (name.startsWith(query)) return SCORE_PREFIX;
+  if (name.split(' ').some((word) => word.startsWith(query))) return SCORE_WORD_PREFIX;
+  if (query.length >= 3 && name.includes(query)) return SCORE_SUBSTRING;
+  // Typos: compare against the start of the name, one per four letters
+  const allowed = Math.floor(query.length / 4);
+  if (allowed === 0) return 0;
+  const distance = Math.min(
+    editDistance(query, name.slice(0, query.length)),
+    editDistance(query, name)
+  );
+  return distance <= allowed ? SCORE_TYPO - distance * 10 : 0;
+};
+
+/**
+ * Display name, e.g. 'Pune, Maharashtra, India'
+ */
+export const placeLabel = (place: Place): string =>
+  place.state === place.name || place.state === place.country
+    ? `${place.name}, ${place.country}`
+    : `${place.name}, ${place.state}, ${place.country}`;
+
+/**
+ * Places matching a free-text query, best matches first
+ */
+export const searchPlaces = (query: string, limit: number = DEFAULT_PLACE_RESULTS): Place[] => {
+  const [head = '', ...qualifiers] = query.split(',').map(normalize);
+  if (head.length === 0) return [];
+  const filters = qualifiers.filter((part) => part.length > 0);
+
+  return CITIES.map((place) => {
+    const region = [normalize(place.state), normalize(place.country)];
+    if (!filters.every((part) => region.some((name) => name.startsWith(part)))) {
+      return { place, score: 0 };
+    }
+    const score = Math.max(
+      nameScore(head, normalize(place.name)),
+      ...(place.aliases ?? []).map((alias) =>
+        Math.max(nameScore(head, normalize(alias)) - ALIAS_PENALTY, 0)
+      )
+    );
+    return { place, score };
+  })
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.place.name.localeCompare(b.place.name))
+    .slice(0, limit)
+    .map((match) => match.place);
+};
+
+/**
+ * UTC offset the clocks at a place showed at a wall-clock time
+ */
+export const placeUtcOffset = (place: Place, local: LocalDateTime): ResolvedOffset =>
+  resolveUtcOffset(place.zone, local, place.longitude, place.name);
+
+/**
+ * Chart input for a wall-clock birth time at a place
+ */
+export const birthInputAt = (place: Place, local: LocalDateTime): BirthInput => ({
+  ...local,
+  utcOffset: placeUtcOffset(place, local).utcOffset,
+  latitude: place.latitude,
+  longitude: place.longitude,
+});
+
+/** Wall-clock time at an instant on a clock `utcOffset` hours east of UTC */
+const wallClockAt = (instant: Date, utcOffset: number): LocalDateTime => {
+  const shifted = new Date(instant.getTime() + utcOffset * HOUR_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+  };
+};
+
+/**
+ * Wall-clock time the clocks at a place show at an instant
+ */
+export const placeLocalTime = (place: Place, instant: Date): LocalDateTime => {
+  // The offset is looked up by wall-clock time, so the first guess from
+  // UTC is refined once from the wall clock it gives
+  const guess = wallClockAt(instant, placeUtcOffset(place, wallClockAt(instant, 0)).utcOffset);
+  return wallClockAt(instant, placeUtcOffset(place, guess).utcOffset);
+};
+
+/**
+ * Panchang location for a civil date at a place, at the UTC offset its
+ * clocks show at noon that day
+ */
+export const placeLocation = (place: Place, year: number, month: number, day: number): GeoLocation => ({
+  latitude: place.latitude,
+  longitude: place.longitude,
+  utcOffset: placeUtcOffset(place, { year, month, day, hour: 12, minute: 0 }).utcOffset,
+});
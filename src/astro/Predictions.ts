@@ -0,0 +1,121 @@
+/**
+ * Corp Astro Engine - Predictions
+ *
+ * Forecasts for a native read from their chart on a date:
+ * - The running Mahadasha and Antardasha lords give results of the house
+ *   the Antardasha lord occupies, spoilt by a dusthana or debilitation
+ * - Yogas and doshas formed by either running lord come forward now
+ * - Jupiter and Saturn transits favour the house they cross when it
+ *   holds at least four of their own Ashtakavarga bindus
+ *
+ * @module Predictions
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { BINDU_THRESHOLD, calculateAshtakavarga, getBinduScore } from './Ashtakavarga';
+import { NatalChart, PlanetPosition } from './Chart';
+import { calculateNatalDashas, findRunningPeriods } from './Dasha';
+import { calculateTransits } from './Transit';
+import { detectYogas } from './Yogas';
+import { GrahaId, dignityOf, getGraha, ordinal } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * One forecast with the placement it comes from
+ */
+export interface Prediction {
+  text: string;
+  basis: string;
+  favourable: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Area of life of each house 1-12, as it fares when supported or afflicted */
+export const HOUSE_LIFE_THEMES: { favourable: string; difficult: string }[] = [
+  { favourable: 'Health and confidence rise', difficult: 'Guard your health and energy' },
+  { favourable: 'Savings and family finances grow', difficult: 'Watch spending and careless words' },
+  { favourable: 'Initiative, short travel and writing pay off', difficult: 'Avoid rash moves and quarrels with siblings' },
+  { favourable: 'Home, property and peace of mind improve', difficult: 'Delay property moves; home life is unsettled' },
+  { favourable: 'Studies, creative work and children flourish', difficult: 'Keep away from speculation' },
+  { favourable: 'You get the better of rivals and illness', difficult: 'Disputes, debts or health niggles need care' },
+  { favourable: 'Marriage and partnerships are supported', difficult: 'Partnerships are strained; go slow on new ones' },
+  { favourable: 'Research, insurance and inheritance matters move', difficult: 'Sudden setbacks; take no needless risks' },
+  { favourable: 'Luck, mentors and long journeys favour you', difficult: 'Beliefs and mentors are tested' },
+  { favourable: 'Career advancement and recognition', difficult: 'Career pressure; avoid clashes with seniors' },
+  { favourable: 'Gains come and wishes are met', difficult: 'Gains come slower than hoped' },
+  { favourable: 'Spiritual pursuits and foreign links do well', difficult: 'Expenses run high; rest more' },
+];
+
+/** Slow grahas whose transits colour months at a time */
+const TRANSIT_GRAHAS: ('Ju' | 'Sa')[] = ['Ju', 'Sa'];
+
+/** Houses that spoil a dasha lord's results */
+const DUSTHANAS = [6, 8, 12];
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+const houseTheme = (house: number, favourable: boolean): string =>
+  HOUSE_LIFE_THEMES[house - 1][favourable ? 'favourable' : 'difficult'];
+
+/**
+ * Predictions for a chart on a date, today when omitted: the running
+ * dasha first, then yogas it brings forward, then slow transits
+ */
+export const calculatePredictions = (natal: NatalChart, date: Date = new Date()): Prediction[] => {
+  const predictions: Prediction[] = [];
+  const planetOf = (id: GrahaId) => natal.planets.find((planet) => planet.id === id) as PlanetPosition;
+
+  const [mahadasha, antardasha] = findRunningPeriods(calculateNatalDashas(natal, 'vimshottari', 2).mahadashas, date);
+  if (mahadasha && antardasha) {
+    const lord = planetOf(antardasha.lord);
+    const favourable = !DUSTHANAS.includes(lord.house) && dignityOf(lord.id, lord.sign) !== 'debilitated';
+    predictions.push({
+      text: houseTheme(lord.house, favourable),
+      basis: `${getGraha(mahadasha.lord).name} Mahadasha, ${lord.name} Antardasha; ${lord.name} is in the ${ordinal(lord.house)}`,
+      favourable,
+    });
+
+    // Several yogas of one family read as one prediction
+    const { yogas, doshas } = detectYogas(natal);
+    const active = [...yogas, ...doshas].filter(
+      (yoga) => yoga.grahas.includes(mahadasha.lord) || yoga.grahas.includes(antardasha.lord)
+    );
+    active
+      .filter((yoga, index) => active.findIndex((other) => other.name === yoga.name) === index)
+      .forEach((yoga) => {
+        const runner = yoga.grahas.includes(antardasha.lord) ? antardasha.lord : mahadasha.lord;
+        predictions.push({
+          text:
+            yoga.kind === 'yoga'
+              ? `${yoga.name} gives its results in this period`
+              : `${yoga.name} is stirred in this period; keep up its remedy`,
+          basis: `Formed by ${getGraha(runner).name}, whose dasha is running`,
+          favourable: yoga.kind === 'yoga',
+        });
+      });
+  }
+
+  const ashtakavarga = calculateAshtakavarga(natal);
+  const transits = calculateTransits(natal, date);
+  TRANSIT_GRAHAS.forEach((id) => {
+    const transit = transits.find((position) => position.id === id) as PlanetPosition;
+    const { bindus } = getBinduScore(ashtakavarga, id, transit.sign);
+    const favourable = bindus >= BINDU_THRESHOLD;
+    predictions.push({
+      text: houseTheme(transit.house, favourable),
+      basis: `${transit.name} transits the ${ordinal(transit.house)} with ${bindus} bindus`,
+      favourable,
+    });
+  });
+
+  return predictions;
+};
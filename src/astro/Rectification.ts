@@ -0,0 +1,319 @@
+/**
+ * Corp Astro Engine - Birth Time Rectification
+ *
+ * Narrows an uncertain birth time using dated life events. Every minute
+ * step across the window is cast as a candidate chart and scored on how
+ * well it times the events:
+ * - Dasha hits: the Mahadasha, Antardasha and Pratyantardasha lords
+ *   running on the event date score when they rule or occupy a house that
+ *   signifies the event, or are its natural karaka.
+ * - Transit hits: Jupiter and Saturn score when they occupy or aspect a
+ *   signifying house on the event date, with a bonus when both do (the
+ *   double transit).
+ *
+ * The Lagna decides the houses, so candidates are grouped by ascendant
+ * sign. Within the best ascendant the proposed time is the middle of the
+ * longest run of top-scoring minutes. Confidence follows the number of
+ * events and the lead over the next ascendant.
+ *
+ * Searches stay within the recorded birth date.
+ *
+ * @module Rectification
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { ChartOptions, NatalChart, PlanetPosition, castChart, calculatePlanetPositions } from './Chart';
+import { Place } from './Cities';
+import { DashaPeriod, calculateNatalDashas, findRunningPeriods } from './Dasha';
+import { julianDayFromDate } from './JulianDay';
+import { birthInputAt } from './Places';
+import { LocalDateTime } from './TimeZones';
+import { GrahaId, SIGNS, getGraha, ordinal, signDistance } from './Zodiac';
+import { grahaDrishti } from './Aspects';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Kinds of life event the assistant can time
+ */
+export type LifeEventKind =
+  | 'marriage'
+  | 'job_change'
+  | 'childbirth'
+  | 'relocation'
+  | 'education'
+  | 'bereavement';
+
+/**
+ * How far the proposed time can be trusted
+ */
+export type RectificationConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * Life event reference entry
+ */
+export interface LifeEventInfo {
+  id: LifeEventKind;
+  name: string;
+  /** Whole-sign houses from the Lagna that signify the event */
+  houses: number[];
+  /** Natural significators */
+  karakas: GrahaId[];
+}
+
+/**
+ * A dated life event
+ */
+export interface LifeEvent {
+  kind: LifeEventKind;
+  year: number;
+  /** 1 = January ... 12 = December */
+  month: number;
+  day: number;
+}
+
+/**
+ * Birth time search
+ */
+export interface RectificationInput {
+  place: Place;
+  /** Recorded or estimated birth time */
+  local: LocalDateTime;
+  /** Minutes either side of the recorded time to search */
+  windowMinutes: number;
+  events: LifeEvent[];
+}
+
+/**
+ * How one event scored for a candidate time
+ */
+export interface EventScore {
+  event: LifeEvent;
+  points: number;
+  /** Plain-language reasons, e.g. 'Venus Antardasha connects to the 7th' */
+  reasons: string[];
+}
+
+/**
+ * Best time found for one ascendant sign
+ */
+export interface RectificationCandidate {
+  ascendantSign: number;
+  /** Proposed birth time with this ascendant */
+  time: LocalDateTime;
+  /** Minutes either side of `time` that score as well */
+  windowMinutes: number;
+  /** 0-100, share of the points the events could have scored */
+  score: number;
+  events: EventScore[];
+}
+
+/**
+ * Outcome of a rectification, candidates best first
+ */
+export interface RectificationResult {
+  candidates: RectificationCandidate[];
+  confidence: RectificationConfidence;
+  /** Events after the birth date that were scored */
+  eventsUsed: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const LIFE_EVENTS: LifeEventInfo[] = [
+  { id: 'marriage', name: 'Marriage', houses: [7, 2, 11], karakas: ['Ve', 'Ju'] },
+  { id: 'job_change', name: 'Job Change', houses: [10, 6, 11], karakas: ['Sa', 'Su', 'Me'] },
+  { id: 'childbirth', name: 'Childbirth', houses: [5, 9, 11], karakas: ['Ju'] },
+  { id: 'relocation', name: 'Relocation', houses: [4, 12, 3], karakas: ['Mo', 'Ra'] },
+  { id: 'education', name: 'Graduation', houses: [4, 5, 9], karakas: ['Me', 'Ju'] },
+  { id: 'bereavement', name: 'Loss of a Parent', houses: [8, 12, 2], karakas: ['Sa', 'Ke'] },
+];
+
+/** Points for a dasha lord signifying the event, Mahadasha first */
+const DASHA_WEIGHTS = [3, 2, 1];
+/** Points for a dasha lord that is only the event's karaka */
+const KARAKA_POINTS = 1;
+/** Points for Jupiter or Saturn touching a signifying house */
+const TRANSIT_POINTS = 2;
+/** Extra points when both do */
+const DOUBLE_TRANSIT_BONUS = 1;
+
+const MAX_EVENT_POINTS =
+  DASHA_WEIGHTS.reduce((sum, weight) => sum + weight, 0) + 2 * TRANSIT_POINTS + DOUBLE_TRANSIT_BONUS;
+
+/** Most candidate times cast in one search */
+const MAX_CANDIDATES = 240;
+
+const MINUTES_PER_DAY = 1440;
+
+const DASHA_LEVELS = ['Mahadasha', 'Antardasha', 'Pratyantardasha'];
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Look up a life event kind by id
+ */
+export const getLifeEvent = (id: LifeEventKind): LifeEventInfo =>
+  LIFE_EVENTS.find((event) => event.id === id) as LifeEventInfo;
+
+/** '5th, 9th and 11th' */
+const houseList = (houses: number[]): string =>
+  houses.length > 1
+    ? `${houses.slice(0, -1).map(ordinal).join(', ')} and ${ordinal(houses[houses.length - 1])}`
+    : ordinal(houses[0]);
+
+const eventDate = (event: LifeEvent): Date =>
+  new Date(Date.UTC(event.year, event.month - 1, event.day, 12));
+
+/** Signifying houses a dasha lord rules or occupies */
+const lordHouses = (natal: NatalChart, lord: GrahaId, houses: number[]): number[] => {
+  const placed = natal.planets.find((planet) => planet.id === lord) as PlanetPosition;
+  return houses.filter(
+    (house) =>
+      placed.house === house || SIGNS[(natal.ascendant.sign + house - 1) % 12].lord === lord
+  );
+};
+
+const scoreDashas = (natal: NatalChart, mahadashas: DashaPeriod[], event: LifeEvent): EventScore => {
+  const { houses, karakas } = getLifeEvent(event.kind);
+  const running = findRunningPeriods(mahadashas, eventDate(event));
+  const reasons: string[] = [];
+  let points = 0;
+  running.forEach((period, level) => {
+    const name = `${getGraha(period.lord).name} ${DASHA_LEVELS[level]}`;
+    const touched = lordHouses(natal, period.lord, houses);
+    if (touched.length > 0) {
+      points += DASHA_WEIGHTS[level];
+      reasons.push(`${name} connects to the ${houseList(touched)}`);
+    } else if (karakas.includes(period.lord)) {
+      points += KARAKA_POINTS;
+      reasons.push(`${name} is a natural significator`);
+    }
+  });
+  return { event, points, reasons };
+};
+
+const scoreTransits = (
+  lagnaSign: number,
+  event: LifeEvent,
+  transits: PlanetPosition[]
+): EventScore => {
+  const { houses } = getLifeEvent(event.kind);
+  const reasons: string[] = [];
+  let points = 0;
+  const touching = (['Ju', 'Sa'] as GrahaId[]).filter((id) => {
+    const transit = transits.find((planet) => planet.id === id) as PlanetPosition;
+    const touched = houses.filter((house) =>
+      [transit.sign, ...grahaDrishti(id, transit.sign)].some(
+        (sign) => signDistance(lagnaSign, sign) === house
+      )
+    );
+    if (touched.length === 0) return false;
+    points += TRANSIT_POINTS;
+    reasons.push(`Transiting ${getGraha(id).name} reaches the ${houseList(touched)}`);
+    return true;
+  });
+  if (touching.length === 2) {
+    points += DOUBLE_TRANSIT_BONUS;
+    reasons.push('Double transit of Jupiter and Saturn');
+  }
+  return { event, points, reasons };
+};
+
+/** Local time a number of minutes after midnight on the recorded date */
+const atMinute = (local: LocalDateTime, minutes: number): LocalDateTime => ({
+  year: local.year,
+  month: local.month,
+  day: local.day,
+  hour: Math.floor(minutes / 60),
+  minute: minutes % 60,
+});
+
+/**
+ * Score candidate birth times against dated life events and propose the
+ * most likely time for each ascendant in the window
+ */
+export const rectifyBirthTime = (
+  input: RectificationInput,
+  options: ChartOptions = {}
+): RectificationResult => {
+  const { place, local, windowMinutes } = input;
+  const recorded = local.hour * 60 + local.minute;
+  const first = Math.max(0, recorded - windowMinutes);
+  const last = Math.min(MINUTES_PER_DAY - 1, recorded + windowMinutes);
+  const step = Math.max(1, Math.ceil((last - first) / MAX_CANDIDATES));
+
+  const birthDate = Date.UTC(local.year, local.month - 1, local.day);
+  const events = input.events.filter((event) => eventDate(event).getTime() > birthDate);
+
+  // Transit positions do not depend on the birth time
+  const transits = events.map((event) =>
+    calculatePlanetPositions(julianDayFromDate(eventDate(event)), 0, options)
+  );
+
+  const scored: { minutes: number; lagnaSign: number; total: number; events: EventScore[] }[] = [];
+  for (let minutes = first; minutes <= last; minutes += step) {
+    const natal = castChart(birthInputAt(place, atMinute(local, minutes)), options);
+    const { mahadashas } = calculateNatalDashas(natal);
+    const eventScores = events.map((event, i) => {
+      const dashas = scoreDashas(natal, mahadashas, event);
+      const gochara = scoreTransits(natal.ascendant.sign, event, transits[i]);
+      return {
+        event,
+        points: dashas.points + gochara.points,
+        reasons: [...dashas.reasons, ...gochara.reasons],
+      };
+    });
+    scored.push({
+      minutes,
+      lagnaSign: natal.ascendant.sign,
+      total: eventScores.reduce((sum, score) => sum + score.points, 0),
+      events: eventScores,
+    });
+  }
+
+  const maxPoints = Math.max(1, events.length * MAX_EVENT_POINTS);
+  const signs = [...new Set(scored.map((candidate) => candidate.lagnaSign))];
+  const candidates = signs
+    .map((sign): RectificationCandidate => {
+      const times = scored.filter((candidate) => candidate.lagnaSign === sign);
+      const best = Math.max(...times.map((candidate) => candidate.total));
+      // Longest run of consecutive steps at the best score
+      let run = { start: 0, length: 0 };
+      let current = { start: 0, length: 0 };
+      times.forEach((candidate, i) => {
+        if (candidate.total !== best) {
+          current = { start: i + 1, length: 0 };
+          return;
+        }
+        current = { start: current.start, length: current.length + 1 };
+        if (current.length > run.length) run = current;
+      });
+      const middle = times[run.start + Math.floor((run.length - 1) / 2)];
+      return {
+        ascendantSign: sign,
+        time: atMinute(local, middle.minutes),
+        windowMinutes: Math.max(step, Math.ceil((run.length * step) / 2)),
+        score: Math.round((best / maxPoints) * 100),
+        events: middle.events,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const lead = candidates.length > 1 ? candidates[0].score - candidates[1].score : 100;
+  const confidence: RectificationConfidence =
+    events.length >= 3 && lead >= 15
+      ? 'high'
+      : events.length >= 2 && lead >= 5
+        ? 'medium'
+        : 'low';
+
+  return { candidates, confidence, eventsUsed: events.length };
+};
@@ -0,0 +1,142 @@
+/**
+ * Corp Astro Engine - Rising & Setting
+ *
+ * Sunrise, sunset, moonrise and moonset for a place. Events are found by
+ * scanning the body's altitude through the local day and refining each
+ * horizon crossing by bisection to about a second.
+ *
+ * Sunrise and sunset use the upper limb with standard refraction
+ * (-0.833°); the Moon uses +0.125°, which also allows for its mean
+ * horizontal parallax. Times are for the apparent horizon at sea level.
+ *
+ * @module RiseSet
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { julianDayFromCalendar, julianCenturies, toTerrestrialTime } from './JulianDay';
+import { sunPosition, moonPosition, meanObliquity, eclipticToEquatorial } from './Ephemeris';
+import { localSiderealTime } from './Ascendant';
+
+const DEG = Math.PI / 180;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Observer's place and the UTC offset of its civil clock
+ */
+export interface GeoLocation {
+  /** Degrees, north positive */
+  latitude: number;
+  /** Degrees, east positive */
+  longitude: number;
+  /** Hours east of UTC, e.g. 5.5 for IST */
+  utcOffset: number;
+}
+
+/**
+ * Bodies with rise/set support
+ */
+export type RiseSetBody = 'Su' | 'Mo';
+
+/**
+ * Rise and set Julian Days (UT); null when the event does not occur in
+ * the searched window
+ */
+export interface RiseSetEvents {
+  rise: number | null;
+  set: number | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Altitude of the centre at the moment of rise/set, degrees */
+const HORIZON_ALTITUDE: Record<RiseSetBody, number> = {
+  Su: -0.8333,
+  Mo: 0.125,
+};
+
+/** Scan step in days */
+const SCAN_STEP = 1 / 48;
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Geocentric altitude of the Sun or Moon in degrees
+ */
+export const bodyAltitude = (body: RiseSetBody, jdUT: number, location: GeoLocation): number => {
+  const jdTT = toTerrestrialTime(jdUT);
+  const ecliptic = body === 'Su' ? sunPosition(jdTT) : moonPosition(jdTT);
+  const { rightAscension, declination } = eclipticToEquatorial(
+    ecliptic.longitude,
+    ecliptic.latitude,
+    meanObliquity(julianCenturies(jdTT))
+  );
+  const hourAngle = (localSiderealTime(jdUT, location.longitude) - rightAscension) * DEG;
+  const phi = location.latitude * DEG;
+  const dec = declination * DEG;
+  return (
+    Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle)) /
+    DEG
+  );
+};
+
+/**
+ * First rise and first set of a body within `days` after `startJd` (UT)
+ */
+export const findRiseSet = (
+  body: RiseSetBody,
+  startJd: number,
+  location: GeoLocation,
+  days: number = 1
+): RiseSetEvents => {
+  const height = (jd: number) => bodyAltitude(body, jd, location) - HORIZON_ALTITUDE[body];
+  const events: RiseSetEvents = { rise: null, set: null };
+
+  let jd0 = startJd;
+  let h0 = height(jd0);
+  const steps = Math.ceil(days / SCAN_STEP);
+  for (let i = 1; i <= steps && (events.rise === null || events.set === null); i++) {
+    const jd1 = startJd + Math.min(i * SCAN_STEP, days);
+    const h1 = height(jd1);
+    const rising = h0 < 0 && h1 >= 0;
+    const setting = h0 >= 0 && h1 < 0;
+
+    if ((rising && events.rise === null) || (setting && events.set === null)) {
+      let lo = jd0;
+      let hi = jd1;
+      while (hi - lo > 1 / 86400) {
+        const mid = (lo + hi) / 2;
+        if (height(mid) < 0 === rising) lo = mid;
+        else hi = mid;
+      }
+      events[rising ? 'rise' : 'set'] = (lo + hi) / 2;
+    }
+    jd0 = jd1;
+    h0 = h1;
+  }
+  return events;
+};
+
+/**
+ * Julian Day (UT) of local midnight starting a civil date
+ */
+export const localMidnight = (year: number, month: number, day: number, location: GeoLocation): number =>
+  julianDayFromCalendar(year, month, day) - location.utcOffset / 24;
+
+/**
+ * Rise and set of a body on a local civil date
+ */
+export const calculateRiseSet = (
+  body: RiseSetBody,
+  year: number,
+  month: number,
+  day: number,
+  location: GeoLocation
+): RiseSetEvents => findRiseSet(body, localMidnight(year, month, day, location), location, 1);
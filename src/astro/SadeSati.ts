@@ -0,0 +1,171 @@
+/**
+ * Corp Astro Engine - Sade Sati and Dhaiya
+ *
+ * Saturn's transit over the natal Moon sign. Sade Sati is the seven and a
+ * half years Saturn spends in the 12th, 1st and 2nd signs from the Moon:
+ * the rising, peak and setting phases. Dhaiya is the two and a half years
+ * in the 4th (Kantaka Shani) or 8th (Ashtama Shani) sign from the Moon.
+ *
+ * Periods run between Saturn's sidereal sign ingresses, so a retrograde
+ * return to the previous sign splits a phase in two.
+ *
+ * @module SadeSati
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart } from './Chart';
+import { calculateAyanamsa } from './Ayanamsa';
+import { grahaPosition } from './Ephemeris';
+import { dateFromJulianDay, julianDayFromDate, toTerrestrialTime } from './JulianDay';
+import { normalizeDegrees, signOf } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Saturn phases counted from the natal Moon sign
+ */
+export type SaturnPhase = 'rising' | 'peak' | 'setting' | 'kantaka' | 'ashtama';
+
+/**
+ * Phase reference entry
+ */
+export interface SaturnPhaseInfo {
+  id: SaturnPhase;
+  name: string;
+  /** Sign counted from the Moon, 1 = the Moon sign */
+  houseFromMoon: number;
+  /** Whether the phase belongs to Sade Sati rather than Dhaiya */
+  sadeSati: boolean;
+}
+
+/**
+ * Saturn's stay in one phase sign between ingresses
+ */
+export interface SaturnPeriod {
+  phase: SaturnPhase;
+  /** Sidereal sign Saturn occupies */
+  sign: number;
+  start: Date;
+  end: Date;
+  /** Sade Sati cycle 1, 2, 3 ... of the lifetime; 0 for Dhaiya */
+  cycle: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SATURN_PHASES: SaturnPhaseInfo[] = [
+  { id: 'rising', name: 'Rising (12th)', houseFromMoon: 12, sadeSati: true },
+  { id: 'peak', name: 'Peak (Janma)', houseFromMoon: 1, sadeSati: true },
+  { id: 'setting', name: 'Setting (2nd)', houseFromMoon: 2, sadeSati: true },
+  { id: 'kantaka', name: 'Kantaka Shani (4th)', houseFromMoon: 4, sadeSati: false },
+  { id: 'ashtama', name: 'Ashtama Shani (8th)', houseFromMoon: 8, sadeSati: false },
+];
+
+/** Years of life covered by the timeline */
+export const SATURN_CYCLE_YEARS = 100;
+
+/** Sampling step in days; Saturn never changes sign twice within it */
+const SEARCH_STEP_DAYS = 5;
+
+/** Look back before birth so a period running at birth keeps its true start */
+const LOOKBACK_DAYS = 1100;
+
+/** Sade Sati phases further apart than this start a new cycle */
+const CYCLE_GAP_DAYS = 365.25 * 10;
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Look up a Saturn phase by id
+ */
+export const getSaturnPhase = (id: SaturnPhase): SaturnPhaseInfo =>
+  SATURN_PHASES.find((phase) => phase.id === id) as SaturnPhaseInfo;
+
+/**
+ * Moment between two Julian Days when Saturn leaves the sign it is in at `lo`
+ */
+const findIngress = (signAt: (jd: number) => number, lo: number, hi: number): number => {
+  const from = signAt(lo);
+  while (hi - lo > 1 / 1440) {
+    const mid = (lo + hi) / 2;
+    if (signAt(mid) === from) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+/**
+ * Every Sade Sati phase and Dhaiya over a lifetime, in date order
+ */
+export const calculateSaturnCycles = (
+  natal: NatalChart,
+  years: number = SATURN_CYCLE_YEARS
+): SaturnPeriod[] => {
+  const moonSign = natal.planets.find((planet) => planet.id === 'Mo')?.sign ?? 0;
+  const signAt = (jd: number) =>
+    signOf(
+      normalizeDegrees(
+        grahaPosition('Sa', toTerrestrialTime(jd)).longitude -
+          calculateAyanamsa(jd, natal.ayanamsaId)
+      )
+    );
+  const phaseOf = (sign: number) =>
+    SATURN_PHASES.find((phase) => (moonSign + phase.houseFromMoon - 1) % 12 === sign);
+
+  const first = natal.julianDay - LOOKBACK_DAYS;
+  const last = natal.julianDay + years * 365.25;
+  const periods: SaturnPeriod[] = [];
+  let start = first;
+  let sign = signAt(first);
+  let cycle = 0;
+  let lastSadeSatiEnd = -Infinity;
+
+  const close = (end: number) => {
+    const phase = phaseOf(sign);
+    if (!phase || end < natal.julianDay) return;
+    if (phase.sadeSati) {
+      if (start - lastSadeSatiEnd > CYCLE_GAP_DAYS) cycle += 1;
+      lastSadeSatiEnd = end;
+    }
+    periods.push({
+      phase: phase.id,
+      sign,
+      start: dateFromJulianDay(start),
+      end: dateFromJulianDay(end),
+      cycle: phase.sadeSati ? cycle : 0,
+    });
+  };
+
+  for (let jd = first + SEARCH_STEP_DAYS; jd <= last; jd += SEARCH_STEP_DAYS) {
+    if (signAt(jd) === sign) continue;
+    const ingress = findIngress(signAt, jd - SEARCH_STEP_DAYS, jd);
+    close(ingress);
+    start = ingress;
+    sign = signAt(jd);
+  }
+  close(last);
+
+  return periods;
+};
+
+/**
+ * Period running at a date, or null outside Sade Sati and Dhaiya
+ */
+export const saturnPeriodAt = (
+  periods: SaturnPeriod[],
+  date: Date = new Date()
+): SaturnPeriod | null =>
+  periods.find((period) => period.start <= date && date < period.end) ?? null;
+
+/**
+ * Whole days left in a period at a date
+ */
+export const daysRemaining = (period: SaturnPeriod, date: Date = new Date()): number =>
+  Math.max(Math.ceil(julianDayFromDate(period.end) - julianDayFromDate(date)), 0);
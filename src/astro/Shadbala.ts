@@ -0,0 +1,455 @@
+/**
+ * Corp Astro Engine - Shadbala and Bhava Bala
+ *
+ * Six-fold strength of the seven visible grahas following Parashara:
+ * positional (Sthana), directional (Dig), temporal (Kala), motional
+ * (Chesta), natural (Naisargika) and aspectual (Drik) strength. Values are
+ * in virupas; sixty virupas make one rupa, the unit the classical minimum
+ * requirements are given in.
+ *
+ * Kala Bala covers day/night, paksha, tribhaga, weekday, hora and ayana
+ * strength; the year and month lords and planetary war are left out.
+ * Chesta Bala of the star grahas is read from their daily motion.
+ *
+ * Bhava Bala adds to each house its lord's Shadbala, its directional
+ * strength by the cusp sign, the aspects on the cusp and the grahas
+ * occupying it.
+ *
+ * @module Shadbala
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart, PlanetPosition } from './Chart';
+import { meanObliquity } from './Ephemeris';
+import { houseOfLongitude } from './Houses';
+import { julianCenturies, dateFromJulianDay } from './JulianDay';
+import { calculateDailyHoras, findCurrentPeriod } from './Muhurta';
+import { calculatePanchang } from './Panchang';
+import { vargaSign, VargaDivision } from './Varga';
+import {
+  GrahaId,
+  GrahaRelation,
+  EXALTATION_POINTS,
+  MOOLATRIKONA_SIGNS,
+  SIGNS,
+  angleDifference,
+  degreeInSign,
+  naturalRelation,
+  normalizeDegrees,
+  signOf,
+} from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * The six strengths of a graha, in virupas
+ */
+export interface ShadbalaComponents {
+  sthana: number;
+  dig: number;
+  kala: number;
+  chesta: number;
+  naisargika: number;
+  drik: number;
+}
+
+/**
+ * Shadbala of one graha
+ */
+export interface PlanetShadbala {
+  id: GrahaId;
+  components: ShadbalaComponents;
+  /** Sum of the components in virupas */
+  total: number;
+  /** Total in rupas */
+  rupas: number;
+  /** Classical minimum in rupas */
+  required: number;
+  /** Rupas over the minimum; 1 or more is strong */
+  ratio: number;
+}
+
+/**
+ * Bhava Bala of one house, in virupas
+ */
+export interface BhavaBala {
+  house: number;
+  lord: GrahaId;
+  /** Shadbala of the house lord */
+  lordStrength: number;
+  dig: number;
+  drishti: number;
+  /** Benefit or loss from the grahas in the house */
+  occupants: number;
+  total: number;
+  rupas: number;
+}
+
+/**
+ * Directional class of a sign for Bhava Dig Bala
+ */
+type SignClass = 'nara' | 'jalachara' | 'chatushpada' | 'keeta';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SHADBALA_GRAHAS: GrahaId[] = ['Su', 'Mo', 'Ma', 'Me', 'Ju', 'Ve', 'Sa'];
+
+/** Minimum Shadbala in rupas for a graha to be strong */
+export const REQUIRED_SHADBALA: Record<string, number> = {
+  Su: 5,
+  Mo: 6,
+  Ma: 5,
+  Me: 7,
+  Ju: 6.5,
+  Ve: 5.5,
+  Sa: 5,
+};
+
+const VIRUPAS_PER_RUPA = 60;
+
+/** Natural strength in virupas, the Sun strongest */
+const NAISARGIKA_BALA: Record<string, number> = {
+  Su: 60,
+  Mo: 51.43,
+  Ve: 42.86,
+  Ju: 34.29,
+  Me: 25.71,
+  Ma: 17.14,
+  Sa: 8.57,
+};
+
+/** Vargas scored for Saptavargaja Bala */
+const SAPTA_VARGAS: VargaDivision[] = [1, 2, 3, 7, 9, 12, 30];
+
+/** Saptavargaja virupas by the graha's relation to the varga sign lord */
+const VARGA_POINTS: Record<'moolatrikona' | 'own' | CompoundRelation, number> = {
+  moolatrikona: 45,
+  own: 30,
+  great_friend: 22.5,
+  friend: 15,
+  neutral: 7.5,
+  enemy: 3.75,
+  great_enemy: 1.875,
+};
+
+type CompoundRelation = 'great_friend' | 'friend' | 'neutral' | 'enemy' | 'great_enemy';
+
+/** Compound relation from the natural relation and temporal friendship */
+const COMPOUND_RELATIONS: Record<GrahaRelation, [CompoundRelation, CompoundRelation]> = {
+  friend: ['great_friend', 'neutral'],
+  neutral: ['friend', 'enemy'],
+  enemy: ['neutral', 'great_enemy'],
+};
+
+/** Houses from a graha whose occupants are its temporal friends */
+const TEMPORAL_FRIEND_HOUSES = [2, 3, 4, 10, 11, 12];
+
+/** Decanate (0-2) in which each graha gains Drekkana Bala */
+const DREKKANA_STRONG: Record<string, number> = {
+  Su: 0, Ma: 0, Ju: 0, Me: 1, Sa: 1, Mo: 2, Ve: 2,
+};
+
+/** Mean daily motion in degrees, for Chesta Bala */
+const MEAN_MOTION: Record<string, number> = {
+  Ma: 0.524,
+  Me: 0.986,
+  Ju: 0.083,
+  Ve: 0.986,
+  Sa: 0.033,
+};
+
+/** Thirds of the day and of the night ruled by each graha; Jupiter rules all */
+const DAY_TRIBHAGA: GrahaId[] = ['Me', 'Su', 'Sa'];
+const NIGHT_TRIBHAGA: GrahaId[] = ['Mo', 'Ve', 'Ma'];
+
+const NATURAL_BENEFICS: GrahaId[] = ['Me', 'Ju', 'Ve'];
+
+/** Extra aspect virupas for the special aspects of Mars, Jupiter and Saturn */
+const SPECIAL_ASPECTS: Partial<Record<GrahaId, { from: number; to: number; bonus: number }[]>> = {
+  Ma: [
+    { from: 90, to: 120, bonus: 15 },
+    { from: 210, to: 240, bonus: 15 },
+  ],
+  Ju: [
+    { from: 120, to: 150, bonus: 30 },
+    { from: 240, to: 270, bonus: 30 },
+  ],
+  Sa: [
+    { from: 60, to: 90, bonus: 45 },
+    { from: 270, to: 300, bonus: 45 },
+  ],
+};
+
+/** House (1-12) where each sign class gains full Dig Bala */
+const SIGN_CLASS_STRONG_HOUSE: Record<SignClass, number> = {
+  nara: 1,
+  jalachara: 4,
+  keeta: 7,
+  chatushpada: 10,
+};
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/** 60 virupas at a strong point, falling to 0 at the opposite point */
+const pointStrength = (longitude: number, strongPoint: number): number =>
+  (180 - Math.abs(angleDifference(longitude, strongPoint))) / 3;
+
+const clamp = (value: number): number => Math.min(Math.max(value, 0), 60);
+
+/**
+ * Aspect virupas cast across an arc measured from the aspecting graha
+ */
+const drishtiValue = (id: GrahaId, arc: number): number => {
+  let value = 0;
+  if (arc >= 30 && arc < 60) value = (arc - 30) / 2;
+  else if (arc >= 60 && arc < 90) value = arc - 60 + 15;
+  else if (arc >= 90 && arc < 120) value = (120 - arc) / 2 + 30;
+  else if (arc >= 120 && arc < 150) value = 150 - arc;
+  else if (arc >= 150 && arc < 180) value = (arc - 150) * 2;
+  else if (arc >= 180 && arc < 300) value = (300 - arc) / 2;
+  const special = SPECIAL_ASPECTS[id]?.find((range) => arc >= range.from && arc < range.to);
+  return Math.min(value + (special?.bonus ?? 0), 60);
+};
+
+const signClass = (longitude: number): SignClass => {
+  const sign = signOf(longitude);
+  const firstHalf = degreeInSign(longitude) < 15;
+  if (sign === 7) return 'keeta';
+  if (sign === 3 || sign === 11 || (sign === 9 && !firstHalf)) return 'jalachara';
+  if ([2, 5, 6, 10].includes(sign) || (sign === 8 && firstHalf)) return 'nara';
+  return 'chatushpada';
+};
+
+/**
+ * Temporal context of the birth shared by the Kala Bala components
+ */
+const birthTime = (natal: NatalChart) => {
+  const { input } = natal;
+  const birth = dateFromJulianDay(natal.julianDay);
+  const location = {
+    latitude: input.latitude,
+    longitude: input.longitude,
+    utcOffset: input.utcOffset,
+  };
+  // The Vedic day runs from sunrise, so a birth before sunrise belongs to
+  // the previous civil day
+  let panchang = calculatePanchang(input.year, input.month, input.day, location);
+  if (panchang.sunrise && birth < panchang.sunrise) {
+    const previous = new Date(Date.UTC(input.year, input.month - 1, input.day - 1));
+    panchang = calculatePanchang(
+      previous.getUTCFullYear(),
+      previous.getUTCMonth() + 1,
+      previous.getUTCDate(),
+      location
+    );
+  }
+  const { sunrise, sunset, nextSunrise } = panchang;
+  const isDay = !sunset || birth < sunset;
+  const [start, end] = isDay ? [sunrise, sunset] : [sunset, nextSunrise];
+  const fraction =
+    start && end ? (birth.getTime() - start.getTime()) / (end.getTime() - start.getTime()) : 0.5;
+  return {
+    isDay,
+    third: Math.min(Math.max(Math.floor(fraction * 3), 0), 2),
+    weekdayLord: panchang.vara.lord,
+    horaLord: findCurrentPeriod(calculateDailyHoras(panchang), birth)?.lord,
+  };
+};
+
+/**
+ * Shadbala of the seven visible grahas
+ */
+export const calculateShadbala = (natal: NatalChart): PlanetShadbala[] => {
+  const planets = SHADBALA_GRAHAS.map(
+    (id) => natal.planets.find((planet) => planet.id === id) as PlanetPosition
+  );
+  const planet = (id: GrahaId) => planets[SHADBALA_GRAHAS.indexOf(id)];
+  const sun = planet('Su');
+  const moon = planet('Mo');
+  const ascendant = natal.ascendant.longitude;
+  const midheaven = natal.midheaven.longitude;
+  const obliquity = meanObliquity(julianCenturies(natal.julianDay));
+  const time = birthTime(natal);
+
+  // Moon-Sun elongation drives Paksha Bala and the Moon's benefic nature
+  const elongation = normalizeDegrees(moon.longitude - sun.longitude);
+  const waxing = elongation < 180;
+  const isBenefic = (id: GrahaId) => NATURAL_BENEFICS.includes(id) || (id === 'Mo' && waxing);
+  const pakshaFor = (id: GrahaId) => {
+    const beneficValue = Math.abs(angleDifference(moon.longitude, sun.longitude)) / 3;
+    return NATURAL_BENEFICS.includes(id) || id === 'Mo' ? beneficValue : 60 - beneficValue;
+  };
+
+  const compoundRelation = (from: PlanetPosition, to: GrahaId): CompoundRelation => {
+    const other = planet(to);
+    const distance = ((other.sign - from.sign + 12) % 12) + 1;
+    const temporalFriend = TEMPORAL_FRIEND_HOUSES.includes(distance);
+    return COMPOUND_RELATIONS[naturalRelation(from.id, to)][temporalFriend ? 0 : 1];
+  };
+
+  const saptavargaja = (position: PlanetPosition) =>
+    SAPTA_VARGAS.reduce((sum, division) => {
+      const sign = vargaSign(position.longitude, division);
+      const lord = SIGNS[sign].lord;
+      if (division === 1 && MOOLATRIKONA_SIGNS[position.id] === sign) {
+        return sum + VARGA_POINTS.moolatrikona;
+      }
+      if (lord === position.id) return sum + VARGA_POINTS.own;
+      return sum + VARGA_POINTS[compoundRelation(position, lord)];
+    }, 0);
+
+  const ojayugma = (position: PlanetPosition) => {
+    const prefersEven = position.id === 'Mo' || position.id === 'Ve';
+    return [position.sign, vargaSign(position.longitude, 9)].reduce(
+      // Sign index 0 (Aries) is an odd sign
+      (sum, sign) => sum + ((sign % 2 === 1) === prefersEven ? 15 : 0),
+      0
+    );
+  };
+
+  const kendradi = (position: PlanetPosition) =>
+    [1, 4, 7, 10].includes(position.house) ? 60 : [2, 5, 8, 11].includes(position.house) ? 30 : 15;
+
+  const sthana = (position: PlanetPosition) =>
+    pointStrength(position.longitude, (EXALTATION_POINTS[position.id] ?? 0)) +
+    saptavargaja(position) +
+    ojayugma(position) +
+    kendradi(position) +
+    (Math.floor(degreeInSign(position.longitude) / 10) === DREKKANA_STRONG[position.id] ? 15 : 0);
+
+  const dig = (position: PlanetPosition) => {
+    const strongPoint: Record<string, number> = {
+      Su: midheaven,
+      Ma: midheaven,
+      Ju: ascendant,
+      Me: ascendant,
+      Mo: midheaven + 180,
+      Ve: midheaven + 180,
+      Sa: ascendant + 180,
+    };
+    return pointStrength(position.longitude, strongPoint[position.id]);
+  };
+
+  // Declination from the tropical longitude, ignoring ecliptic latitude
+  const ayana = (position: PlanetPosition) => {
+    const tropical = ((position.longitude + natal.ayanamsa) * Math.PI) / 180;
+    const declination =
+      (Math.asin(Math.sin((obliquity * Math.PI) / 180) * Math.sin(tropical)) * 180) / Math.PI;
+    const signed =
+      position.id === 'Me'
+        ? Math.abs(declination)
+        : position.id === 'Mo' || position.id === 'Sa'
+          ? -declination
+          : declination;
+    return clamp(((24 + signed) / 48) * 60);
+  };
+
+  const kala = (position: PlanetPosition) => {
+    const fromNoon = Math.abs(angleDifference(sun.longitude, midheaven));
+    const nathonnatha =
+      position.id === 'Me'
+        ? 60
+        : ['Su', 'Ju', 'Ve'].includes(position.id)
+          ? 60 * (1 - fromNoon / 180)
+          : (60 * fromNoon) / 180;
+    const paksha = pakshaFor(position.id) * (position.id === 'Mo' ? 2 : 1);
+    const tribhaga =
+      position.id === 'Ju' ||
+      (time.isDay ? DAY_TRIBHAGA : NIGHT_TRIBHAGA)[time.third] === position.id
+        ? 60
+        : 0;
+    const vara = time.weekdayLord === position.id ? 45 : 0;
+    const hora = time.horaLord === position.id ? 60 : 0;
+    const ayanaBala = ayana(position) * (position.id === 'Su' ? 2 : 1);
+    return nathonnatha + paksha + tribhaga + vara + hora + ayanaBala;
+  };
+
+  const chesta = (position: PlanetPosition) => {
+    if (position.id === 'Su') return ayana(position);
+    if (position.id === 'Mo') return pakshaFor('Mo');
+    if (position.isRetrograde) return 60;
+    return clamp(60 * (1 - position.speed / (2 * MEAN_MOTION[position.id])));
+  };
+
+  const drik = (position: PlanetPosition) =>
+    planets
+      .filter((other) => other.id !== position.id)
+      .reduce((sum, other) => {
+        const value = drishtiValue(other.id, normalizeDegrees(position.longitude - other.longitude));
+        return sum + (isBenefic(other.id) ? value : -value);
+      }, 0) / 4;
+
+  return planets.map((position) => {
+    const components: ShadbalaComponents = {
+      sthana: sthana(position),
+      dig: dig(position),
+      kala: kala(position),
+      chesta: chesta(position),
+      naisargika: NAISARGIKA_BALA[position.id],
+      drik: drik(position),
+    };
+    const total = Object.values(components).reduce((sum, value) => sum + value, 0);
+    const rupas = total / VIRUPAS_PER_RUPA;
+    const required = REQUIRED_SHADBALA[position.id];
+    return { id: position.id, components, total, rupas, required, ratio: rupas / required };
+  });
+};
+
+/**
+ * Bhava Bala of the twelve houses from their cusps
+ */
+export const calculateBhavaBala = (
+  natal: NatalChart,
+  shadbala: PlanetShadbala[] = calculateShadbala(natal)
+): BhavaBala[] => {
+  const { cusps } = natal.houses;
+  const sun = natal.planets.find((planet) => planet.id === 'Su');
+  const moon = natal.planets.find((planet) => planet.id === 'Mo');
+  const waxing = sun && moon ? normalizeDegrees(moon.longitude - sun.longitude) < 180 : true;
+  const visible = natal.planets.filter((planet) => SHADBALA_GRAHAS.includes(planet.id));
+
+  return cusps.map((cusp, i) => {
+    const house = i + 1;
+    const lord = SIGNS[signOf(cusp)].lord;
+    const lordStrength = shadbala.find((planet) => planet.id === lord)?.total ?? 0;
+
+    const strongHouse = SIGN_CLASS_STRONG_HOUSE[signClass(cusp)];
+    const steps = Math.abs(house - strongHouse);
+    const dig = 60 - 10 * Math.min(steps, 12 - steps);
+
+    // Mercury's and Jupiter's aspects count in full, the rest a quarter
+    const drishti = visible.reduce((sum, planet) => {
+      const value = drishtiValue(planet.id, normalizeDegrees(cusp - planet.longitude));
+      const benefic = NATURAL_BENEFICS.includes(planet.id) || (planet.id === 'Mo' && waxing);
+      const weight = planet.id === 'Me' || planet.id === 'Ju' ? 1 : 0.25;
+      return sum + (benefic ? value : -value) * weight;
+    }, 0);
+
+    const occupants = visible
+      .filter((planet) => houseOfLongitude(cusps, planet.longitude) === house)
+      .reduce((sum, planet) => {
+        if (planet.id === 'Ju' || planet.id === 'Me') return sum + 60;
+        if (planet.id === 'Sa' || planet.id === 'Ma' || planet.id === 'Su') return sum - 60;
+        return sum;
+      }, 0);
+
+    const total = lordStrength + dig + drishti + occupants;
+    return {
+      house,
+      lord,
+      lordStrength,
+      dig,
+      drishti,
+      occupants,
+      total,
+      rupas: total / VIRUPAS_PER_RUPA,
+    };
+  });
+};
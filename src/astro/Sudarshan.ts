@@ -0,0 +1,164 @@
+/**
+ * Corp Astro Engine - Sudarshan Chakra
+ *
+ * Three concentric charts read together: houses counted from the Lagna
+ * (inner ring), the Moon (middle) and the Sun (outer). The Sudarshan
+ * progression activates one house per year of life in all three rings at
+ * once: the 1st house in the first year, the 2nd in the second, and so on,
+ * repeating every twelve years. Each year is split into twelve months
+ * that run through the houses again from the year's house.
+ *
+ * Years run from one birthday to the next on the civil calendar.
+ *
+ * @module Sudarshan
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart } from './Chart';
+import { dateFromJulianDay } from './JulianDay';
+import { GrahaId } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Rings from the centre outwards
+ */
+export type SudarshanRingId = 'lagna' | 'chandra' | 'surya';
+
+/**
+ * One ring of the chakra
+ */
+export interface SudarshanRing {
+  id: SudarshanRingId;
+  name: string;
+  /** Sign of the ring's 1st house */
+  referenceSign: number;
+  /** Sign index of each house, house 1 first */
+  houseSigns: number[];
+  /** Grahas in each house, house 1 first */
+  housePlanets: GrahaId[][];
+}
+
+/**
+ * The chakra for a natal chart
+ */
+export interface SudarshanChakra {
+  rings: SudarshanRing[];
+}
+
+/**
+ * A house activated by the progression
+ */
+export interface SudarshanPeriod {
+  /** Activated house 1-12 */
+  house: number;
+  start: Date;
+  end: Date;
+  /** Sign of the activated house in each ring */
+  signs: Record<SudarshanRingId, number>;
+}
+
+/**
+ * One year of life with its monthly sub-periods
+ */
+export interface SudarshanYear extends SudarshanPeriod {
+  /** Completed years at the start, 0 for the first year */
+  age: number;
+  months: SudarshanPeriod[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Rings from the centre out, with the graha each counts from */
+const RINGS: { id: SudarshanRingId; name: string; reference: GrahaId | 'As' }[] = [
+  { id: 'lagna', name: 'Lagna', reference: 'As' },
+  { id: 'chandra', name: 'Chandra', reference: 'Mo' },
+  { id: 'surya', name: 'Surya', reference: 'Su' },
+];
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Sudarshan Chakra of a natal chart
+ */
+export const calculateSudarshanChakra = (natal: NatalChart): SudarshanChakra => ({
+  rings: RINGS.map(({ id, name, reference }) => {
+    const referenceSign =
+      reference === 'As'
+        ? natal.ascendant.sign
+        : natal.planets.find((planet) => planet.id === reference)?.sign ?? 0;
+    const houseSigns = Array.from({ length: 12 }, (_, i) => (referenceSign + i) % 12);
+    return {
+      id,
+      name,
+      referenceSign,
+      houseSigns,
+      housePlanets: houseSigns.map((sign) =>
+        natal.planets.filter((planet) => planet.sign === sign).map((planet) => planet.id)
+      ),
+    };
+  }),
+});
+
+/** Birthday starting the given year of life */
+const birthday = (birth: Date, age: number): Date => {
+  const date = new Date(birth.getTime());
+  date.setUTCFullYear(birth.getUTCFullYear() + age);
+  return date;
+};
+
+const activate = (
+  chakra: SudarshanChakra,
+  house: number,
+  start: Date,
+  end: Date
+): SudarshanPeriod => ({
+  house,
+  start,
+  end,
+  signs: Object.fromEntries(
+    chakra.rings.map((ring) => [ring.id, ring.houseSigns[house - 1]])
+  ) as Record<SudarshanRingId, number>,
+});
+
+/**
+ * Progression year for an age in completed years
+ */
+export const calculateSudarshanYear = (natal: NatalChart, age: number): SudarshanYear => {
+  const chakra = calculateSudarshanChakra(natal);
+  const birth = dateFromJulianDay(natal.julianDay);
+  const start = birthday(birth, age);
+  const end = birthday(birth, age + 1);
+  const house = (age % 12) + 1;
+  const monthMs = (end.getTime() - start.getTime()) / 12;
+
+  return {
+    ...activate(chakra, house, start, end),
+    age,
+    months: Array.from({ length: 12 }, (_, i) =>
+      activate(
+        chakra,
+        ((house - 1 + i) % 12) + 1,
+        new Date(start.getTime() + i * monthMs),
+        new Date(start.getTime() + (i + 1) * monthMs)
+      )
+    ),
+  };
+};
+
+/**
+ * Completed years of life at a date; negative before birth
+ */
+export const sudarshanAge = (natal: NatalChart, date: Date = new Date()): number => {
+  const birth = dateFromJulianDay(natal.julianDay);
+  let age = date.getUTCFullYear() - birth.getUTCFullYear();
+  if (birthday(birth, age) > date) age -= 1;
+  return age;
+};
@@ -0,0 +1,142 @@
+/**
+ * Corp Astro Engine - Team Synergy
+ *
+ * Two readings of a team:
+ * - Harmony: a matrix of pairwise partnership scores (see Partnership),
+ *   which changes only as the members' dashas move on
+ * - Energy: each member's transit support on a day, from the transiting
+ *   grahas' own Ashtakavarga bindus in the member's chart and the day's
+ *   Tara Bala. The Moon is weighted up, and Tara Bala follows it, as it is
+ *   the graha that changes the reading day to day
+ *
+ * @module TeamSynergy
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { AshtakavargaPoint, calculateAshtakavarga, getBinduScore } from './Ashtakavarga';
+import { NatalChart } from './Chart';
+import { taraFrom } from './Compatibility';
+import { PartnershipMember, analyzePartnership } from './Partnership';
+import { calculateTransits } from './Transit';
+import { GrahaId } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A member's transit support on a day
+ */
+export interface TeamMemberEnergy {
+  name: string;
+  /** 0-100 */
+  score: number;
+  /** Transiting grahas with at least four own bindus */
+  supported: GrahaId[];
+}
+
+/**
+ * Harmony and energy of a team on a day
+ */
+export interface TeamSynergy {
+  members: string[];
+  /** Pairwise scores 0-100, symmetric, with 100 on the diagonal */
+  matrix: number[][];
+  /** Mean pairwise score, 0-100 */
+  harmony: number;
+  energy: TeamMemberEnergy[];
+  /** Mean member energy, 0-100 */
+  teamEnergy: number;
+  date: Date;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Weight of each transiting graha in a member's energy */
+const ENERGY_WEIGHTS: Partial<Record<GrahaId, number>> = {
+  Su: 1,
+  Mo: 3,
+  Ma: 1,
+  Me: 1,
+  Ju: 1,
+  Ve: 1,
+  Sa: 1,
+};
+
+/** Strength of each tara 1-9: Janma is mixed; Vipat, Pratyak and Naidhana harm */
+const TARA_BALA = [0.5, 1, 0, 1, 0, 1, 0, 1, 1];
+
+/** Share of the energy score from Tara Bala; the rest is bindu support */
+const TARA_SHARE = 0.3;
+
+/** Most bindus a graha can give a sign */
+const MAX_BINDUS = 8;
+
+/** Own bindus at which a transit counts as supported */
+const SUPPORTED_BINDUS = 4;
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Transit support (0-100) for a natal chart on a date
+ */
+export const memberEnergy = (
+  natal: NatalChart,
+  date: Date = new Date()
+): Omit<TeamMemberEnergy, 'name'> => {
+  const ashtakavarga = calculateAshtakavarga(natal);
+  const allTransits = calculateTransits(natal, date);
+  const transits = allTransits.filter((transit) => ENERGY_WEIGHTS[transit.id] !== undefined);
+
+  let weighted = 0;
+  let totalWeight = 0;
+  const supported: GrahaId[] = [];
+  transits.forEach((transit) => {
+    const weight = ENERGY_WEIGHTS[transit.id] as number;
+    const { bindus } = getBinduScore(ashtakavarga, transit.id as AshtakavargaPoint, transit.sign);
+    weighted += weight * bindus;
+    totalWeight += weight;
+    if (bindus >= SUPPORTED_BINDUS) supported.push(transit.id);
+  });
+
+  const natalMoon = natal.planets.find((planet) => planet.id === 'Mo');
+  const transitMoon = allTransits.find((transit) => transit.id === 'Mo');
+  const taraBala =
+    natalMoon && transitMoon ? TARA_BALA[taraFrom(natalMoon.nakshatra, transitMoon.nakshatra) - 1] : 0.5;
+  const binduShare = weighted / (totalWeight * MAX_BINDUS);
+
+  return { score: Math.round(((1 - TARA_SHARE) * binduShare + TARA_SHARE * taraBala) * 100), supported };
+};
+
+/**
+ * Harmony matrix and energy of a team on a date, today when omitted
+ */
+export const calculateTeamSynergy = (
+  members: PartnershipMember[],
+  date: Date = new Date()
+): TeamSynergy => {
+  const partnership = analyzePartnership(members, date);
+  const matrix = members.map((_, a) => members.map((__, b): number => (a === b ? 100 : 0)));
+  partnership.pairs.forEach((pair) => {
+    matrix[pair.a][pair.b] = pair.score;
+    matrix[pair.b][pair.a] = pair.score;
+  });
+
+  const energy = members.map((member) => ({ name: member.name, ...memberEnergy(member.natal, date) }));
+  const teamEnergy =
+    energy.length > 0 ? Math.round(energy.reduce((sum, member) => sum + member.score, 0) / energy.length) : 0;
+
+  return {
+    members: partnership.members,
+    matrix,
+    harmony: partnership.score,
+    energy,
+    teamEnergy,
+    date,
+  };
+};
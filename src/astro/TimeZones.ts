@@ -0,0 +1,986 @@
+/**
+ * Corp Astro Engine - Historical Time Zones
+ *
+ * Resolves the UTC offset a civil clock showed at a past date and place,
+ * offline, for the zones of the bundled city database. Each zone is a
+ * list of eras in the style of the IANA tz database: a standard offset,
+ * optionally with a set of daylight-saving rule lines, valid until a
+ * wall-clock moment. Before a zone adopted standard time the place's
+ * local mean time is used.
+ *
+ * India is modelled in full: local mean time before 1906, IST, the
+ * wartime +6:30 of 1941-1945, and Bombay Time (+4:51) and Calcutta Time
+ * (+5:53:20), which Bombay with the old Bombay Presidency districts and
+ * Calcutta kept in place of IST until 1955 and 1948. The European zones
+ * follow the tz database from their first summer time, through wartime
+ * and double summer time, to the EU rules. Elsewhere daylight saving
+ * follows the national rules from when they were unified (the US from
+ * 1967, Australia from 1971); earlier local summer times are not
+ * modelled apart from US wartime and the New York and California rules.
+ *
+ * @module TimeZones
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { CivilDateTime } from './JulianDay';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * IANA time zones known to the engine
+ */
+export type TimeZoneId =
+  | 'Asia/Kolkata'
+  | 'Asia/Karachi'
+  | 'Asia/Dhaka'
+  | 'Asia/Kathmandu'
+  | 'Asia/Colombo'
+  | 'Asia/Thimphu'
+  | 'Asia/Dubai'
+  | 'Asia/Muscat'
+  | 'Asia/Riyadh'
+  | 'Asia/Qatar'
+  | 'Asia/Bahrain'
+  | 'Asia/Kuwait'
+  | 'Asia/Singapore'
+  | 'Asia/Kuala_Lumpur'
+  | 'Asia/Bangkok'
+  | 'Asia/Jakarta'
+  | 'Asia/Hong_Kong'
+  | 'Asia/Shanghai'
+  | 'Asia/Tokyo'
+  | 'Asia/Seoul'
+  | 'Asia/Manila'
+  | 'Indian/Mauritius'
+  | 'Pacific/Fiji'
+  | 'Pacific/Auckland'
+  | 'Australia/Sydney'
+  | 'Australia/Melbourne'
+  | 'Australia/Brisbane'
+  | 'Australia/Perth'
+  | 'Africa/Johannesburg'
+  | 'Africa/Nairobi'
+  | 'Africa/Lagos'
+  | 'Europe/London'
+  | 'Europe/Dublin'
+  | 'Europe/Paris'
+  | 'Europe/Berlin'
+  | 'Europe/Amsterdam'
+  | 'Europe/Zurich'
+  | 'Europe/Rome'
+  | 'Europe/Madrid'
+  | 'Europe/Moscow'
+  | 'America/New_York'
+  | 'America/Chicago'
+  | 'America/Denver'
+  | 'America/Phoenix'
+  | 'America/Los_Angeles'
+  | 'America/Toronto'
+  | 'America/Vancouver'
+  | 'America/Edmonton'
+  | 'America/Mexico_City'
+  | 'America/Port_of_Spain';
+
+/**
+ * Wall-clock date and time whose UTC offset is still to be resolved
+ */
+export type LocalDateTime = Omit<CivilDateTime, 'utcOffset'>;
+
+/**
+ * Daylight-saving rule sets shared between zones
+ */
+type DstRuleSetId =
+  | 'US'
+  | 'NYC'
+  | 'CA'
+  | 'Canada'
+  | 'Mexico'
+  | 'GB'
+  | 'Eire'
+  | 'EU'
+  | 'France'
+  | 'Germany'
+  | 'Neth'
+  | 'Swiss'
+  | 'Italy'
+  | 'Spain'
+  | 'Russia'
+  | 'AN'
+  | 'AQ'
+  | 'NZ'
+  | 'Pakistan'
+  | 'Dhaka'
+  | 'PRC'
+  | 'ROK';
+
+/**
+ * Day of a rule's transition: a date, the last Sunday, or the first
+ * Sunday on or after a date
+ */
+type TransitionDay = number | 'lastSun' | `Sun>=${number}`;
+
+/**
+ * One line of a daylight-saving rule set, applied every year from `from`
+ * through `to`
+ */
+interface DstRule {
+  from: number;
+  to: number;
+  month: number;
+  day: TransitionDay;
+  /** Hour of the transition on the wall clock, or in UTC when `utc` is set */
+  at: number;
+  utc?: boolean;
+  /** Hours added to standard time from this transition on */
+  save: number;
+}
+
+/**
+ * A stretch of a zone's history with one standard offset
+ */
+interface ZoneEra {
+  /** Standard offset in hours east of UTC */
+  offset: number;
+  rules?: DstRuleSetId;
+  /** Wall-clock end of the era (see `wallClock`); open when omitted */
+  until?: number;
+}
+
+/**
+ * Zone history, with local mean time before `since`
+ */
+interface TimeZoneInfo {
+  since: number;
+  eras: ZoneEra[];
+}
+
+/**
+ * A local time kept in parts of a zone in place of its standard time
+ */
+interface RegionalTime {
+  zone: TimeZoneId;
+  /** Cities that kept it, by their name in the city database */
+  cities: string[];
+  name: string;
+  offset: number;
+  /** Standard offset it replaced */
+  replaces: number;
+  until: number;
+}
+
+/**
+ * UTC offset in effect at a place and wall-clock time
+ */
+export interface ResolvedOffset {
+  /** Hours east of UTC, daylight saving included */
+  utcOffset: number;
+  /** Hours of daylight saving included in the offset */
+  daylightSaving: number;
+  /** Set when the clock was not the zone's standard time, e.g. 'Bombay Time' */
+  note?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const HOUR_MS = 3600000;
+
+/**
+ * Years searched backwards for the latest daylight-saving transition;
+ * Ireland kept summer time without a break from 1940 to 1946
+ */
+const RULE_LOOKBACK_YEARS = 7;
+
+/**
+ * Wall-clock moment as a comparable number (milliseconds, read as if UTC)
+ */
+const wallClock = (year: number, month: number, day: number, hour: number = 0): number =>
+  Date.UTC(year, month - 1, day) + hour * HOUR_MS;
+
+const US_RULES: DstRule[] = [
+  { from: 1942, to: 1942, month: 2, day: 9, at: 2, save: 1 },
+  { from: 1945, to: 1945, month: 9, day: 30, at: 2, save: 0 },
+  { from: 1967, to: 2006, month: 10, day: 'lastSun', at: 2, save: 0 },
+  { from: 1967, to: 1973, month: 4, day: 'lastSun', at: 2, save: 1 },
+  { from: 1974, to: 1974, month: 1, day: 6, at: 2, save: 1 },
+  { from: 1975, to: 1975, month: 2, day: 'lastSun', at: 2, save: 1 },
+  { from: 1976, to: 1986, month: 4, day: 'lastSun', at: 2, save: 1 },
+  { from: 1987, to: 2006, month: 4, day: 'Sun>=1', at: 2, save: 1 },
+  { from: 2007, to: Infinity, month: 3, day: 'Sun>=8', at: 2, save: 1 },
+  { from: 2007, to: Infinity, month: 11, day: 'Sun>=1', at: 2, save: 0 },
+];
+
+const EU_RULES: DstRule[] = [
+  { from: 1977, to: 1980, month: 4, day: 'Sun>=1', at: 1, utc: true, save: 1 },
+  { from: 1977, to: 1977, month: 9, day: 'lastSun', at: 1, utc: true, save: 0 },
+  { from: 1978, to: 1978, month: 10, day: 1, at: 1, utc: true, save: 0 },
+  { from: 1979, to: 1995, month: 9, day: 'lastSun', at: 1, utc: true, save: 0 },
+  { from: 1981, to: Infinity, month: 3, day: 'lastSun', at: 1, utc: true, save: 1 },
+  { from: 1996, to: Infinity, month: 10, day: 'lastSun', at: 1, utc: true, save: 0 },
+];
+
+const DST_RULES: Record<DstRuleSetId, DstRule[]> = {
+  US: US_RULES,
+  // New York and Chicago kept their own summer time before 1967
+  NYC: [
+    ...US_RULES,
+    { from: 1946, to: 1966, month: 4, day: 'lastSun', at: 2, save: 1 },
+    { from: 1946, to: 1954, month: 9, day: 'lastSun', at: 2, save: 0 },
+    { from: 1955, to: 1966, month: 10, day: 'lastSun', at: 2, save: 0 },
+  ],
+  CA: [
+    ...US_RULES,
+    { from: 1948, to: 1948, month: 3, day: 14, at: 2, save: 1 },
+    { from: 1949, to: 1949, month: 1, day: 1, at: 2, save: 0 },
+    { from: 1950, to: 1966, month: 4, day: 'lastSun', at: 1, save: 1 },
+    { from: 1950, to: 1961, month: 9, day: 'lastSun', at: 2, save: 0 },
+    { from: 1962, to: 1966, month: 10, day: 'lastSun', at: 2, save: 0 },
+  ],
+  Canada: [
+    { from: 1942, to: 1942, month: 2, day: 9, at: 2, save: 1 },
+    { from: 1945, to: 1945, month: 9, day: 30, at: 2, save: 0 },
+    { from: 1946, to: 1986, month: 4, day: 'lastSun', at: 2, save: 1 },
+    { from: 1946, to: 2006, month: 10, day: 'lastSun', at: 2, save: 0 },
+    { from: 1987, to: 2006, month: 4, day: 'Sun>=1', at: 2, save: 1 },
+    { from: 2007, to: Infinity, month: 3, day: 'Sun>=8', at: 2, save: 1 },
+    { from: 2007, to: Infinity, month: 11, day: 'Sun>=1', at: 2, save: 0 },
+  ],
+  Mexico: [
+    { from: 1996, to: 2000, month: 4, day: 'Sun>=1', at: 2, save: 1 },
+    { from: 1996, to: 2000, month: 10, day: 'lastSun', at: 2, save: 0 },
+    { from: 2001, to: 2001, month: 5, day: 'Sun>=1', at: 2, save: 1 },
+    { from: 2001, to: 2001, month: 9, day: 'lastSun', at: 2, save: 0 },
+    { from: 2002, to: 2022, month: 4, day: 'Sun>=1', at: 2, save: 1 },
+    { from: 2002, to: 2022, month: 10, day: 'lastSun', at: 2, save: 0 },
+  ],
+  // Summer time from 1916, with double summer time (+2) during and after the war
+  GB: [
+    { from: 1916, to: 1916, month: 5, day: 21, at: 2, save: 1 },
+    { from: 1916, to: 1916, month: 10, day: 1, at: 3, save: 0 },
+    { from: 1917, to: 1917, month: 4, day: 8, at: 2, save: 1 },
+    { from: 1917, to: 1917, month: 9, day: 17, at: 3, save: 0 },
+    { from: 1918, to: 1918, month: 3, day: 24, at: 2, save: 1 },
+    { from: 1918, to: 1918, month: 9, day: 30, at: 3, save: 0 },
+    { from: 1919, to: 1919, month: 3, day: 30, at: 2, save: 1 },
+    { from: 1919, to: 1919, month: 9, day: 29, at: 3, save: 0 },
+    { from: 1920, to: 1920, month: 3, day: 28, at: 2, save: 1 },
+    { from: 1920, to: 1920, month: 10, day: 25, at: 3, save: 0 },
+    { from: 1921, to: 1921, month: 4, day: 3, at: 2, save: 1 },
+    { from: 1921, to: 1921, month: 10, day: 3, at: 3, save: 0 },
+    { from: 1922, to: 1922, month: 3, day: 26, at: 2, save: 1 },
+    { from: 1922, to: 1922, month: 10, day: 8, at: 3, save: 0 },
+    { from: 1923, to: 1923, month: 4, day: 'Sun>=16', at: 2, save: 1 },
+    { from: 1923, to: 1924, month: 9, day: 'Sun>=16', at: 3, save: 0 },
+    { from: 1924, to: 1924, month: 4, day: 'Sun>=9', at: 2, save: 1 },
+    { from: 1925, to: 1926, month: 4, day: 'Sun>=16', at: 2, save: 1 },
+    { from: 1925, to: 1938, month: 10, day: 'Sun>=2', at: 3, save: 0 },
+    { from: 1927, to: 1927, month: 4, day: 'Sun>=9', at: 2, save: 1 },
+    { from: 1928, to: 1929, month: 4, day: 'Sun>=16', at: 2, save: 1 },
+    { from: 1930, to: 1930, month: 4, day: 'Sun>=9', at: 2, save: 1 },
+    { from: 1931, to: 1932, month: 4, day: 'Sun>=16', at: 2, save: 1 },
+    { from: 1933, to: 1933, month: 4, day: 'Sun>=9', at: 2, save: 1 },
+    { from: 1934, to: 1934, month: 4, day: 'Sun>=16', at: 2, save: 1 },
+    { from: 1935, to: 1935, month: 4, day: 'Sun>=9', at: 2, save: 1 },
+    { from: 1936, to: 1937, month: 4, day: 'Sun>=16', at: 2, save: 1 },
+    { from: 1938, to: 1938, month: 4, day: 'Sun>=9', at: 2, save: 1 },
+    { from: 1939, to: 1939, month: 4, day: 'Sun>=16', at: 2, save: 1 },
+    { from: 1939, to: 1939, month: 11, day: 'Sun>=16', at: 3, save: 0 },
+    { from: 1940, to: 1940, month: 2, day: 'Sun>=23', at: 2, save: 1 },
+    { from: 1941, to: 1941, month: 5, day: 'Sun>=2', at: 2, save: 2 },
+    { from: 1941, to: 1943, month: 8, day: 'Sun>=9', at: 3, save: 1 },
+    { from: 1942, to: 1944, month: 4, day: 'Sun>=2', at: 2, save: 2 },
+    { from: 1944, to: 1944, month: 9, day: 'Sun>=16', at: 3, save: 1 },
+    { from: 1945, to: 1945, month: 4, day: 2, at: 2, save: 2 },
+    { from: 1945, to: 1945, month: 7, day: 'Sun>=9', at: 3, save: 1 },
+    { from: 1945, to: 1946, month: 10, day: 'Sun>=2', at: 3, save: 0 },
+    { from: 1946, to: 1946, month: 4, day: 'Sun>=9', at: 2, save: 1 },
+    { from: 1947, to: 1947, month: 3, day: 16, at: 2, save: 1 },
+    { from: 1947, to: 1947, month: 4, day: 13, at: 2, save: 2 },
+    { from: 1947, to: 1947, month: 8, day: 10, at: 3, save: 1 },
+    { from: 1947, to: 1947, month: 11, day: 2, at: 3, save: 0 },
+    { from: 1948, to: 1948, month: 3, day: 14, at: 2, save: 1 },
+    { from: 1948, to: 1948, month: 10, day: 31, at: 3, save: 0 },
+    { from: 1949, to: 1949, month: 4, day: 3, at: 2, save: 1 },
+    { from: 1949, to: 1949, month: 10, day: 30, at: 3, save: 0 },
+    { from: 1950, to: 1952, month: 4, day: 'Sun>=14', at: 2, save: 1 },
+    { from: 1950, to: 1952, month: 10, day: 'Sun>=21', at: 3, save: 0 },
+    { from: 1953, to: 1953, month: 4, day: 'Sun>=16', at: 2, save: 1 },
+    { from: 1953, to: 1960, month: 10, day: 'Sun>=2', at: 3, save: 0 },
+    { from: 1954, to: 1954, month: 4, day: 'Sun>=9', at: 2, save: 1 },
+    { from: 1955, to: 1956, month: 4, day: 'Sun>=16', at: 2, save: 1 },
+    { from: 1957, to: 1957, month: 4, day: 'Sun>=9', at: 2, save: 1 },
+    { from: 1958, to: 1959, month: 4, day: 'Sun>=16', at: 2, save: 1 },
+    { from: 1960, to: 1960, month: 4, day: 'Sun>=9', at: 2, save: 1 },
+    { from: 1961, to: 1963, month: 3, day: 'lastSun', at: 2, save: 1 },
+    { from: 1961, to: 1967, month: 10, day: 'Sun>=23', at: 3, save: 0 },
+    { from: 1964, to: 1967, month: 3, day: 'Sun>=19', at: 2, save: 1 },
+    { from: 1972, to: 1980, month: 3, day: 'Sun>=16', at: 2, save: 1 },
+    { from: 1972, to: 1980, month: 10, day: 'Sun>=23', at: 3, save: 0 },
+    { from: 1981, to: Infinity, month: 3, day: 'lastSun', at: 1, utc: true, save: 1 },
+    { from: 1981, to: 1989, month: 10, day: 'Sun>=23', at: 1, utc: true, save: 0 },
+    { from: 1990, to: 1995, month: 10, day: 'Sun>=22', at: 1, utc: true, save: 0 },
+    { from: 1996, to: Infinity, month: 10, day: 'lastSun', at: 1, utc: true, save: 0 },
+  ],
+  // Ireland's own summer time; it kept +1 through the war, never double summer time
+  Eire: [
+    { from: 1916, to: 1916, month: 5, day: 21, at: 2, save: 1 },
+    { from: 1916, to: 1916, month: 10, day: 1, at: 3, save: 0 },
+    { from: 1917, to: 1917, month: 4, day: 8, at: 2, save: 1 },
+    { from: 1917, to: 1917, month: 9, day: 17, at: 3, save: 0 },
+    { from: 1918, to: 1920, month: 3, day: 'Sun>=24', at: 2, save: 1 },
+    { from: 1918, to: 1918, month: 9, day: 30, at: 3, save: 0 },
+    { from: 1919, to: 1919, month: 9, day: 29, at: 3, save: 0 },
+    { from: 1920, to: 1920, month: 10, day: 25, at: 3, save: 0 },
+    { from: 1921, to: 1921, month: 4, day: 3, at: 2, save: 1 },
+    { from: 1921, to: 1921, month: 10, day: 3, at: 3, save: 0 },
+    { from: 1922, to: 1922, month: 3, day: 26, at: 2, save: 1 },
+    { from: 1922, to: 1922, month: 10, day: 8, at: 3, save: 0 },
+    { from: 1923, to: 1923, month: 4, day: 22, at: 2, save: 1 },
+    { from: 1923, to: 1924, month: 9, day: 'Sun>=15', at: 3, save: 0 },
+    { from: 1924, to: 1926, month: 4, day: 'Sun>=13', at: 2, save: 1 },
+    { from: 1925, to: 1938, month: 10, day: 'Sun>=2', at: 3, save: 0 },
+    { from: 1927, to: 1927, month: 4, day: 10, at: 2, save: 1 },
+    { from: 1928, to: 1929, month: 4, day: 'Sun>=16', at: 2, save: 1 },
+    { from: 1930, to: 1932, month: 4, day: 'Sun>=13', at: 2, save: 1 },
+    { from: 1933, to: 1933, month: 4, day: 9, at: 2, save: 1 },
+    { from: 1934, to: 1934, month: 4, day: 22, at: 2, save: 1 },
+    { from: 1935, to: 1937, month: 4, day: 'Sun>=14', at: 2, save: 1 },
+    { from: 1938, to: 1939, month: 4, day: 'Sun>=10', at: 2, save: 1 },
+    { from: 1939, to: 1939, month: 11, day: 19, at: 3, save: 0 },
+    { from: 1940, to: 1940, month: 2, day: 25, at: 2, save: 1 },
+    { from: 1946, to: 1946, month: 10, day: 6, at: 3, save: 0 },
+    { from: 1947, to: 1947, month: 3, day: 16, at: 2, save: 1 },
+    { from: 1947, to: 1947, month: 11, day: 2, at: 3, save: 0 },
+    { from: 1948, to: 1948, month: 4, day: 18, at: 2, save: 1 },
+    { from: 1948, to: 1949, month: 10, day: 'lastSun', at: 3, save: 0 },
+    { from: 1949, to: 1949, month: 4, day: 3, at: 2, save: 1 },
+    { from: 1950, to: 1953, month: 4, day: 'Sun>=15', at: 2, save: 1 },
+    { from: 1950, to: 1952, month: 10, day: 'Sun>=21', at: 3, save: 0 },
+    { from: 1953, to: 1960, month: 10, day: 'Sun>=1', at: 3, save: 0 },
+    { from: 1954, to: 1955, month: 4, day: 'Sun>=11', at: 2, save: 1 },
+    { from: 1956, to: 1956, month: 4, day: 22, at: 2, save: 1 },
+    { from: 1957, to: 1959, month: 4, day: 'Sun>=14', at: 2, save: 1 },
+    { from: 1960, to: 1960, month: 4, day: 10, at: 2, save: 1 },
+    { from: 1961, to: 1963, month: 3, day: 'lastSun', at: 2, save: 1 },
+    { from: 1961, to: 1967, month: 10, day: 'Sun>=23', at: 3, save: 0 },
+    { from: 1964, to: 1967, month: 3, day: 'Sun>=16', at: 2, save: 1 },
+  ],
+  EU: EU_RULES,
+  // National rules before 1977, with the German Central European rules of 1940-1944
+  France: [
+    { from: 1916, to: 1916, month: 6, day: 14, at: 23, save: 1 },
+    { from: 1916, to: 1916, month: 10, day: 2, at: 0, save: 0 },
+    { from: 1917, to: 1917, month: 3, day: 24, at: 23, save: 1 },
+    { from: 1917, to: 1917, month: 10, day: 8, at: 0, save: 0 },
+    { from: 1918, to: 1918, month: 3, day: 9, at: 23, save: 1 },
+    { from: 1918, to: 1918, month: 10, day: 7, at: 0, save: 0 },
+    { from: 1919, to: 1919, month: 3, day: 1, at: 23, save: 1 },
+    { from: 1919, to: 1919, month: 10, day: 6, at: 0, save: 0 },
+    { from: 1920, to: 1920, month: 2, day: 14, at: 23, save: 1 },
+    { from: 1920, to: 1920, month: 10, day: 24, at: 0, save: 0 },
+    { from: 1921, to: 1921, month: 3, day: 14, at: 23, save: 1 },
+    { from: 1921, to: 1921, month: 10, day: 26, at: 0, save: 0 },
+    { from: 1922, to: 1922, month: 3, day: 25, at: 23, save: 1 },
+    { from: 1922, to: 1938, month: 10, day: 'Sun>=2', at: 0, save: 0 },
+    { from: 1923, to: 1923, month: 5, day: 26, at: 23, save: 1 },
+    { from: 1924, to: 1924, month: 3, day: 29, at: 23, save: 1 },
+    { from: 1925, to: 1925, month: 4, day: 4, at: 23, save: 1 },
+    { from: 1926, to: 1926, month: 4, day: 17, at: 23, save: 1 },
+    { from: 1927, to: 1927, month: 4, day: 9, at: 23, save: 1 },
+    { from: 1928, to: 1928, month: 4, day: 14, at: 23, save: 1 },
+    { from: 1929, to: 1929, month: 4, day: 20, at: 23, save: 1 },
+    { from: 1930, to: 1930, month: 4, day: 12, at: 23, save: 1 },
+    { from: 1931, to: 1931, month: 4, day: 18, at: 23, save: 1 },
+    { from: 1932, to: 1932, month: 4, day: 2, at: 23, save: 1 },
+    { from: 1933, to: 1933, month: 3, day: 25, at: 23, save: 1 },
+    { from: 1934, to: 1934, month: 4, day: 7, at: 23, save: 1 },
+    { from: 1935, to: 1935, month: 3, day: 30, at: 23, save: 1 },
+    { from: 1936, to: 1936, month: 4, day: 18, at: 23, save: 1 },
+    { from: 1937, to: 1937, month: 4, day: 3, at: 23, save: 1 },
+    { from: 1938, to: 1938, month: 3, day: 26, at: 23, save: 1 },
+    { from: 1939, to: 1939, month: 4, day: 15, at: 23, save: 1 },
+    { from: 1939, to: 1939, month: 11, day: 19, at: 0, save: 0 },
+    { from: 1940, to: 1940, month: 2, day: 25, at: 2, save: 1 },
+    { from: 1942, to: 1942, month: 11, day: 2, at: 3, save: 0 },
+    { from: 1943, to: 1943, month: 3, day: 29, at: 2, save: 1 },
+    { from: 1943, to: 1943, month: 10, day: 4, at: 3, save: 0 },
+    { from: 1944, to: 1944, month: 4, day: 3, at: 2, save: 1 },
+    { from: 1944, to: 1944, month: 10, day: 8, at: 1, save: 0 },
+    { from: 1945, to: 1945, month: 4, day: 2, at: 2, save: 1 },
+    { from: 1945, to: 1945, month: 9, day: 16, at: 3, save: 0 },
+    { from: 1976, to: 1976, month: 3, day: 28, at: 1, save: 1 },
+    { from: 1976, to: 1976, month: 9, day: 26, at: 1, save: 0 },
+  ],
+  // Imperial, wartime and 1945-1949 Allied rules, with double summer time in 1945 and 1947
+  Germany: [
+    { from: 1916, to: 1916, month: 4, day: 30, at: 23, save: 1 },
+    { from: 1916, to: 1916, month: 10, day: 1, at: 1, save: 0 },
+    { from: 1917, to: 1917, month: 4, day: 16, at: 2, save: 1 },
+    { from: 1917, to: 1917, month: 9, day: 17, at: 3, save: 0 },
+    { from: 1918, to: 1918, month: 4, day: 15, at: 2, save: 1 },
+    { from: 1918, to: 1918, month: 9, day: 16, at: 3, save: 0 },
+    { from: 1940, to: 1940, month: 4, day: 1, at: 2, save: 1 },
+    { from: 1942, to: 1942, month: 11, day: 2, at: 3, save: 0 },
+    { from: 1943, to: 1943, month: 3, day: 29, at: 2, save: 1 },
+    { from: 1943, to: 1943, month: 10, day: 4, at: 3, save: 0 },
+    { from: 1944, to: 1944, month: 4, day: 3, at: 2, save: 1 },
+    { from: 1944, to: 1944, month: 10, day: 2, at: 3, save: 0 },
+    { from: 1945, to: 1945, month: 4, day: 2, at: 2, save: 1 },
+    { from: 1945, to: 1945, month: 5, day: 24, at: 2, save: 2 },
+    { from: 1945, to: 1945, month: 9, day: 24, at: 3, save: 1 },
+    { from: 1945, to: 1945, month: 11, day: 18, at: 3, save: 0 },
+    { from: 1946, to: 1946, month: 4, day: 14, at: 2, save: 1 },
+    { from: 1946, to: 1946, month: 10, day: 7, at: 3, save: 0 },
+    { from: 1947, to: 1947, month: 4, day: 6, at: 3, save: 1 },
+    { from: 1947, to: 1947, month: 5, day: 11, at: 3, save: 2 },
+    { from: 1947, to: 1947, month: 6, day: 29, at: 3, save: 1 },
+    { from: 1947, to: 1949, month: 10, day: 'Sun>=1', at: 3, save: 0 },
+    { from: 1948, to: 1948, month: 4, day: 18, at: 2, save: 1 },
+    { from: 1949, to: 1949, month: 4, day: 10, at: 2, save: 1 },
+  ],
+  Neth: [
+    { from: 1916, to: 1916, month: 5, day: 1, at: 0, save: 1 },
+    { from: 1916, to: 1916, month: 10, day: 1, at: 0, save: 0 },
+    { from: 1917, to: 1917, month: 4, day: 16, at: 2, save: 1 },
+    { from: 1917, to: 1917, month: 9, day: 17, at: 3, save: 0 },
+    { from: 1918, to: 1918, month: 4, day: 1, at: 2, save: 1 },
+    { from: 1918, to: 1918, month: 9, day: 30, at: 3, save: 0 },
+    { from: 1919, to: 1919, month: 4, day: 7, at: 2, save: 1 },
+    { from: 1919, to: 1919, month: 9, day: 29, at: 3, save: 0 },
+    { from: 1920, to: 1920, month: 4, day: 5, at: 2, save: 1 },
+    { from: 1920, to: 1920, month: 9, day: 27, at: 3, save: 0 },
+    { from: 1921, to: 1921, month: 4, day: 4, at: 2, save: 1 },
+    { from: 1921, to: 1921, month: 9, day: 26, at: 3, save: 0 },
+    { from: 1922, to: 1922, month: 3, day: 26, at: 2, save: 1 },
+    { from: 1922, to: 1939, month: 10, day: 'Sun>=2', at: 3, save: 0 },
+    { from: 1923, to: 1923, month: 6, day: 1, at: 2, save: 1 },
+    { from: 1924, to: 1924, month: 3, day: 30, at: 2, save: 1 },
+    { from: 1925, to: 1925, month: 6, day: 5, at: 2, save: 1 },
+    { from: 1926, to: 1931, month: 5, day: 15, at: 2, save: 1 },
+    { from: 1932, to: 1932, month: 5, day: 22, at: 2, save: 1 },
+    { from: 1933, to: 1936, month: 5, day: 15, at: 2, save: 1 },
+    { from: 1937, to: 1937, month: 5, day: 22, at: 2, save: 1 },
+    { from: 1938, to: 1939, month: 5, day: 15, at: 2, save: 1 },
+    { from: 1940, to: 1940, month: 5, day: 16, at: 0, save: 1 },
+    { from: 1942, to: 1942, month: 11, day: 2, at: 3, save: 0 },
+    { from: 1943, to: 1943, month: 3, day: 29, at: 2, save: 1 },
+    { from: 1943, to: 1943, month: 10, day: 4, at: 3, save: 0 },
+    { from: 1944, to: 1944, month: 4, day: 3, at: 2, save: 1 },
+    { from: 1944, to: 1944, month: 10, day: 2, at: 3, save: 0 },
+    { from: 1945, to: 1945, month: 4, day: 2, at: 2, save: 1 },
+    { from: 1945, to: 1945, month: 9, day: 16, at: 3, save: 0 },
+  ],
+  Swiss: [
+    { from: 1941, to: 1941, month: 5, day: 5, at: 1, save: 1 },
+    { from: 1941, to: 1941, month: 10, day: 6, at: 2, save: 0 },
+    { from: 1942, to: 1942, month: 5, day: 4, at: 1, save: 1 },
+    { from: 1942, to: 1942, month: 10, day: 5, at: 2, save: 0 },
+  ],
+  // Italy kept summer time again from 1966
+  Italy: [
+    { from: 1916, to: 1916, month: 6, day: 4, at: 0, save: 1 },
+    { from: 1916, to: 1917, month: 10, day: 1, at: 0, save: 0 },
+    { from: 1917, to: 1917, month: 4, day: 1, at: 0, save: 1 },
+    { from: 1918, to: 1918, month: 3, day: 10, at: 0, save: 1 },
+    { from: 1918, to: 1918, month: 10, day: 7, at: 0, save: 0 },
+    { from: 1919, to: 1919, month: 3, day: 2, at: 0, save: 1 },
+    { from: 1919, to: 1919, month: 10, day: 5, at: 0, save: 0 },
+    { from: 1920, to: 1920, month: 3, day: 21, at: 0, save: 1 },
+    { from: 1920, to: 1920, month: 9, day: 19, at: 0, save: 0 },
+    { from: 1940, to: 1940, month: 6, day: 15, at: 0, save: 1 },
+    { from: 1942, to: 1942, month: 11, day: 2, at: 3, save: 0 },
+    { from: 1943, to: 1943, month: 3, day: 29, at: 2, save: 1 },
+    { from: 1943, to: 1943, month: 10, day: 4, at: 3, save: 0 },
+    { from: 1944, to: 1944, month: 4, day: 3, at: 2, save: 1 },
+    { from: 1944, to: 1944, month: 9, day: 17, at: 3, save: 0 },
+    { from: 1945, to: 1945, month: 4, day: 2, at: 2, save: 1 },
+    { from: 1945, to: 1945, month: 9, day: 15, at: 1, save: 0 },
+    { from: 1946, to: 1946, month: 3, day: 17, at: 2, save: 1 },
+    { from: 1946, to: 1946, month: 10, day: 6, at: 3, save: 0 },
+    { from: 1947, to: 1947, month: 3, day: 16, at: 0, save: 1 },
+    { from: 1947, to: 1947, month: 10, day: 5, at: 1, save: 0 },
+    { from: 1948, to: 1948, month: 2, day: 29, at: 2, save: 1 },
+    { from: 1948, to: 1948, month: 10, day: 3, at: 3, save: 0 },
+    { from: 1966, to: 1968, month: 5, day: 'Sun>=22', at: 0, save: 1 },
+    { from: 1966, to: 1966, month: 9, day: 25, at: 0, save: 0 },
+    { from: 1967, to: 1971, month: 9, day: 'Sun>=22', at: 1, save: 0 },
+    { from: 1969, to: 1969, month: 6, day: 1, at: 0, save: 1 },
+    { from: 1970, to: 1970, month: 5, day: 31, at: 0, save: 1 },
+    { from: 1971, to: 1972, month: 5, day: 'Sun>=22', at: 0, save: 1 },
+    { from: 1972, to: 1972, month: 10, day: 1, at: 1, save: 0 },
+    { from: 1973, to: 1973, month: 6, day: 3, at: 0, save: 1 },
+    { from: 1973, to: 1977, month: 9, day: 'lastSun', at: 1, save: 0 },
+    { from: 1974, to: 1974, month: 5, day: 26, at: 0, save: 1 },
+    { from: 1975, to: 1975, month: 6, day: 1, at: 0, save: 1 },
+    { from: 1976, to: 1976, month: 5, day: 30, at: 0, save: 1 },
+    { from: 1977, to: 1979, month: 5, day: 'Sun>=22', at: 0, save: 1 },
+    { from: 1978, to: 1978, month: 10, day: 1, at: 1, save: 0 },
+    { from: 1979, to: 1979, month: 9, day: 30, at: 1, save: 0 },
+  ],
+  // Spain's summer times, with double summer time in Republican Spain in 1938
+  Spain: [
+    { from: 1918, to: 1918, month: 4, day: 15, at: 23, save: 1 },
+    { from: 1918, to: 1919, month: 10, day: 7, at: 1, save: 0 },
+    { from: 1919, to: 1919, month: 4, day: 6, at: 23, save: 1 },
+    { from: 1924, to: 1924, month: 4, day: 16, at: 23, save: 1 },
+    { from: 1924, to: 1924, month: 10, day: 5, at: 1, save: 0 },
+    { from: 1926, to: 1926, month: 4, day: 17, at: 23, save: 1 },
+    { from: 1926, to: 1929, month: 10, day: 'Sun>=1', at: 1, save: 0 },
+    { from: 1927, to: 1927, month: 4, day: 9, at: 23, save: 1 },
+    { from: 1928, to: 1928, month: 4, day: 15, at: 0, save: 1 },
+    { from: 1929, to: 1929, month: 4, day: 20, at: 23, save: 1 },
+    { from: 1937, to: 1937, month: 6, day: 16, at: 23, save: 1 },
+    { from: 1937, to: 1937, month: 10, day: 3, at: 1, save: 0 },
+    { from: 1938, to: 1938, month: 4, day: 2, at: 23, save: 1 },
+    { from: 1938, to: 1938, month: 4, day: 30, at: 23, save: 2 },
+    { from: 1938, to: 1938, month: 10, day: 3, at: 0, save: 1 },
+    { from: 1939, to: 1939, month: 10, day: 8, at: 1, save: 0 },
+    { from: 1942, to: 1942, month: 5, day: 2, at: 23, save: 1 },
+    { from: 1942, to: 1942, month: 9, day: 1, at: 1, save: 0 },
+    { from: 1943, to: 1943, month: 4, day: 17, at: 23, save: 1 },
+    { from: 1943, to: 1944, month: 10, day: 'Sun>=1', at: 1, save: 0 },
+    { from: 1944, to: 1944, month: 4, day: 15, at: 23, save: 1 },
+    { from: 1945, to: 1945, month: 4, day: 14, at: 23, save: 1 },
+    { from: 1945, to: 1946, month: 9, day: 'lastSun', at: 1, save: 0 },
+    { from: 1946, to: 1946, month: 4, day: 13, at: 23, save: 1 },
+    { from: 1949, to: 1949, month: 4, day: 30, at: 23, save: 1 },
+    { from: 1949, to: 1949, month: 10, day: 2, at: 1, save: 0 },
+    { from: 1974, to: 1974, month: 4, day: 13, at: 23, save: 1 },
+    { from: 1974, to: 1975, month: 10, day: 'Sun>=1', at: 1, save: 0 },
+    { from: 1975, to: 1975, month: 4, day: 12, at: 23, save: 1 },
+    { from: 1976, to: 1976, month: 3, day: 27, at: 23, save: 1 },
+    { from: 1976, to: 1977, month: 9, day: 'lastSun', at: 1, save: 0 },
+    { from: 1977, to: 1977, month: 4, day: 2, at: 23, save: 1 },
+    { from: 1978, to: 1978, month: 4, day: 2, at: 2, save: 1 },
+    { from: 1978, to: 1978, month: 10, day: 1, at: 3, save: 0 },
+  ],
+  Russia: [
+    { from: 1981, to: 1984, month: 4, day: 1, at: 0, save: 1 },
+    { from: 1981, to: 1983, month: 10, day: 1, at: 0, save: 0 },
+    { from: 1984, to: 1995, month: 9, day: 'lastSun', at: 3, save: 0 },
+    { from: 1985, to: 2010, month: 3, day: 'lastSun', at: 2, save: 1 },
+    { from: 1996, to: 2010, month: 10, day: 'lastSun', at: 3, save: 0 },
+  ],
+  // New South Wales; Victoria differs in a few years before 2008
+  AN: [
+    { from: 1971, to: 1985, month: 10, day: 'lastSun', at: 2, save: 1 },
+    { from: 1972, to: 1972, month: 2, day: 27, at: 3, save: 0 },
+    { from: 1973, to: 1981, month: 3, day: 'Sun>=1', at: 3, save: 0 },
+    { from: 1982, to: 1983, month: 4, day: 'Sun>=1', at: 3, save: 0 },
+    { from: 1984, to: 1985, month: 3, day: 'Sun>=1', at: 3, save: 0 },
+    { from: 1986, to: 1989, month: 3, day: 'Sun>=15', at: 3, save: 0 },
+    { from: 1986, to: 1986, month: 10, day: 19, at: 2, save: 1 },
+    { from: 1987, to: 1999, month: 10, day: 'lastSun', at: 2, save: 1 },
+    { from: 1990, to: 1995, month: 3, day: 'Sun>=1', at: 3, save: 0 },
+    { from: 1996, to: 2005, month: 3, day: 'lastSun', at: 3, save: 0 },
+    { from: 2000, to: 2000, month: 8, day: 'lastSun', at: 2, save: 1 },
+    { from: 2001, to: 2007, month: 10, day: 'lastSun', at: 2, save: 1 },
+    { from: 2006, to: 2006, month: 4, day: 'Sun>=1', at: 3, save: 0 },
+    { from: 2007, to: 2007, month: 3, day: 'lastSun', at: 3, save: 0 },
+    { from: 2008, to: Infinity, month: 4, day: 'Sun>=1', at: 3, save: 0 },
+    { from: 2008, to: Infinity, month: 10, day: 'Sun>=1', at: 2, save: 1 },
+  ],
+  AQ: [
+    { from: 1971, to: 1971, month: 10, day: 'lastSun', at: 2, save: 1 },
+    { from: 1972, to: 1972, month: 2, day: 'lastSun', at: 3, save: 0 },
+    { from: 1989, to: 1991, month: 10, day: 'lastSun', at: 2, save: 1 },
+    { from: 1990, to: 1992, month: 3, day: 'Sun>=1', at: 3, save: 0 },
+  ],
+  NZ: [
+    { from: 1974, to: 1974, month: 11, day: 'Sun>=1', at: 2, save: 1 },
+    { from: 1975, to: 1975, month: 2, day: 'lastSun', at: 3, save: 0 },
+    { from: 1975, to: 1988, month: 10, day: 'lastSun', at: 2, save: 1 },
+    { from: 1976, to: 1989, month: 3, day: 'Sun>=1', at: 3, save: 0 },
+    { from: 1989, to: 1989, month: 10, day: 'Sun>=8', at: 2, save: 1 },
+    { from: 1990, to: 2006, month: 10, day: 'Sun>=1', at: 2, save: 1 },
+    { from: 1990, to: 2007, month: 3, day: 'Sun>=15', at: 3, save: 0 },
+    { from: 2007, to: Infinity, month: 9, day: 'lastSun', at: 2, save: 1 },
+    { from: 2008, to: Infinity, month: 4, day: 'Sun>=1', at: 3, save: 0 },
+  ],
+  Pakistan: [
+    { from: 2002, to: 2002, month: 4, day: 'Sun>=2', at: 0, save: 1 },
+    { from: 2002, to: 2002, month: 10, day: 'Sun>=2', at: 0, save: 0 },
+    { from: 2008, to: 2008, month: 6, day: 1, at: 0, save: 1 },
+    { from: 2008, to: 2009, month: 11, day: 1, at: 0, save: 0 },
+    { from: 2009, to: 2009, month: 4, day: 15, at: 0, save: 1 },
+  ],
+  Dhaka: [
+    { from: 2009, to: 2009, month: 6, day: 19, at: 23, save: 1 },
+    { from: 2009, to: 2009, month: 12, day: 31, at: 24, save: 0 },
+  ],
+  PRC: [
+    { from: 1986, to: 1986, month: 5, day: 4, at: 2, save: 1 },
+    { from: 1986, to: 1991, month: 9, day: 'Sun>=11', at: 2, save: 0 },
+    { from: 1987, to: 1991, month: 4, day: 'Sun>=11', at: 2, save: 1 },
+  ],
+  ROK: [
+    { from: 1987, to: 1988, month: 5, day: 'Sun>=8', at: 2, save: 1 },
+    { from: 1987, to: 1988, month: 10, day: 'Sun>=8', at: 3, save: 0 },
+  ],
+};
+
+/** Eras shared by zones with one history */
+const GULF_ERAS: ZoneEra[] = [{ offset: 4, until: wallClock(1972, 6, 1) }, { offset: 3 }];
+
+const MALAYA_ERAS: ZoneEra[] = [
+  { offset: 7, until: wallClock(1933, 1, 1) },
+  { offset: 7 + 20 / 60, until: wallClock(1941, 9, 1) },
+  { offset: 7.5, until: wallClock(1942, 2, 16) },
+  { offset: 9, until: wallClock(1945, 9, 12) },
+  { offset: 7.5, until: wallClock(1982, 1, 1) },
+  { offset: 8 },
+];
+
+const TIME_ZONES: Record<TimeZoneId, TimeZoneInfo> = {
+  'Asia/Kolkata': {
+    since: wallClock(1906, 1, 1),
+    eras: [
+      { offset: 5.5, until: wallClock(1941, 10, 1) },
+      { offset: 6.5, until: wallClock(1942, 5, 15) },
+      { offset: 5.5, until: wallClock(1942, 9, 1) },
+      { offset: 6.5, until: wallClock(1945, 10, 15) },
+      { offset: 5.5 },
+    ],
+  },
+  'Asia/Karachi': {
+    since: wallClock(1907, 1, 1),
+    eras: [
+      { offset: 5.5, until: wallClock(1942, 9, 1) },
+      { offset: 6.5, until: wallClock(1945, 10, 15) },
+      { offset: 5.5, until: wallClock(1951, 9, 30) },
+      { offset: 5, rules: 'Pakistan' },
+    ],
+  },
+  'Asia/Dhaka': {
+    since: wallClock(1890, 1, 1),
+    eras: [
+      { offset: 5 + 53 / 60 + 20 / 3600, until: wallClock(1941, 10, 1) },
+      { offset: 6.5, until: wallClock(1942, 5, 15) },
+      { offset: 5.5, until: wallClock(1942, 9, 1) },
+      { offset: 6.5, until: wallClock(1951, 9, 30) },
+      { offset: 6, rules: 'Dhaka' },
+    ],
+  },
+  'Asia/Kathmandu': {
+    since: wallClock(1920, 1, 1),
+    eras: [{ offset: 5.5, until: wallClock(1986, 1, 1) }, { offset: 5.75 }],
+  },
+  'Asia/Colombo': {
+    since: wallClock(1906, 1, 1),
+    eras: [
+      { offset: 5.5, until: wallClock(1942, 1, 5) },
+      { offset: 6, until: wallClock(1942, 9, 1) },
+      { offset: 6.5, until: wallClock(1945, 10, 16, 2) },
+      { offset: 5.5, until: wallClock(1996, 5, 25) },
+      { offset: 6.5, until: wallClock(1996, 10, 26, 0.5) },
+      { offset: 6, until: wallClock(2006, 4, 15, 0.5) },
+      { offset: 5.5 },
+    ],
+  },
+  'Asia/Thimphu': {
+    since: wallClock(1947, 8, 15),
+    eras: [{ offset: 5.5, until: wallClock(1987, 10, 1) }, { offset: 6 }],
+  },
+  'Asia/Dubai': { since: wallClock(1920, 1, 1), eras: [{ offset: 4 }] },
+  'Asia/Muscat': { since: wallClock(1920, 1, 1), eras: [{ offset: 4 }] },
+  'Asia/Riyadh': { since: wallClock(1947, 3, 14), eras: [{ offset: 3 }] },
+  'Asia/Qatar': { since: wallClock(1920, 1, 1), eras: GULF_ERAS },
+  'Asia/Bahrain': { since: wallClock(1920, 1, 1), eras: GULF_ERAS },
+  'Asia/Kuwait': { since: wallClock(1950, 1, 1), eras: [{ offset: 3 }] },
+  'Asia/Singapore': { since: wallClock(1905, 6, 1), eras: MALAYA_ERAS },
+  'Asia/Kuala_Lumpur': { since: wallClock(1905, 6, 1), eras: MALAYA_ERAS },
+  'Asia/Bangkok': { since: wallClock(1920, 4, 1), eras: [{ offset: 7 }] },
+  'Asia/Jakarta': {
+    since: wallClock(1924, 1, 1),
+    eras: [
+      { offset: 7 + 20 / 60, until: wallClock(1932, 11, 1) },
+      { offset: 7.5, until: wallClock(1942, 3, 23) },
+      { offset: 9, until: wallClock(1945, 9, 23) },
+      { offset: 7.5, until: wallClock(1948, 5, 1) },
+      { offset: 8, until: wallClock(1950, 5, 1) },
+      { offset: 7.5, until: wallClock(1964, 1, 1) },
+      { offset: 7 },
+    ],
+  },
+  'Asia/Hong_Kong': {
+    since: wallClock(1904, 10, 30),
+    eras: [
+      { offset: 8, until: wallClock(1941, 12, 25) },
+      { offset: 9, until: wallClock(1945, 9, 16) },
+      { offset: 8 },
+    ],
+  },
+  'Asia/Shanghai': { since: wallClock(1901, 1, 1), eras: [{ offset: 8, rules: 'PRC' }] },
+  'Asia/Tokyo': { since: wallClock(1888, 1, 1), eras: [{ offset: 9 }] },
+  'Asia/Seoul': {
+    since: wallClock(1912, 1, 1),
+    eras: [
+      { offset: 9, until: wallClock(1954, 3, 21) },
+      { offset: 8.5, until: wallClock(1961, 8, 10) },
+      { offset: 9, rules: 'ROK' },
+    ],
+  },
+  'Asia/Manila': {
+    since: wallClock(1899, 5, 11),
+    eras: [
+      { offset: 8, until: wallClock(1942, 5, 1) },
+      { offset: 9, until: wallClock(1944, 11, 1) },
+      { offset: 8 },
+    ],
+  },
+  'Indian/Mauritius': { since: wallClock(1907, 1, 1), eras: [{ offset: 4 }] },
+  'Pacific/Fiji': { since: wallClock(1915, 10, 26), eras: [{ offset: 12 }] },
+  'Pacific/Auckland': {
+    since: wallClock(1868, 11, 2),
+    eras: [{ offset: 11.5, until: wallClock(1946, 1, 1) }, { offset: 12, rules: 'NZ' }],
+  },
+  'Australia/Sydney': { since: wallClock(1895, 2, 1), eras: [{ offset: 10, rules: 'AN' }] },
+  'Australia/Melbourne': { since: wallClock(1895, 2, 1), eras: [{ offset: 10, rules: 'AN' }] },
+  'Australia/Brisbane': { since: wallClock(1895, 1, 1), eras: [{ offset: 10, rules: 'AQ' }] },
+  'Australia/Perth': { since: wallClock(1895, 12, 1), eras: [{ offset: 8 }] },
+  'Africa/Johannesburg': {
+    since: wallClock(1892, 2, 8),
+    eras: [{ offset: 1.5, until: wallClock(1903, 3, 1) }, { offset: 2 }],
+  },
+  'Africa/Nairobi': {
+    since: wallClock(1928, 7, 1),
+    eras: [
+      { offset: 3, until: wallClock(1930, 1, 5) },
+      { offset: 2.5, until: wallClock(1937, 1, 1) },
+      { offset: 2.75, until: wallClock(1942, 8, 1) },
+      { offset: 3 },
+    ],
+  },
+  'Africa/Lagos': { since: wallClock(1919, 9, 1), eras: [{ offset: 1 }] },
+  // British Standard Time (+1 all year) from 1968 to 1971
+  'Europe/London': {
+    since: wallClock(1847, 12, 1),
+    eras: [
+      { offset: 0, rules: 'GB', until: wallClock(1968, 2, 18, 2) },
+      { offset: 1, until: wallClock(1971, 10, 31, 3) },
+      { offset: 0, rules: 'GB' },
+    ],
+  },
+  // Dublin Mean Time until 1916, then GMT; the same clocks as London from 1968
+  'Europe/Dublin': {
+    since: wallClock(1880, 8, 2),
+    eras: [
+      { offset: -(25 + 21 / 60) / 60, rules: 'Eire', until: wallClock(1916, 10, 1, 3) },
+      { offset: 0, rules: 'Eire', until: wallClock(1968, 2, 18, 2) },
+      { offset: 1, until: wallClock(1971, 10, 31, 3) },
+      { offset: 0, rules: 'GB' },
+    ],
+  },
+  'Europe/Paris': {
+    since: wallClock(1911, 3, 11),
+    eras: [
+      { offset: 0, rules: 'France', until: wallClock(1940, 6, 14, 23) },
+      { offset: 1, rules: 'France', until: wallClock(1977, 1, 1) },
+      { offset: 1, rules: 'EU' },
+    ],
+  },
+  'Europe/Berlin': {
+    since: wallClock(1893, 4, 1),
+    eras: [{ offset: 1, rules: 'Germany', until: wallClock(1980, 1, 1) }, { offset: 1, rules: 'EU' }],
+  },
+  // Amsterdam Mean Time, rounded to +0:20 in 1937
+  'Europe/Amsterdam': {
+    since: wallClock(1835, 1, 1),
+    eras: [
+      { offset: (19 + 32 / 60) / 60, rules: 'Neth', until: wallClock(1937, 7, 1) },
+      { offset: 20 / 60, rules: 'Neth', until: wallClock(1940, 5, 16) },
+      { offset: 1, rules: 'Neth', until: wallClock(1977, 1, 1) },
+      { offset: 1, rules: 'EU' },
+    ],
+  },
+  'Europe/Zurich': {
+    since: wallClock(1894, 6, 1),
+    eras: [{ offset: 1, rules: 'Swiss', until: wallClock(1981, 1, 1) }, { offset: 1, rules: 'EU' }],
+  },
+  'Europe/Rome': {
+    since: wallClock(1893, 11, 1),
+    eras: [{ offset: 1, rules: 'Italy', until: wallClock(1980, 1, 1) }, { offset: 1, rules: 'EU' }],
+  },
+  'Europe/Madrid': {
+    since: wallClock(1901, 1, 1),
+    eras: [
+      { offset: 0, rules: 'Spain', until: wallClock(1940, 3, 16, 23) },
+      { offset: 1, rules: 'Spain', until: wallClock(1979, 1, 1) },
+      { offset: 1, rules: 'EU' },
+    ],
+  },
+  // Moscow kept Eastern European time through the winter of 1991-92
+  'Europe/Moscow': {
+    since: wallClock(1930, 6, 21),
+    eras: [
+      { offset: 3, until: wallClock(1981, 1, 1) },
+      { offset: 3, rules: 'Russia', until: wallClock(1991, 3, 31, 2) },
+      { offset: 2, rules: 'Russia', until: wallClock(1992, 1, 19, 2) },
+      { offset: 3, rules: 'Russia', until: wallClock(2011, 3, 27, 2) },
+      { offset: 4, until: wallClock(2014, 10, 26, 2) },
+      { offset: 3 },
+    ],
+  },
+  'America/New_York': { since: wallClock(1883, 11, 18), eras: [{ offset: -5, rules: 'NYC' }] },
+  'America/Chicago': { since: wallClock(1883, 11, 18), eras: [{ offset: -6, rules: 'NYC' }] },
+  'America/Denver': { since: wallClock(1883, 11, 18), eras: [{ offset: -7, rules: 'US' }] },
+  'America/Phoenix': {
+    since: wallClock(1883, 11, 18),
+    eras: [{ offset: -7, rules: 'US', until: wallClock(1968, 3, 21) }, { offset: -7 }],
+  },
+  'America/Los_Angeles': { since: wallClock(1883, 11, 18), eras: [{ offset: -8, rules: 'CA' }] },
+  'America/Toronto': { since: wallClock(1895, 1, 1), eras: [{ offset: -5, rules: 'Canada' }] },
+  'America/Vancouver': { since: wallClock(1884, 1, 1), eras: [{ offset: -8, rules: 'Canada' }] },
+  'America/Edmonton': {
+    since: wallClock(1906, 9, 1),
+    eras: [{ offset: -7, until: wallClock(1972, 1, 1) }, { offset: -7, rules: 'Canada' }],
+  },
+  'America/Mexico_City': {
+    since: wallClock(1922, 1, 1),
+    eras: [
+      { offset: -7, until: wallClock(1927, 6, 10, 23) },
+      { offset: -6, until: wallClock(1930, 11, 15) },
+      { offset: -7, until: wallClock(1931, 5, 1, 23) },
+      { offset: -6, until: wallClock(1931, 10, 1) },
+      { offset: -7, until: wallClock(1932, 4, 1) },
+      { offset: -6, rules: 'Mexico' },
+    ],
+  },
+  'America/Port_of_Spain': { since: wallClock(1912, 3, 2), eras: [{ offset: -4 }] },
+};
+
+/** Local times kept in place of IST before it was adopted everywhere */
+const REGIONAL_TIMES: RegionalTime[] = [
+  {
+    zone: 'Asia/Kolkata',
+    // Nagpur and Vidarbha, Marathwada and the princely states kept IST
+    cities: [
+      'Mumbai',
+      'Thane',
+      'Navi Mumbai',
+      'Pune',
+      'Nashik',
+      'Ahilyanagar',
+      'Jalgaon',
+      'Solapur',
+      'Satara',
+      'Ratnagiri',
+      'Ahmedabad',
+      'Surat',
+      'Anand',
+      'Belagavi',
+      'Hubballi',
+    ],
+    name: 'Bombay Time',
+    offset: 4 + 51 / 60,
+    replaces: 5.5,
+    until: wallClock(1955, 1, 1),
+  },
+  {
+    zone: 'Asia/Kolkata',
+    cities: ['Kolkata', 'Howrah'],
+    name: 'Calcutta Time',
+    offset: 5 + 53 / 60 + 20 / 3600,
+    replaces: 5.5,
+    until: wallClock(1948, 1, 1),
+  },
+];
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/** Day of the month a rule's transition falls on */
+const transitionDate = (year: number, month: number, day: TransitionDay): number => {
+  if (typeof day === 'number') return day;
+  if (day === 'lastSun') {
+    const lastDay = new Date(Date.UTC(year, month, 0));
+    return lastDay.getUTCDate() - lastDay.getUTCDay();
+  }
+  const earliest = Number(day.slice('Sun>='.length));
+  const weekday = new Date(Date.UTC(year, month - 1, earliest)).getUTCDay();
+  return earliest + ((7 - weekday) % 7);
+};
+
+/**
+ * Daylight saving in effect at a wall-clock moment: the save of the
+ * latest rule transition at or before it
+ */
+const daylightSavingAt = (rules: DstRule[], wall: number, year: number, offset: number): number => {
+  let latest = -Infinity;
+  let save = 0;
+  for (let y = year - RULE_LOOKBACK_YEARS; y <= year; y++) {
+    rules
+      .filter((rule) => rule.from <= y && y <= rule.to)
+      .forEach((rule) => {
+        // UTC transitions move onto the wall clock of the time being left;
+        // every saving timed in UTC is one hour
+        const hour = rule.utc ? rule.at + offset + (rule.save > 0 ? 0 : 1) : rule.at;
+        const when = wallClock(y, rule.month, transitionDate(y, rule.month, rule.day), hour);
+        if (when <= wall && when > latest) {
+          latest = when;
+          save = rule.save;
+        }
+      });
+  }
+  return save;
+};
+
+/**
+ * UTC offset shown by civil clocks in a zone at a wall-clock time
+ *
+ * `longitude` gives local mean time before the zone adopted standard
+ * time, and `city` (its name in the city database) selects regional
+ * times such as Bombay Time.
+ */
+export const resolveUtcOffset = (
+  zoneId: TimeZoneId,
+  local: LocalDateTime,
+  longitude: number,
+  city?: string
+): ResolvedOffset => {
+  const zone = TIME_ZONES[zoneId];
+  const wall =
+    wallClock(local.year, local.month, local.day, local.hour) +
+    (local.minute * 60 + (local.second ?? 0)) * 1000;
+
+  if (wall < zone.since) {
+    return { utcOffset: longitude / 15, daylightSaving: 0, note: 'Local mean time' };
+  }
+
+  const era =
+    zone.eras.find((candidate) => candidate.until === undefined || wall < candidate.until) ??
+    zone.eras[zone.eras.length - 1];
+
+  const regional = REGIONAL_TIMES.find(
+    (candidate) =>
+      candidate.zone === zoneId &&
+      city !== undefined &&
+      candidate.cities.includes(city) &&
+      era.offset === candidate.replaces &&
+      !era.rules &&
+      wall < candidate.until
+  );
+  if (regional) {
+    return { utcOffset: regional.offset, daylightSaving: 0, note: regional.name };
+  }
+
+  const daylightSaving = era.rules
+    ? daylightSavingAt(DST_RULES[era.rules], wall, local.year, era.offset)
+    : 0;
+  return { utcOffset: era.offset + daylightSaving, daylightSaving };
+};
+
+/**
+ * Offset as shown to users, e.g. 'UTC+05:30'
+ */
+export const formatUtcOffset = (hours: number): string => {
+  const totalMinutes = Math.round(Math.abs(hours) * 60);
+  const hh = String(Math.floor(totalMinutes / 60)).padStart(2, '0');
+  const mm = String(totalMinutes % 60).padStart(2, '0');
+  return `UTC${hours < 0 ? '-' : '+'}${hh}:${mm}`;
+};
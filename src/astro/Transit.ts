@@ -0,0 +1,47 @@
+/**
+ * Corp Astro Engine - Gochara (Transits)
+ *
+ * Graha positions at any moment read against a natal chart. Gochara is
+ * judged by whole signs from both the natal Lagna and the natal Moon, so
+ * each transit carries its house from each reference.
+ *
+ * Transits use the natal chart's ayanamsa so both sets of positions sit in
+ * the same zodiac.
+ *
+ * @module Transit
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart, PlanetPosition, calculatePlanetPositions } from './Chart';
+import { julianDayFromDate } from './JulianDay';
+import { signDistance } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A transiting graha; `house` counts from the natal Lagna
+ */
+export interface TransitPosition extends PlanetPosition {
+  /** Whole-sign house 1-12 from the natal Moon */
+  houseFromMoon: number;
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Transits over a natal chart at a moment, today when omitted
+ */
+export const calculateTransits = (natal: NatalChart, date: Date = new Date()): TransitPosition[] => {
+  const moonSign = natal.planets.find((planet) => planet.id === 'Mo')?.sign ?? natal.ascendant.sign;
+  return calculatePlanetPositions(julianDayFromDate(date), natal.ascendant.sign, {
+    ayanamsa: natal.ayanamsaId,
+  }).map((position) => ({
+    ...position,
+    houseFromMoon: signDistance(moonSign, position.sign),
+  }));
+};
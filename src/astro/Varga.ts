@@ -0,0 +1,229 @@
+/**
+ * Corp Astro Engine - Divisional (Varga) Charts
+ *
+ * Maps D1 sidereal longitudes into every divisional chart listed on the
+ * Services tab using the Parashari division rules. Vargas are looked up
+ * by the same `chartType` ids the service cards navigate with.
+ *
+ * D11 is not among Parashara's sixteen vargas; it uses the cyclic method
+ * (divisions counted continuously from Aries), as does D9, where the
+ * cyclic and Parashari rules coincide.
+ *
+ * @module Varga
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart } from './Chart';
+import { GrahaId, signOf, degreeInSign, normalizeDegrees } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Supported divisional charts
+ */
+export type VargaDivision =
+  | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12
+  | 16 | 20 | 24 | 27 | 30 | 40 | 45 | 60;
+
+/**
+ * Varga reference entry
+ */
+export interface VargaInfo {
+  division: VargaDivision;
+  /** Short code, e.g. 'D9' */
+  code: string;
+  name: string;
+  /** Services tab chartType id */
+  chartType: string;
+  /** Life area the varga is read for */
+  signification: string;
+}
+
+/**
+ * Graha placed in a divisional chart
+ */
+export interface VargaPlacement {
+  id: GrahaId;
+  /** Varga sign index 0-11 */
+  sign: number;
+  /** House from the varga Lagna, 1-12 */
+  house: number;
+  /** Degree within the varga sign, the D1 degree scaled by the division */
+  degree: number;
+  isRetrograde: boolean;
+}
+
+/**
+ * Complete divisional chart
+ */
+export interface VargaChart {
+  info: VargaInfo;
+  /** Varga Lagna sign index 0-11 */
+  ascendantSign: number;
+  planets: VargaPlacement[];
+}
+
+// ============================================================================
+// REFERENCE TABLE
+// ============================================================================
+
+/**
+ * All vargas in division order
+ */
+export const VARGAS: VargaInfo[] = [
+  { division: 1, code: 'D1', name: 'Rashi', chartType: 'rashi', signification: 'Body and overall life' },
+  { division: 2, code: 'D2', name: 'Hora', chartType: 'hora', signification: 'Wealth' },
+  { division: 3, code: 'D3', name: 'Drekkana', chartType: 'drekkana', signification: 'Siblings and courage' },
+  { division: 4, code: 'D4', name: 'Chaturthamsa', chartType: 'chaturthamsa', signification: 'Property and fortune' },
+  { division: 5, code: 'D5', name: 'Panchamsa', chartType: 'panchamsa', signification: 'Fame and authority' },
+  { division: 6, code: 'D6', name: 'Shashthamsa', chartType: 'shashthamsa', signification: 'Health and enemies' },
+  { division: 7, code: 'D7', name: 'Saptamsa', chartType: 'saptamsa', signification: 'Children' },
+  { division: 8, code: 'D8', name: 'Ashtamsa', chartType: 'ashtamsa', signification: 'Longevity and sudden events' },
+  { division: 9, code: 'D9', name: 'Navamsa', chartType: 'navamsa', signification: 'Marriage and dharma' },
+  { division: 10, code: 'D10', name: 'Dasamsa', chartType: 'dasamsa', signification: 'Career' },
+  { division: 11, code: 'D11', name: 'Ekadasamsa', chartType: 'ekadasamsa', signification: 'Gains' },
+  { division: 12, code: 'D12', name: 'Dvadasamsa', chartType: 'dvadasamsa', signification: 'Parents' },
+  { division: 16, code: 'D16', name: 'Shodasamsa', chartType: 'shodasamsa', signification: 'Vehicles and comforts' },
+  { division: 20, code: 'D20', name: 'Vimsamsa', chartType: 'vimsamsa', signification: 'Spiritual pursuits' },
+  { division: 24, code: 'D24', name: 'Chaturvimsamsa', chartType: 'chaturvimsamsa', signification: 'Education' },
+  { division: 27, code: 'D27', name: 'Saptavimsamsa', chartType: 'saptavimsamsa', signification: 'Strength and stamina' },
+  { division: 30, code: 'D30', name: 'Trimsamsa', chartType: 'trimsamsa', signification: 'Misfortunes' },
+  { division: 40, code: 'D40', name: 'Khavedamsa', chartType: 'khavedamsa', signification: 'Maternal legacy' },
+  { division: 45, code: 'D45', name: 'Akshavedamsa', chartType: 'akshavedamsa', signification: 'Character' },
+  { division: 60, code: 'D60', name: 'Shashtiamsa', chartType: 'shashtiamsa', signification: 'Past karma' },
+];
+
+/**
+ * Trimsamsa portions: [end degree, odd-sign result, even-sign result]
+ */
+const TRIMSAMSA_PORTIONS: [number, number, number][] = [
+  [5, 0, 1], // Mars / Venus: Aries, Taurus
+  [10, 10, 5], // Saturn / Mercury: Aquarius, Virgo (even-sign portion ends at 12)
+  [18, 8, 11], // Jupiter: Sagittarius, Pisces
+  [25, 2, 9], // Mercury / Saturn: Gemini, Capricorn
+  [30, 6, 7], // Venus / Mars: Libra, Scorpio
+];
+
+/** Even-sign Trimsamsa portions run 5, 7, 8, 5, 5 degrees */
+const EVEN_TRIMSAMSA_ENDS = [5, 12, 20, 25, 30];
+
+const PANCHAMSA_ODD = [0, 10, 8, 2, 6];
+const PANCHAMSA_EVEN = [1, 5, 11, 9, 7];
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+const isOddSign = (sign: number): boolean => sign % 2 === 0;
+
+/** 0 = movable, 1 = fixed, 2 = dual */
+const modality = (sign: number): number => sign % 3;
+
+/** 0 = fire, 1 = earth, 2 = air, 3 = water */
+const element = (sign: number): number => sign % 4;
+
+const trimsamsaSign = (sign: number, degrees: number): number => {
+  const odd = isOddSign(sign);
+  const index = odd
+    ? TRIMSAMSA_PORTIONS.findIndex(([end]) => degrees < end)
+    : EVEN_TRIMSAMSA_ENDS.findIndex((end) => degrees < end);
+  const portion = TRIMSAMSA_PORTIONS[index === -1 ? 4 : index];
+  return odd ? portion[1] : portion[2];
+};
+
+/**
+ * Varga sign index (0-11) of a sidereal longitude
+ */
+export const vargaSign = (longitude: number, division: VargaDivision): number => {
+  const lon = normalizeDegrees(longitude);
+  const sign = signOf(lon);
+  const degrees = degreeInSign(lon);
+  const part = Math.min(Math.floor(degrees / (30 / division)), division - 1);
+  const odd = isOddSign(sign);
+
+  let start: number;
+  switch (division) {
+    case 1:
+      return sign;
+    case 2:
+      return odd === (part === 0) ? 4 : 3;
+    case 3:
+      return (sign + part * 4) % 12;
+    case 4:
+      return (sign + part * 3) % 12;
+    case 5:
+      return odd ? PANCHAMSA_ODD[part] : PANCHAMSA_EVEN[part];
+    case 30:
+      return trimsamsaSign(sign, degrees);
+    case 9:
+    case 11:
+      return (sign * division + part) % 12;
+    case 6:
+    case 40:
+      start = odd ? 0 : 6;
+      break;
+    case 7:
+      start = odd ? sign : sign + 6;
+      break;
+    case 8:
+      start = [0, 8, 4][modality(sign)];
+      break;
+    case 10:
+      start = odd ? sign : sign + 8;
+      break;
+    case 12:
+    case 60:
+      start = sign;
+      break;
+    case 16:
+    case 45:
+      start = [0, 4, 8][modality(sign)];
+      break;
+    case 20:
+      start = [0, 8, 4][modality(sign)];
+      break;
+    case 24:
+      start = odd ? 4 : 3;
+      break;
+    case 27:
+      start = [0, 3, 6, 9][element(sign)];
+      break;
+  }
+  return (start + part) % 12;
+};
+
+/**
+ * Look up a varga by Services tab chartType id
+ */
+export const getVargaByChartType = (chartType: string): VargaInfo | undefined =>
+  VARGAS.find((varga) => varga.chartType === chartType);
+
+/**
+ * Look up a varga by division
+ */
+export const getVarga = (division: VargaDivision): VargaInfo =>
+  VARGAS.find((varga) => varga.division === division) as VargaInfo;
+
+/**
+ * Build a divisional chart from a natal chart
+ */
+export const calculateVarga = (natal: NatalChart, division: VargaDivision): VargaChart => {
+  const ascendantSign = vargaSign(natal.ascendant.longitude, division);
+  return {
+    info: getVarga(division),
+    ascendantSign,
+    planets: natal.planets.map((planet) => {
+      const sign = vargaSign(planet.longitude, division);
+      return {
+        id: planet.id,
+        sign,
+        house: ((sign - ascendantSign + 12) % 12) + 1,
+        degree: (degreeInSign(planet.longitude) * division) % 30,
+        isRetrograde: planet.isRetrograde,
+      };
+    }),
+  };
+};
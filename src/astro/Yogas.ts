@@ -0,0 +1,276 @@
+/**
+ * Corp Astro Engine - Yogas and Doshas
+ *
+ * Rule-based detection of the classical combinations read from a natal
+ * chart: Raj, Dhana, Gajakesari, Pancha Mahapurusha and Neecha Bhanga
+ * yogas, and the Mangal, Kaal Sarp and Pitra doshas. Every detection
+ * carries a plain-language explanation of the placements that formed it,
+ * and doshas a traditional remedy.
+ *
+ * Houses are whole signs from the Lagna. Two grahas are connected by
+ * conjunction in a sign, mutual 7th aspect or sign exchange. Mangal dosha
+ * is not reported when Mars is in its own or exaltation sign.
+ *
+ * @module Yogas
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { NatalChart, PlanetPosition } from './Chart';
+import { GrahaId, SIGNS, dignityOf, getGraha, normalizeDegrees, ordinal, signDistance, signOf, EXALTATION_POINTS } from './Zodiac';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Families of combinations the engine detects
+ */
+export type YogaCategory =
+  | 'raj'
+  | 'dhana'
+  | 'gajakesari'
+  | 'mahapurusha'
+  | 'neecha_bhanga'
+  | 'mangal'
+  | 'kaal_sarp'
+  | 'pitra';
+
+/**
+ * A detected yoga or dosha
+ */
+export interface DetectedYoga {
+  category: YogaCategory;
+  kind: 'yoga' | 'dosha';
+  name: string;
+  /** Grahas forming the combination */
+  grahas: GrahaId[];
+  explanation: string;
+  /** Traditional remedy, for doshas */
+  remedy?: string;
+}
+
+/**
+ * Everything detected in a chart, strengths and afflictions apart
+ */
+export interface ChartYogas {
+  yogas: DetectedYoga[];
+  doshas: DetectedYoga[];
+}
+
+/**
+ * How two grahas are connected
+ */
+type Connection = 'conjunction' | 'aspect' | 'exchange';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const KENDRAS = [1, 4, 7, 10];
+const TRIKONAS = [1, 5, 9];
+const WEALTH_HOUSES = [2, 11];
+
+/** Houses from the Lagna where Mars gives Mangal dosha */
+const MANGAL_HOUSES = [1, 2, 4, 7, 8, 12];
+
+/** Pancha Mahapurusha yoga formed by each graha */
+const MAHAPURUSHA_NAMES: Partial<Record<GrahaId, string>> = {
+  Ma: 'Ruchaka',
+  Me: 'Bhadra',
+  Ju: 'Hamsa',
+  Ve: 'Malavya',
+  Sa: 'Sasa',
+};
+
+const VISIBLE_GRAHAS: GrahaId[] = ['Su', 'Mo', 'Ma', 'Me', 'Ju', 'Ve', 'Sa'];
+
+const CONNECTION_TEXT: Record<Connection, string> = {
+  conjunction: 'are conjunct',
+  aspect: 'aspect each other',
+  exchange: 'exchange signs',
+};
+
+const DOSHA_REMEDIES: Partial<Record<YogaCategory, string>> = {
+  mangal: 'Recite the Hanuman Chalisa on Tuesdays and match with a partner who also has Mangal dosha',
+  kaal_sarp: 'Perform the Kaal Sarp puja and chant the Maha Mrityunjaya mantra',
+  pitra: 'Offer tarpan to the ancestors on Amavasya and during Pitru Paksha',
+};
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+const connectionOf = (a: PlanetPosition, b: PlanetPosition): Connection | null => {
+  if (a.sign === b.sign) return 'conjunction';
+  if ((a.sign + 6) % 12 === b.sign) return 'aspect';
+  if (SIGNS[a.sign].lord === b.id && SIGNS[b.sign].lord === a.id) return 'exchange';
+  return null;
+};
+
+/**
+ * Yogas and doshas present in a natal chart
+ */
+export const detectYogas = (natal: NatalChart): ChartYogas => {
+  const planet = (id: GrahaId) =>
+    natal.planets.find((position) => position.id === id) as PlanetPosition;
+  const name = (id: GrahaId) => getGraha(id).name;
+  const lagnaSign = natal.ascendant.sign;
+  const moon = planet('Mo');
+  const lordOf = (house: number) => SIGNS[(lagnaSign + house - 1) % 12].lord;
+  const yogas: DetectedYoga[] = [];
+  const doshas: DetectedYoga[] = [];
+
+  /** Connections between lords of two house groups, one entry per graha pair */
+  const lordConnections = (
+    category: YogaCategory,
+    yogaName: string,
+    groupA: number[],
+    groupB: number[],
+    meaning: string
+  ) => {
+    const seen = new Set<string>();
+    groupA.forEach((houseA) =>
+      groupB.forEach((houseB) => {
+        const [lordA, lordB] = [lordOf(houseA), lordOf(houseB)];
+        const key = [lordA, lordB].sort().join('-');
+        if (houseA === houseB || lordA === lordB || seen.has(key)) return;
+        const connection = connectionOf(planet(lordA), planet(lordB));
+        if (!connection) return;
+        seen.add(key);
+        yogas.push({
+          category,
+          kind: 'yoga',
+          name: yogaName,
+          grahas: [lordA, lordB],
+          explanation: `${name(lordA)}, lord of the ${ordinal(houseA)}, and ${name(lordB)}, lord of the ${ordinal(houseB)}, ${CONNECTION_TEXT[connection]}, ${meaning}.`,
+        });
+      })
+    );
+  };
+
+  // Raj Yoga: kendra and trikona lords joined, or one graha ruling both
+  lordConnections('raj', 'Raj Yoga', KENDRAS, TRIKONAS, 'promising status and authority');
+  KENDRAS.slice(1).forEach((kendra) =>
+    TRIKONAS.slice(1).forEach((trikona) => {
+      if (lordOf(kendra) !== lordOf(trikona)) return;
+      yogas.push({
+        category: 'raj',
+        kind: 'yoga',
+        name: 'Yogakaraka Raj Yoga',
+        grahas: [lordOf(kendra)],
+        explanation: `${name(lordOf(kendra))} rules both the ${ordinal(kendra)} and the ${ordinal(trikona)} house, making it the chart's yogakaraka.`,
+      });
+    })
+  );
+
+  // Dhana Yoga: wealth house lords joined with trikona lords
+  lordConnections('dhana', 'Dhana Yoga', WEALTH_HOUSES, TRIKONAS, 'supporting the growth of wealth');
+
+  // Gajakesari: Jupiter in a kendra from the Moon
+  const jupiterFromMoon = signDistance(moon.sign, planet('Ju').sign);
+  if (KENDRAS.includes(jupiterFromMoon)) {
+    yogas.push({
+      category: 'gajakesari',
+      kind: 'yoga',
+      name: 'Gajakesari Yoga',
+      grahas: ['Ju', 'Mo'],
+      explanation: `Jupiter in ${SIGNS[planet('Ju').sign].name} is in the ${ordinal(jupiterFromMoon)} house from the Moon, lending wisdom, reputation and lasting support.`,
+    });
+  }
+
+  // Pancha Mahapurusha: a star graha in its own or exaltation sign in a kendra
+  (Object.keys(MAHAPURUSHA_NAMES) as GrahaId[]).forEach((id) => {
+    const position = planet(id);
+    const dignity = dignityOf(id, position.sign);
+    if (!KENDRAS.includes(position.house) || (dignity !== 'own' && dignity !== 'exalted')) return;
+    yogas.push({
+      category: 'mahapurusha',
+      kind: 'yoga',
+      name: `${MAHAPURUSHA_NAMES[id]} Yoga`,
+      grahas: [id],
+      explanation: `${name(id)} is ${dignity === 'own' ? 'in its own sign' : 'exalted'} in ${SIGNS[position.sign].name} in the ${ordinal(position.house)} house, one of the five Mahapurusha yogas.`,
+    });
+  });
+
+  // Neecha Bhanga: a debilitated graha whose sign lord, or the graha
+  // exalted in that sign, stands in a kendra from the Lagna or the Moon
+  VISIBLE_GRAHAS.forEach((id) => {
+    const position = planet(id);
+    if (dignityOf(id, position.sign) !== 'debilitated') return;
+    const cancellers = [
+      SIGNS[position.sign].lord,
+      ...VISIBLE_GRAHAS.filter(
+        (other) => signOf(EXALTATION_POINTS[other] ?? 0) === position.sign
+      ),
+    ].filter((other) => other !== id);
+    const canceller = cancellers.find(
+      (other) =>
+        KENDRAS.includes(planet(other).house) ||
+        KENDRAS.includes(signDistance(moon.sign, planet(other).sign))
+    );
+    if (!canceller) return;
+    yogas.push({
+      category: 'neecha_bhanga',
+      kind: 'yoga',
+      name: 'Neecha Bhanga Raj Yoga',
+      grahas: [id, canceller],
+      explanation: `${name(id)} is debilitated in ${SIGNS[position.sign].name}, but ${name(canceller)} in a kendra cancels the debilitation, turning early setbacks into strength.`,
+    });
+  });
+
+  // Mangal dosha: Mars in a marriage-sensitive house, unless dignified
+  const mars = planet('Ma');
+  const marsDignity = dignityOf('Ma', mars.sign);
+  if (
+    MANGAL_HOUSES.includes(mars.house) &&
+    marsDignity !== 'own' &&
+    marsDignity !== 'exalted'
+  ) {
+    doshas.push({
+      category: 'mangal',
+      kind: 'dosha',
+      name: 'Mangal Dosha',
+      grahas: ['Ma'],
+      explanation: `Mars in the ${ordinal(mars.house)} house from the Lagna can bring friction and delays in partnerships and marriage.`,
+      remedy: DOSHA_REMEDIES.mangal,
+    });
+  }
+
+  // Kaal Sarp: every visible graha on one side of the Rahu-Ketu axis
+  const rahu = planet('Ra');
+  const sides = VISIBLE_GRAHAS.map(
+    (id) => normalizeDegrees(planet(id).longitude - rahu.longitude) < 180
+  );
+  if (sides.every((side) => side) || sides.every((side) => !side)) {
+    doshas.push({
+      category: 'kaal_sarp',
+      kind: 'dosha',
+      name: 'Kaal Sarp Dosha',
+      grahas: ['Ra', 'Ke'],
+      explanation: `All seven grahas lie between Rahu in ${SIGNS[rahu.sign].name} and Ketu in ${SIGNS[planet('Ke').sign].name}, which can make progress come in sudden swings.`,
+      remedy: DOSHA_REMEDIES.kaal_sarp,
+    });
+  }
+
+  // Pitra dosha: the Sun joined by Rahu, Ketu or Saturn, or Rahu in the 9th
+  const sun = planet('Su');
+  const sunAfflictors = (['Ra', 'Ke', 'Sa'] as GrahaId[]).filter(
+    (id) => planet(id).sign === sun.sign
+  );
+  if (sunAfflictors.length > 0 || rahu.house === 9) {
+    doshas.push({
+      category: 'pitra',
+      kind: 'dosha',
+      name: 'Pitra Dosha',
+      grahas: sunAfflictors.length > 0 ? ['Su', ...sunAfflictors] : ['Ra'],
+      explanation:
+        sunAfflictors.length > 0
+          ? `The Sun is conjunct ${sunAfflictors.map(name).join(' and ')}, pointing to unresolved ancestral karma.`
+          : 'Rahu in the 9th house, the house of the father and ancestors, points to unresolved ancestral karma.',
+      remedy: DOSHA_REMEDIES.pitra,
+    });
+  }
+
+  return { yogas, doshas };
+};
@@ -0,0 +1,281 @@
+/**
+ * Corp Astro Engine - Zodiac Reference Data
+ *
+ * Static Vedic reference tables shared by every calculation module:
+ * the nine grahas, the twelve rashis and the twenty-seven nakshatras,
+ * graha dignities, plus the small angle helpers used to map a longitude
+ * onto them.
+ *
+ * @module Zodiac
+ * @version 1.0.0
+ * @since 2025
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Two-letter graha identifiers used throughout the app's chart UI
+ */
+export type GrahaId = 'Su' | 'Mo' | 'Ma' | 'Me' | 'Ju' | 'Ve' | 'Sa' | 'Ra' | 'Ke';
+
+/**
+ * Sign dignity of a graha
+ */
+export type Dignity = 'exalted' | 'debilitated' | 'own' | 'neutral';
+
+/**
+ * Naisargika (natural) relationship of one graha towards another
+ */
+export type GrahaRelation = 'friend' | 'neutral' | 'enemy';
+
+/**
+ * Graha reference entry
+ */
+export interface GrahaInfo {
+  id: GrahaId;
+  /** English name */
+  name: string;
+  /** Sanskrit name */
+  sanskrit: string;
+}
+
+/**
+ * Rashi (sign) reference entry
+ */
+export interface SignInfo {
+  /** 0 = Aries ... 11 = Pisces */
+  index: number;
+  name: string;
+  sanskrit: string;
+  /** Three-letter label used on chart cells */
+  short: string;
+  lord: GrahaId;
+}
+
+/**
+ * Nakshatra reference entry
+ */
+export interface NakshatraInfo {
+  /** 0 = Ashwini ... 26 = Revati */
+  index: number;
+  name: string;
+  lord: GrahaId;
+  deity: string;
+}
+
+// ============================================================================
+// REFERENCE TABLES
+// ============================================================================
+
+/**
+ * The nine grahas in weekday order, followed by the lunar nodes
+ */
+export const GRAHAS: GrahaInfo[] = [
+  { id: 'Su', name: 'Sun', sanskrit: 'Surya' },
+  { id: 'Mo', name: 'Moon', sanskrit: 'Chandra' },
+  { id: 'Ma', name: 'Mars', sanskrit: 'Mangala' },
+  { id: 'Me', name: 'Mercury', sanskrit: 'Budha' },
+  { id: 'Ju', name: 'Jupiter', sanskrit: 'Guru' },
+  { id: 'Ve', name: 'Venus', sanskrit: 'Shukra' },
+  { id: 'Sa', name: 'Saturn', sanskrit: 'Shani' },
+  { id: 'Ra', name: 'Rahu', sanskrit: 'Rahu' },
+  { id: 'Ke', name: 'Ketu', sanskrit: 'Ketu' },
+];
+
+/**
+ * The twelve rashis with their classical lords
+ */
+export const SIGNS: SignInfo[] = [
+  { index: 0, name: 'Aries', sanskrit: 'Mesha', short: 'Ari', lord: 'Ma' },
+  { index: 1, name: 'Taurus', sanskrit: 'Vrishabha', short: 'Tau', lord: 'Ve' },
+  { index: 2, name: 'Gemini', sanskrit: 'Mithuna', short: 'Gem', lord: 'Me' },
+  { index: 3, name: 'Cancer', sanskrit: 'Karka', short: 'Can', lord: 'Mo' },
+  { index: 4, name: 'Leo', sanskrit: 'Simha', short: 'Leo', lord: 'Su' },
+  { index: 5, name: 'Virgo', sanskrit: 'Kanya', short: 'Vir', lord: 'Me' },
+  { index: 6, name: 'Libra', sanskrit: 'Tula', short: 'Lib', lord: 'Ve' },
+  { index: 7, name: 'Scorpio', sanskrit: 'Vrishchika', short: 'Sco', lord: 'Ma' },
+  { index: 8, name: 'Sagittarius', sanskrit: 'Dhanu', short: 'Sag', lord: 'Ju' },
+  { index: 9, name: 'Capricorn', sanskrit: 'Makara', short: 'Cap', lord: 'Sa' },
+  { index: 10, name: 'Aquarius', sanskrit: 'Kumbha', short: 'Aqu', lord: 'Sa' },
+  { index: 11, name: 'Pisces', sanskrit: 'Meena', short: 'Pis', lord: 'Ju' },
+];
+
+/**
+ * The twenty-seven nakshatras with Vimshottari lords and presiding deities
+ */
+export const NAKSHATRAS: NakshatraInfo[] = [
+  { index: 0, name: 'Ashwini', lord: 'Ke', deity: 'Ashwini Kumaras' },
+  { index: 1, name: 'Bharani', lord: 'Ve', deity: 'Yama' },
+  { index: 2, name: 'Krittika', lord: 'Su', deity: 'Agni' },
+  { index: 3, name: 'Rohini', lord: 'Mo', deity: 'Brahma' },
+  { index: 4, name: 'Mrigashira', lord: 'Ma', deity: 'Soma' },
+  { index: 5, name: 'Ardra', lord: 'Ra', deity: 'Rudra' },
+  { index: 6, name: 'Punarvasu', lord: 'Ju', deity: 'Aditi' },
+  { index: 7, name: 'Pushya', lord: 'Sa', deity: 'Brihaspati' },
+  { index: 8, name: 'Ashlesha', lord: 'Me', deity: 'Nagas' },
+  { index: 9, name: 'Magha', lord: 'Ke', deity: 'Pitris' },
+  { index: 10, name: 'Purva Phalguni', lord: 'Ve', deity: 'Bhaga' },
+  { index: 11, name: 'Uttara Phalguni', lord: 'Su', deity: 'Aryaman' },
+  { index: 12, name: 'Hasta', lord: 'Mo', deity: 'Savitr' },
+  { index: 13, name: 'Chitra', lord: 'Ma', deity: 'Vishvakarma' },
+  { index: 14, name: 'Swati', lord: 'Ra', deity: 'Vayu' },
+  { index: 15, name: 'Vishakha', lord: 'Ju', deity: 'Indra-Agni' },
+  { index: 16, name: 'Anuradha', lord: 'Sa', deity: 'Mitra' },
+  { index: 17, name: 'Jyeshtha', lord: 'Me', deity: 'Indra' },
+  { index: 18, name: 'Mula', lord: 'Ke', deity: 'Nirriti' },
+  { index: 19, name: 'Purva Ashadha', lord: 'Ve', deity: 'Apas' },
+  { index: 20, name: 'Uttara Ashadha', lord: 'Su', deity: 'Vishvedevas' },
+  { index: 21, name: 'Shravana', lord: 'Mo', deity: 'Vishnu' },
+  { index: 22, name: 'Dhanishta', lord: 'Ma', deity: 'Vasus' },
+  { index: 23, name: 'Shatabhisha', lord: 'Ra', deity: 'Varuna' },
+  { index: 24, name: 'Purva Bhadrapada', lord: 'Ju', deity: 'Aja Ekapada' },
+  { index: 25, name: 'Uttara Bhadrapada', lord: 'Sa', deity: 'Ahir Budhnya' },
+  { index: 26, name: 'Revati', lord: 'Me', deity: 'Pushan' },
+];
+
+/** Arc of one nakshatra in degrees (13°20') */
+export const NAKSHATRA_SPAN = 360 / 27;
+
+/** Arc of one nakshatra pada in degrees (3°20') */
+export const PADA_SPAN = NAKSHATRA_SPAN / 4;
+
+/**
+ * Deep exaltation longitudes of the seven visible grahas; each is
+ * debilitated at the opposite point
+ */
+export const EXALTATION_POINTS: Partial<Record<GrahaId, number>> = {
+  Su: 10,
+  Mo: 33,
+  Ma: 298,
+  Me: 165,
+  Ju: 95,
+  Ve: 357,
+  Sa: 200,
+};
+
+/** Moolatrikona sign of each visible graha */
+export const MOOLATRIKONA_SIGNS: Partial<Record<GrahaId, number>> = {
+  Su: 4,
+  Mo: 1,
+  Ma: 0,
+  Me: 5,
+  Ju: 8,
+  Ve: 6,
+  Sa: 10,
+};
+
+/**
+ * Natural friends and enemies of the visible grahas (BPHS); every other
+ * visible graha is neutral
+ */
+const NATURAL_RELATIONS: Partial<Record<GrahaId, { friends: GrahaId[]; enemies: GrahaId[] }>> = {
+  Su: { friends: ['Mo', 'Ma', 'Ju'], enemies: ['Ve', 'Sa'] },
+  Mo: { friends: ['Su', 'Me'], enemies: [] },
+  Ma: { friends: ['Su', 'Mo', 'Ju'], enemies: ['Me'] },
+  Me: { friends: ['Su', 'Ve'], enemies: ['Mo'] },
+  Ju: { friends: ['Su', 'Mo', 'Ma'], enemies: ['Me', 'Ve'] },
+  Ve: { friends: ['Me', 'Sa'], enemies: ['Su', 'Mo'] },
+  Sa: { friends: ['Me', 'Ve'], enemies: ['Su', 'Mo', 'Ma'] },
+};
+
+// ============================================================================
+// ANGLE HELPERS
+// ============================================================================
+
+/**
+ * Wrap any angle into the 0-360 range
+ */
+export const normalizeDegrees = (degrees: number): number => {
+  const wrapped = degrees % 360;
+  return wrapped < 0 ? wrapped + 360 : wrapped;
+};
+
+/**
+ * Signed shortest difference a - b in the -180..180 range
+ */
+export const angleDifference = (a: number, b: number): number => {
+  const diff = normalizeDegrees(a - b);
+  return diff > 180 ? diff - 360 : diff;
+};
+
+/**
+ * Sign index (0-11) for a longitude
+ */
+export const signOf = (longitude: number): number =>
+  Math.floor(normalizeDegrees(longitude) / 30);
+
+/**
+ * Degrees travelled inside the current sign (0-30)
+ */
+export const degreeInSign = (longitude: number): number =>
+  normalizeDegrees(longitude) % 30;
+
+/**
+ * Signs counted from one sign to another, the first being 1; the
+ * whole-sign house of a sign from a reference sign
+ */
+export const signDistance = (from: number, to: number): number =>
+  ((to - from + 12) % 12) + 1;
+
+/**
+ * Nakshatra index (0-26) and pada (1-4) for a longitude
+ */
+export const nakshatraOf = (longitude: number): { index: number; pada: number } => {
+  const lon = normalizeDegrees(longitude);
+  const index = Math.floor(lon / NAKSHATRA_SPAN);
+  const pada = Math.floor((lon - index * NAKSHATRA_SPAN) / PADA_SPAN) + 1;
+  return { index, pada };
+};
+
+/**
+ * Format a longitude inside its sign as D°MM'
+ */
+export const formatDegree = (longitude: number): string => {
+  const inSign = degreeInSign(longitude);
+  let deg = Math.floor(inSign);
+  let min = Math.round((inSign - deg) * 60);
+  if (min === 60) {
+    deg += 1;
+    min = 0;
+  }
+  return `${deg}°${min.toString().padStart(2, '0')}'`;
+};
+
+/**
+ * House or count as 1st, 2nd, 3rd, 4th... (up to 12)
+ */
+export const ordinal = (n: number): string => {
+  const suffix = n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Look up a graha by id
+ */
+export const getGraha = (id: GrahaId): GrahaInfo =>
+  GRAHAS.find((graha) => graha.id === id) as GrahaInfo;
+
+/**
+ * Dignity of a graha in a sign; exaltation outranks own sign, and the
+ * nodes are always neutral
+ */
+export const dignityOf = (id: GrahaId, sign: number): Dignity => {
+  const exaltation = EXALTATION_POINTS[id];
+  if (exaltation === undefined) return 'neutral';
+  const exaltationSign = signOf(exaltation);
+  if (sign === exaltationSign) return 'exalted';
+  if (sign === (exaltationSign + 6) % 12) return 'debilitated';
+  return SIGNS[sign].lord === id ? 'own' : 'neutral';
+};
+
+/**
+ * Natural relationship of a graha towards another; the nodes are neutral
+ */
+export const naturalRelation = (from: GrahaId, to: GrahaId): GrahaRelation => {
+  const relations = NATURAL_RELATIONS[from];
+  if (relations?.friends.includes(to)) return 'friend';
+  if (relations?.enemies.includes(to)) return 'enemy';
+  return 'neutral';
+};
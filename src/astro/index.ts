@@ -0,0 +1,35 @@
+/**
+ * Corp Astro Engine - Index
+ *
+ * On-device Vedic astronomy used by charts, Home timings and the calendar.
+ */
+
+export * from './Zodiac';
+export * from './JulianDay';
+export * from './Ephemeris';
+export * from './Ayanamsa';
+export * from './Ascendant';
+export * from './Chart';
+export * from './Varga';
+export * from './Houses';
+export * from './Dasha';
+export * from './RiseSet';
+export * from './Panchang';
+export * from './Muhurta';
+export * from './Ashtakavarga';
+export * from './Sudarshan';
+export * from './KP';
+export * from './Transit';
+export * from './SadeSati';
+export * from './Yogas';
+export * from './Shadbala';
+export * from './Aspects';
+export * from './TimeZones';
+export * from './Cities';
+export * from './Places';
+export * from './Rectification';
+export * from './Compatibility';
+export * from './Partnership';
+export * from './TeamSynergy';
+export * from './BusinessGuidance';
+export * from './Predictions';
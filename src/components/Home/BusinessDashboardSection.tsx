@@ -2,13 +2,15 @@
  * Business Dashboard Section Component
  * 
  * Displays the focus and mood dashboard with metrics
- * for career, love, health, and family.
+ * for career, love, health, and family, scored from the
+ * Bhava Bala of the 10th, 7th, 1st and 4th houses.
  */
 
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { corpAstroDarkTheme } from '../DesignSystem/DarkTheme';
 import { typography } from '../DesignSystem/designTokens';
+import type { BhavaBala } from '../../astro';
 
 interface MetricData {
   label: string;
@@ -17,16 +19,35 @@ interface MetricData {
 }
 
 interface BusinessDashboardSectionProps {
-  metrics?: MetricData[];
+  metrics: MetricData[];
 }
 
+// House behind each metric
+const METRIC_HOUSES = [
+  { label: 'Career', house: 10, color: '#4CAF50' },
+  { label: 'Love', house: 7, color: '#E91E63' },
+  { label: 'Health', house: 1, color: '#2196F3' },
+  { label: 'Family', house: 4, color: '#FF9800' },
+];
+
+// Bhava Bala in rupas that fills a metric bar
+const FULL_BHAVA_BALA = 12;
+
+/**
+ * Dashboard metrics as each house's Bhava Bala against a full bar
+ */
+export const metricsFromBhavaBala = (bhavaBala: BhavaBala[]): MetricData[] =>
+  METRIC_HOUSES.map(({ label, house, color }) => {
+    const rupas = bhavaBala.find((bhava) => bhava.house === house)?.rupas ?? 0;
+    return {
+      label,
+      value: Math.round(Math.min(Math.max(rupas / FULL_BHAVA_BALA, 0), 1) * 100),
+      color,
+    };
+  });
+
 export const BusinessDashboardSection: React.FC<BusinessDashboardSectionProps> = ({
-  metrics = [
-    { label: 'Career', value: 85, color: '#4CAF50' },
-    { label: 'Love', value: 72, color: '#E91E63' },
-    { label: 'Health', value: 91, color: '#2196F3' },
-    { label: 'Family', value: 78, color: '#FF9800' },
-  ]
+  metrics,
 }) => {
   const theme = corpAstroDarkTheme;
 
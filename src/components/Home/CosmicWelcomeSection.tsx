@@ -17,6 +17,7 @@ import {
   Easing,
   Platform,
   AccessibilityInfo,
+  TouchableOpacity,
 } from "react-native";
 import { LinearGradient } from "expo-linear-gradient";
 import { corpAstroDarkTheme } from "../DesignSystem/DarkTheme";
@@ -25,11 +26,24 @@ import { typography, borderOpacity, spacing } from "../DesignSystem/designTokens
 interface CosmicWelcomeSectionProps {
   greeting?: string;
   userName: string;
+  /** Signs are omitted until the profile has birth details */
+  sunSign?: string;
+  moonSign?: string;
+  /** 0 = Aries ... 11 = Pisces */
+  ascendantSign?: number;
+  /** Opens the profile while the signs are missing */
+  onAddBirthDetails?: () => void;
 }
 
+const SIGN_GLYPHS = ["♈", "♉", "♊", "♋", "♌", "♍", "♎", "♏", "♐", "♑", "♒", "♓"];
+
 export const CosmicWelcomeSection: React.FC<CosmicWelcomeSectionProps> = ({
   greeting,
   userName,
+  sunSign,
+  moonSign,
+  ascendantSign,
+  onAddBirthDetails,
 }) => {
   const theme = corpAstroDarkTheme;
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -136,17 +150,26 @@ export const CosmicWelcomeSection: React.FC<CosmicWelcomeSectionProps> = ({
                 {formatTime(currentTime)}
               </Text>
 
-              <View style={styles.zodiacInfo}>
-                <View style={styles.zodiacItem}>
-                  <Text style={[styles.zodiacLabel, typography.caption]}>Sun Sign</Text>
-                  <Text style={[styles.zodiacValue, typography.bodyLarge]}>Leo</Text>
-                </View>
-
-                <View style={styles.zodiacItem}>
-                  <Text style={[styles.zodiacLabel, typography.caption]}>Moon Sign</Text>
-                  <Text style={[styles.zodiacValue, typography.bodyLarge]}>Taurus</Text>
+              {sunSign && moonSign ? (
+                <View style={styles.zodiacInfo}>
+                  <View style={styles.zodiacItem}>
+                    <Text style={[styles.zodiacLabel, typography.caption]}>Sun Sign</Text>
+                    <Text style={[styles.zodiacValue, typography.bodyLarge]}>{sunSign}</Text>
+                  </View>
+
+                  <View style={styles.zodiacItem}>
+                    <Text style={[styles.zodiacLabel, typography.caption]}>Moon Sign</Text>
+                    <Text style={[styles.zodiacValue, typography.bodyLarge]}>{moonSign}</Text>
+                  </View>
                 </View>
-              </View>
+              ) : (
+                <TouchableOpacity onPress={onAddBirthDetails} accessibilityRole="button">
+                  <Text style={[styles.zodiacLabel, typography.caption]}>
+                    Save your birth details first
+                  </Text>
+                  <Text style={[styles.zodiacValue, typography.bodyLarge]}>Open Profile</Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             <View style={styles.heroRight}>
@@ -156,7 +179,7 @@ export const CosmicWelcomeSection: React.FC<CosmicWelcomeSectionProps> = ({
                   style={styles.zodiacGradient}
                 >
                   <Text accessible accessibilityLabel="Ascendant symbol" style={styles.zodiacSymbol}>
-                    ♌
+                    {ascendantSign === undefined ? "✦" : SIGN_GLYPHS[ascendantSign]}
                   </Text>
                 </LinearGradient>
               </Animated.View>
@@ -0,0 +1,230 @@
+/**
+ * Corp Astro - Chart Renderer
+ *
+ * Draws a rashi chart in the North, South or East Indian style from the
+ * same house data, optionally with transiting grahas overlaid in gold.
+ * Charts are vector drawings on a 100×100 canvas: each house is a
+ * computed polygon and its labels are fitted inside it, so the chart
+ * scales cleanly to any size.
+ *
+ * @module ChartRenderer
+ * @version 2.0.0
+ * @since 2025
+ */
+
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, ColorValue } from "react-native";
+import Svg, { Polygon, Rect, Text as SvgText, TSpan } from "react-native-svg";
+import { colors, typography, spacing } from "../DesignSystem/designTokens";
+import { SIGNS } from "../../astro";
+import { ChartHouse, ChartPlanet, ChartStyleId } from "./chartStyles";
+import {
+  CANVAS,
+  CHART_GEOMETRY,
+  FittedLabels,
+  LabelItem,
+  Point,
+  fitLabels,
+  toSvgPoints,
+} from "./chartGeometry";
+
+/* ------------------------------- Types ------------------------------- */
+export interface ChartRendererProps {
+  chartStyle: ChartStyleId;
+  houses: ChartHouse[];
+  /** Reference point shown in the chart centre, e.g. 'Asc: Le 12°30′' */
+  centerLabel: string;
+  /** Side of the square chart in points */
+  size: number;
+  /** Score per sign (index 0 = Aries) drawn in each house, e.g. Ashtakavarga bindus */
+  signScores?: number[];
+}
+
+type LabelKind = "house" | "lagna" | "sign" | "score" | "planet" | "transit" | "centre";
+
+interface ChartLabel extends LabelItem {
+  kind: LabelKind;
+}
+
+interface PlacedRegion {
+  key: string;
+  polygon: Point[];
+  isLagna: boolean;
+  labels: FittedLabels<ChartLabel>;
+}
+
+/* ------------------------------ Helpers ------------------------------ */
+const LABEL_COLORS: Record<LabelKind, ColorValue> = {
+  house: colors.text.tertiary,
+  lagna: colors.brand.primary,
+  sign: colors.text.tertiary,
+  score: colors.text.primary,
+  planet: colors.brand.light,
+  transit: colors.luxury.champagne,
+  centre: colors.brand.primary,
+};
+
+/** Stroke width in canvas units */
+const STROKE_WIDTH = 0.5;
+
+/** e.g. 'Su 12°', 'Sa(R) 3°' */
+const planetLabel = (planet: ChartPlanet) =>
+  `${planet.id}${planet.isRetrograde ? "(R)" : ""} ${Math.floor(planet.degree)}°`;
+
+/**
+ * Labels for one region: a header row, the sign's score if any, then the
+ * natal grahas and any transits. North Indian headers lead with the house;
+ * fixed-sign styles lead with the sign.
+ */
+const regionLabels = (
+  keyedBy: "house" | "sign",
+  regionHouses: ChartHouse[],
+  sign: number | undefined,
+  signScores?: number[]
+): ChartLabel[] => {
+  const isLagna = regionHouses.some((house) => house.number === 1);
+  const houseNumbers = regionHouses.map((house) => house.number).join("/");
+  const signLabel = sign === undefined ? "" : SIGNS[sign].short;
+  const header: ChartLabel[] =
+    keyedBy === "house"
+      ? [
+          { text: houseNumbers, kind: isLagna ? "lagna" : "house" },
+          { text: signLabel, kind: "sign", breakAfter: true },
+        ]
+      : [
+          { text: signLabel, kind: "sign", breakAfter: !houseNumbers },
+          ...(houseNumbers
+            ? [{ text: houseNumbers, kind: isLagna ? "lagna" : "house", breakAfter: true } as const]
+            : []),
+        ];
+  const planets = regionHouses.flatMap((house) =>
+    house.planets.map((planet): ChartLabel => ({ text: planetLabel(planet), kind: "planet" }))
+  );
+  const transits = regionHouses.flatMap((house) =>
+    (house.transits ?? []).map((planet): ChartLabel => ({ text: planetLabel(planet), kind: "transit" }))
+  );
+  const score: ChartLabel[] =
+    signScores && sign !== undefined
+      ? [{ text: String(signScores[sign]), kind: "score", breakAfter: true }]
+      : [];
+  // Transits start a row of their own so they never run into natal grahas
+  if (transits.length > 0 && planets.length > 0) {
+    planets[planets.length - 1] = { ...planets[planets.length - 1], breakAfter: true };
+  }
+  return [...header, ...score, ...planets, ...transits];
+};
+
+/* ----------------------------- Renderer ----------------------------- */
+/**
+ * Chart Renderer Component
+ *
+ * North Indian charts place houses by number; South and East Indian
+ * charts place them by sign, merging houses that share a sign (possible
+ * in a Bhava Chalit).
+ */
+export function ChartRenderer({
+  chartStyle,
+  houses,
+  centerLabel,
+  size,
+  signScores,
+}: ChartRendererProps) {
+  const geometry = CHART_GEOMETRY[chartStyle];
+
+  // Label fitting works in canvas units, so it does not depend on size
+  const regions: PlacedRegion[] = useMemo(
+    () =>
+      geometry.polygons.map((polygon, index) => {
+        const regionHouses = houses.filter((house) =>
+          geometry.keyedBy === "house" ? house.number === index + 1 : house.sign === index
+        );
+        const sign = geometry.keyedBy === "house" ? regionHouses[0]?.sign : index;
+        return {
+          key: `${geometry.keyedBy}-${index}`,
+          polygon,
+          isLagna: regionHouses.some((house) => house.number === 1),
+          labels: fitLabels(
+            polygon,
+            regionLabels(geometry.keyedBy, regionHouses, sign, signScores)
+          ),
+        };
+      }),
+    [geometry, houses, signScores]
+  );
+
+  const centre = useMemo(
+    () =>
+      geometry.centre &&
+      fitLabels(
+        geometry.centre,
+        centerLabel.split(" ").map((word): ChartLabel => ({ text: word, kind: "centre" }))
+      ),
+    [geometry, centerLabel]
+  );
+
+  const renderLabels = (labels: FittedLabels<ChartLabel>, key: string) =>
+    labels.rows.map((row, rowIndex) => (
+      <SvgText
+        key={`${key}-row-${rowIndex}`}
+        x={row.x}
+        y={row.y}
+        fontSize={labels.fontSize}
+        textAnchor="middle"
+      >
+        {row.items.map((item, itemIndex) => (
+          <TSpan
+            key={`${key}-${rowIndex}-${itemIndex}`}
+            fill={LABEL_COLORS[item.kind]}
+            fontWeight={item.kind === "sign" ? "400" : "700"}
+            fontStyle={item.kind === "transit" ? "italic" : "normal"}
+          >
+            {itemIndex > 0 ? ` ${item.text}` : item.text}
+          </TSpan>
+        ))}
+      </SvgText>
+    ));
+
+  return (
+    <View style={styles.wrapper}>
+      <Svg width={size} height={size} viewBox={`0 0 ${CANVAS} ${CANVAS}`}>
+        {regions.map((region) => (
+          <Polygon
+            key={region.key}
+            points={toSvgPoints(region.polygon)}
+            fill={region.isLagna ? colors.surface.secondary : "none"}
+            stroke={colors.brand.primary}
+            strokeWidth={STROKE_WIDTH}
+            strokeLinejoin="round"
+          />
+        ))}
+        <Rect
+          x={STROKE_WIDTH / 2}
+          y={STROKE_WIDTH / 2}
+          width={CANVAS - STROKE_WIDTH}
+          height={CANVAS - STROKE_WIDTH}
+          fill="none"
+          stroke={colors.brand.primary}
+          strokeWidth={STROKE_WIDTH * 2}
+        />
+        {regions.map((region) => renderLabels(region.labels, region.key))}
+        {centre && renderLabels(centre, "centre")}
+      </Svg>
+      {!geometry.centre && <Text style={styles.centreText}>{centerLabel}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrapper: {
+    alignItems: "center",
+  },
+  centreText: {
+    ...typography.caption,
+    fontWeight: "700",
+    color: colors.brand.primary,
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+});
+
+export default ChartRenderer;
@@ -0,0 +1,177 @@
+/**
+ * Corp Astro - Sudarshan Chakra Chart
+ *
+ * Three concentric rings of twelve houses: Lagna inside, Chandra in the
+ * middle and Surya outside, with each ring's 1st house on the left (the
+ * eastern horizon) and houses running counter-clockwise. Labels are fitted
+ * inside each ring sector like the square chart styles.
+ *
+ * @module SudarshanChart
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useMemo } from "react";
+import { View, ColorValue } from "react-native";
+import Svg, { Circle, Line, Polygon, Text as SvgText, TSpan } from "react-native-svg";
+import { colors } from "../DesignSystem/designTokens";
+import { SIGNS, SudarshanRing } from "../../astro";
+import { CANVAS, LabelItem, Point, fitLabels, toSvgPoints } from "./chartGeometry";
+
+/* ------------------------------- Types ------------------------------- */
+export interface SudarshanChartProps {
+  /** Rings from the centre outwards */
+  rings: SudarshanRing[];
+  /** Side of the square chart in points */
+  size: number;
+  /** House highlighted in every ring, e.g. the progressed year's house */
+  activeHouse?: number;
+}
+
+interface SectorLabel extends LabelItem {
+  kind: "sign" | "planet";
+}
+
+/* ----------------------------- Geometry ----------------------------- */
+const CENTRE = CANVAS / 2;
+
+/** Ring boundaries from the centre out; the inner ring is widest in proportion */
+const RING_RADII = [6, 19, 31.5, 44];
+
+/** Radius of the house numbers outside the rings */
+const NUMBER_RADIUS = 47;
+
+/** Outer arc samples per sector */
+const ARC_STEPS = 6;
+
+const STROKE_WIDTH = 0.4;
+
+const LABEL_COLORS: Record<SectorLabel["kind"], ColorValue> = {
+  sign: colors.text.tertiary,
+  planet: colors.brand.light,
+};
+
+/** Canvas point at a radius and an angle in degrees, counter-clockwise from east */
+const polar = (radius: number, degrees: number): Point => [
+  CENTRE + radius * Math.cos((degrees * Math.PI) / 180),
+  CENTRE - radius * Math.sin((degrees * Math.PI) / 180),
+];
+
+/** Centre angle of a house: the 1st on the left, then counter-clockwise */
+const houseAngle = (house: number) => 180 + (house - 1) * 30;
+
+/**
+ * Ring sector closed by a chord on the inside, so it stays convex for
+ * label fitting
+ */
+const sectorPolygon = (ring: number, house: number): Point[] => {
+  const [inner, outer] = [RING_RADII[ring], RING_RADII[ring + 1]];
+  const from = houseAngle(house) - 15;
+  return [
+    polar(inner, from),
+    ...Array.from({ length: ARC_STEPS + 1 }, (_, i) => polar(outer, from + (30 * i) / ARC_STEPS)),
+    polar(inner, from + 30),
+  ];
+};
+
+/* ----------------------------- Renderer ----------------------------- */
+/**
+ * Sudarshan Chart Component
+ */
+export function SudarshanChart({ rings, size, activeHouse }: SudarshanChartProps) {
+  const sectors = useMemo(
+    () =>
+      rings.flatMap((ring, ringIndex) =>
+        ring.houseSigns.map((sign, i) => {
+          const polygon = sectorPolygon(ringIndex, i + 1);
+          const labels: SectorLabel[] = [
+            { text: SIGNS[sign].short, kind: "sign", breakAfter: true },
+            ...ring.housePlanets[i].map((id): SectorLabel => ({ text: id, kind: "planet" })),
+          ];
+          return { key: `${ring.id}-${i + 1}`, house: i + 1, polygon, labels: fitLabels(polygon, labels) };
+        })
+      ),
+    [rings]
+  );
+
+  return (
+    <View>
+      <Svg width={size} height={size} viewBox={`0 0 ${CANVAS} ${CANVAS}`}>
+        {sectors
+          .filter((sector) => sector.house === activeHouse)
+          .map((sector) => (
+            <Polygon
+              key={`active-${sector.key}`}
+              points={toSvgPoints(sector.polygon)}
+              fill={colors.surface.tertiary}
+            />
+          ))}
+        {RING_RADII.map((radius) => (
+          <Circle
+            key={`ring-${radius}`}
+            cx={CENTRE}
+            cy={CENTRE}
+            r={radius}
+            fill="none"
+            stroke={colors.brand.primary}
+            strokeWidth={STROKE_WIDTH}
+          />
+        ))}
+        {Array.from({ length: 12 }, (_, i) => {
+          const [x1, y1] = polar(RING_RADII[0], houseAngle(i + 1) - 15);
+          const [x2, y2] = polar(RING_RADII[RING_RADII.length - 1], houseAngle(i + 1) - 15);
+          return (
+            <Line
+              key={`spoke-${i}`}
+              x1={x1}
+              y1={y1}
+              x2={x2}
+              y2={y2}
+              stroke={colors.brand.primary}
+              strokeWidth={STROKE_WIDTH}
+            />
+          );
+        })}
+        {Array.from({ length: 12 }, (_, i) => {
+          const [x, y] = polar(NUMBER_RADIUS, houseAngle(i + 1));
+          return (
+            <SvgText
+              key={`number-${i}`}
+              x={x}
+              y={y + 1.2}
+              fontSize={3.4}
+              fontWeight="700"
+              textAnchor="middle"
+              fill={i + 1 === activeHouse ? colors.brand.primary : colors.text.tertiary}
+            >
+              {i + 1}
+            </SvgText>
+          );
+        })}
+        {sectors.map((sector) =>
+          sector.labels.rows.map((row, rowIndex) => (
+            <SvgText
+              key={`${sector.key}-row-${rowIndex}`}
+              x={row.x}
+              y={row.y}
+              fontSize={sector.labels.fontSize}
+              textAnchor="middle"
+            >
+              {row.items.map((item, itemIndex) => (
+                <TSpan
+                  key={`${sector.key}-${rowIndex}-${itemIndex}`}
+                  fill={LABEL_COLORS[item.kind]}
+                  fontWeight={item.kind === "sign" ? "400" : "700"}
+                >
+                  {itemIndex > 0 ? ` ${item.text}` : item.text}
+                </TSpan>
+              ))}
+            </SvgText>
+          ))
+        )}
+      </Svg>
+    </View>
+  );
+}
+
+export default SudarshanChart;
@@ -0,0 +1,147 @@
+/**
+ * Corp Astro - Team Synergy Heatmap
+ *
+ * Square grid with one row and column per team member. Off the diagonal
+ * each cell is the pair's harmony; on the diagonal it is the member's
+ * energy for the day. Cells are tinted by band and shaded by score.
+ *
+ * @module TeamSynergyHeatmap
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React from "react";
+import { View, Text, StyleSheet, ColorValue } from "react-native";
+import { colors, radius, spacing, typography } from "../DesignSystem/designTokens";
+import { TeamSynergy, partnershipRating } from "../../astro";
+
+/* ------------------------------- Types ------------------------------- */
+export interface TeamSynergyHeatmapProps {
+  synergy: TeamSynergy;
+  /** Width available to the grid in points */
+  size: number;
+}
+
+/* ------------------------------ Constants ------------------------------ */
+/** Width of the name column as a share of the grid */
+const LABEL_SHARE = 0.22;
+
+/** Gap between cells */
+const CELL_GAP = 2;
+
+const MIN_TINT = 0.25;
+
+/** Same bands as the partnership ratings */
+const bandColor = (score: number): ColorValue => {
+  const rating = partnershipRating(score);
+  return rating === "strong"
+    ? colors.brand.light
+    : rating === "workable"
+      ? colors.luxury.bronze
+      : colors.mystical.light;
+};
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+/* ---------------------------- TeamSynergyHeatmap ---------------------------- */
+/**
+ * Team Synergy Heatmap Component
+ */
+export default function TeamSynergyHeatmap({ synergy, size }: TeamSynergyHeatmapProps) {
+  const labelWidth = size * LABEL_SHARE;
+  const cellSize = (size - labelWidth) / synergy.members.length - CELL_GAP;
+
+  const renderCell = (score: number, key: string, isEnergy: boolean) => (
+    <View
+      key={key}
+      style={[
+        styles.cell,
+        { width: cellSize, height: cellSize },
+        isEnergy && styles.energyCell,
+      ]}
+      accessibilityLabel={`${isEnergy ? "Energy" : "Harmony"} ${score}`}
+    >
+      <View
+        style={[
+          StyleSheet.absoluteFill,
+          {
+            backgroundColor: bandColor(score),
+            opacity: MIN_TINT + ((1 - MIN_TINT) * score) / 100,
+          },
+        ]}
+      />
+      <Text style={styles.cellText}>{score}</Text>
+    </View>
+  );
+
+  return (
+    <View style={{ width: size }}>
+      <View style={styles.row}>
+        <View style={{ width: labelWidth }} />
+        {synergy.members.map((name, column) => (
+          <Text
+            key={column}
+            style={[styles.columnLabel, { width: cellSize + CELL_GAP }]}
+            numberOfLines={1}
+          >
+            {initials(name)}
+          </Text>
+        ))}
+      </View>
+      {synergy.matrix.map((scores, row) => (
+        <View key={row} style={styles.row}>
+          <Text style={[styles.rowLabel, { width: labelWidth }]} numberOfLines={1}>
+            {synergy.members[row]}
+          </Text>
+          {scores.map((score, column) =>
+            row === column
+              ? renderCell(synergy.energy[row].score, `${row}-${column}`, true)
+              : renderCell(score, `${row}-${column}`, false)
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: CELL_GAP,
+  },
+  columnLabel: {
+    fontSize: typography.caption.fontSize,
+    color: colors.text.tertiary,
+    textAlign: "center",
+    marginBottom: spacing.xs,
+  },
+  rowLabel: {
+    fontSize: typography.caption.fontSize,
+    color: colors.text.secondary,
+    paddingRight: spacing.xs,
+  },
+  cell: {
+    marginRight: CELL_GAP,
+    borderRadius: radius.sm,
+    alignItems: "center",
+    justifyContent: "center",
+    overflow: "hidden",
+    backgroundColor: colors.cosmos.deep,
+  },
+  energyCell: {
+    borderWidth: 1,
+    borderColor: colors.text.primary,
+  },
+  cellText: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: "700",
+    color: colors.text.primary,
+  },
+});
@@ -0,0 +1,281 @@
+/**
+ * Corp Astro - Chart Geometry
+ *
+ * House polygons for each chart style on a 100×100 canvas, and label
+ * fitting that packs a house's text into rows inside its polygon. All
+ * values are canvas units, so the drawing is independent of screen size.
+ *
+ * @module chartGeometry
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import { ChartStyleId } from "./chartStyles";
+
+/* ------------------------------- Types ------------------------------- */
+export type Point = [number, number];
+
+/**
+ * Polygons for one chart style
+ */
+export interface ChartGeometry {
+  /** Polygons indexed by house (North) or by sign (South, East) */
+  keyedBy: "house" | "sign";
+  polygons: Point[][];
+  /** Empty area for the centre label; null to show it below the chart */
+  centre: Point[] | null;
+}
+
+/**
+ * Text fragment to place; fragments in one row are joined by a space
+ */
+export interface LabelItem {
+  text: string;
+  /** Start a new row after this item */
+  breakAfter?: boolean;
+}
+
+/**
+ * One placed row of label items, centred on (x, y)
+ */
+export interface LabelRow<T extends LabelItem = LabelItem> {
+  x: number;
+  y: number;
+  items: T[];
+}
+
+export interface FittedLabels<T extends LabelItem = LabelItem> {
+  fontSize: number;
+  rows: LabelRow<T>[];
+}
+
+/* ----------------------------- Constants ----------------------------- */
+/** Canvas side in units */
+export const CANVAS = 100;
+
+/** Font sizes tried when fitting, largest first */
+const FONT_SIZES = [4.4, 4, 3.6, 3.3, 3, 2.7];
+
+/** Average glyph width as a fraction of the font size */
+const GLYPH_WIDTH = 0.58;
+
+/** Row height as a multiple of the font size */
+const LINE_HEIGHT = 1.2;
+
+/** Clearance kept from polygon edges */
+const EDGE_PADDING = 1.2;
+
+/* ------------------------------ Layouts ------------------------------ */
+const T = CANVAS / 3;
+
+const rect = (x: number, y: number, w: number, h: number): Point[] => [
+  [x, y],
+  [x + w, y],
+  [x + w, y + h],
+  [x, y + h],
+];
+
+/** North Indian diamond: outer corners, edge midpoints, diagonal quarter points */
+const N = {
+  tl: [0, 0] as Point,
+  tr: [100, 0] as Point,
+  bl: [0, 100] as Point,
+  br: [100, 100] as Point,
+  top: [50, 0] as Point,
+  left: [0, 50] as Point,
+  bottom: [50, 100] as Point,
+  right: [100, 50] as Point,
+  centre: [50, 50] as Point,
+  qtl: [25, 25] as Point,
+  qtr: [75, 25] as Point,
+  qbl: [25, 75] as Point,
+  qbr: [75, 75] as Point,
+};
+
+const southCell = (row: number, col: number) => rect(col * 25, row * 25, 25, 25);
+const eastCell = (row: number, col: number) => rect(col * T, row * T, T, T);
+
+export const CHART_GEOMETRY: Record<ChartStyleId, ChartGeometry> = {
+  // Houses fixed, counter-clockwise from the top diamond
+  north_indian: {
+    keyedBy: "house",
+    polygons: [
+      [N.top, N.qtl, N.centre, N.qtr],
+      [N.tl, N.top, N.qtl],
+      [N.tl, N.qtl, N.left],
+      [N.left, N.qtl, N.centre, N.qbl],
+      [N.left, N.qbl, N.bl],
+      [N.bl, N.qbl, N.bottom],
+      [N.bottom, N.qbl, N.centre, N.qbr],
+      [N.bottom, N.qbr, N.br],
+      [N.br, N.qbr, N.right],
+      [N.right, N.qbr, N.centre, N.qtr],
+      [N.right, N.qtr, N.tr],
+      [N.tr, N.qtr, N.top],
+    ],
+    centre: null,
+  },
+  // Signs fixed clockwise round the border, Pisces at the top left
+  south_indian: {
+    keyedBy: "sign",
+    polygons: [
+      southCell(0, 1),
+      southCell(0, 2),
+      southCell(0, 3),
+      southCell(1, 3),
+      southCell(2, 3),
+      southCell(3, 3),
+      southCell(3, 2),
+      southCell(3, 1),
+      southCell(3, 0),
+      southCell(2, 0),
+      southCell(1, 0),
+      southCell(0, 0),
+    ],
+    centre: rect(25, 25, 50, 50),
+  },
+  // Signs fixed counter-clockwise, Aries at the top centre; corners split
+  // along the diagonal from the outer corner
+  east_indian: {
+    keyedBy: "sign",
+    polygons: [
+      eastCell(0, 1),
+      [[0, 0], [T, 0], [T, T]],
+      [[0, 0], [T, T], [0, T]],
+      eastCell(1, 0),
+      [[0, 2 * T], [T, 2 * T], [0, 100]],
+      [[T, 2 * T], [T, 100], [0, 100]],
+      eastCell(2, 1),
+      [[2 * T, 2 * T], [100, 100], [2 * T, 100]],
+      [[2 * T, 2 * T], [100, 2 * T], [100, 100]],
+      eastCell(1, 2),
+      [[100, 0], [100, T], [2 * T, T]],
+      [[2 * T, 0], [100, 0], [2 * T, T]],
+    ],
+    centre: eastCell(1, 1),
+  },
+};
+
+/* ---------------------------- Calculation ---------------------------- */
+/** Area centroid of a simple polygon */
+export const polygonCentroid = (polygon: Point[]): Point => {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  polygon.forEach(([x1, y1], i) => {
+    const [x2, y2] = polygon[(i + 1) % polygon.length];
+    const cross = x1 * y2 - x2 * y1;
+    area += cross;
+    cx += (x1 + x2) * cross;
+    cy += (y1 + y2) * cross;
+  });
+  return [cx / (3 * area), cy / (3 * area)];
+};
+
+/** Horizontal extent of a convex polygon at height y, or null outside it */
+const spanAt = (polygon: Point[], y: number): [number, number] | null => {
+  let left = Infinity;
+  let right = -Infinity;
+  polygon.forEach(([x1, y1], i) => {
+    const [x2, y2] = polygon[(i + 1) % polygon.length];
+    if ((y < Math.min(y1, y2)) || (y > Math.max(y1, y2))) return;
+    const x = y1 === y2 ? null : x1 + ((y - y1) * (x2 - x1)) / (y2 - y1);
+    for (const edgeX of x === null ? [x1, x2] : [x]) {
+      left = Math.min(left, edgeX);
+      right = Math.max(right, edgeX);
+    }
+  });
+  return left <= right ? [left, right] : null;
+};
+
+/** Usable extent for a row spanning [top, bottom]; a convex span is narrowest at an end */
+const rowSpan = (polygon: Point[], top: number, bottom: number): [number, number] | null => {
+  const a = spanAt(polygon, top);
+  const b = spanAt(polygon, bottom);
+  if (!a || !b) return null;
+  const left = Math.max(a[0], b[0]) + EDGE_PADDING;
+  const right = Math.min(a[1], b[1]) - EDGE_PADDING;
+  return left < right ? [left, right] : null;
+};
+
+const textWidth = (text: string, fontSize: number) => text.length * fontSize * GLYPH_WIDTH;
+
+/**
+ * Packs items greedily into `count` rows whose block is centred at
+ * height `cy`. Returns null if they do not fit.
+ */
+const packRows = <T extends LabelItem>(
+  polygon: Point[],
+  items: T[],
+  fontSize: number,
+  count: number,
+  cy: number
+): LabelRow<T>[] | null => {
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const rows: LabelRow<T>[] = [];
+  let next = 0;
+
+  for (let i = 0; i < count && next < items.length; i++) {
+    const top = cy - (count * lineHeight) / 2 + i * lineHeight;
+    const span = rowSpan(polygon, top, top + lineHeight);
+    if (!span) return null;
+
+    const row: T[] = [];
+    let width = 0;
+    while (next < items.length) {
+      const itemWidth = textWidth(items[next].text, fontSize) + (row.length > 0 ? fontSize * GLYPH_WIDTH : 0);
+      if (row.length > 0 && width + itemWidth > span[1] - span[0]) break;
+      if (row.length === 0 && itemWidth > span[1] - span[0]) return null;
+      row.push(items[next]);
+      width += itemWidth;
+      next += 1;
+      if (row[row.length - 1].breakAfter) break;
+    }
+    // Text baseline sits a little below the row's middle
+    rows.push({ x: (span[0] + span[1]) / 2, y: top + lineHeight * 0.78, items: row });
+  }
+  return next === items.length ? rows : null;
+};
+
+/**
+ * Places label items inside a polygon at the largest font size that
+ * fits. The block sits on the centroid when it can, otherwise as close
+ * to it as the polygon allows; past the smallest size the rows overflow.
+ */
+export const fitLabels = <T extends LabelItem>(polygon: Point[], items: T[]): FittedLabels<T> => {
+  const [cx, cy] = polygonCentroid(polygon);
+  const ys = polygon.map(([, y]) => y);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+
+  for (const fontSize of FONT_SIZES) {
+    for (let count = 1; count <= items.length; count++) {
+      const half = (count * fontSize * LINE_HEIGHT) / 2;
+      if (maxY - minY < 2 * half) break;
+      // Candidate block centres, nearest the centroid first
+      const anchors = Array.from({ length: Math.ceil(maxY - minY) + 1 }, (_, i) => minY + i)
+        .map((y) => Math.min(Math.max(y, minY + half), maxY - half))
+        .sort((a, b) => Math.abs(a - cy) - Math.abs(b - cy));
+      for (const anchor of [cy, ...anchors]) {
+        const rows = packRows(polygon, items, fontSize, count, anchor);
+        if (rows) return { fontSize, rows };
+      }
+    }
+  }
+
+  // Too crowded: one item per row, kept within the polygon's height
+  const fontSize = FONT_SIZES[FONT_SIZES.length - 1];
+  const lineHeight = Math.min(fontSize * LINE_HEIGHT, (maxY - minY) / items.length);
+  return {
+    fontSize,
+    rows: items.map((item, i) => ({
+      x: cx,
+      y: (minY + maxY) / 2 + (i - (items.length - 1) / 2) * lineHeight + fontSize * 0.35,
+      items: [item],
+    })),
+  };
+};
+
+/** SVG points attribute for a polygon */
+export const toSvgPoints = (polygon: Point[]): string =>
+  polygon.map(([x, y]) => `${x},${y}`).join(" ");
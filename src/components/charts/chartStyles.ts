@@ -0,0 +1,68 @@
+/**
+ * Corp Astro - Chart Styles
+ *
+ * Regional layouts for drawing a rashi chart. Every style renders the
+ * same house data; they differ only in where houses and signs sit.
+ *
+ * @module chartStyles
+ * @version 1.0.0
+ * @since 2025
+ */
+
+/* ------------------------------- Types ------------------------------- */
+export type ChartStyleId = "north_indian" | "south_indian" | "east_indian";
+
+export interface ChartStyleInfo {
+  id: ChartStyleId;
+  name: string;
+  description: string;
+}
+
+/**
+ * Graha drawn in a house
+ */
+export interface ChartPlanet {
+  /** Graha or point label, e.g. 'Su', 'As' */
+  id: string;
+  /** Degree within the sign */
+  degree: number;
+  isRetrograde: boolean;
+}
+
+/**
+ * One house of a chart, as drawn by every style
+ */
+export interface ChartHouse {
+  /** 1-12, counted from the chart's reference sign */
+  number: number;
+  /** Sign index 0-11 on the house */
+  sign: number;
+  planets: ChartPlanet[];
+  /** Transiting grahas overlaid on the house, drawn apart from the natal ones */
+  transits?: ChartPlanet[];
+}
+
+/* ----------------------------- Constants ----------------------------- */
+export const CHART_STYLES: ChartStyleInfo[] = [
+  {
+    id: "north_indian",
+    name: "North Indian",
+    description: "Diamond layout with fixed houses; the Lagna is always at the top",
+  },
+  {
+    id: "south_indian",
+    name: "South Indian",
+    description: "4×4 grid with fixed signs; Pisces at the top left",
+  },
+  {
+    id: "east_indian",
+    name: "East Indian",
+    description: "Bengal 3×3 layout with fixed signs; Aries at the top centre",
+  },
+];
+
+export const DEFAULT_CHART_STYLE: ChartStyleId = "north_indian";
+
+/** Chart style by ID */
+export const getChartStyle = (id: ChartStyleId): ChartStyleInfo =>
+  CHART_STYLES.find((style) => style.id === id) ?? CHART_STYLES[0];
@@ -0,0 +1,27 @@
+/**
+ * Chart Components Index
+ *
+ * Export the chart renderer and its regional style definitions.
+ */
+
+export { default as ChartRenderer } from './ChartRenderer';
+export { default as SudarshanChart } from './SudarshanChart';
+export { default as TeamSynergyHeatmap } from './TeamSynergyHeatmap';
+
+export {
+  CHART_STYLES,
+  DEFAULT_CHART_STYLE,
+  getChartStyle,
+} from './chartStyles';
+
+// Type exports
+export type { ChartRendererProps } from './ChartRenderer';
+export type { SudarshanChartProps } from './SudarshanChart';
+export type { TeamSynergyHeatmapProps } from './TeamSynergyHeatmap';
+
+export type {
+  ChartHouse,
+  ChartPlanet,
+  ChartStyleId,
+  ChartStyleInfo,
+} from './chartStyles';
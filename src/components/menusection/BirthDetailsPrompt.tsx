@@ -0,0 +1,79 @@
+/**
+ * Corp Astro - Birth Details Prompt
+ *
+ * Shown in place of a reading cast from the user's own chart until the
+ * profile has birth details, with a button that opens the profile.
+ *
+ * @module BirthDetailsPrompt
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import {
+  typography,
+  spacing,
+  colors,
+  radius,
+  shadows,
+} from "../DesignSystem/designTokens";
+
+/* ------------------------------- Types ------------------------------- */
+type RootStackParamList = {
+  ProfileScreen: undefined;
+};
+
+interface BirthDetailsPromptProps {
+  /** What the birth details are needed for */
+  message: string;
+}
+
+/* ---------------------------- BirthDetailsPrompt ---------------------------- */
+/**
+ * Birth Details Prompt Component
+ */
+export function BirthDetailsPrompt({ message }: BirthDetailsPromptProps) {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  return (
+    <View style={styles.section}>
+      <Text style={[styles.captionText, { color: colors.text.secondary }]}>
+        {message}
+      </Text>
+      <TouchableOpacity
+        style={[styles.primaryButton, { backgroundColor: colors.brand.primary }]}
+        onPress={() => navigation.navigate("ProfileScreen")}
+        accessibilityRole="button"
+      >
+        <Text style={styles.primaryButtonText}>Open Profile</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  captionText: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+  primaryButton: {
+    marginTop: spacing.md,
+    paddingVertical: spacing.md,
+    borderRadius: radius.xl,
+    alignItems: "center",
+    ...shadows.subtle,
+  },
+  primaryButtonText: {
+    fontSize: typography.bodyLarge.fontSize,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+});
@@ -0,0 +1,79 @@
+/**
+ * Corp Astro - Current Place Row
+ *
+ * The place daily timings are read for, with a place picker to change it.
+ * The user's birth place is used until they choose another.
+ *
+ * @module CurrentPlaceRow
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { typography, spacing, colors, radius } from "../DesignSystem/designTokens";
+import { PlacePicker } from "./PlacePicker";
+import { useCurrentPlace } from "@/hooks/useCurrentPlace";
+import { useProfileStore } from "@/stores/profileStore";
+import { placeLabel } from "../../astro";
+
+/* ---------------------------- CurrentPlaceRow ---------------------------- */
+/**
+ * Current Place Row Component
+ */
+export function CurrentPlaceRow() {
+  const currentPlace = useCurrentPlace();
+  const setCurrentPlace = useProfileStore((state) => state.setCurrentPlace);
+  const [pickerVisible, setPickerVisible] = useState(false);
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => setPickerVisible(true)}
+        accessibilityRole="button"
+        accessibilityLabel={
+          currentPlace ? `Location ${placeLabel(currentPlace)}, change` : "Choose your location"
+        }
+      >
+        <Ionicons name="location-outline" size={16} color={colors.brand.light} />
+        <Text style={styles.placeText} numberOfLines={1}>
+          {currentPlace ? placeLabel(currentPlace) : "Choose your location for today's timings"}
+        </Text>
+        <Text style={styles.actionText}>{currentPlace ? "Change" : "Choose"}</Text>
+      </TouchableOpacity>
+
+      <PlacePicker
+        visible={pickerVisible}
+        title="Current Location"
+        selected={currentPlace}
+        onSelect={setCurrentPlace}
+        onClose={() => setPickerVisible(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface.secondary,
+  },
+  placeText: {
+    flex: 1,
+    marginLeft: spacing.xs,
+    fontSize: typography.caption.fontSize,
+    color: colors.text.secondary,
+  },
+  actionText: {
+    marginLeft: spacing.sm,
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+    color: colors.brand.light,
+  },
+});
@@ -0,0 +1,171 @@
+/**
+ * Corp Astro - Option Picker
+ *
+ * Bottom-sheet style modal for choosing one value from a short list.
+ * Used by settings rows that offer a fixed set of choices.
+ *
+ * @module OptionPicker
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React from "react";
+import { View, Text, StyleSheet, Pressable, Modal } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  typography,
+  spacing,
+  colors,
+  radius,
+  shadows,
+} from "../DesignSystem/designTokens";
+
+/* ------------------------------- Types ------------------------------- */
+export interface PickerOption<T extends string> {
+  value: T;
+  label: string;
+  description?: string;
+}
+
+interface OptionPickerProps<T extends string> {
+  visible: boolean;
+  title: string;
+  options: PickerOption<T>[];
+  selected: T;
+  onSelect: (value: T) => void;
+  onClose: () => void;
+}
+
+/* ----------------------------- OptionPicker ----------------------------- */
+/**
+ * Option Picker Component
+ *
+ * Lists the options with a check on the current value.
+ * Selecting an option closes the picker.
+ */
+export function OptionPicker<T extends string>({
+  visible,
+  title,
+  options,
+  selected,
+  onSelect,
+  onClose,
+}: OptionPickerProps<T>) {
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.sheet} onPress={() => {}}>
+          <Text style={styles.title}>{title}</Text>
+
+          {options.map((option) => {
+            const isSelected = option.value === selected;
+            return (
+              <Pressable
+                key={option.value}
+                style={({ pressed }) => [
+                  styles.option,
+                  isSelected && styles.optionSelected,
+                  { opacity: pressed ? 0.8 : 1 },
+                ]}
+                onPress={() => {
+                  onSelect(option.value);
+                  onClose();
+                }}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}
+                accessibilityLabel={option.label}
+              >
+                <View style={styles.optionText}>
+                  <Text style={styles.optionLabel}>{option.label}</Text>
+                  {option.description && (
+                    <Text style={styles.optionDescription}>
+                      {option.description}
+                    </Text>
+                  )}
+                </View>
+                {isSelected && (
+                  <Ionicons
+                    name="checkmark-circle"
+                    size={20}
+                    color={colors.brand.primary}
+                  />
+                )}
+              </Pressable>
+            );
+          })}
+
+          <Pressable style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "flex-end",
+  },
+  sheet: {
+    backgroundColor: colors.cosmos.deep,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    padding: spacing.lg,
+    paddingBottom: spacing.xl,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+    ...shadows.emphasis,
+  },
+  title: {
+    ...typography.heading3,
+    color: colors.text.primary,
+    marginBottom: spacing.md,
+    textAlign: "center",
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: spacing.md,
+    borderRadius: radius.md,
+    marginBottom: spacing.sm,
+    backgroundColor: colors.surface.primary,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+  },
+  optionSelected: {
+    borderColor: colors.brand.primary,
+    backgroundColor: colors.surface.secondary,
+  },
+  optionText: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  optionLabel: {
+    ...typography.body,
+    fontWeight: "600",
+    color: colors.text.primary,
+  },
+  optionDescription: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  cancelButton: {
+    marginTop: spacing.sm,
+    paddingVertical: spacing.sm,
+    alignItems: "center",
+  },
+  cancelText: {
+    ...typography.body,
+    color: colors.text.secondary,
+  },
+});
+
+export default OptionPicker;
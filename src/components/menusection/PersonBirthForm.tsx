@@ -0,0 +1,197 @@
+/**
+ * Corp Astro - Person Birth Form
+ *
+ * Name, date, optional time and place of birth for someone other than
+ * the user: a marriage partner, co-founder or team member. A blank time
+ * is cast for noon and marked unknown.
+ *
+ * @module PersonBirthForm
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import {
+  typography,
+  spacing,
+  colors,
+  radius,
+  shadows,
+} from "../DesignSystem/designTokens";
+import { PlacePicker } from "./PlacePicker";
+import { isFutureDate, parseDate, parseTime } from "../../screens/Menu/dateFields";
+import { BirthDetails } from "@/stores/profileStore";
+import { Place, placeLabel } from "../../astro";
+
+/* ------------------------------- Types ------------------------------- */
+interface PersonBirthFormProps {
+  /** Who the details are for, e.g. "Partner" */
+  personLabel: string;
+  submitLabel: string;
+  /** Empty the fields after a successful submit */
+  clearOnSubmit?: boolean;
+  onSubmit: (name: string, birth: BirthDetails) => void;
+}
+
+/* ------------------------------ Constants ------------------------------ */
+/** Charts without a birth time are cast for noon */
+const UNKNOWN_TIME = { hour: 12, minute: 0 };
+
+/** Noon is at most twelve hours out */
+const UNKNOWN_WINDOW_MINUTES = 720;
+
+/* ---------------------------- PersonBirthForm ---------------------------- */
+/**
+ * Person Birth Form Component
+ *
+ * Validates on submit and lists every problem in one alert.
+ */
+export function PersonBirthForm({
+  personLabel,
+  submitLabel,
+  clearOnSubmit = false,
+  onSubmit,
+}: PersonBirthFormProps) {
+  const [name, setName] = useState("");
+  const [dateText, setDateText] = useState("");
+  const [timeText, setTimeText] = useState("");
+  const [place, setPlace] = useState<Place | null>(null);
+  const [placePickerVisible, setPlacePickerVisible] = useState(false);
+
+  const handleSubmit = () => {
+    const date = parseDate(dateText);
+    const hasTime = timeText.trim() !== "";
+    const time = hasTime ? parseTime(timeText) : UNKNOWN_TIME;
+    const errors = [
+      !date || isFutureDate(date)
+        ? `Enter the ${personLabel.toLowerCase()}'s date of birth as DD/MM/YYYY.`
+        : null,
+      !time ? "Enter the birth time as HH:MM (24-hour), or leave it blank if unknown." : null,
+      !place ? `Choose the ${personLabel.toLowerCase()}'s birth place.` : null,
+    ].filter((error): error is string => error !== null);
+    if (errors.length > 0 || !date || !time || !place) {
+      Alert.alert("Check the details", errors.join("\n"));
+      return;
+    }
+
+    onSubmit(name.trim(), {
+      ...date,
+      ...time,
+      place,
+      timeAccuracy: hasTime ? "exact" : "unknown",
+      timeWindowMinutes: hasTime ? 0 : UNKNOWN_WINDOW_MINUTES,
+    });
+    if (clearOnSubmit) {
+      setName("");
+      setDateText("");
+      setTimeText("");
+      setPlace(null);
+    }
+  };
+
+  return (
+    <View>
+      <TextInput
+        style={styles.input}
+        placeholder={`${personLabel}'s name`}
+        placeholderTextColor={colors.text.tertiary}
+        value={name}
+        onChangeText={setName}
+      />
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, styles.inputHalf]}
+          placeholder="DD/MM/YYYY"
+          placeholderTextColor={colors.text.tertiary}
+          keyboardType="numbers-and-punctuation"
+          maxLength={10}
+          value={dateText}
+          onChangeText={setDateText}
+        />
+        <TextInput
+          style={[styles.input, styles.inputHalf]}
+          placeholder="HH:MM (optional)"
+          placeholderTextColor={colors.text.tertiary}
+          keyboardType="numbers-and-punctuation"
+          maxLength={5}
+          value={timeText}
+          onChangeText={setTimeText}
+        />
+      </View>
+      <TouchableOpacity
+        style={styles.input}
+        onPress={() => setPlacePickerVisible(true)}
+        accessibilityRole="button"
+        accessibilityLabel={`Choose ${personLabel.toLowerCase()}'s birth place`}
+      >
+        <Text
+          style={[
+            styles.inputText,
+            { color: place ? colors.text.primary : colors.text.tertiary },
+          ]}
+        >
+          {place ? placeLabel(place) : `${personLabel}'s birth place`}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.submitButton}
+        onPress={handleSubmit}
+        accessibilityRole="button"
+      >
+        <Text style={styles.submitText}>{submitLabel}</Text>
+      </TouchableOpacity>
+
+      <PlacePicker
+        visible={placePickerVisible}
+        title={`${personLabel}'s Birth Place`}
+        selected={place}
+        onSelect={setPlace}
+        onClose={() => setPlacePickerVisible(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  input: {
+    backgroundColor: colors.surface.secondary,
+    borderRadius: radius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    marginBottom: spacing.sm,
+    color: colors.text.primary,
+    fontSize: typography.body.fontSize,
+  },
+  inputText: {
+    fontSize: typography.body.fontSize,
+  },
+  inputRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  inputHalf: {
+    width: "48.5%",
+  },
+  submitButton: {
+    marginTop: spacing.md,
+    paddingVertical: spacing.md,
+    borderRadius: radius.xl,
+    alignItems: "center",
+    backgroundColor: colors.brand.primary,
+    ...shadows.subtle,
+  },
+  submitText: {
+    fontSize: typography.bodyLarge.fontSize,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+});
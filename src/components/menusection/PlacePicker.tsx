@@ -0,0 +1,232 @@
+/**
+ * Corp Astro - Place Picker
+ *
+ * Bottom-sheet style modal for choosing a birthplace, business location
+ * or current location from the offline city database. Used by the
+ * profile, business and compatibility forms and the daily timings.
+ *
+ * @module PlacePicker
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Modal,
+  TextInput,
+  FlatList,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  typography,
+  spacing,
+  colors,
+  radius,
+  shadows,
+} from "../DesignSystem/designTokens";
+import { Place, placeLabel, searchPlaces } from "../../astro";
+
+/* ------------------------------- Types ------------------------------- */
+interface PlacePickerProps {
+  visible: boolean;
+  title: string;
+  selected?: Place | null;
+  onSelect: (place: Place) => void;
+  onClose: () => void;
+}
+
+/* ----------------------------- PlacePicker ----------------------------- */
+/**
+ * Place Picker Component
+ *
+ * Searches as the user types, tolerating small misspellings and former
+ * city names. Selecting a place closes the picker.
+ */
+export function PlacePicker({
+  visible,
+  title,
+  selected,
+  onSelect,
+  onClose,
+}: PlacePickerProps) {
+  const [query, setQuery] = useState("");
+  const results = useMemo(() => searchPlaces(query), [query]);
+
+  const handleClose = () => {
+    setQuery("");
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <Pressable style={styles.overlay} onPress={handleClose}>
+        <Pressable style={styles.sheet} onPress={() => {}}>
+          <Text style={styles.title}>{title}</Text>
+
+          <View style={styles.searchBox}>
+            <Ionicons name="search" size={18} color={colors.text.tertiary} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="City, state or country"
+              placeholderTextColor={colors.text.tertiary}
+              value={query}
+              onChangeText={setQuery}
+              autoFocus
+              autoCorrect={false}
+              accessibilityLabel="Search places"
+            />
+          </View>
+
+          <FlatList
+            style={styles.results}
+            data={results}
+            keyboardShouldPersistTaps="handled"
+            keyExtractor={(place) => placeLabel(place)}
+            ListEmptyComponent={
+              query.trim().length > 0 ? (
+                <Text style={styles.emptyText}>No places match “{query}”</Text>
+              ) : null
+            }
+            renderItem={({ item: place }) => {
+              const isSelected =
+                !!selected && placeLabel(selected) === placeLabel(place);
+              return (
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.option,
+                    isSelected && styles.optionSelected,
+                    { opacity: pressed ? 0.8 : 1 },
+                  ]}
+                  onPress={() => {
+                    onSelect(place);
+                    handleClose();
+                  }}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isSelected }}
+                  accessibilityLabel={placeLabel(place)}
+                >
+                  <View style={styles.optionText}>
+                    <Text style={styles.optionLabel}>{place.name}</Text>
+                    <Text style={styles.optionDescription}>
+                      {place.state === place.country
+                        ? place.country
+                        : `${place.state}, ${place.country}`}{" "}
+                      · {place.zone}
+                    </Text>
+                  </View>
+                  {isSelected && (
+                    <Ionicons
+                      name="checkmark-circle"
+                      size={20}
+                      color={colors.brand.primary}
+                    />
+                  )}
+                </Pressable>
+              );
+            }}
+          />
+
+          <Pressable style={styles.cancelButton} onPress={handleClose}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "flex-end",
+  },
+  sheet: {
+    maxHeight: "85%",
+    backgroundColor: colors.cosmos.deep,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    padding: spacing.lg,
+    paddingBottom: spacing.xl,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+    ...shadows.emphasis,
+  },
+  title: {
+    ...typography.heading3,
+    color: colors.text.primary,
+    marginBottom: spacing.md,
+    textAlign: "center",
+  },
+  searchBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.md,
+    marginBottom: spacing.md,
+    backgroundColor: colors.surface.secondary,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    marginLeft: spacing.sm,
+    color: colors.text.primary,
+    ...typography.body,
+  },
+  results: {
+    flexGrow: 0,
+  },
+  emptyText: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    textAlign: "center",
+    paddingVertical: spacing.md,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: spacing.md,
+    borderRadius: radius.md,
+    marginBottom: spacing.sm,
+    backgroundColor: colors.surface.primary,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+  },
+  optionSelected: {
+    borderColor: colors.brand.primary,
+    backgroundColor: colors.surface.secondary,
+  },
+  optionText: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  optionLabel: {
+    ...typography.body,
+    fontWeight: "600",
+    color: colors.text.primary,
+  },
+  optionDescription: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  cancelButton: {
+    marginTop: spacing.sm,
+    paddingVertical: spacing.sm,
+    alignItems: "center",
+  },
+  cancelText: {
+    ...typography.body,
+    color: colors.text.secondary,
+  },
+});
+
+export default PlacePicker;
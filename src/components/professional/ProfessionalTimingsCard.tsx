@@ -19,6 +19,8 @@ import { corpAstroDarkTheme } from '../DesignSystem/DarkTheme';
 interface TimingData {
   name: string;
   time: string;
+  start?: Date; // exact period bounds, when computed
+  end?: Date;
   type: 'auspicious' | 'avoid' | 'neutral';
   description?: string;
   intensity?: 'low' | 'medium' | 'high';
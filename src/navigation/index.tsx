@@ -10,7 +10,9 @@ import { useColorScheme } from '@/hooks/useColorScheme';
 import TabLayout from '../tabs/_layout';
 
 import ProfileScreen from '../screens/Menu/ProfileScreen';
+import RectificationScreen from '../screens/Menu/RectificationScreen';
 import BusinessScreen from '../screens/Menu/BusinessScreen';
+import TeamScreen from '../screens/Menu/TeamScreen';
 import SettingsScreen from '../screens/Menu/SettingsScreen';
 import NotificationScreen from '../screens/Menu/NotificationScreen';  
 import ReportsScreen from '../screens/Menu/ReportsScreen';
@@ -20,6 +22,14 @@ import CalendarScreen from '../screens/Menu/CalendarScreen';
 import SubscriptionScreen from '../screens/Menu/subscription';
 import HelpSupportScreen from '../screens/Menu/HelpSupportScreen';
 import ChartDetailScreen from '../screens/Charts/ChartDetailScreen';
+import DashaScreen from '../screens/Charts/DashaScreen';
+import MuhurtaScreen from '../screens/Charts/MuhurtaScreen';
+import AshtakavargaScreen from '../screens/Charts/AshtakavargaScreen';
+import SudarshanScreen from '../screens/Charts/SudarshanScreen';
+import TransitScreen from '../screens/Charts/TransitScreen';
+import SadeSatiScreen from '../screens/Charts/SadeSatiScreen';
+import CompatibilityScreen from '../screens/Charts/CompatibilityScreen';
+import PartnershipScreen from '../screens/Charts/PartnershipScreen';
 import AllColorsScreen from '../screens/Menu/AllColorsScreen';
 
 
@@ -60,6 +70,10 @@ export default function App() {
             name="ProfileScreen" 
             component={ProfileScreen} options={{ headerShown: false }}
           />
+          <Stack.Screen 
+            name="RectificationScreen" 
+            component={RectificationScreen} options={{ headerShown: false }}
+          />
           <Stack.Screen 
             name="SettingsScreen" 
             component={SettingsScreen} options={{ headerShown: false }}
@@ -88,6 +102,38 @@ export default function App() {
             name="ChartDetailScreen" 
             component={ChartDetailScreen} options={{ headerShown: false }}
           />  
+          <Stack.Screen 
+            name="DashaScreen" 
+            component={DashaScreen} options={{ headerShown: false }}
+          />
+          <Stack.Screen 
+            name="MuhurtaScreen" 
+            component={MuhurtaScreen} options={{ headerShown: false }}
+          />
+          <Stack.Screen 
+            name="AshtakavargaScreen" 
+            component={AshtakavargaScreen} options={{ headerShown: false }}
+          />
+          <Stack.Screen 
+            name="SudarshanScreen" 
+            component={SudarshanScreen} options={{ headerShown: false }}
+          />
+          <Stack.Screen 
+            name="TransitScreen" 
+            component={TransitScreen} options={{ headerShown: false }}
+          />
+          <Stack.Screen 
+            name="SadeSatiScreen" 
+            component={SadeSatiScreen} options={{ headerShown: false }}
+          />
+          <Stack.Screen 
+            name="CompatibilityScreen" 
+            component={CompatibilityScreen} options={{ headerShown: false }}
+          />
+          <Stack.Screen 
+            name="PartnershipScreen" 
+            component={PartnershipScreen} options={{ headerShown: false }}
+          />
           <Stack.Screen 
             name="NotificationScreen" 
             component={NotificationScreen} options={{ headerShown: false }}
@@ -96,6 +142,10 @@ export default function App() {
             name="BusinessScreen" 
             component={BusinessScreen} options={{ headerShown: false }}
           />
+          <Stack.Screen 
+            name="TeamScreen" 
+            component={TeamScreen} options={{ headerShown: false }}
+          />
           <Stack.Screen
           name="AllColorsScreen"
           component={AllColorsScreen}
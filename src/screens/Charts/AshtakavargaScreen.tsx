@@ -0,0 +1,430 @@
+/**
+ * Corp Astro - Ashtakavarga Screen
+ *
+ * Bindu tables from the on-device astro engine:
+ * - Sarvashtakavarga and each Bhinnashtakavarga as a chart overlay
+ * - Sarvashtakavarga table of the seven grahas' bindus per sign
+ * - Contributor breakdown for any single Bhinnashtakavarga
+ *
+ * @module AshtakavargaScreen
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  Pressable,
+  Dimensions,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+
+// Design System
+import {
+  spacing,
+  typography,
+  radius,
+  colors,
+  shadows,
+} from "../../components/DesignSystem/designTokens";
+
+// Layout
+import CorporateProfessionalHeader from "../../components/professional/CorporateProfessionalHeader";
+import { ChartRenderer, ChartHouse } from "../../components/charts";
+import { BirthDetailsPrompt } from "../../components/menusection/BirthDetailsPrompt";
+
+// Stores
+import { useSettingsStore } from "@/stores/settingsStore";
+import { useBirthInput } from "@/hooks/useBirthInput";
+
+// Astro engine
+import {
+  castChart,
+  calculateAshtakavarga,
+  degreeInSign,
+  getGraha,
+  AshtakavargaPoint,
+  BirthInput,
+  NatalChart,
+  ASHTAKAVARGA_POINTS,
+  BINDU_THRESHOLD,
+  SARVA_AVERAGE,
+  SIGNS,
+} from "../../astro";
+
+const { width: screenWidth } = Dimensions.get("window");
+
+/**
+ * Stack params for navigation
+ */
+type RootStackParamList = {
+  Home: undefined;
+  AshtakavargaScreen: {
+    chartId: string;
+    chartType: string;
+    title: string;
+    birthInput?: BirthInput;
+  };
+};
+
+type AshtakavargaScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "AshtakavargaScreen"
+>;
+
+type AshtakavargaScreenRouteProp = RouteProp<
+  RootStackParamList,
+  "AshtakavargaScreen"
+>;
+
+/** Table shown: the Sarvashtakavarga or one Bhinnashtakavarga */
+type AshtakavargaView = "sarva" | AshtakavargaPoint;
+
+// --- Helpers ---
+const pointName = (point: AshtakavargaPoint) =>
+  point === "As" ? "Lagna" : getGraha(point).name;
+
+/** Rashi chart houses counted from the Lagna */
+const rashiHouses = (natal: NatalChart): ChartHouse[] =>
+  Array.from({ length: 12 }, (_, i) => {
+    const sign = (natal.ascendant.sign + i) % 12;
+    return {
+      number: i + 1,
+      sign,
+      planets: natal.planets
+        .filter((planet) => planet.sign === sign)
+        .map(({ id, longitude, isRetrograde }) => ({
+          id,
+          degree: degreeInSign(longitude),
+          isRetrograde,
+        })),
+    };
+  });
+
+/**
+ * Ashtakavarga of a birth chart
+ */
+const AshtakavargaReading: React.FC<{ birthInput: BirthInput }> = ({ birthInput }) => {
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+  const chartStyle = useSettingsStore((state) => state.chartStyle);
+  const [view, setView] = useState<AshtakavargaView>("sarva");
+
+  // --- Ashtakavarga Data ---
+  const natal = useMemo(
+    () => castChart(birthInput, { ayanamsa }),
+    [birthInput, ayanamsa]
+  );
+  const ashtakavarga = useMemo(() => calculateAshtakavarga(natal), [natal]);
+  const houses = useMemo(() => rashiHouses(natal), [natal]);
+
+  const scores =
+    view === "sarva" ? ashtakavarga.sarva : ashtakavarga.bhinna[view].bindus;
+  const threshold = view === "sarva" ? SARVA_AVERAGE : BINDU_THRESHOLD;
+
+  // --- UI Sections ---
+  const renderViewTabs = () => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.tabs}
+    >
+      {(["sarva", ...ASHTAKAVARGA_POINTS] as AshtakavargaView[]).map((tab) => {
+        const isSelected = tab === view;
+        return (
+          <Pressable
+            key={tab}
+            style={[
+              styles.tab,
+              isSelected && {
+                backgroundColor: colors.brand.primary,
+                borderColor: colors.brand.primary,
+              },
+            ]}
+            onPress={() => setView(tab)}
+            accessibilityRole="tab"
+            accessibilityState={{ selected: isSelected }}
+          >
+            <Text
+              style={[
+                styles.tabText,
+                { color: isSelected ? "#FFFFFF" : colors.text.secondary },
+              ]}
+            >
+              {tab === "sarva" ? "Sarva" : pointName(tab)}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const renderChartSection = () => (
+    <View style={styles.section}>
+      <View
+        style={[styles.chartContainer, { backgroundColor: colors.cosmos.deep }]}
+      >
+        <ChartRenderer
+          chartStyle={chartStyle}
+          houses={houses}
+          centerLabel={
+            view === "sarva"
+              ? `SAV ${ashtakavarga.total}`
+              : `${pointName(view)} ${ashtakavarga.bhinna[view].total}`
+          }
+          size={Math.min(screenWidth - spacing.lg * 4, 520)}
+          signScores={scores}
+        />
+      </View>
+      <Text style={[styles.captionText, { color: colors.text.tertiary }]}>
+        {view === "sarva"
+          ? `Signs with ${SARVA_AVERAGE}+ bindus are above average`
+          : `${BINDU_THRESHOLD}+ bindus support ${pointName(view)} in a sign`}
+      </Text>
+    </View>
+  );
+
+  const renderCell = (
+    value: string | number,
+    key: string,
+    strong?: boolean,
+    bold?: boolean
+  ) => (
+    <Text
+      key={key}
+      style={[
+        styles.cell,
+        { color: strong ? colors.brand.light : colors.text.secondary },
+        bold && styles.boldCell,
+      ]}
+    >
+      {value}
+    </Text>
+  );
+
+  const renderTableRow = (
+    label: string,
+    values: (string | number)[],
+    key: string,
+    options: {
+      strong?: (index: number) => boolean;
+      header?: boolean;
+      total?: boolean;
+    } = {}
+  ) => (
+    <View key={key} style={[styles.tableRow, options.total && styles.totalRow]}>
+      <Text
+        style={[styles.rowLabel, { color: colors.text.primary }]}
+        numberOfLines={1}
+      >
+        {label}
+      </Text>
+      {values.map((value, index) =>
+        renderCell(
+          value,
+          `${key}-${index}`,
+          options.strong?.(index),
+          options.header || options.total
+        )
+      )}
+    </View>
+  );
+
+  const renderTable = () => {
+    const rows =
+      view === "sarva"
+        ? [
+            ...ASHTAKAVARGA_POINTS.slice(0, 7).map((point) =>
+              renderTableRow(
+                pointName(point),
+                [...ashtakavarga.bhinna[point].bindus, ashtakavarga.bhinna[point].total],
+                point
+              )
+            ),
+            renderTableRow("Sarva", [...ashtakavarga.sarva, ashtakavarga.total], "sarva", {
+              strong: (index) => ashtakavarga.sarva[index] >= SARVA_AVERAGE,
+              total: true,
+            }),
+          ]
+        : [
+            ...ASHTAKAVARGA_POINTS.map((contributor) => {
+              const row = ashtakavarga.bhinna[view].contributions[contributor];
+              return renderTableRow(
+                pointName(contributor),
+                [
+                  ...row.map((bindu) => (bindu ? "•" : "")),
+                  row.reduce((sum, bindu) => sum + bindu, 0),
+                ],
+                contributor
+              );
+            }),
+            renderTableRow(
+              "Bindus",
+              [...ashtakavarga.bhinna[view].bindus, ashtakavarga.bhinna[view].total],
+              "total",
+              {
+                strong: (index) => scores[index] >= threshold,
+                total: true,
+              }
+            ),
+          ];
+
+    return (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+          {view === "sarva"
+            ? "Sarvashtakavarga"
+            : `${pointName(view)} Bhinnashtakavarga`}
+        </Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={[styles.table, { backgroundColor: colors.cosmos.deep }]}>
+            {renderTableRow(
+              "",
+              [...SIGNS.map((sign) => sign.short), "Total"],
+              "header",
+              { header: true }
+            )}
+            {rows}
+          </View>
+        </ScrollView>
+      </View>
+    );
+  };
+
+  return (
+    <>
+      {renderViewTabs()}
+      {renderChartSection()}
+      {renderTable()}
+    </>
+  );
+};
+
+const AshtakavargaScreen: React.FC = () => {
+  const navigation = useNavigation<AshtakavargaScreenNavigationProp>();
+  const route = useRoute<AshtakavargaScreenRouteProp>();
+
+  const { title, birthInput } = route.params;
+  const profileBirthInput = useBirthInput();
+  const natalInput = birthInput ?? profileBirthInput;
+
+  // --- Screen Render ---
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.cosmos.void }]}
+    >
+      <CorporateProfessionalHeader
+        title={title}
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {natalInput ? (
+          <AshtakavargaReading birthInput={natalInput} />
+        ) : (
+          <BirthDetailsPrompt message="Save your birth details first; bindus are counted from your birth chart." />
+        )}
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default AshtakavargaScreen;
+
+// --- Styles ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+  section: {
+    paddingHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.heading2.fontSize,
+    fontWeight: "600",
+    marginBottom: spacing.md,
+    textAlign: "center",
+  },
+  captionText: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+
+  // View tabs
+  tabs: {
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.lg,
+    gap: spacing.xs,
+  },
+  tab: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.sm,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    backgroundColor: colors.surface.primary,
+  },
+  tabText: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+  },
+
+  // Chart
+  chartContainer: {
+    borderRadius: radius.lg,
+    padding: spacing.lg,
+    alignItems: "center",
+    ...shadows.emphasis,
+  },
+
+  // Bindu table
+  table: {
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    ...shadows.subtle,
+  },
+  tableRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border.subtle,
+  },
+  rowLabel: {
+    width: 72,
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+  },
+  cell: {
+    width: 30,
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+  },
+  boldCell: {
+    fontWeight: "700",
+  },
+});
@@ -2,9 +2,15 @@
  * Corp Astro - Chart Detail Screen
  *
  * Dynamic chart detail page showing:
- * - North Indian diamond chart layout (with correct lines)
- * - Chart data from in-house astro engine (mocked here)
- * - Readings and predictions
+ * - The user's chart or their company's incorporation chart
+ * - North, South or East Indian vector chart, switchable in place
+ * - Chart data from the on-device astro engine
+ * - KP variant with cusp and planet lords and the significator table
+ * - Parashari, Jaimini and Western aspect grid with conjunctions
+ * - Shadbala and Bhava Bala strength bars
+ * - Yogas, doshas and remedies detected from the chart
+ * - Predictions from the running dasha, the yogas it brings forward and
+ *   Jupiter and Saturn transits
  * - Premium mystical design matching app theme
  *
  * @module ChartDetailScreen
@@ -21,7 +27,9 @@ import {
   SafeAreaView,
   Dimensions,
   ActivityIndicator,
-  ViewStyle,
+  Pressable,
+  Share,
+  Alert,
 } from "react-native";
 import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
@@ -37,6 +45,49 @@ import {
 
 // Layout
 import CorporateProfessionalHeader from "../../components/professional/CorporateProfessionalHeader";
+import {
+  ChartRenderer,
+  CHART_STYLES,
+  ChartHouse,
+} from "../../components/charts";
+import { BirthDetailsPrompt } from "../../components/menusection/BirthDetailsPrompt";
+
+// Stores
+import { useSettingsStore } from "@/stores/settingsStore";
+import { useBusinessStore } from "@/stores/businessStore";
+import { useBirthInput, useBusinessBirthInput } from "@/hooks/useBirthInput";
+
+// Astro engine
+import {
+  castChart,
+  calculateAspects,
+  calculateBhavaBala,
+  calculateBhavaChalit,
+  calculateConjunctions,
+  calculateKP,
+  calculatePredictions,
+  calculateShadbala,
+  calculateVarga,
+  degreeInSign,
+  detectYogas,
+  formatDegree,
+  getAspectOrbs,
+  getAyanamsa,
+  getGraha,
+  getHouseSystem,
+  getVargaByChartType,
+  signOf,
+  AspectMode,
+  BirthInput,
+  GrahaId,
+  KPChart,
+  KPLords,
+  NatalChart,
+  PlanetPosition,
+  ASPECT_MODES,
+  NAKSHATRAS,
+  SIGNS,
+} from "../../astro";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
@@ -53,9 +104,14 @@ type RootStackParamList = {
     description?: string;
     isPremium?: string;
     powerLevel?: string;
+    birthInput?: BirthInput;
+    subject?: ChartSubject;
   };
 };
 
+/** Whose chart is shown: the user's or their company's */
+type ChartSubject = "native" | "business";
+
 type ChartDetailScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
   "ChartDetail"
@@ -66,30 +122,214 @@ type ChartDetailScreenRouteProp = RouteProp<
   "ChartDetail"
 >;
 
-type HousePosition = {
-  top?: string | number;
-  left?: string | number;
-  right?: string | number;
-  bottom?: string | number;
-  transform?: Array<{ [key: string]: number | string }>;
+// --- Helpers ---
+/** Yogas read as strengths, doshas as weaknesses with their remedies */
+const yogaReadings = (natal: NatalChart) => {
+  const { yogas, doshas } = detectYogas(natal);
+  return {
+    strengths: yogas,
+    weaknesses: doshas,
+    remedies: doshas.filter((dosha) => dosha.remedy),
+  };
+};
+
+/** Everything the sections read, from one chart cast */
+const buildChartData = (type: string, natal: NatalChart) => {
+  const varga = getVargaByChartType(type);
+  const vargaChart =
+    varga && varga.division > 1 ? calculateVarga(natal, varga.division) : null;
+  const moon = natal.planets.find((planet) => planet.id === "Mo");
+  const sun = natal.planets.find((planet) => planet.id === "Su");
+
+  // Moon and Sun charts count houses from the luminary and mark the Lagna
+  let referenceSign = natal.ascendant.sign;
+  let centerLabel = `Asc: ${SIGNS[referenceSign].short} ${formatDegree(natal.ascendant.longitude)}`;
+  let placements = natal.planets.map(({ id, sign, longitude, isRetrograde }) => ({
+    id: id as string,
+    sign,
+    degree: degreeInSign(longitude),
+    isRetrograde,
+  }));
+  if (vargaChart) {
+    referenceSign = vargaChart.ascendantSign;
+    centerLabel = `${vargaChart.info.code} Asc: ${SIGNS[referenceSign].short}`;
+    placements = vargaChart.planets;
+  } else if ((type === "moon" && moon) || (type === "sun" && sun)) {
+    const luminary = (type === "moon" ? moon : sun) as PlanetPosition;
+    referenceSign = luminary.sign;
+    centerLabel = `${luminary.name}: ${SIGNS[referenceSign].short} ${formatDegree(luminary.longitude)}`;
+    placements = [
+      {
+        id: "As",
+        sign: natal.ascendant.sign,
+        degree: degreeInSign(natal.ascendant.longitude),
+        isRetrograde: false,
+      },
+      ...placements,
+    ];
+  }
+
+  let houses: ChartHouse[] = Array.from({ length: 12 }, (_, i) => ({
+    number: i + 1,
+    sign: (referenceSign + i) % 12,
+    planets: placements.filter(
+      (planet) => planet.sign === (referenceSign + i) % 12
+    ),
+  }));
+
+  // Bhava Chalit places grahas by house cusps instead of signs
+  const bhavaChalit = type === "bhava_chalit" ? calculateBhavaChalit(natal) : null;
+  if (bhavaChalit) {
+    centerLabel = `Chalit: ${getHouseSystem(natal.houses.system).name}`;
+    houses = natal.houses.cusps.map((cusp, i) => ({
+      number: i + 1,
+      sign: signOf(cusp),
+      planets: natal.planets
+        .filter((planet) =>
+          bhavaChalit.some(
+            (placement) =>
+              placement.id === planet.id && placement.bhavaHouse === i + 1
+          )
+        )
+        .map(({ id, longitude, isRetrograde }) => ({
+          id,
+          degree: degreeInSign(longitude),
+          isRetrograde,
+        })),
+    }));
+  }
+
+  // KP reads grahas by Placidus cusp, like the Chalit chart
+  const kp = type === "kp" ? calculateKP(natal) : null;
+  if (kp) {
+    centerLabel = `KP Asc: ${SIGNS[signOf(natal.houses.cusps[0])].short} ${formatDegree(natal.houses.cusps[0])}`;
+    houses = kp.cusps.map((cusp) => ({
+      number: cusp.house,
+      sign: signOf(cusp.longitude),
+      planets: kp.planets
+        .filter((planet) => planet.house === cusp.house)
+        .map(({ id, longitude }) => ({
+          id,
+          degree: degreeInSign(longitude),
+          isRetrograde:
+            natal.planets.find((planet) => planet.id === id)?.isRetrograde ??
+            false,
+        })),
+    }));
+  }
+
+  const shadbala = calculateShadbala(natal);
+
+  return {
+    type,
+    centerLabel,
+    houses,
+    natal,
+    planets: natal.planets,
+    vargaCode: vargaChart?.info.code,
+    vargaSigns: vargaChart?.planets.map((planet) => planet.sign),
+    cusps: bhavaChalit ? natal.houses.cusps : null,
+    bhavaShifts: bhavaChalit ? bhavaChalit.filter((placement) => placement.shifted) : [],
+    kp,
+    shadbala,
+    bhavaBala: calculateBhavaBala(natal, shadbala),
+    houseSystem: natal.houses.system,
+    ayanamsaLabel:
+      natal.ayanamsaId === "tropical"
+        ? "Tropical zodiac"
+        : `${getAyanamsa(natal.ayanamsaId).name} ayanamsa ${formatDegree(natal.ayanamsa)}`,
+    ...yogaReadings(natal),
+    predictions: calculatePredictions(natal),
+  };
 };
 
+type ChartData = ReturnType<typeof buildChartData>;
+
+const KP_LORD_HEADER = ["Sign", "Star", "Sub", "Sub-sub"];
+
+const kpLordCells = (lords: KPLords) => [
+  lords.signLord,
+  lords.starLord,
+  lords.subLord,
+  lords.subSubLord,
+];
+
+const kpGrahaList = (ids: GrahaId[]) => (ids.length > 0 ? ids.join(" ") : "–");
+
+/** KP tables as tab-separated text for pasting into a spreadsheet */
+const kpExportText = (kp: KPChart) =>
+  [
+    ["Planet", "Longitude", "House", ...KP_LORD_HEADER],
+    ...kp.planets.map((planet) => [
+      planet.id,
+      `${SIGNS[signOf(planet.longitude)].short} ${formatDegree(planet.longitude)}`,
+      String(planet.house),
+      ...kpLordCells(planet),
+    ]),
+    [],
+    ["Cusp", "Longitude", ...KP_LORD_HEADER],
+    ...kp.cusps.map((cusp) => [
+      String(cusp.house),
+      `${SIGNS[signOf(cusp.longitude)].short} ${formatDegree(cusp.longitude)}`,
+      ...kpLordCells(cusp),
+    ]),
+    [],
+    ["House", "Level 1", "Level 2", "Level 3", "Level 4"],
+    ...kp.significators.map((level) => [
+      String(level.house),
+      kpGrahaList(level.occupantStars),
+      kpGrahaList(level.occupants),
+      kpGrahaList(level.ownerStars),
+      level.owner,
+    ]),
+  ]
+    .map((row) => row.join("\t"))
+    .join("\n");
+
 const ChartDetailScreen: React.FC = () => {
   const navigation = useNavigation<ChartDetailScreenNavigationProp>();
   const route = useRoute<ChartDetailScreenRouteProp>();
 
-  const { chartId, chartType, title: chartTitle } = route.params;
+  const { chartId, chartType, title: chartTitle, birthInput } = route.params;
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+  const profileBirthInput = useBirthInput();
+  const businessBirthInput = useBusinessBirthInput();
+  const businessName = useBusinessStore((state) => state.business?.name);
+  const houseSystem = useSettingsStore((state) => state.houseSystem);
+  const chartStyle = useSettingsStore((state) => state.chartStyle);
+  const setChartStyle = useSettingsStore((state) => state.setChartStyle);
+  const aspectOrbs = useSettingsStore((state) => state.aspectOrbs);
 
   const [loading, setLoading] = useState(true);
-  const [chartData, setChartData] = useState<any>(null);
+  const [aspectMode, setAspectMode] = useState<AspectMode>("parashari");
+  const [subject, setSubject] = useState<ChartSubject>(
+    route.params.subject ?? "native"
+  );
+  const [chartData, setChartData] = useState<ChartData | null>(null);
+
+  // Null while the user's own chart is shown and the profile has no birth details
+  const natalInput =
+    subject === "business" && businessBirthInput
+      ? businessBirthInput
+      : birthInput ?? profileBirthInput;
 
   useEffect(() => {
     const loadChartData = async () => {
+      if (!natalInput) {
+        setChartData(null);
+        setLoading(false);
+        return;
+      }
       try {
         setLoading(true);
-        await new Promise((resolve) => setTimeout(resolve, 800)); // simulate API
-        const mockChartData = generateMockChartData(chartType);
-        setChartData(mockChartData);
+        // KP is only defined on its own ayanamsa and Placidus cusps
+        const natal = castChart(
+          natalInput,
+          chartType === "kp"
+            ? { ayanamsa: "kp", houseSystem: "placidus" }
+            : { ayanamsa, houseSystem }
+        );
+        setChartData(buildChartData(chartType, natal));
       } catch (error) {
         console.error("Error loading chart data:", error);
       } finally {
@@ -97,63 +337,13 @@ const ChartDetailScreen: React.FC = () => {
       }
     };
     loadChartData();
-  }, [chartId, chartType]);
-
-  // --- Mock Data Generators ---
-  const generateMockChartData = (type: string) => {
-    const planets = ["Su", "Mo", "Ma", "Me", "Ju", "Ve", "Sa", "Ra", "Ke"];
-    const houses = Array.from({ length: 12 }, (_, i) => ({
-      number: i + 1,
-      planets: [] as string[],
-      sign: getSignForHouse(i + 1),
-      degrees: Math.floor(Math.random() * 30),
-    }));
-
-    planets.forEach((planet) => {
-      const randomHouse = Math.floor(Math.random() * 12);
-      houses[randomHouse].planets.push(planet);
-    });
-
-    return {
-      type,
-      ascSign: houses[0].sign, // using house 1 sign as asc mock
-      houses,
-      strengths: [
-        "Strong Jupiter in 9th house",
-        "Venus in own sign",
-        "Mars in exaltation",
-      ],
-      weaknesses: ["Afflicted Moon", "Saturn in 6th house"],
-      predictions: [
-        "Career advancement in coming months",
-        "Favorable time for relationships",
-        "Financial growth indicated",
-      ],
-      remedies: [
-        "Chant Jupiter mantras on Thursdays",
-        "Wear yellow sapphire",
-        "Donate to educational institutions",
-      ],
-    };
-  };
-
-  const getSignForHouse = (house: number): string => {
-    const signs = [
-      "Ari",
-      "Tau",
-      "Gem",
-      "Can",
-      "Leo",
-      "Vir",
-      "Lib",
-      "Sco",
-      "Sag",
-      "Cap",
-      "Aqu",
-      "Pis",
-    ];
-    return signs[(house - 1) % 12];
-  };
+  }, [
+    chartId,
+    chartType,
+    natalInput,
+    ayanamsa,
+    houseSystem,
+  ]);
 
   // --- UI Sections ---
   const renderLoadingState = () => (
@@ -165,33 +355,85 @@ const ChartDetailScreen: React.FC = () => {
     </View>
   );
 
-  const renderNorthIndianChart = () => {
+  // The company chart is offered once the business details are saved
+  const renderSubjectTabs = () => {
+    if (!businessBirthInput || birthInput) return null;
+    const subjects: { id: ChartSubject; label: string }[] = [
+      { id: "native", label: "You" },
+      { id: "business", label: businessName || "Company" },
+    ];
+    return (
+      <View style={[styles.styleTabs, styles.subjectTabs]}>
+        {subjects.map((option) => {
+          const isSelected = option.id === subject;
+          return (
+            <Pressable
+              key={option.id}
+              style={[
+                styles.styleTab,
+                isSelected && { backgroundColor: colors.brand.primary },
+              ]}
+              onPress={() => setSubject(option.id)}
+              accessibilityRole="tab"
+              accessibilityState={{ selected: isSelected }}
+            >
+              <Text
+                style={[
+                  styles.styleTabText,
+                  { color: isSelected ? "#FFFFFF" : colors.text.secondary },
+                ]}
+                numberOfLines={1}
+              >
+                {option.label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderChartSection = () => {
     if (!chartData) return null;
 
-    // Responsive square size
-    const chartSize = Math.min(screenWidth - 40, 520);
-
-    // House label positions (percent-based so they scale cleanly)
-    const housePositions: HousePosition[] = [
-      { top: "10%", left: "50%", transform: [{ translateX: -12 }] }, // 1
-      { top: "3%", left: "20%" }, // 2
-      { top: "20%", left: "5%", transform: [{ translateY: -12 }] }, // 3
-      { bottom: "50%", left: "20%" }, // 4
-      { bottom: "15%", left: "7%", transform: [{ translateX: -12 }] }, // 5
-      { bottom: "5%", right: "73%" }, // 6
-      { bottom: "10%", left: "45%", transform: [{ translateY: -12 }] }, // 7
-      { bottom: 0, right: "20%" }, // 8
-      { top: "70%", right: "2%" }, // 9
-      { top: "40%", right: "25%" }, // 10
-      { bottom: "70%", right: "3%" }, // 11
-      { top: 0, right: "20%" }, // 12
-    ];
+    // Responsive square inside the section and card padding
+    const chartSize = Math.min(screenWidth - spacing.lg * 4, 520);
 
     return (
       <View style={styles.chartSection}>
         <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
-          North Indian Chart
+          {chartData.kp ? "KP Cusp Chart" : "Rashi Chart"}
         </Text>
+        <Text style={[styles.ayanamsaText, { color: colors.text.tertiary }]}>
+          {chartData.ayanamsaLabel}
+        </Text>
+
+        <View style={styles.styleTabs}>
+          {CHART_STYLES.map((option) => {
+            const isSelected = option.id === chartStyle;
+            return (
+              <Pressable
+                key={option.id}
+                style={[
+                  styles.styleTab,
+                  isSelected && { backgroundColor: colors.brand.primary },
+                ]}
+                onPress={() => setChartStyle(option.id)}
+                accessibilityRole="tab"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text
+                  style={[
+                    styles.styleTabText,
+                    { color: isSelected ? "#FFFFFF" : colors.text.secondary },
+                  ]}
+                >
+                  {option.name}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
 
         <View
           style={[
@@ -199,45 +441,450 @@ const ChartDetailScreen: React.FC = () => {
             { backgroundColor: colors.cosmos.deep },
           ]}
         >
+          <ChartRenderer
+            chartStyle={chartStyle}
+            houses={chartData.houses}
+            centerLabel={chartData.centerLabel}
+            size={chartSize}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const renderPlanetPositionsSection = () =>
+    chartData?.planets && (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+          Planetary Positions
+        </Text>
+        {chartData.planets.map((planet, index) => (
           <View
+            key={planet.id}
             style={[
-              styles.northIndianChart,
-              { width: chartSize, height: chartSize },
+              styles.positionRow,
+              { backgroundColor: colors.cosmos.deep },
             ]}
           >
-            {/* Correct grid lines */}
-            <View style={styles.diagonalLine1} />
-            <View style={styles.diagonalLine2} />
-            <View style={styles.centerSquare}>
-              <Text style={styles.ascendantText}>
-                Asc: {chartData.ascSign}
+            <Text style={[styles.positionPlanet, { color: colors.brand.light }]}>
+              {planet.name}
+              {planet.isRetrograde ? " (R)" : ""}
+            </Text>
+            <Text
+              style={[styles.positionText, { color: colors.text.secondary }]}
+            >
+              {SIGNS[planet.sign].name} {formatDegree(planet.longitude)}
+            </Text>
+            <Text
+              style={[styles.positionText, { color: colors.text.tertiary }]}
+            >
+              {NAKSHATRAS[planet.nakshatra].name} {planet.pada}
+            </Text>
+            {chartData.vargaSigns && (
+              <Text
+                style={[styles.positionText, { color: colors.text.tertiary }]}
+              >
+                {chartData.vargaCode} {SIGNS[chartData.vargaSigns[index]].name}
+              </Text>
+            )}
+          </View>
+        ))}
+      </View>
+    );
+
+  const renderBhavaChalitSection = () =>
+    chartData?.cusps && (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+          Bhava Shifts
+        </Text>
+        {chartData.bhavaShifts.length === 0 ? (
+          <Text style={[styles.ayanamsaText, { color: colors.text.tertiary }]}>
+            Every graha stays in its Rashi house
+          </Text>
+        ) : (
+          chartData.bhavaShifts.map((shift) => (
+            <View
+              key={shift.id}
+              style={[
+                styles.positionRow,
+                { backgroundColor: colors.cosmos.deep },
+              ]}
+            >
+              <Text
+                style={[styles.positionPlanet, { color: colors.brand.light }]}
+              >
+                {getGraha(shift.id).name}
+              </Text>
+              <Text
+                style={[styles.positionText, { color: colors.text.secondary }]}
+              >
+                Rashi house {shift.rashiHouse} → Bhava {shift.bhavaHouse}
               </Text>
             </View>
+          ))
+        )}
 
-            {/* House labels + planets */}
-            {chartData.houses.map((house: any, index: number) => (
-              <View
-                key={`house-${index + 1}`}
-                style={[
-                  styles.houseContainer,
-                  {
-                    position: "absolute",
-                    ...(housePositions[index] as ViewStyle),
-                  },
-                ]}
+        <Text
+          style={[
+            styles.sectionTitle,
+            { color: colors.text.primary, marginTop: spacing.md },
+          ]}
+        >
+          House Cusps
+        </Text>
+        {chartData.cusps.map((cusp, index) => (
+          <View
+            key={`cusp-${index + 1}`}
+            style={[styles.positionRow, { backgroundColor: colors.cosmos.deep }]}
+          >
+            <Text style={[styles.positionPlanet, { color: colors.brand.light }]}>
+              House {index + 1}
+            </Text>
+            <Text
+              style={[styles.positionText, { color: colors.text.secondary }]}
+            >
+              {SIGNS[signOf(cusp)].name} {formatDegree(cusp)}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+
+  const handleKPExport = async (kp: KPChart) => {
+    try {
+      await Share.share({
+        message: kpExportText(kp),
+        title: `${chartTitle} - KP tables`,
+      });
+    } catch (error) {
+      console.error("Error sharing KP tables:", error);
+      Alert.alert("Error", "Failed to export KP tables");
+    }
+  };
+
+  const renderTable = (
+    title: string,
+    header: string[],
+    rows: { key: string; label: string; cells: string[] }[]
+  ) => (
+    <View style={styles.kpTableBlock}>
+      <Text style={[styles.kpTableTitle, { color: colors.text.primary }]}>
+        {title}
+      </Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={[styles.kpTable, { backgroundColor: colors.cosmos.deep }]}>
+          <View style={styles.kpRow}>
+            <Text style={[styles.kpLabel, { color: colors.text.tertiary }]} />
+            {header.map((cell) => (
+              <Text
+                key={cell}
+                style={[styles.kpCell, styles.kpHeaderCell, { color: colors.text.tertiary }]}
               >
-                <Text style={styles.houseNumberText}>{index + 1}</Text>
-                <Text style={styles.houseSignText}>{house.sign}</Text>
-                <View style={styles.planetsRow}>
-                  {house.planets.map((p: string, i: number) => (
-                    <Text key={`${p}-${i}`} style={styles.planetChip}>
-                      {p}
-                    </Text>
-                  ))}
-                </View>
-              </View>
+                {cell}
+              </Text>
             ))}
           </View>
+          {rows.map((row) => (
+            <View key={row.key} style={[styles.kpRow, styles.kpBodyRow]}>
+              <Text style={[styles.kpLabel, { color: colors.brand.light }]}>
+                {row.label}
+              </Text>
+              {row.cells.map((cell, index) => (
+                <Text
+                  key={`${row.key}-${index}`}
+                  style={[styles.kpCell, { color: colors.text.secondary }]}
+                >
+                  {cell}
+                </Text>
+              ))}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+
+  const renderKPSection = () => {
+    const kp = chartData?.kp;
+    if (!kp) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+          KP Lords
+        </Text>
+        {renderTable(
+          "Planets",
+          ["Longitude", "House", ...KP_LORD_HEADER],
+          kp.planets.map((planet) => ({
+            key: planet.id,
+            label: getGraha(planet.id).name,
+            cells: [
+              `${SIGNS[signOf(planet.longitude)].short} ${formatDegree(planet.longitude)}`,
+              String(planet.house),
+              ...kpLordCells(planet),
+            ],
+          }))
+        )}
+        {renderTable(
+          "Cusps",
+          ["Longitude", ...KP_LORD_HEADER],
+          kp.cusps.map((cusp) => ({
+            key: `cusp-${cusp.house}`,
+            label: `House ${cusp.house}`,
+            cells: [
+              `${SIGNS[signOf(cusp.longitude)].short} ${formatDegree(cusp.longitude)}`,
+              ...kpLordCells(cusp),
+            ],
+          }))
+        )}
+        {renderTable(
+          "House Significators",
+          ["Level 1", "Level 2", "Level 3", "Level 4"],
+          kp.significators.map((level) => ({
+            key: `level-${level.house}`,
+            label: `House ${level.house}`,
+            cells: [
+              kpGrahaList(level.occupantStars),
+              kpGrahaList(level.occupants),
+              kpGrahaList(level.ownerStars),
+              level.owner,
+            ],
+          }))
+        )}
+        <Text style={[styles.ayanamsaText, { color: colors.text.tertiary, marginTop: 0 }]}>
+          1: in the star of occupants · 2: occupants · 3: in the star of the
+          cusp lord · 4: cusp lord
+        </Text>
+        {renderTable(
+          "Planet Significations",
+          ["Houses"],
+          kp.significations.map((signification) => ({
+            key: `signifies-${signification.id}`,
+            label: getGraha(signification.id).name,
+            cells: [signification.houses.join(", ") || "–"],
+          }))
+        )}
+        <Pressable
+          style={[styles.exportButton, { backgroundColor: colors.brand.primary }]}
+          onPress={() => handleKPExport(kp)}
+          accessibilityRole="button"
+        >
+          <Text style={styles.exportButtonText}>Export KP Tables</Text>
+        </Pressable>
+      </View>
+    );
+  };
+
+  const renderAspectsSection = () => {
+    const natal = chartData?.natal;
+    if (!natal) return null;
+
+    const aspects = calculateAspects(natal, aspectMode, aspectOrbs);
+    const conjunctions = calculateConjunctions(natal);
+    const ids = natal.planets.map((planet) => planet.id);
+    const mode = ASPECT_MODES.find((item) => item.id === aspectMode);
+
+    return (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+          Aspects
+        </Text>
+        <View style={styles.styleTabs}>
+          {ASPECT_MODES.map((option) => {
+            const isSelected = option.id === aspectMode;
+            return (
+              <Pressable
+                key={option.id}
+                style={[
+                  styles.styleTab,
+                  isSelected && { backgroundColor: colors.brand.primary },
+                ]}
+                onPress={() => setAspectMode(option.id)}
+                accessibilityRole="tab"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text
+                  style={[
+                    styles.styleTabText,
+                    { color: isSelected ? "#FFFFFF" : colors.text.secondary },
+                  ]}
+                >
+                  {option.name}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        <Text style={[styles.ayanamsaText, { color: colors.text.tertiary, marginTop: 0 }]}>
+          {mode?.description}
+          {aspectMode === "western" ? ` · ${getAspectOrbs(aspectOrbs).name} orbs` : ""}
+        </Text>
+
+        {renderTable(
+          aspectMode === "western" ? "Aspect Grid" : "Aspect Grid (row aspects column)",
+          ids,
+          ids.map((from) => ({
+            key: `aspects-${from}`,
+            label: getGraha(from).name,
+            cells: ids.map((to) => {
+              const aspect = aspects.grahaAspects.find(
+                (item) => item.from === from && item.to === to
+              );
+              if (!aspect) return from === to ? "–" : "";
+              return aspect.orb === undefined
+                ? aspect.symbol
+                : `${aspect.symbol} ${aspect.orb.toFixed(0)}°`;
+            }),
+          }))
+        )}
+        {aspectMode === "western" ? (
+          <Text style={[styles.ayanamsaText, { color: colors.text.tertiary, marginTop: 0 }]}>
+            ☌ conjunction · ⚹ sextile · □ square · △ trine · ☍ opposition, with
+            degrees from exact
+          </Text>
+        ) : (
+          <>
+            <Text style={[styles.ayanamsaText, { color: colors.text.tertiary, marginTop: 0 }]}>
+              Numbers count signs from the aspecting graha
+            </Text>
+            {renderTable(
+              "Houses Aspected",
+              ["Houses"],
+              aspects.houseAspects.map((item) => ({
+                key: `houses-${item.from}`,
+                label: getGraha(item.from).name,
+                cells: [item.houses.join(", ")],
+              }))
+            )}
+          </>
+        )}
+
+        <Text style={[styles.kpTableTitle, { color: colors.text.primary }]}>
+          Conjunctions
+        </Text>
+        {conjunctions.length > 0 ? (
+          conjunctions.map((conjunction) => (
+            <View
+              key={`conjunction-${conjunction.sign}`}
+              style={[styles.positionRow, { backgroundColor: colors.cosmos.deep }]}
+            >
+              <Text style={[styles.positionPlanet, { color: colors.brand.light }]}>
+                {SIGNS[conjunction.sign].name}
+              </Text>
+              <Text style={[styles.positionText, { color: colors.text.secondary }]}>
+                {conjunction.grahas.map((id) => getGraha(id).name).join(", ")}
+              </Text>
+              <Text style={[styles.positionText, { color: colors.text.tertiary }]}>
+                within {conjunction.spread.toFixed(1)}°
+              </Text>
+            </View>
+          ))
+        ) : (
+          <Text style={[styles.ayanamsaText, { color: colors.text.tertiary, marginTop: 0 }]}>
+            No two grahas share a sign
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderStrengthBar = (
+    key: string,
+    label: string,
+    rupas: number,
+    scale: number,
+    required?: number
+  ) => {
+    const isStrong = required === undefined || rupas >= required;
+    return (
+      <View key={key} style={styles.balaRow}>
+        <Text style={[styles.balaLabel, { color: colors.brand.light }]}>
+          {label}
+        </Text>
+        <View
+          style={[styles.balaTrack, { backgroundColor: colors.surface.primary }]}
+        >
+          <View
+            style={[
+              styles.balaFill,
+              {
+                width: `${Math.min(Math.max(rupas / scale, 0), 1) * 100}%`,
+                backgroundColor: isStrong
+                  ? colors.brand.primary
+                  : colors.mystical.light,
+              },
+            ]}
+          />
+          {required !== undefined && (
+            <View
+              style={[
+                styles.balaMarker,
+                {
+                  left: `${(required / scale) * 100}%`,
+                  backgroundColor: colors.text.primary,
+                },
+              ]}
+            />
+          )}
+        </View>
+        <Text style={[styles.balaValue, { color: colors.text.secondary }]}>
+          {rupas.toFixed(1)}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderBalaSection = () => {
+    if (!chartData) return null;
+    const { shadbala, bhavaBala } = chartData;
+
+    // Bars share a scale with headroom over the strongest value
+    const shadbalaScale =
+      Math.max(...shadbala.map((planet) => Math.max(planet.rupas, planet.required))) * 1.1;
+    const bhavaScale = Math.max(...bhavaBala.map((bhava) => bhava.rupas)) * 1.1;
+
+    return (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+          Shadbala
+        </Text>
+        <Text style={[styles.ayanamsaText, { color: colors.text.tertiary }]}>
+          Rupas of six-fold strength; the marker is each graha&apos;s minimum
+        </Text>
+        <View style={[styles.balaCard, { backgroundColor: colors.cosmos.deep }]}>
+          {shadbala.map((planet) =>
+            renderStrengthBar(
+              planet.id,
+              getGraha(planet.id).name,
+              planet.rupas,
+              shadbalaScale,
+              planet.required
+            )
+          )}
+        </View>
+
+        <Text
+          style={[
+            styles.sectionTitle,
+            { color: colors.text.primary, marginTop: spacing.lg },
+          ]}
+        >
+          Bhava Bala
+        </Text>
+        <Text style={[styles.ayanamsaText, { color: colors.text.tertiary }]}>
+          House strength in rupas from the {getHouseSystem(chartData.houseSystem).name} cusps
+        </Text>
+        <View style={[styles.balaCard, { backgroundColor: colors.cosmos.deep }]}>
+          {bhavaBala.map((bhava) =>
+            renderStrengthBar(
+              `bhava-${bhava.house}`,
+              `House ${bhava.house}`,
+              bhava.rupas,
+              bhavaScale
+            )
+          )}
         </View>
       </View>
     );
@@ -249,7 +896,7 @@ const ChartDetailScreen: React.FC = () => {
         <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
           Predictions
         </Text>
-        {chartData.predictions.map((prediction: string, index: number) => (
+        {chartData.predictions.map((prediction, index) => (
           <View
             key={index}
             style={[
@@ -258,16 +905,28 @@ const ChartDetailScreen: React.FC = () => {
             ]}
           >
             <Text
-              style={[styles.emoj, { color: colors.brand.primary }]}
-              accessibilityLabel="prediction"
-            >
-              🌟
-            </Text>
-            <Text
-              style={[styles.predictionText, { color: colors.text.secondary }]}
+              style={[
+                styles.emoj,
+                {
+                  color: prediction.favourable
+                    ? colors.brand.primary
+                    : colors.mystical.light,
+                },
+              ]}
+              accessibilityLabel={prediction.favourable ? "favourable" : "caution"}
             >
-              {prediction}
+              {prediction.favourable ? "🌟" : "⚠️"}
             </Text>
+            <View style={styles.readingBody}>
+              <Text style={[styles.readingTitle, { color: colors.text.primary }]}>
+                {prediction.text}
+              </Text>
+              <Text
+                style={[styles.predictionText, { color: colors.text.secondary }]}
+              >
+                {prediction.basis}
+              </Text>
+            </View>
           </View>
         ))}
       </View>
@@ -279,9 +938,14 @@ const ChartDetailScreen: React.FC = () => {
         <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
           Strengths
         </Text>
-        {chartData.strengths.map((strength: string, index: number) => (
+        {chartData.strengths.length === 0 && (
+          <Text style={[styles.ayanamsaText, { color: colors.text.tertiary }]}>
+            No classical yogas found in this chart
+          </Text>
+        )}
+        {chartData.strengths.map((yoga, index) => (
           <View
-            key={index}
+            key={`${yoga.category}-${index}`}
             style={[
               styles.strengthCard,
               { backgroundColor: colors.cosmos.deep },
@@ -293,25 +957,70 @@ const ChartDetailScreen: React.FC = () => {
             >
               ✨
             </Text>
+            <View style={styles.readingBody}>
+              <Text style={[styles.readingTitle, { color: colors.text.primary }]}>
+                {yoga.name}
+              </Text>
+              <Text
+                style={[styles.strengthText, { color: colors.text.secondary }]}
+              >
+                {yoga.explanation}
+              </Text>
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+
+  const renderWeaknessesSection = () =>
+    chartData?.weaknesses && (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+          Weaknesses
+        </Text>
+        {chartData.weaknesses.length === 0 && (
+          <Text style={[styles.ayanamsaText, { color: colors.text.tertiary }]}>
+            No Mangal, Kaal Sarp or Pitra dosha in this chart
+          </Text>
+        )}
+        {chartData.weaknesses.map((dosha) => (
+          <View
+            key={dosha.category}
+            style={[
+              styles.strengthCard,
+              { backgroundColor: colors.cosmos.deep },
+            ]}
+          >
             <Text
-              style={[styles.strengthText, { color: colors.text.secondary }]}
+              style={[styles.emoj, { color: colors.mystical.light }]}
+              accessibilityLabel="weakness"
             >
-              {strength}
+              ⚠️
             </Text>
+            <View style={styles.readingBody}>
+              <Text style={[styles.readingTitle, { color: colors.text.primary }]}>
+                {dosha.name}
+              </Text>
+              <Text
+                style={[styles.strengthText, { color: colors.text.secondary }]}
+              >
+                {dosha.explanation}
+              </Text>
+            </View>
           </View>
         ))}
       </View>
     );
 
   const renderRemediesSection = () =>
-    chartData?.remedies && (
+    chartData && chartData.remedies.length > 0 && (
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
           Remedies
         </Text>
-        {chartData.remedies.map((remedy: string, index: number) => (
+        {chartData.remedies.map((dosha) => (
           <View
-            key={index}
+            key={dosha.category}
             style={[
               styles.remedyCard,
               { backgroundColor: colors.cosmos.deep },
@@ -323,11 +1032,16 @@ const ChartDetailScreen: React.FC = () => {
             >
               🔮
             </Text>
-            <Text
-              style={[styles.remedyText, { color: colors.text.secondary }]}
-            >
-              {remedy}
-            </Text>
+            <View style={styles.readingBody}>
+              <Text style={[styles.readingTitle, { color: colors.text.primary }]}>
+                For {dosha.name}
+              </Text>
+              <Text
+                style={[styles.remedyText, { color: colors.text.secondary }]}
+              >
+                {dosha.remedy}
+              </Text>
+            </View>
           </View>
         ))}
       </View>
@@ -364,10 +1078,23 @@ const ChartDetailScreen: React.FC = () => {
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
       >
-        {renderNorthIndianChart()}
-        {renderPredictionsSection()}
-        {renderStrengthsSection()}
-        {renderRemediesSection()}
+        {renderSubjectTabs()}
+        {natalInput ? (
+          <>
+            {renderChartSection()}
+            {renderBhavaChalitSection()}
+            {renderKPSection()}
+            {renderPlanetPositionsSection()}
+            {renderAspectsSection()}
+            {renderBalaSection()}
+            {renderPredictionsSection()}
+            {renderStrengthsSection()}
+            {renderWeaknessesSection()}
+            {renderRemediesSection()}
+          </>
+        ) : (
+          <BirthDetailsPrompt message="Save your birth details first; this chart is cast from them." />
+        )}
         <View style={styles.bottomSpacing} />
       </ScrollView>
     </SafeAreaView>
@@ -410,90 +1137,151 @@ const styles = StyleSheet.create({
     marginBottom: spacing.md,
     textAlign: "center",
   },
+  ayanamsaText: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+    marginTop: -spacing.sm,
+    marginBottom: spacing.md,
+  },
   chartContainer: {
     borderRadius: radius.lg,
     padding: spacing.lg,
     alignItems: "center",
     ...shadows.emphasis,
   },
-  northIndianChart: {
-    position: "relative",
-    borderWidth: 2,
-    borderColor: colors.brand.primary,
-    backgroundColor: "transparent",
-    overflow: "hidden",
+
+  // Chart style toggle
+  styleTabs: {
+    flexDirection: "row",
+    marginBottom: spacing.md,
+    padding: spacing.xs,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface.primary,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+  },
+  styleTab: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.sm,
+    alignItems: "center",
+  },
+  styleTabText: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+  },
+  subjectTabs: {
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+    marginBottom: 0,
   },
 
-  // --- Correct North Indian grid lines ---
-  diagonalLine1: {
-    position: "absolute",
-    width: "141.4%", // sqrt(2) * 100%
-    height: 2,
-    backgroundColor: colors.brand.primary,
-    top: "50%",
-    left: "-20.7%",
-    transform: [{ rotate: "45deg" }],
-  },
-  diagonalLine2: {
-    position: "absolute",
-    width: "141.4%",
-    height: 2,
-    backgroundColor: colors.brand.primary,
-    top: "50%",
-    left: "-20.7%",
-    transform: [{ rotate: "-45deg" }],
-  },
-  centerSquare: {
-    position: "absolute",
-    top: "14.4%",
-    left: "14.4%",
-    width: "71.2%", // fits exactly between midpoints
-    height: "71.2%",
-    borderWidth: 2,
-    borderColor: colors.brand.primary,
-    transform: [{ rotate: "45deg" }],
+  // Planetary positions
+  positionRow: {
+    flexDirection: "row",
     alignItems: "center",
-    justifyContent: "center",
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.xs,
+    ...shadows.subtle,
   },
-  ascendantText: {
-    transform: [{ rotate: "-45deg" }],
-    fontSize: Math.min(screenWidth * 0.04, 18),
-    fontWeight: "700",
-    color: colors.brand.primary,
-    position: "absolute",
-    top: "40%",
-    right: "50%",
+  positionPlanet: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+    width: 96,
+  },
+  positionText: {
+    fontSize: typography.caption.fontSize,
+    flex: 1,
   },
 
-  // House labels
-  houseContainer: {
-    padding: 4,
+  // KP tables
+  kpTableBlock: {
+    marginBottom: spacing.md,
+  },
+  kpTableTitle: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+    marginBottom: spacing.sm,
+  },
+  kpTable: {
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    ...shadows.subtle,
+  },
+  kpRow: {
+    flexDirection: "row",
     alignItems: "center",
-    justifyContent: "center",
+    paddingVertical: 6,
+  },
+  kpBodyRow: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border.subtle,
+  },
+  kpLabel: {
+    width: 72,
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+  },
+  kpCell: {
+    minWidth: 56,
+    paddingHorizontal: 4,
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
   },
-  houseNumberText: {
-    fontSize: 12,
+  kpHeaderCell: {
     fontWeight: "700",
-    color: colors.brand.primary,
-    marginBottom: 2,
   },
-  houseSignText: {
-    fontSize: 10,
-    color: colors.text.tertiary,
-    marginBottom: 2,
+  exportButton: {
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    alignItems: "center",
+    marginTop: spacing.sm,
   },
-  planetsRow: {
+  exportButtonText: {
+    color: "#FFFFFF",
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+  },
+
+  // Shadbala and Bhava Bala
+  balaCard: {
+    borderRadius: radius.md,
+    padding: spacing.md,
+    ...shadows.subtle,
+  },
+  balaRow: {
     flexDirection: "row",
-    flexWrap: "wrap",
-    gap: 2,
     alignItems: "center",
-    justifyContent: "center",
+    paddingVertical: 6,
   },
-  planetChip: {
-    fontSize: 10,
+  balaLabel: {
+    width: 72,
+    fontSize: typography.caption.fontSize,
     fontWeight: "600",
-    color: colors.brand.light,
-    marginHorizontal: 2,
+  },
+  balaTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  balaFill: {
+    height: "100%",
+    borderRadius: 4,
+  },
+  balaMarker: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    width: 2,
+  },
+  balaValue: {
+    width: 40,
+    fontSize: typography.caption.fontSize,
+    textAlign: "right",
   },
 
   // Sections
@@ -525,6 +1313,14 @@ const styles = StyleSheet.create({
     marginBottom: spacing.sm,
     ...shadows.subtle,
   },
+  readingBody: {
+    flex: 1,
+  },
+  readingTitle: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+    marginBottom: 2,
+  },
   emoj: {
     fontSize: 20,
     marginRight: spacing.sm,
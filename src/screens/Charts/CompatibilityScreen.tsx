@@ -0,0 +1,573 @@
+/**
+ * Corp Astro - Marriage Compatibility Screen
+ *
+ * Ashtakoota (Guna Milan) matching from the on-device astro engine:
+ * - Partner birth details entered against the user's saved profile
+ * - Side-by-side Moon placements and Mangal dosha status
+ * - All eight kootas with each partner's attribute and the points scored
+ * - Nadi, Bhakoot and Gana doshas with their cancellations
+ *
+ * @module CompatibilityScreen
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  TouchableOpacity,
+  ColorValue,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+
+// Design System
+import {
+  spacing,
+  typography,
+  radius,
+  colors,
+  shadows,
+} from "../../components/DesignSystem/designTokens";
+
+// Layout
+import CorporateProfessionalHeader from "../../components/professional/CorporateProfessionalHeader";
+import { PersonBirthForm } from "../../components/menusection/PersonBirthForm";
+import { BirthDetailsPrompt } from "../../components/menusection/BirthDetailsPrompt";
+
+// Stores
+import { useSettingsStore } from "@/stores/settingsStore";
+import { BirthDetails, birthDetailsInput, useProfileStore } from "@/stores/profileStore";
+import { useBirthInput } from "@/hooks/useBirthInput";
+
+// Astro engine
+import {
+  calculateAshtakoota,
+  castChart,
+  AshtakootaResult,
+  BirthInput,
+  MangalStatus,
+  MATCH_VERDICTS,
+  NAKSHATRAS,
+  NatalChart,
+  SIGNS,
+} from "../../astro";
+
+/**
+ * Stack params for navigation
+ */
+type RootStackParamList = {
+  Home: undefined;
+  CompatibilityScreen: {
+    title?: string;
+  };
+};
+
+type CompatibilityScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "CompatibilityScreen"
+>;
+
+type CompatibilityScreenRouteProp = RouteProp<
+  RootStackParamList,
+  "CompatibilityScreen"
+>;
+
+type MatchRole = "groom" | "bride";
+
+// --- Helpers ---
+
+const ROLES: { id: MatchRole; label: string }[] = [
+  { id: "groom", label: "I am the groom" },
+  { id: "bride", label: "I am the bride" },
+];
+
+const roleFromGender = (gender: string): MatchRole =>
+  /^(f|female|woman)$/i.test(gender.trim()) ? "bride" : "groom";
+
+const moonLine = (natal: NatalChart) => {
+  const moon = natal.planets.find((planet) => planet.id === "Mo");
+  return moon
+    ? `${SIGNS[moon.sign].name} · ${NAKSHATRAS[moon.nakshatra].name} pada ${moon.pada}`
+    : "";
+};
+
+const mangalLine = (status: MangalStatus) =>
+  !status.present
+    ? "No Mangal dosha"
+    : status.fromLagna && status.fromMoon
+      ? "Mangal dosha from Lagna and Moon"
+      : status.fromLagna
+        ? "Mangal dosha from Lagna"
+        : "Mangal dosha from Moon";
+
+const verdictColor = (result: AshtakootaResult): ColorValue =>
+  result.verdict === "excellent" || result.verdict === "good"
+    ? colors.brand.light
+    : result.verdict === "average"
+      ? colors.luxury.bronze
+      : colors.mystical.light;
+
+const formatPoints = (points: number) =>
+  Number.isInteger(points) ? String(points) : points.toFixed(1);
+
+const CompatibilityScreen: React.FC = () => {
+  const navigation = useNavigation<CompatibilityScreenNavigationProp>();
+  const route = useRoute<CompatibilityScreenRouteProp>();
+
+  const title = route.params?.title ?? "Marriage Compatibility";
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+  const profileName = useProfileStore((state) => state.name);
+  const gender = useProfileStore((state) => state.gender);
+  const profileBirthInput = useBirthInput();
+
+  const [role, setRole] = useState<MatchRole>(() => roleFromGender(gender));
+  const [partnerName, setPartnerName] = useState("");
+  const [partnerInput, setPartnerInput] = useState<BirthInput | null>(null);
+
+  // --- Match Data ---
+  const userChart = useMemo(
+    () => (profileBirthInput ? castChart(profileBirthInput, { ayanamsa }) : null),
+    [profileBirthInput, ayanamsa]
+  );
+  const partnerChart = useMemo(
+    () => (partnerInput ? castChart(partnerInput, { ayanamsa }) : null),
+    [partnerInput, ayanamsa]
+  );
+  const result = useMemo(
+    () =>
+      userChart && partnerChart
+        ? role === "groom"
+          ? calculateAshtakoota(userChart, partnerChart)
+          : calculateAshtakoota(partnerChart, userChart)
+        : null,
+    [userChart, partnerChart, role]
+  );
+
+  const youName = profileName || "You";
+  const partnerLabel = partnerName.trim() || "Partner";
+
+  const handleMatch = (name: string, birth: BirthDetails) => {
+    setPartnerName(name);
+    setPartnerInput(birthDetailsInput(birth));
+  };
+
+  // --- UI Sections ---
+  const renderPartnerForm = () => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        Partner Details
+      </Text>
+
+      <View style={styles.styleTabs}>
+        {ROLES.map((option) => {
+          const isSelected = role === option.id;
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[
+                styles.styleTab,
+                isSelected && { backgroundColor: colors.brand.primary },
+              ]}
+              onPress={() => setRole(option.id)}
+              accessibilityRole="tab"
+              accessibilityState={{ selected: isSelected }}
+            >
+              <Text
+                style={[
+                  styles.styleTabText,
+                  { color: isSelected ? "#FFFFFF" : colors.text.secondary },
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <PersonBirthForm
+        personLabel="Partner"
+        submitLabel="Match Charts"
+        onSubmit={handleMatch}
+      />
+    </View>
+  );
+
+  const renderScoreCard = (match: AshtakootaResult) => (
+    <View style={styles.section}>
+      <View
+        style={[
+          styles.scoreCard,
+          { backgroundColor: colors.cosmos.deep, borderColor: verdictColor(match) },
+        ]}
+      >
+        <Text style={[styles.scoreLabel, { color: colors.text.tertiary }]}>
+          Guna Milan
+        </Text>
+        <Text style={[styles.scoreValue, { color: verdictColor(match) }]}>
+          {formatPoints(match.adjustedTotal)} / {match.maxTotal}
+        </Text>
+        <Text style={[styles.scoreVerdict, { color: colors.text.primary }]}>
+          {MATCH_VERDICTS.find((verdict) => verdict.id === match.verdict)?.name}
+        </Text>
+        {match.adjustedTotal !== match.total && (
+          <Text style={[styles.captionText, { color: colors.text.secondary }]}>
+            {formatPoints(match.total)} before dosha cancellations
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderPeople = (
+    match: AshtakootaResult,
+    user: NatalChart,
+    partner: NatalChart
+  ) => {
+    const people = [
+      {
+        key: "you",
+        name: youName,
+        chart: user,
+        mangal: role === "groom" ? match.mangal.groom : match.mangal.bride,
+      },
+      {
+        key: "partner",
+        name: partnerLabel,
+        chart: partner,
+        mangal: role === "groom" ? match.mangal.bride : match.mangal.groom,
+      },
+    ];
+    return (
+      <View style={styles.section}>
+        <View style={styles.peopleRow}>
+          {people.map((person) => (
+            <View
+              key={person.key}
+              style={[styles.personCard, { backgroundColor: colors.cosmos.deep }]}
+            >
+              <Text style={[styles.personName, { color: colors.text.primary }]}>
+                {person.name}
+              </Text>
+              <Text style={[styles.personLine, { color: colors.text.secondary }]}>
+                Moon: {moonLine(person.chart)}
+              </Text>
+              <Text
+                style={[
+                  styles.personLine,
+                  {
+                    color: person.mangal.present
+                      ? colors.mystical.light
+                      : colors.text.tertiary,
+                  },
+                ]}
+              >
+                {mangalLine(person.mangal)}
+              </Text>
+            </View>
+          ))}
+        </View>
+        <Text
+          style={[
+            styles.captionText,
+            {
+              color: match.mangal.matched
+                ? colors.text.secondary
+                : colors.mystical.light,
+            },
+          ]}
+        >
+          {match.mangal.description}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderKootas = (match: AshtakootaResult) => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        Ashtakoota
+      </Text>
+      <View style={[styles.kootaTable, { backgroundColor: colors.cosmos.deep }]}>
+        <View style={styles.kootaRow}>
+          <Text style={[styles.kootaName, { color: colors.text.tertiary }]}>
+            Koota
+          </Text>
+          <Text style={[styles.kootaCell, { color: colors.text.tertiary }]}>
+            {youName}
+          </Text>
+          <Text style={[styles.kootaCell, { color: colors.text.tertiary }]}>
+            {partnerLabel}
+          </Text>
+          <Text style={[styles.kootaPoints, { color: colors.text.tertiary }]}>
+            Points
+          </Text>
+        </View>
+        {match.kootas.map((koota) => {
+          const you = role === "groom" ? koota.groom : koota.bride;
+          const partner = role === "groom" ? koota.bride : koota.groom;
+          return (
+            <View key={koota.id} style={[styles.kootaRow, styles.kootaBodyRow]}>
+              <Text style={[styles.kootaName, { color: colors.brand.light }]}>
+                {koota.name}
+              </Text>
+              <Text style={[styles.kootaCell, { color: colors.text.secondary }]}>
+                {you}
+              </Text>
+              <Text style={[styles.kootaCell, { color: colors.text.secondary }]}>
+                {partner}
+              </Text>
+              <Text
+                style={[
+                  styles.kootaPoints,
+                  {
+                    color:
+                      koota.points === 0 ? colors.mystical.light : colors.text.primary,
+                  },
+                ]}
+              >
+                {formatPoints(koota.points)}/{koota.maxPoints}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  const renderDoshas = (match: AshtakootaResult) => {
+    const doshas = match.kootas.filter((koota) => koota.dosha);
+    if (doshas.length === 0) return null;
+    return (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+          Doshas
+        </Text>
+        {doshas.map((koota) => (
+          <View
+            key={koota.id}
+            style={[styles.doshaRow, { backgroundColor: colors.cosmos.deep }]}
+          >
+            <View
+              style={[
+                styles.doshaBar,
+                {
+                  backgroundColor: koota.dosha?.cancelled
+                    ? colors.brand.light
+                    : colors.mystical.light,
+                },
+              ]}
+            />
+            <View style={styles.doshaBody}>
+              <Text style={[styles.doshaTitle, { color: colors.text.primary }]}>
+                {koota.dosha?.name} · {koota.dosha?.cancelled ? "Cancelled" : "Present"}
+              </Text>
+              <Text style={[styles.doshaText, { color: colors.text.secondary }]}>
+                {koota.dosha?.reason ??
+                  `No cancellation applies; ${koota.name} scores ${formatPoints(koota.points)} of ${koota.maxPoints}`}
+              </Text>
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  // --- Screen Render ---
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.cosmos.void }]}
+    >
+      <CorporateProfessionalHeader
+        title={title}
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {userChart ? (
+          <>
+            {renderPartnerForm()}
+            {result && partnerChart && (
+              <>
+                {renderScoreCard(result)}
+                {renderPeople(result, userChart, partnerChart)}
+                {renderKootas(result)}
+                {renderDoshas(result)}
+              </>
+            )}
+          </>
+        ) : (
+          <BirthDetailsPrompt message="Save your own birth details first; matching reads both Moons." />
+        )}
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default CompatibilityScreen;
+
+// --- Styles ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+  section: {
+    paddingHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.heading2.fontSize,
+    fontWeight: "600",
+    marginBottom: spacing.md,
+    textAlign: "center",
+  },
+  captionText: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+
+  // Partner form
+  styleTabs: {
+    flexDirection: "row",
+    marginBottom: spacing.md,
+    padding: spacing.xs,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface.primary,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+  },
+  styleTab: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.sm,
+    alignItems: "center",
+  },
+  styleTabText: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+  },
+
+  // Score
+  scoreCard: {
+    borderRadius: radius.lg,
+    padding: spacing.lg,
+    alignItems: "center",
+    borderWidth: 1,
+    ...shadows.emphasis,
+  },
+  scoreLabel: {
+    fontSize: typography.caption.fontSize,
+    marginBottom: spacing.xs,
+  },
+  scoreValue: {
+    fontSize: typography.heading1.fontSize,
+    fontWeight: "700",
+  },
+  scoreVerdict: {
+    fontSize: typography.bodyLarge.fontSize,
+    fontWeight: "600",
+    marginTop: spacing.xs,
+  },
+
+  // Side by side
+  peopleRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  personCard: {
+    width: "48.5%",
+    borderRadius: radius.md,
+    padding: spacing.md,
+    ...shadows.subtle,
+  },
+  personName: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "700",
+    marginBottom: spacing.xs,
+  },
+  personLine: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+
+  // Koota table
+  kootaTable: {
+    borderRadius: radius.md,
+    padding: spacing.sm,
+    ...shadows.subtle,
+  },
+  kootaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.xs,
+  },
+  kootaBodyRow: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border.subtle,
+  },
+  kootaName: {
+    flex: 1.1,
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+  },
+  kootaCell: {
+    flex: 1,
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+  },
+  kootaPoints: {
+    width: 52,
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+    textAlign: "right",
+  },
+
+  // Doshas
+  doshaRow: {
+    flexDirection: "row",
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingRight: spacing.md,
+    marginBottom: spacing.xs,
+    overflow: "hidden",
+    ...shadows.subtle,
+  },
+  doshaBar: {
+    width: 4,
+    alignSelf: "stretch",
+    marginRight: spacing.md,
+  },
+  doshaBody: {
+    flex: 1,
+  },
+  doshaTitle: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+  },
+  doshaText: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,375 @@
+/**
+ * Corp Astro - Dasha Timeline Screen
+ *
+ * Vimshottari / Ashtottari timeline from the on-device astro engine:
+ * - Currently running Mahadasha, Antardasha and Pratyantardasha
+ * - Collapsible Mahadasha → Antardasha → Pratyantardasha list
+ * - Running periods highlighted at every level
+ *
+ * @module DashaScreen
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  Pressable,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Ionicons } from "@expo/vector-icons";
+
+// Design System
+import {
+  spacing,
+  typography,
+  radius,
+  colors,
+  shadows,
+} from "../../components/DesignSystem/designTokens";
+
+// Layout
+import CorporateProfessionalHeader from "../../components/professional/CorporateProfessionalHeader";
+import { BirthDetailsPrompt } from "../../components/menusection/BirthDetailsPrompt";
+
+// Stores
+import { useSettingsStore } from "@/stores/settingsStore";
+import { useBirthInput } from "@/hooks/useBirthInput";
+
+// Astro engine
+import {
+  castChart,
+  calculateNatalDashas,
+  findRunningPeriods,
+  getGraha,
+  BirthInput,
+  DashaPeriod,
+  DashaSystemId,
+  DASHA_LEVEL_NAMES,
+} from "../../astro";
+
+/**
+ * Stack params for navigation
+ */
+type RootStackParamList = {
+  Home: undefined;
+  DashaScreen: {
+    chartId: string;
+    chartType: string;
+    title: string;
+    birthInput?: BirthInput;
+  };
+};
+
+type DashaScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "DashaScreen"
+>;
+
+type DashaScreenRouteProp = RouteProp<RootStackParamList, "DashaScreen">;
+
+// --- Helpers ---
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-US", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+const formatYears = (years: number) => {
+  const totalMonths = Math.round(years * 12);
+  const y = Math.floor(totalMonths / 12);
+  const m = totalMonths % 12;
+  if (y === 0) return `${m}m`;
+  return m === 0 ? `${y}y` : `${y}y ${m}m`;
+};
+
+const periodKey = (period: DashaPeriod) => `${period.level}-${period.startJd}`;
+
+/**
+ * Dasha timeline of a birth chart
+ */
+const DashaReading: React.FC<{ birthInput: BirthInput; system: DashaSystemId }> = ({
+  birthInput,
+  system,
+}) => {
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+
+  // --- Dasha Data ---
+  const timeline = useMemo(
+    () =>
+      calculateNatalDashas(
+        castChart(birthInput, { ayanamsa }),
+        system
+      ),
+    [birthInput, ayanamsa, system]
+  );
+  const running = useMemo(
+    () => findRunningPeriods(timeline.mahadashas),
+    [timeline]
+  );
+  const runningKeys = useMemo(
+    () => new Set(running.map(periodKey)),
+    [running]
+  );
+
+  // Running Mahadasha and Antardasha start expanded
+  const [expanded, setExpanded] = useState<Set<string>>(
+    () => new Set(running.slice(0, 2).map(periodKey))
+  );
+
+  const toggle = (key: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // --- UI Sections ---
+  const renderRunningSection = () => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        Running Now
+      </Text>
+      <View style={[styles.summaryCard, { backgroundColor: colors.cosmos.deep }]}>
+        {running.length === 0 ? (
+          <Text style={[styles.summaryText, { color: colors.text.secondary }]}>
+            Today is outside this dasha cycle
+          </Text>
+        ) : (
+          running.map((period) => (
+            <View key={periodKey(period)} style={styles.summaryRow}>
+              <Text style={[styles.summaryLevel, { color: colors.text.tertiary }]}>
+                {DASHA_LEVEL_NAMES[period.level]}
+              </Text>
+              <Text style={[styles.summaryLord, { color: colors.brand.light }]}>
+                {getGraha(period.lord).name}
+              </Text>
+              <Text style={[styles.summaryText, { color: colors.text.secondary }]}>
+                until {formatDate(period.end)}
+              </Text>
+            </View>
+          ))
+        )}
+        <Text style={[styles.balanceText, { color: colors.text.tertiary }]}>
+          Balance at birth: {getGraha(timeline.birthLord).name}{" "}
+          {formatYears(timeline.balanceYears)}
+        </Text>
+      </View>
+    </View>
+  );
+
+  const renderPeriod = (period: DashaPeriod) => {
+    const key = periodKey(period);
+    const isRunning = runningKeys.has(key);
+    const isOpen = expanded.has(key);
+    const hasChildren = period.periods.length > 0;
+
+    return (
+      <View
+        key={key}
+        style={period.level > 1 ? styles.nestedPeriod : undefined}
+      >
+        <Pressable
+          style={({ pressed }) => [
+            styles.periodRow,
+            period.level === 1 && styles.mahadashaRow,
+            { backgroundColor: colors.cosmos.deep, opacity: pressed ? 0.8 : 1 },
+            isRunning && styles.runningRow,
+          ]}
+          onPress={() => hasChildren && toggle(key)}
+          accessibilityRole="button"
+          accessibilityState={{ expanded: hasChildren ? isOpen : undefined }}
+          accessibilityLabel={`${getGraha(period.lord).name} ${DASHA_LEVEL_NAMES[period.level]}`}
+        >
+          <View style={styles.periodText}>
+            <Text
+              style={[
+                period.level === 1 ? styles.periodLordLarge : styles.periodLord,
+                { color: isRunning ? colors.brand.primary : colors.text.primary },
+              ]}
+            >
+              {getGraha(period.lord).name}
+              {isRunning ? "  •  Running" : ""}
+            </Text>
+            <Text style={[styles.periodDates, { color: colors.text.secondary }]}>
+              {formatDate(period.start)} – {formatDate(period.end)} ·{" "}
+              {formatYears(period.years)}
+            </Text>
+          </View>
+          {hasChildren && (
+            <Ionicons
+              name={isOpen ? "chevron-up" : "chevron-down"}
+              size={18}
+              color={colors.text.tertiary}
+            />
+          )}
+        </Pressable>
+        {isOpen && period.periods.map(renderPeriod)}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      {renderRunningSection()}
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+          {timeline.system.name} Timeline
+        </Text>
+        <Text style={[styles.captionText, { color: colors.text.tertiary }]}>
+          {timeline.system.totalYears}-year cycle · tap a period to expand
+        </Text>
+        {timeline.mahadashas.map(renderPeriod)}
+      </View>
+    </>
+  );
+};
+
+const DashaScreen: React.FC = () => {
+  const navigation = useNavigation<DashaScreenNavigationProp>();
+  const route = useRoute<DashaScreenRouteProp>();
+
+  const { chartType, title, birthInput } = route.params;
+  const profileBirthInput = useBirthInput();
+  const natalInput = birthInput ?? profileBirthInput;
+  const system: DashaSystemId =
+    chartType === "ashtottari" ? "ashtottari" : "vimshottari";
+
+  // --- Screen Render ---
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.cosmos.void }]}
+    >
+      <CorporateProfessionalHeader
+        title={title}
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {natalInput ? (
+          <DashaReading birthInput={natalInput} system={system} />
+        ) : (
+          <BirthDetailsPrompt message="Save your birth details first; dashas run from your natal Moon." />
+        )}
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default DashaScreen;
+
+// --- Styles ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+  section: {
+    paddingHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.heading2.fontSize,
+    fontWeight: "600",
+    marginBottom: spacing.md,
+    textAlign: "center",
+  },
+  captionText: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+    marginTop: -spacing.sm,
+    marginBottom: spacing.md,
+  },
+
+  // Running summary
+  summaryCard: {
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.brand.primary,
+    ...shadows.emphasis,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.xs,
+  },
+  summaryLevel: {
+    fontSize: typography.caption.fontSize,
+    width: 120,
+  },
+  summaryLord: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+    width: 80,
+  },
+  summaryText: {
+    fontSize: typography.caption.fontSize,
+    flex: 1,
+  },
+  balanceText: {
+    fontSize: typography.caption.fontSize,
+    marginTop: spacing.sm,
+  },
+
+  // Timeline
+  periodRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.xs,
+    borderWidth: 1,
+    borderColor: "transparent",
+    ...shadows.subtle,
+  },
+  mahadashaRow: {
+    paddingVertical: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  runningRow: {
+    borderColor: colors.brand.primary,
+  },
+  nestedPeriod: {
+    marginLeft: spacing.lg,
+  },
+  periodText: {
+    flex: 1,
+  },
+  periodLordLarge: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "700",
+  },
+  periodLord: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+  },
+  periodDates: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,482 @@
+/**
+ * Corp Astro - Choghadiya & Hora Screen
+ *
+ * Live day/night timing tables from the on-device astro engine, at the
+ * user's current place:
+ * - Current Choghadiya or planetary hora with time remaining
+ * - 8 day + 8 night Choghadiya segments
+ * - 12 day + 12 night planetary horas
+ *
+ * @module MuhurtaScreen
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  Pressable,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+
+// Design System
+import {
+  spacing,
+  typography,
+  radius,
+  colors,
+  shadows,
+} from "../../components/DesignSystem/designTokens";
+
+// Layout
+import CorporateProfessionalHeader from "../../components/professional/CorporateProfessionalHeader";
+import { CurrentPlaceRow } from "../../components/menusection/CurrentPlaceRow";
+
+// Stores
+import { useSettingsStore } from "@/stores/settingsStore";
+import { useCurrentPlace } from "@/hooks/useCurrentPlace";
+
+// Astro engine
+import {
+  calculatePanchang,
+  calculateDailyChoghadiyas,
+  calculateDailyHoras,
+  findCurrentPeriod,
+  formatClockTime,
+  getGraha,
+  placeLocalTime,
+  placeLocation,
+  ChoghadiyaInfo,
+  GrahaId,
+  Place,
+  TimePeriod,
+} from "../../astro";
+
+type MuhurtaMode = "choghadiya" | "hora";
+
+/**
+ * Stack params for navigation
+ */
+type RootStackParamList = {
+  Home: undefined;
+  MuhurtaScreen: {
+    mode: MuhurtaMode;
+    title: string;
+  };
+};
+
+type MuhurtaScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "MuhurtaScreen"
+>;
+
+type MuhurtaScreenRouteProp = RouteProp<RootStackParamList, "MuhurtaScreen">;
+
+/** What each planetary hora favours */
+const HORA_USES: Partial<Record<GrahaId, string>> = {
+  Su: "Government, authority and leadership",
+  Mo: "Public dealings, travel and creative work",
+  Ma: "Property, competition and bold action",
+  Me: "Communication, contracts and trade",
+  Ju: "Finance, education and counsel",
+  Ve: "Partnerships, arts and luxury",
+  Sa: "Routine, labour and long-term work",
+};
+
+/** Benefic hora lords */
+const BENEFIC_HORAS: GrahaId[] = ["Mo", "Me", "Ju", "Ve"];
+
+/** Row shown in either table */
+interface TimingRow extends TimePeriod {
+  name: string;
+  detail: string;
+  nature: ChoghadiyaInfo["nature"];
+  isDay: boolean;
+}
+
+// --- Helpers ---
+const localDateKey = (place: Place, date: Date, dayOffset: number = 0) => {
+  const { year, month, day } = placeLocalTime(place, date);
+  return new Date(Date.UTC(year, month - 1, day + dayOffset))
+    .toISOString()
+    .slice(0, 10);
+};
+
+const natureColor = (nature: TimingRow["nature"]) => {
+  if (nature === "auspicious") return colors.brand.light;
+  if (nature === "inauspicious") return colors.mystical.light;
+  return colors.text.tertiary;
+};
+
+/**
+ * Choghadiya and hora tables at a place
+ */
+const MuhurtaTimings: React.FC<{ place: Place; initialMode: MuhurtaMode }> = ({
+  place,
+  initialMode,
+}) => {
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+  const [mode, setMode] = useState<MuhurtaMode>(initialMode);
+  const [now, setNow] = useState(new Date());
+
+  // Keep the current segment live
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // --- Timing Data ---
+  const today = localDateKey(place, now);
+  const yesterday = localDateKey(place, now, -1);
+  const panchangs = useMemo(
+    () =>
+      [yesterday, today].map((key) => {
+        const [year, month, day] = key.split("-").map(Number);
+        return calculatePanchang(
+          year,
+          month,
+          day,
+          placeLocation(place, year, month, day),
+          { ayanamsa }
+        );
+      }),
+    [place, yesterday, today, ayanamsa]
+  );
+
+  // Before sunrise the previous day's night is still running
+  const panchang =
+    panchangs[1].sunrise && now < panchangs[1].sunrise
+      ? panchangs[0]
+      : panchangs[1];
+
+  const rows: TimingRow[] = useMemo(
+    () =>
+      mode === "choghadiya"
+        ? calculateDailyChoghadiyas(panchang).map((period) => ({
+            start: period.start,
+            end: period.end,
+            name: period.choghadiya.name,
+            detail: period.choghadiya.meaning,
+            nature: period.choghadiya.nature,
+            isDay: period.isDay,
+          }))
+        : calculateDailyHoras(panchang).map((period) => ({
+            start: period.start,
+            end: period.end,
+            name: `${getGraha(period.lord).name} Hora`,
+            detail: HORA_USES[period.lord] ?? "",
+            nature: BENEFIC_HORAS.includes(period.lord)
+              ? "auspicious"
+              : "neutral",
+            isDay: period.isDay,
+          })),
+    [mode, panchang]
+  );
+  const current = findCurrentPeriod(rows, now);
+
+  const formatTime = (date: Date) =>
+    formatClockTime(date, panchang.location.utcOffset);
+
+  // --- UI Sections ---
+  const renderModeTabs = () => (
+    <View style={styles.tabs}>
+      {(["choghadiya", "hora"] as MuhurtaMode[]).map((tab) => (
+        <Pressable
+          key={tab}
+          style={[
+            styles.tab,
+            mode === tab && { backgroundColor: colors.brand.primary },
+          ]}
+          onPress={() => setMode(tab)}
+          accessibilityRole="tab"
+          accessibilityState={{ selected: mode === tab }}
+        >
+          <Text
+            style={[
+              styles.tabText,
+              { color: mode === tab ? "#FFFFFF" : colors.text.secondary },
+            ]}
+          >
+            {tab === "choghadiya" ? "Choghadiya" : "Hora"}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  const renderCurrentCard = () => {
+    if (!current) {
+      return (
+        <View style={[styles.currentCard, { backgroundColor: colors.cosmos.deep }]}>
+          <Text style={[styles.currentDetail, { color: colors.text.secondary }]}>
+            No sunrise or sunset at this location today
+          </Text>
+        </View>
+      );
+    }
+
+    const elapsed =
+      (now.getTime() - current.start.getTime()) /
+      (current.end.getTime() - current.start.getTime());
+    return (
+      <View
+        style={[
+          styles.currentCard,
+          {
+            backgroundColor: colors.cosmos.deep,
+            borderColor: natureColor(current.nature),
+          },
+        ]}
+      >
+        <Text style={[styles.currentLabel, { color: colors.text.tertiary }]}>
+          Now
+        </Text>
+        <Text
+          style={[styles.currentName, { color: natureColor(current.nature) }]}
+        >
+          {current.name}
+        </Text>
+        <Text style={[styles.currentDetail, { color: colors.text.secondary }]}>
+          {current.detail}
+        </Text>
+        <View style={styles.progressTrack}>
+          <View
+            style={[
+              styles.progressFill,
+              {
+                width: `${Math.round(elapsed * 100)}%`,
+                backgroundColor: natureColor(current.nature),
+              },
+            ]}
+          />
+        </View>
+        <Text style={[styles.currentDetail, { color: colors.text.tertiary }]}>
+          {formatTime(current.start)} – {formatTime(current.end)} ·{" "}
+          {Math.max(1, Math.round((current.end.getTime() - now.getTime()) / 60000))}{" "}
+          min left
+        </Text>
+      </View>
+    );
+  };
+
+  const renderTable = (isDay: boolean) => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        {isDay ? "Day" : "Night"}
+      </Text>
+      {rows
+        .filter((row) => row.isDay === isDay)
+        .map((row) => {
+          const isCurrent = row === current;
+          return (
+            <View
+              key={row.start.getTime()}
+              style={[
+                styles.row,
+                { backgroundColor: colors.cosmos.deep },
+                isCurrent && { borderColor: natureColor(row.nature) },
+                row.end <= now && styles.pastRow,
+              ]}
+            >
+              <Text style={[styles.rowTime, { color: colors.text.secondary }]}>
+                {formatTime(row.start)} – {formatTime(row.end)}
+              </Text>
+              <View style={styles.rowText}>
+                <Text
+                  style={[styles.rowName, { color: natureColor(row.nature) }]}
+                >
+                  {row.name}
+                  {isCurrent ? "  •  Now" : ""}
+                </Text>
+                <Text
+                  style={[styles.rowDetail, { color: colors.text.tertiary }]}
+                >
+                  {row.detail}
+                </Text>
+              </View>
+            </View>
+          );
+        })}
+    </View>
+  );
+
+  return (
+    <>
+      {renderModeTabs()}
+      <Text style={[styles.captionText, { color: colors.text.tertiary }]}>
+        {panchang.vara.name} · Sunrise{" "}
+        {panchang.sunrise ? formatTime(panchang.sunrise) : "—"} · Sunset{" "}
+        {panchang.sunset ? formatTime(panchang.sunset) : "—"}
+      </Text>
+      <View style={styles.section}>{renderCurrentCard()}</View>
+      {renderTable(true)}
+      {renderTable(false)}
+    </>
+  );
+};
+
+const MuhurtaScreen: React.FC = () => {
+  const navigation = useNavigation<MuhurtaScreenNavigationProp>();
+  const route = useRoute<MuhurtaScreenRouteProp>();
+
+  const { title, mode } = route.params;
+  const currentPlace = useCurrentPlace();
+
+  // --- Screen Render ---
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.cosmos.void }]}
+    >
+      <CorporateProfessionalHeader
+        title={title}
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.section}>
+          <CurrentPlaceRow />
+        </View>
+        {currentPlace ? (
+          <MuhurtaTimings place={currentPlace} initialMode={mode} />
+        ) : (
+          <Text style={[styles.captionText, { color: colors.text.secondary }]}>
+            Choose your location; timings run from its sunrise and sunset.
+          </Text>
+        )}
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default MuhurtaScreen;
+
+// --- Styles ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+  section: {
+    paddingHorizontal: spacing.lg,
+    marginTop: spacing.md,
+  },
+  sectionTitle: {
+    fontSize: typography.heading2.fontSize,
+    fontWeight: "600",
+    marginBottom: spacing.md,
+    textAlign: "center",
+  },
+  captionText: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+
+  // Mode tabs
+  tabs: {
+    flexDirection: "row",
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+    padding: spacing.xs,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface.primary,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.sm,
+    alignItems: "center",
+  },
+  tabText: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+  },
+
+  // Current segment
+  currentCard: {
+    borderRadius: radius.lg,
+    padding: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+    alignItems: "center",
+    ...shadows.emphasis,
+  },
+  currentLabel: {
+    fontSize: typography.caption.fontSize,
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  currentName: {
+    fontSize: typography.heading2.fontSize,
+    fontWeight: "700",
+    marginVertical: spacing.xs,
+  },
+  currentDetail: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+  },
+  progressTrack: {
+    alignSelf: "stretch",
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.surface.tertiary,
+    overflow: "hidden",
+    marginVertical: spacing.md,
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+
+  // Table rows
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.xs,
+    borderWidth: 1,
+    borderColor: "transparent",
+    ...shadows.subtle,
+  },
+  pastRow: {
+    opacity: 0.5,
+  },
+  rowTime: {
+    fontSize: typography.caption.fontSize,
+    width: 132,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+  },
+  rowDetail: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+});
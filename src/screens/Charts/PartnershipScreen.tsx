@@ -0,0 +1,462 @@
+/**
+ * Corp Astro - Partnership Compatibility Screen
+ *
+ * Business partnership report from the on-device astro engine:
+ * - Co-founders saved with their birth details alongside the user's profile
+ * - Team score and rating across every pair of founders
+ * - Per-pair breakdown of 10th, 7th and 11th lords, Mercury, Jupiter and
+ *   dasha overlap
+ * - Risk areas, including the months when both partners run hostile dashas
+ *
+ * @module PartnershipScreen
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  TouchableOpacity,
+  ColorValue,
+} from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Ionicons } from "@expo/vector-icons";
+
+// Design System
+import {
+  spacing,
+  typography,
+  radius,
+  colors,
+  shadows,
+} from "../../components/DesignSystem/designTokens";
+
+// Layout
+import CorporateProfessionalHeader from "../../components/professional/CorporateProfessionalHeader";
+import { PersonBirthForm } from "../../components/menusection/PersonBirthForm";
+import { BirthDetailsPrompt } from "../../components/menusection/BirthDetailsPrompt";
+
+// Stores
+import { useProfileStore } from "@/stores/profileStore";
+import { usePartnersStore } from "@/stores/partnersStore";
+import { usePartnershipReport } from "@/hooks/usePartnershipReport";
+
+// Astro engine
+import {
+  partnershipRating,
+  placeLabel,
+  PartnerPairScore,
+  PartnershipReport,
+  PartnershipRisk,
+  PARTNERSHIP_FACTORS,
+  PARTNERSHIP_RATINGS,
+} from "../../astro";
+
+/**
+ * Stack params for navigation
+ */
+type RootStackParamList = {
+  Home: undefined;
+  PartnershipScreen: undefined;
+};
+
+type PartnershipScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "PartnershipScreen"
+>;
+
+// --- Helpers ---
+
+const scoreColor = (score: number): ColorValue => {
+  const rating = partnershipRating(score);
+  return rating === "strong"
+    ? colors.brand.light
+    : rating === "workable"
+      ? colors.luxury.bronze
+      : colors.mystical.light;
+};
+
+const formatPoints = (points: number) =>
+  Number.isInteger(points) ? String(points) : points.toFixed(1);
+
+const PartnershipScreen: React.FC = () => {
+  const navigation = useNavigation<PartnershipScreenNavigationProp>();
+
+  const profileName = useProfileStore((state) => state.name);
+  const hasBirth = useProfileStore((state) => state.birth !== null);
+  const partners = usePartnersStore((state) => state.partners);
+  const addPartner = usePartnersStore((state) => state.addPartner);
+  const removePartner = usePartnersStore((state) => state.removePartner);
+
+  // --- Partnership Data ---
+  const report = usePartnershipReport();
+
+  const pairLabel = (match: PartnershipReport, a: number, b: number) =>
+    `${match.members[a]} & ${match.members[b]}`;
+
+  // --- UI Sections ---
+  const renderTeam = () => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        Founding Team
+      </Text>
+      <View style={[styles.memberRow, { backgroundColor: colors.cosmos.deep }]}>
+        <View style={styles.memberBody}>
+          <Text style={[styles.memberName, { color: colors.text.primary }]}>
+            {profileName || "You"}
+          </Text>
+          <Text style={[styles.memberLine, { color: colors.text.tertiary }]}>
+            From your profile
+          </Text>
+        </View>
+      </View>
+      {partners.map((partner) => (
+        <View
+          key={partner.id}
+          style={[styles.memberRow, { backgroundColor: colors.cosmos.deep }]}
+        >
+          <View style={styles.memberBody}>
+            <Text style={[styles.memberName, { color: colors.text.primary }]}>
+              {partner.name || "Partner"}
+            </Text>
+            <Text style={[styles.memberLine, { color: colors.text.tertiary }]}>
+              {`${partner.birth.day}/${partner.birth.month}/${partner.birth.year}`}
+              {partner.birth.timeAccuracy === "unknown" ? " · time unknown" : ""}
+              {` · ${placeLabel(partner.birth.place)}`}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => removePartner(partner.id)}
+            accessibilityRole="button"
+            accessibilityLabel={`Remove ${partner.name || "partner"}`}
+          >
+            <Ionicons name="close-circle" size={22} color={colors.text.tertiary} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <Text style={[styles.formTitle, { color: colors.text.secondary }]}>
+        Add a co-founder
+      </Text>
+      <PersonBirthForm
+        personLabel="Co-founder"
+        submitLabel="Add Co-founder"
+        clearOnSubmit
+        onSubmit={addPartner}
+      />
+    </View>
+  );
+
+  const renderScoreCard = (match: PartnershipReport) => (
+    <View style={styles.section}>
+      <View
+        style={[
+          styles.scoreCard,
+          { backgroundColor: colors.cosmos.deep, borderColor: scoreColor(match.score) },
+        ]}
+      >
+        <Text style={[styles.scoreLabel, { color: colors.text.tertiary }]}>
+          {match.pairs.length > 1 ? "Team score" : "Partnership score"}
+        </Text>
+        <Text style={[styles.scoreValue, { color: scoreColor(match.score) }]}>
+          {match.score} / 100
+        </Text>
+        <Text style={[styles.scoreVerdict, { color: colors.text.primary }]}>
+          {PARTNERSHIP_RATINGS.find((rating) => rating.id === match.rating)?.name}
+        </Text>
+        <Text style={[styles.captionText, { color: colors.text.secondary }]}>
+          {match.members.length} founders · {match.risks.length} risk areas
+        </Text>
+      </View>
+    </View>
+  );
+
+  const renderPair = (match: PartnershipReport, pair: PartnerPairScore) => (
+    <View
+      key={`${pair.a}-${pair.b}`}
+      style={[styles.pairCard, { backgroundColor: colors.cosmos.deep }]}
+    >
+      <View style={styles.pairHeader}>
+        <Text style={[styles.pairName, { color: colors.text.primary }]}>
+          {pairLabel(match, pair.a, pair.b)}
+        </Text>
+        <Text style={[styles.pairScore, { color: scoreColor(pair.score) }]}>
+          {pair.score}
+        </Text>
+      </View>
+      {pair.factors.map((factor) => (
+        <View key={factor.id} style={styles.factorRow}>
+          <View style={styles.factorBody}>
+            <Text style={[styles.factorName, { color: colors.brand.light }]}>
+              {factor.name}
+            </Text>
+            <Text style={[styles.factorDetail, { color: colors.text.secondary }]}>
+              {factor.detail}
+            </Text>
+          </View>
+          <Text
+            style={[
+              styles.factorPoints,
+              {
+                color:
+                  factor.harmony < 0.4 ? colors.mystical.light : colors.text.primary,
+              },
+            ]}
+          >
+            {formatPoints(factor.points)}/{factor.weight}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderPairs = (match: PartnershipReport) => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        Pair by Pair
+      </Text>
+      {match.pairs.map((pair) => renderPair(match, pair))}
+      <Text style={[styles.captionText, { color: colors.text.tertiary }]}>
+        {PARTNERSHIP_FACTORS.map((factor) => `${factor.name}: ${factor.description}`).join("\n")}
+      </Text>
+    </View>
+  );
+
+  const renderRisk = (match: PartnershipReport, risk: PartnershipRisk, index: number) => (
+    <View
+      key={index}
+      style={[styles.riskRow, { backgroundColor: colors.cosmos.deep }]}
+    >
+      <View
+        style={[
+          styles.riskBar,
+          {
+            backgroundColor:
+              risk.severity === "high" ? colors.mystical.light : colors.luxury.bronze,
+          },
+        ]}
+      />
+      <View style={styles.riskBody}>
+        <Text style={[styles.riskTitle, { color: colors.text.primary }]}>
+          {PARTNERSHIP_FACTORS.find((factor) => factor.id === risk.factor)?.name} ·{" "}
+          {pairLabel(match, risk.a, risk.b)}
+        </Text>
+        <Text style={[styles.riskText, { color: colors.text.secondary }]}>
+          {risk.description}
+        </Text>
+      </View>
+    </View>
+  );
+
+  const renderRisks = (match: PartnershipReport) => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        Risk Areas
+      </Text>
+      {match.risks.length > 0 ? (
+        match.risks.map((risk, index) => renderRisk(match, risk, index))
+      ) : (
+        <Text style={[styles.captionText, { color: colors.text.secondary }]}>
+          No weak factors or dasha friction in the coming years.
+        </Text>
+      )}
+    </View>
+  );
+
+  // --- Screen Render ---
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.cosmos.void }]}
+    >
+      <CorporateProfessionalHeader
+        title="Partnership Compatibility"
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {hasBirth ? (
+          <>
+            {report && (
+              <>
+                {renderScoreCard(report)}
+                {renderRisks(report)}
+                {renderPairs(report)}
+              </>
+            )}
+            {renderTeam()}
+          </>
+        ) : (
+          <BirthDetailsPrompt message="Save your own birth details first; the report compares your chart with each co-founder's." />
+        )}
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default PartnershipScreen;
+
+// --- Styles ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+  section: {
+    paddingHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.heading2.fontSize,
+    fontWeight: "600",
+    marginBottom: spacing.md,
+    textAlign: "center",
+  },
+  captionText: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+
+  // Team
+  memberRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: radius.md,
+    padding: spacing.md,
+    marginBottom: spacing.xs,
+    ...shadows.subtle,
+  },
+  memberBody: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+  },
+  memberLine: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+  formTitle: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+
+  // Score
+  scoreCard: {
+    borderRadius: radius.lg,
+    padding: spacing.lg,
+    alignItems: "center",
+    borderWidth: 1,
+    ...shadows.emphasis,
+  },
+  scoreLabel: {
+    fontSize: typography.caption.fontSize,
+    marginBottom: spacing.xs,
+  },
+  scoreValue: {
+    fontSize: typography.heading1.fontSize,
+    fontWeight: "700",
+  },
+  scoreVerdict: {
+    fontSize: typography.bodyLarge.fontSize,
+    fontWeight: "600",
+    marginTop: spacing.xs,
+  },
+
+  // Pairs
+  pairCard: {
+    borderRadius: radius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    ...shadows.subtle,
+  },
+  pairHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: spacing.xs,
+  },
+  pairName: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "700",
+  },
+  pairScore: {
+    fontSize: typography.heading3.fontSize,
+    fontWeight: "700",
+  },
+  factorRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.xs,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.subtle,
+  },
+  factorBody: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  factorName: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+  },
+  factorDetail: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+  factorPoints: {
+    width: 52,
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+    textAlign: "right",
+  },
+
+  // Risks
+  riskRow: {
+    flexDirection: "row",
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingRight: spacing.md,
+    marginBottom: spacing.xs,
+    overflow: "hidden",
+    ...shadows.subtle,
+  },
+  riskBar: {
+    width: 4,
+    alignSelf: "stretch",
+    marginRight: spacing.md,
+  },
+  riskBody: {
+    flex: 1,
+  },
+  riskTitle: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+  },
+  riskText: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,357 @@
+/**
+ * Corp Astro - Sade Sati Screen
+ *
+ * Saturn cycle timeline from the on-device astro engine:
+ * - Current Sade Sati or Dhaiya status with days remaining
+ * - Every rising, peak and setting phase across the lifetime
+ * - Kantaka and Ashtama Shani periods between the cycles
+ *
+ * @module SadeSatiScreen
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useMemo } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  ColorValue,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+
+// Design System
+import {
+  spacing,
+  typography,
+  radius,
+  colors,
+  shadows,
+} from "../../components/DesignSystem/designTokens";
+
+// Layout
+import CorporateProfessionalHeader from "../../components/professional/CorporateProfessionalHeader";
+import { BirthDetailsPrompt } from "../../components/menusection/BirthDetailsPrompt";
+
+// Stores
+import { useSettingsStore } from "@/stores/settingsStore";
+import { useBirthInput } from "@/hooks/useBirthInput";
+
+// Astro engine
+import {
+  castChart,
+  calculateSaturnCycles,
+  daysRemaining,
+  getSaturnPhase,
+  saturnPeriodAt,
+  BirthInput,
+  SaturnPeriod,
+  SIGNS,
+} from "../../astro";
+
+/**
+ * Stack params for navigation
+ */
+type RootStackParamList = {
+  Home: undefined;
+  SadeSatiScreen: {
+    chartId: string;
+    chartType: string;
+    title: string;
+    birthInput?: BirthInput;
+  };
+};
+
+type SadeSatiScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "SadeSatiScreen"
+>;
+
+type SadeSatiScreenRouteProp = RouteProp<RootStackParamList, "SadeSatiScreen">;
+
+// --- Helpers ---
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-US", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+/** Sade Sati phases in the inauspicious accent, Dhaiya in bronze */
+const phaseColor = (period: SaturnPeriod): ColorValue =>
+  period.cycle > 0 ? colors.mystical.light : colors.luxury.bronze;
+
+const periodTitle = (period: SaturnPeriod) =>
+  period.cycle > 0
+    ? `Sade Sati ${period.cycle} · ${getSaturnPhase(period.phase).name}`
+    : `Dhaiya · ${getSaturnPhase(period.phase).name}`;
+
+/**
+ * Saturn's cycles over a birth chart's Moon
+ */
+const SadeSatiReading: React.FC<{ birthInput: BirthInput }> = ({ birthInput }) => {
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+
+  // --- Saturn Cycle Data ---
+  const natal = useMemo(
+    () => castChart(birthInput, { ayanamsa }),
+    [birthInput, ayanamsa]
+  );
+  const periods = useMemo(() => calculateSaturnCycles(natal), [natal]);
+  const moonSign = natal.planets.find((planet) => planet.id === "Mo")?.sign ?? 0;
+
+  const now = new Date();
+  const current = saturnPeriodAt(periods, now);
+  const next = periods.find((period) => period.start > now);
+
+  // --- UI Sections ---
+  const renderStatusCard = () => (
+    <View style={styles.section}>
+      <View
+        style={[
+          styles.statusCard,
+          { backgroundColor: colors.cosmos.deep },
+          current && { borderColor: phaseColor(current) },
+        ]}
+      >
+        <Text style={[styles.statusLabel, { color: colors.text.tertiary }]}>
+          Current status · Moon in {SIGNS[moonSign].name}
+        </Text>
+        {current ? (
+          <>
+            <Text style={[styles.statusTitle, { color: phaseColor(current) }]}>
+              {periodTitle(current)}
+            </Text>
+            <Text style={[styles.statusText, { color: colors.text.secondary }]}>
+              Saturn in {SIGNS[current.sign].name} until {formatDate(current.end)}
+            </Text>
+            <Text style={[styles.statusDays, { color: colors.text.primary }]}>
+              {daysRemaining(current, now)} days remaining
+            </Text>
+          </>
+        ) : (
+          <>
+            <Text style={[styles.statusTitle, { color: colors.brand.light }]}>
+              No Sade Sati or Dhaiya
+            </Text>
+            {next && (
+              <Text style={[styles.statusText, { color: colors.text.secondary }]}>
+                Next: {periodTitle(next)} from {formatDate(next.start)}
+              </Text>
+            )}
+          </>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderTimeline = () => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        Lifetime Timeline
+      </Text>
+      {periods.map((period, index) => {
+        const isCurrent = period === current;
+        // Each Sade Sati cycle opens with a header spanning all its phases
+        const opensCycle =
+          period.cycle > 0 && periods[index - 1]?.cycle !== period.cycle;
+        const cyclePeriods = periods.filter((item) => item.cycle === period.cycle);
+        return (
+          <View key={`${period.phase}-${period.start.getTime()}`}>
+            {opensCycle && (
+              <Text style={[styles.cycleHeader, { color: colors.text.primary }]}>
+                Sade Sati {period.cycle} · {cyclePeriods[0].start.getFullYear()}–
+                {cyclePeriods[cyclePeriods.length - 1].end.getFullYear()}
+              </Text>
+            )}
+            <View
+              style={[
+                styles.periodRow,
+                { backgroundColor: colors.cosmos.deep },
+                isCurrent && styles.currentRow,
+                period.end <= now && styles.pastRow,
+              ]}
+            >
+              <View
+                style={[styles.phaseBar, { backgroundColor: phaseColor(period) }]}
+              />
+              <View style={styles.periodBody}>
+                <Text style={[styles.periodTitle, { color: colors.text.primary }]}>
+                  {getSaturnPhase(period.phase).name}
+                  {period.cycle === 0 ? " · Dhaiya" : ""}
+                </Text>
+                <Text
+                  style={[styles.periodDates, { color: colors.text.secondary }]}
+                >
+                  {formatDate(period.start)} – {formatDate(period.end)}
+                </Text>
+              </View>
+              <Text style={[styles.periodSign, { color: colors.text.tertiary }]}>
+                {isCurrent ? "Now" : SIGNS[period.sign].short}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+      <Text style={[styles.captionText, { color: colors.text.tertiary }]}>
+        A phase listed twice is split by Saturn&apos;s retrograde return to the
+        previous sign
+      </Text>
+    </View>
+  );
+
+  return (
+    <>
+      {renderStatusCard()}
+      {renderTimeline()}
+    </>
+  );
+};
+
+const SadeSatiScreen: React.FC = () => {
+  const navigation = useNavigation<SadeSatiScreenNavigationProp>();
+  const route = useRoute<SadeSatiScreenRouteProp>();
+
+  const { title, birthInput } = route.params;
+  const profileBirthInput = useBirthInput();
+  const natalInput = birthInput ?? profileBirthInput;
+
+  // --- Screen Render ---
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.cosmos.void }]}
+    >
+      <CorporateProfessionalHeader
+        title={title}
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {natalInput ? (
+          <SadeSatiReading birthInput={natalInput} />
+        ) : (
+          <BirthDetailsPrompt message="Save your birth details first; Sade Sati is timed from your natal Moon." />
+        )}
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default SadeSatiScreen;
+
+// --- Styles ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+  section: {
+    paddingHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.heading2.fontSize,
+    fontWeight: "600",
+    marginBottom: spacing.md,
+    textAlign: "center",
+  },
+  captionText: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+
+  // Current status
+  statusCard: {
+    borderRadius: radius.lg,
+    padding: spacing.lg,
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+    ...shadows.emphasis,
+  },
+  statusLabel: {
+    fontSize: typography.caption.fontSize,
+    marginBottom: spacing.xs,
+  },
+  statusTitle: {
+    fontSize: typography.heading3.fontSize,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+  statusText: {
+    fontSize: typography.body.fontSize,
+    marginTop: spacing.xs,
+    textAlign: "center",
+  },
+  statusDays: {
+    fontSize: typography.heading2.fontSize,
+    fontWeight: "700",
+    marginTop: spacing.sm,
+  },
+
+  // Timeline
+  cycleHeader: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "700",
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  periodRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingRight: spacing.md,
+    marginBottom: spacing.xs,
+    borderWidth: 1,
+    borderColor: "transparent",
+    overflow: "hidden",
+    ...shadows.subtle,
+  },
+  currentRow: {
+    borderColor: colors.brand.primary,
+  },
+  pastRow: {
+    opacity: 0.5,
+  },
+  phaseBar: {
+    width: 4,
+    alignSelf: "stretch",
+    marginRight: spacing.md,
+  },
+  periodBody: {
+    flex: 1,
+  },
+  periodTitle: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+  },
+  periodDates: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+  periodSign: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+    width: 40,
+    textAlign: "right",
+  },
+});
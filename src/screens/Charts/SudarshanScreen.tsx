@@ -0,0 +1,413 @@
+/**
+ * Corp Astro - Sudarshan Chakra Screen
+ *
+ * Three-ring chart and yearly progression from the on-device astro engine:
+ * - Lagna, Chandra and Surya rings drawn concentrically
+ * - Age stepper highlighting the house activated that year
+ * - Activated sign and grahas in each ring, plus the monthly sub-periods
+ *
+ * @module SudarshanScreen
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  Pressable,
+  Dimensions,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Ionicons } from "@expo/vector-icons";
+
+// Design System
+import {
+  spacing,
+  typography,
+  radius,
+  colors,
+  shadows,
+} from "../../components/DesignSystem/designTokens";
+
+// Layout
+import CorporateProfessionalHeader from "../../components/professional/CorporateProfessionalHeader";
+import { SudarshanChart } from "../../components/charts";
+import { BirthDetailsPrompt } from "../../components/menusection/BirthDetailsPrompt";
+
+// Stores
+import { useSettingsStore } from "@/stores/settingsStore";
+import { useBirthInput } from "@/hooks/useBirthInput";
+
+// Astro engine
+import {
+  castChart,
+  calculateSudarshanChakra,
+  calculateSudarshanYear,
+  getGraha,
+  ordinal,
+  sudarshanAge,
+  BirthInput,
+  SudarshanPeriod,
+  SIGNS,
+} from "../../astro";
+
+const { width: screenWidth } = Dimensions.get("window");
+
+/**
+ * Stack params for navigation
+ */
+type RootStackParamList = {
+  Home: undefined;
+  SudarshanScreen: {
+    chartId: string;
+    chartType: string;
+    title: string;
+    birthInput?: BirthInput;
+  };
+};
+
+type SudarshanScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "SudarshanScreen"
+>;
+
+type SudarshanScreenRouteProp = RouteProp<
+  RootStackParamList,
+  "SudarshanScreen"
+>;
+
+/** Oldest age the stepper reaches */
+const MAX_AGE = 120;
+
+// --- Helpers ---
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-US", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+/**
+ * Sudarshan Chakra of a birth chart
+ */
+const SudarshanReading: React.FC<{ birthInput: BirthInput }> = ({ birthInput }) => {
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+
+  // --- Sudarshan Data ---
+  const natal = useMemo(
+    () => castChart(birthInput, { ayanamsa }),
+    [birthInput, ayanamsa]
+  );
+  const chakra = useMemo(() => calculateSudarshanChakra(natal), [natal]);
+  const currentAge = useMemo(
+    () => Math.min(Math.max(sudarshanAge(natal), 0), MAX_AGE),
+    [natal]
+  );
+
+  const [age, setAge] = useState(currentAge);
+  const year = useMemo(() => calculateSudarshanYear(natal, age), [natal, age]);
+  const now = new Date();
+  const isCurrent = (period: SudarshanPeriod) =>
+    now >= period.start && now < period.end;
+
+  // --- UI Sections ---
+  const renderChartSection = () => (
+    <View style={styles.section}>
+      <View
+        style={[styles.chartContainer, { backgroundColor: colors.cosmos.deep }]}
+      >
+        <SudarshanChart
+          rings={chakra.rings}
+          size={Math.min(screenWidth - spacing.lg * 4, 520)}
+          activeHouse={year.house}
+        />
+      </View>
+      <Text style={[styles.captionText, { color: colors.text.tertiary }]}>
+        {chakra.rings
+          .map((ring) => `${ring.name} ${SIGNS[ring.referenceSign].short}`)
+          .join(" · ")}{" "}
+        — inner to outer
+      </Text>
+    </View>
+  );
+
+  const renderStepper = () => (
+    <View style={styles.section}>
+      <View
+        style={[
+          styles.stepperCard,
+          { backgroundColor: colors.cosmos.deep },
+          isCurrent(year) && styles.currentCard,
+        ]}
+      >
+        <Pressable
+          style={styles.stepButton}
+          onPress={() => setAge((value) => Math.max(value - 1, 0))}
+          disabled={age === 0}
+          accessibilityRole="button"
+          accessibilityLabel="Previous year"
+        >
+          <Ionicons
+            name="chevron-back"
+            size={22}
+            color={age === 0 ? colors.text.tertiary : colors.brand.primary}
+          />
+        </Pressable>
+        <Pressable
+          style={styles.stepperText}
+          onPress={() => setAge(currentAge)}
+          accessibilityRole="button"
+          accessibilityLabel="Jump to the current year"
+        >
+          <Text style={[styles.stepperAge, { color: colors.text.primary }]}>
+            Age {age} · {ordinal(year.house)} house
+          </Text>
+          <Text style={[styles.stepperDates, { color: colors.text.secondary }]}>
+            {formatDate(year.start)} – {formatDate(year.end)}
+          </Text>
+          <Text style={[styles.stepperDates, { color: colors.text.tertiary }]}>
+            {isCurrent(year) ? "Running now" : "Tap to return to now"}
+          </Text>
+        </Pressable>
+        <Pressable
+          style={styles.stepButton}
+          onPress={() => setAge((value) => Math.min(value + 1, MAX_AGE))}
+          disabled={age === MAX_AGE}
+          accessibilityRole="button"
+          accessibilityLabel="Next year"
+        >
+          <Ionicons
+            name="chevron-forward"
+            size={22}
+            color={age === MAX_AGE ? colors.text.tertiary : colors.brand.primary}
+          />
+        </Pressable>
+      </View>
+    </View>
+  );
+
+  const renderActivatedSection = () => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        Activated This Year
+      </Text>
+      {chakra.rings.map((ring) => {
+        const planets = ring.housePlanets[year.house - 1];
+        return (
+          <View
+            key={ring.id}
+            style={[styles.ringRow, { backgroundColor: colors.cosmos.deep }]}
+          >
+            <Text style={[styles.ringName, { color: colors.brand.light }]}>
+              {ring.name}
+            </Text>
+            <Text style={[styles.ringText, { color: colors.text.secondary }]}>
+              {SIGNS[year.signs[ring.id]].name}
+            </Text>
+            <Text style={[styles.ringText, { color: colors.text.tertiary }]}>
+              {planets.length > 0
+                ? planets.map((id) => getGraha(id).name).join(", ")
+                : "No grahas"}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const renderMonthsSection = () => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        Monthly Periods
+      </Text>
+      {year.months.map((month) => (
+        <View
+          key={month.start.getTime()}
+          style={[
+            styles.monthRow,
+            { backgroundColor: colors.cosmos.deep },
+            isCurrent(month) && styles.currentCard,
+          ]}
+        >
+          <Text style={[styles.monthDates, { color: colors.text.secondary }]}>
+            {formatDate(month.start)}
+          </Text>
+          <Text style={[styles.monthHouse, { color: colors.text.primary }]}>
+            {ordinal(month.house)}
+          </Text>
+          <Text style={[styles.monthSigns, { color: colors.text.tertiary }]}>
+            {chakra.rings
+              .map((ring) => SIGNS[month.signs[ring.id]].short)
+              .join(" · ")}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <>
+      {renderChartSection()}
+      {renderStepper()}
+      {renderActivatedSection()}
+      {renderMonthsSection()}
+    </>
+  );
+};
+
+const SudarshanScreen: React.FC = () => {
+  const navigation = useNavigation<SudarshanScreenNavigationProp>();
+  const route = useRoute<SudarshanScreenRouteProp>();
+
+  const { title, birthInput } = route.params;
+  const profileBirthInput = useBirthInput();
+  const natalInput = birthInput ?? profileBirthInput;
+
+  // --- Screen Render ---
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.cosmos.void }]}
+    >
+      <CorporateProfessionalHeader
+        title={title}
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {natalInput ? (
+          <SudarshanReading birthInput={natalInput} />
+        ) : (
+          <BirthDetailsPrompt message="Save your birth details first; the chakra is drawn from your birth chart." />
+        )}
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default SudarshanScreen;
+
+// --- Styles ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+  section: {
+    paddingHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.heading2.fontSize,
+    fontWeight: "600",
+    marginBottom: spacing.md,
+    textAlign: "center",
+  },
+  captionText: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+  currentCard: {
+    borderColor: colors.brand.primary,
+  },
+
+  // Chart
+  chartContainer: {
+    borderRadius: radius.lg,
+    padding: spacing.lg,
+    alignItems: "center",
+    ...shadows.emphasis,
+  },
+
+  // Age stepper
+  stepperCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: radius.lg,
+    padding: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+    ...shadows.subtle,
+  },
+  stepButton: {
+    padding: spacing.sm,
+  },
+  stepperText: {
+    flex: 1,
+    alignItems: "center",
+  },
+  stepperAge: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "700",
+  },
+  stepperDates: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+
+  // Activated rings
+  ringRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.xs,
+    ...shadows.subtle,
+  },
+  ringName: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+    width: 84,
+  },
+  ringText: {
+    fontSize: typography.caption.fontSize,
+    flex: 1,
+  },
+
+  // Monthly periods
+  monthRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.xs,
+    borderWidth: 1,
+    borderColor: "transparent",
+    ...shadows.subtle,
+  },
+  monthDates: {
+    fontSize: typography.caption.fontSize,
+    width: 110,
+  },
+  monthHouse: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+    width: 48,
+  },
+  monthSigns: {
+    fontSize: typography.caption.fontSize,
+    flex: 1,
+    textAlign: "right",
+  },
+});
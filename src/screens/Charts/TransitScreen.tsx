@@ -0,0 +1,453 @@
+/**
+ * Corp Astro - Transit Screen
+ *
+ * Gochara over the natal chart from the on-device astro engine:
+ * - Natal Rashi chart with the transiting grahas overlaid
+ * - Date scrubber stepping by day, week, month or year
+ * - Each transit's house from the natal Lagna and the natal Moon
+ *
+ * @module TransitScreen
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  Pressable,
+  Dimensions,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Ionicons } from "@expo/vector-icons";
+
+// Design System
+import {
+  spacing,
+  typography,
+  radius,
+  colors,
+  shadows,
+} from "../../components/DesignSystem/designTokens";
+
+// Layout
+import CorporateProfessionalHeader from "../../components/professional/CorporateProfessionalHeader";
+import { ChartRenderer, ChartHouse } from "../../components/charts";
+import { BirthDetailsPrompt } from "../../components/menusection/BirthDetailsPrompt";
+
+// Stores
+import { useSettingsStore } from "@/stores/settingsStore";
+import { useBirthInput } from "@/hooks/useBirthInput";
+
+// Astro engine
+import {
+  castChart,
+  calculateTransits,
+  degreeInSign,
+  formatDegree,
+  BirthInput,
+  NatalChart,
+  TransitPosition,
+  SIGNS,
+} from "../../astro";
+
+const { width: screenWidth } = Dimensions.get("window");
+
+/**
+ * Stack params for navigation
+ */
+type RootStackParamList = {
+  Home: undefined;
+  TransitScreen: {
+    chartId: string;
+    chartType: string;
+    title: string;
+    birthInput?: BirthInput;
+  };
+};
+
+type TransitScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "TransitScreen"
+>;
+
+type TransitScreenRouteProp = RouteProp<RootStackParamList, "TransitScreen">;
+
+/** How far one tap of the scrubber moves */
+type ScrubStep = "day" | "week" | "month" | "year";
+
+const SCRUB_STEPS: { id: ScrubStep; label: string }[] = [
+  { id: "day", label: "Day" },
+  { id: "week", label: "Week" },
+  { id: "month", label: "Month" },
+  { id: "year", label: "Year" },
+];
+
+// --- Helpers ---
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-US", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+const shiftDate = (date: Date, step: ScrubStep, direction: 1 | -1) => {
+  const next = new Date(date.getTime());
+  if (step === "day") next.setDate(next.getDate() + direction);
+  if (step === "week") next.setDate(next.getDate() + 7 * direction);
+  if (step === "month") next.setMonth(next.getMonth() + direction);
+  if (step === "year") next.setFullYear(next.getFullYear() + direction);
+  return next;
+};
+
+const isSameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+/** Natal Rashi houses from the Lagna with the transits overlaid by sign */
+const transitHouses = (
+  natal: NatalChart,
+  transits: TransitPosition[]
+): ChartHouse[] =>
+  Array.from({ length: 12 }, (_, i) => {
+    const sign = (natal.ascendant.sign + i) % 12;
+    const toChartPlanet = ({
+      id,
+      longitude,
+      isRetrograde,
+    }: {
+      id: string;
+      longitude: number;
+      isRetrograde: boolean;
+    }) => ({ id, degree: degreeInSign(longitude), isRetrograde });
+    return {
+      number: i + 1,
+      sign,
+      planets: natal.planets
+        .filter((planet) => planet.sign === sign)
+        .map(toChartPlanet),
+      transits: transits
+        .filter((planet) => planet.sign === sign)
+        .map(toChartPlanet),
+    };
+  });
+
+/**
+ * Transits over a birth chart
+ */
+const TransitReading: React.FC<{ birthInput: BirthInput }> = ({ birthInput }) => {
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+  const chartStyle = useSettingsStore((state) => state.chartStyle);
+
+  const [date, setDate] = useState(() => new Date());
+  const [step, setStep] = useState<ScrubStep>("day");
+
+  // --- Transit Data ---
+  const natal = useMemo(
+    () => castChart(birthInput, { ayanamsa }),
+    [birthInput, ayanamsa]
+  );
+  const transits = useMemo(() => calculateTransits(natal, date), [natal, date]);
+  const houses = useMemo(() => transitHouses(natal, transits), [natal, transits]);
+  const isToday = isSameDay(date, new Date());
+
+  // --- UI Sections ---
+  const renderScrubber = () => (
+    <View style={styles.section}>
+      <View style={styles.stepTabs}>
+        {SCRUB_STEPS.map((option) => {
+          const isSelected = option.id === step;
+          return (
+            <Pressable
+              key={option.id}
+              style={[
+                styles.stepTab,
+                isSelected && { backgroundColor: colors.brand.primary },
+              ]}
+              onPress={() => setStep(option.id)}
+              accessibilityRole="tab"
+              accessibilityState={{ selected: isSelected }}
+            >
+              <Text
+                style={[
+                  styles.stepTabText,
+                  { color: isSelected ? "#FFFFFF" : colors.text.secondary },
+                ]}
+              >
+                {option.label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <View
+        style={[
+          styles.scrubberCard,
+          { backgroundColor: colors.cosmos.deep },
+          isToday && styles.todayCard,
+        ]}
+      >
+        <Pressable
+          style={styles.stepButton}
+          onPress={() => setDate((value) => shiftDate(value, step, -1))}
+          accessibilityRole="button"
+          accessibilityLabel={`Back one ${step}`}
+        >
+          <Ionicons name="chevron-back" size={22} color={colors.brand.primary} />
+        </Pressable>
+        <Pressable
+          style={styles.scrubberText}
+          onPress={() => setDate(new Date())}
+          accessibilityRole="button"
+          accessibilityLabel="Jump to today"
+        >
+          <Text style={[styles.scrubberDate, { color: colors.text.primary }]}>
+            {formatDate(date)}
+          </Text>
+          <Text style={[styles.scrubberHint, { color: colors.text.tertiary }]}>
+            {isToday ? "Today" : "Tap to return to today"}
+          </Text>
+        </Pressable>
+        <Pressable
+          style={styles.stepButton}
+          onPress={() => setDate((value) => shiftDate(value, step, 1))}
+          accessibilityRole="button"
+          accessibilityLabel={`Forward one ${step}`}
+        >
+          <Ionicons
+            name="chevron-forward"
+            size={22}
+            color={colors.brand.primary}
+          />
+        </Pressable>
+      </View>
+    </View>
+  );
+
+  const renderChartSection = () => (
+    <View style={styles.section}>
+      <View
+        style={[styles.chartContainer, { backgroundColor: colors.cosmos.deep }]}
+      >
+        <ChartRenderer
+          chartStyle={chartStyle}
+          houses={houses}
+          centerLabel={`Asc: ${SIGNS[natal.ascendant.sign].short} ${formatDegree(natal.ascendant.longitude)}`}
+          size={Math.min(screenWidth - spacing.lg * 4, 520)}
+        />
+      </View>
+      <Text style={[styles.captionText, { color: colors.text.tertiary }]}>
+        Natal grahas in blue, transits in gold italics
+      </Text>
+    </View>
+  );
+
+  const renderTransitList = () => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        Transits
+      </Text>
+      <View style={styles.listHeader}>
+        <Text style={[styles.transitName, { color: colors.text.tertiary }]}>
+          Graha
+        </Text>
+        <Text style={[styles.transitSign, { color: colors.text.tertiary }]}>
+          Position
+        </Text>
+        <Text style={[styles.transitHouse, { color: colors.text.tertiary }]}>
+          Lagna
+        </Text>
+        <Text style={[styles.transitHouse, { color: colors.text.tertiary }]}>
+          Moon
+        </Text>
+      </View>
+      {transits.map((planet) => (
+        <View
+          key={planet.id}
+          style={[styles.transitRow, { backgroundColor: colors.cosmos.deep }]}
+        >
+          <Text style={[styles.transitName, { color: colors.luxury.champagne }]}>
+            {planet.name}
+            {planet.isRetrograde ? " (R)" : ""}
+          </Text>
+          <Text style={[styles.transitSign, { color: colors.text.secondary }]}>
+            {SIGNS[planet.sign].name} {formatDegree(planet.longitude)}
+          </Text>
+          <Text style={[styles.transitHouse, { color: colors.text.primary }]}>
+            {planet.house}
+          </Text>
+          <Text style={[styles.transitHouse, { color: colors.text.primary }]}>
+            {planet.houseFromMoon}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <>
+      {renderScrubber()}
+      {renderChartSection()}
+      {renderTransitList()}
+    </>
+  );
+};
+
+const TransitScreen: React.FC = () => {
+  const navigation = useNavigation<TransitScreenNavigationProp>();
+  const route = useRoute<TransitScreenRouteProp>();
+
+  const { title, birthInput } = route.params;
+  const profileBirthInput = useBirthInput();
+  const natalInput = birthInput ?? profileBirthInput;
+
+  // --- Screen Render ---
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.cosmos.void }]}
+    >
+      <CorporateProfessionalHeader
+        title={title}
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {natalInput ? (
+          <TransitReading birthInput={natalInput} />
+        ) : (
+          <BirthDetailsPrompt message="Save your birth details first; transits are read over your birth chart." />
+        )}
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default TransitScreen;
+
+// --- Styles ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+  section: {
+    paddingHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.heading2.fontSize,
+    fontWeight: "600",
+    marginBottom: spacing.md,
+    textAlign: "center",
+  },
+  captionText: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+
+  // Date scrubber
+  stepTabs: {
+    flexDirection: "row",
+    marginBottom: spacing.sm,
+    padding: spacing.xs,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface.primary,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+  },
+  stepTab: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.sm,
+    alignItems: "center",
+  },
+  stepTabText: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+  },
+  scrubberCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: radius.lg,
+    padding: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+    ...shadows.subtle,
+  },
+  todayCard: {
+    borderColor: colors.brand.primary,
+  },
+  stepButton: {
+    padding: spacing.sm,
+  },
+  scrubberText: {
+    flex: 1,
+    alignItems: "center",
+  },
+  scrubberDate: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "700",
+  },
+  scrubberHint: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+
+  // Chart
+  chartContainer: {
+    borderRadius: radius.lg,
+    padding: spacing.lg,
+    alignItems: "center",
+    ...shadows.emphasis,
+  },
+
+  // Transit list
+  listHeader: {
+    flexDirection: "row",
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  transitRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.xs,
+    ...shadows.subtle,
+  },
+  transitName: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+    width: 96,
+  },
+  transitSign: {
+    fontSize: typography.caption.fontSize,
+    flex: 1,
+  },
+  transitHouse: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+    width: 44,
+    textAlign: "center",
+  },
+});
@@ -4,6 +4,9 @@
  * Business profile completion page
  * Following the corporate professional design system
  *
+ * The saved incorporation date, time and place cast the company chart
+ * behind the My Business guidance.
+ *
  * @module BusinessScreen
  * @version 1.0.0
  * @since 2025
@@ -18,6 +21,7 @@ import {
   SafeAreaView,
   TouchableOpacity,
   TextInput,
+  Alert,
 } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
@@ -37,28 +41,124 @@ import {
 // Components
 import { BaseScreen } from "../../components/menusection/BaseScreen";
 import CorporateHeader from '../../components/professional/CorporateProfessionalHeader';
+import { PlacePicker } from "../../components/menusection/PlacePicker";
+import { formatDate, formatTime, isFutureDate, parseDate, parseTime } from "./dateFields";
+
+// Stores
+import { BusinessProfile, useBusinessStore } from "@/stores/businessStore";
+
+// Astro engine
+import { Place, placeLabel } from "../../astro";
 
 
 type RootStackParamList = {
   Home: undefined;
   Business: undefined;
+  ChartDetailScreen: {
+    chartId: string;
+    chartType: string;
+    title: string;
+    subject?: "native" | "business";
+  };
+};
+
+interface BusinessForm {
+  name: string;
+  type: string;
+  // DD/MM/YYYY
+  incorporationDate: string;
+  // HH:MM, blank when not known
+  incorporationTime: string;
+  location: Place | null;
+}
+
+/** Companies without an incorporation time are cast for noon */
+const UNKNOWN_TIME = { hour: 12, minute: 0 };
+
+/** Noon is at most twelve hours out */
+const UNKNOWN_TIME_WINDOW = 720;
+
+const MIN_INCORPORATION_YEAR = 1800;
+
+const formFromBusiness = (business: BusinessProfile | null): BusinessForm => ({
+  name: business?.name ?? "",
+  type: business?.type ?? "",
+  incorporationDate: business ? formatDate(business.incorporation) : "",
+  incorporationTime:
+    business && business.incorporation.timeAccuracy !== "unknown"
+      ? formatTime(business.incorporation)
+      : "",
+  location: business?.incorporation.place ?? null,
+});
+
+/** Validation messages for the form, empty when it can be saved */
+const validateForm = (form: BusinessForm): string[] => {
+  const errors: string[] = [];
+  const date = parseDate(form.incorporationDate);
+  if (form.name.trim().length === 0) {
+    errors.push("Enter your business name.");
+  }
+  if (!date) {
+    errors.push("Enter the incorporation date as DD/MM/YYYY.");
+  } else if (date.year < MIN_INCORPORATION_YEAR || isFutureDate(date)) {
+    errors.push(`Incorporation date must be between ${MIN_INCORPORATION_YEAR} and today.`);
+  }
+  if (form.incorporationTime.trim() && !parseTime(form.incorporationTime)) {
+    errors.push("Enter the incorporation time as HH:MM (24-hour), or leave it blank.");
+  }
+  if (!form.location) {
+    errors.push("Choose the place of incorporation.");
+  }
+  return errors;
 };
 
 const BusinessScreen: React.FC = () => {
   const navigation =
     useNavigation<NativeStackNavigationProp<RootStackParamList, "Business">>();
 
-  const [businessData, setBusinessData] = React.useState({
-    name: "",
-    type: "",
-    incorporationTime: "",
-    location: "",
-  });
+  const business = useBusinessStore((state) => state.business);
+  const saveBusiness = useBusinessStore((state) => state.saveBusiness);
+
+  const [businessData, setBusinessData] = React.useState<BusinessForm>(() =>
+    formFromBusiness(business)
+  );
+  const [placePickerVisible, setPlacePickerVisible] = React.useState(false);
+
+  // Refill the form once the saved business has loaded from storage
+  React.useEffect(() => {
+    setBusinessData(formFromBusiness(business));
+  }, [business]);
 
   const handleBack = () => {
     navigation.goBack();
   };
 
+  const handleSave = () => {
+    const errors = validateForm(businessData);
+    const date = parseDate(businessData.incorporationDate);
+    const hasTime = businessData.incorporationTime.trim() !== "";
+    const time = hasTime ? parseTime(businessData.incorporationTime) : UNKNOWN_TIME;
+    if (errors.length > 0 || !date || !time || !businessData.location) {
+      Alert.alert("Check your details", errors.join("\n"));
+      return;
+    }
+    saveBusiness({
+      name: businessData.name.trim(),
+      type: businessData.type.trim(),
+      incorporation: {
+        ...date,
+        ...time,
+        place: businessData.location,
+        timeAccuracy: hasTime ? "exact" : "unknown",
+        timeWindowMinutes: hasTime ? 0 : UNKNOWN_TIME_WINDOW,
+      },
+    });
+    Alert.alert(
+      "Business saved",
+      "Your company chart and business guidance now use these details."
+    );
+  };
+
   React.useLayoutEffect(() => {
     navigation.setOptions({
       headerShown: false,
@@ -111,12 +211,31 @@ const BusinessScreen: React.FC = () => {
                 }
               />
 
+              {/* Incorporation Date */}
+              <Text style={styles.inputLabel}>Incorporation Date</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="DD/MM/YYYY"
+                placeholderTextColor={colors.text.secondary}
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+                value={businessData.incorporationDate}
+                onChangeText={(text) =>
+                  setBusinessData((prev) => ({
+                    ...prev,
+                    incorporationDate: text,
+                  }))
+                }
+              />
+
               {/* Incorporation Time */}
               <Text style={styles.inputLabel}>Incorporation Time</Text>
               <TextInput
                 style={styles.input}
-                placeholder="01/01/2020"
+                placeholder="HH:MM (optional)"
                 placeholderTextColor={colors.text.secondary}
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
                 value={businessData.incorporationTime}
                 onChangeText={(text) =>
                   setBusinessData((prev) => ({
@@ -125,25 +244,64 @@ const BusinessScreen: React.FC = () => {
                   }))
                 }
               />
+              <Text style={styles.hintText}>
+                From the certificate of incorporation; without it the chart is cast for noon
+              </Text>
 
               {/* Location */}
               <Text style={styles.inputLabel}>Location</Text>
-              <TextInput
+              <TouchableOpacity
                 style={styles.input}
-                placeholder="Enter business location"
-                placeholderTextColor={colors.text.secondary}
-                value={businessData.location}
-                onChangeText={(text) =>
-                  setBusinessData((prev) => ({ ...prev, location: text }))
-                }
-              />
+                onPress={() => setPlacePickerVisible(true)}
+                accessibilityRole="button"
+                accessibilityLabel="Choose business location"
+              >
+                <Text
+                  style={[
+                    styles.placeText,
+                    !businessData.location && { color: colors.text.secondary },
+                  ]}
+                >
+                  {businessData.location
+                    ? placeLabel(businessData.location)
+                    : "Search the place of incorporation"}
+                </Text>
+              </TouchableOpacity>
             </View>
 
-            <TouchableOpacity style={styles.saveButton}>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
               <Text style={styles.saveButtonText}>Save</Text>
             </TouchableOpacity>
+
+            {business && (
+              <TouchableOpacity
+                style={styles.linkButton}
+                onPress={() =>
+                  navigation.navigate("ChartDetailScreen", {
+                    chartId: "company-d1",
+                    chartType: "rashi",
+                    title: business.name,
+                    subject: "business",
+                  })
+                }
+                accessibilityRole="button"
+              >
+                <Ionicons name="planet-outline" size={16} color={colors.brand.primary} />
+                <Text style={styles.linkText}>View company chart</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </ScrollView>
+
+        <PlacePicker
+          visible={placePickerVisible}
+          title="Business Location"
+          selected={businessData.location}
+          onSelect={(place) =>
+            setBusinessData((prev) => ({ ...prev, location: place }))
+          }
+          onClose={() => setPlacePickerVisible(false)}
+        />
       </SafeAreaView>
     </BaseScreen>
   );
@@ -212,6 +370,16 @@ const styles = StyleSheet.create({
     color: colors.text.primary,
     ...typography.body,
   },
+  placeText: {
+    color: colors.text.primary,
+    ...typography.body,
+  },
+  hintText: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginTop: -spacing.md,
+    marginBottom: spacing.lg,
+  },
   saveButton: {
     width: 170,
     minHeight: 28,
@@ -230,6 +398,17 @@ const styles = StyleSheet.create({
     color: colors.text.primary,
     fontWeight: "400",
   },
+  linkButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: spacing.lg,
+  },
+  linkText: {
+    ...typography.caption,
+    color: colors.brand.primary,
+    fontWeight: "600",
+    marginLeft: spacing.xs,
+  },
 });
 
 export default BusinessScreen;
@@ -7,6 +7,7 @@ import {
   SafeAreaView,
   TouchableOpacity,
   TextInput,
+  Alert,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -26,27 +27,183 @@ import {
 // Components
 import { BaseScreen } from '../../components/menusection/BaseScreen';
 import CorporateHeader from '../../components/professional/CorporateProfessionalHeader';
+import { PlacePicker } from '../../components/menusection/PlacePicker';
+import {
+  formatDate,
+  formatTime,
+  isFutureDate,
+  parseDate,
+  parseTime,
+} from './dateFields';
+
+// Stores
+import {
+  BirthDetails,
+  BirthTimeAccuracy,
+  useProfileStore,
+} from '@/stores/profileStore';
+
+// Astro engine
+import {
+  LocalDateTime,
+  Place,
+  placeLabel,
+  placeUtcOffset,
+  formatUtcOffset,
+} from '../../astro';
 
 
 type RootStackParamList = {
   Home: undefined;
   Profile: undefined;
+  RectificationScreen: undefined;
+};
+
+// --- Helpers ---
+
+const TIME_ACCURACIES: { id: BirthTimeAccuracy; label: string }[] = [
+  { id: 'exact', label: 'Exact' },
+  { id: 'approximate', label: 'Approximate' },
+  { id: 'unknown', label: 'Unknown' },
+];
+
+/** Confidence windows offered for an approximate time, in minutes */
+const TIME_WINDOWS = [15, 30, 60, 120];
+
+const DEFAULT_TIME_WINDOW = 30;
+
+/** Without a time, charts are cast for noon and the whole day is uncertain */
+const UNKNOWN_TIME = { hour: 12, minute: 0 };
+const UNKNOWN_TIME_WINDOW = 720;
+
+/** Earliest birth year the time zone history covers sensibly */
+const MIN_BIRTH_YEAR = 1800;
+
+interface ProfileForm {
+  name: string;
+  phone: string;
+  gender: string;
+  /** DD/MM/YYYY */
+  dateOfBirth: string;
+  /** HH:MM, 24-hour */
+  timeOfBirth: string;
+  timeAccuracy: BirthTimeAccuracy;
+  timeWindowMinutes: number;
+  birthPlace: Place | null;
+}
+
+const formFromProfile = (
+  name: string,
+  phone: string,
+  gender: string,
+  birth: BirthDetails | null
+): ProfileForm => ({
+  name,
+  phone,
+  gender,
+  dateOfBirth: birth ? formatDate(birth) : '',
+  timeOfBirth: birth && birth.timeAccuracy !== 'unknown' ? formatTime(birth) : '',
+  timeAccuracy: birth?.timeAccuracy ?? 'exact',
+  timeWindowMinutes:
+    birth && birth.timeAccuracy === 'approximate'
+      ? birth.timeWindowMinutes
+      : DEFAULT_TIME_WINDOW,
+  birthPlace: birth?.place ?? null,
+});
+
+/** Local birth moment the form describes, if the date and time parse */
+const localBirthTime = (form: ProfileForm): LocalDateTime | null => {
+  const date = parseDate(form.dateOfBirth);
+  const time =
+    form.timeAccuracy === 'unknown' ? UNKNOWN_TIME : parseTime(form.timeOfBirth);
+  return date && time ? { ...date, ...time } : null;
+};
+
+/** Validation messages for the form, empty when it can be saved */
+const validateForm = (form: ProfileForm): string[] => {
+  const errors: string[] = [];
+  const date = parseDate(form.dateOfBirth);
+  if (form.name.trim().length === 0) {
+    errors.push('Enter your name.');
+  }
+  if (!date) {
+    errors.push('Enter your date of birth as DD/MM/YYYY.');
+  } else if (date.year < MIN_BIRTH_YEAR || isFutureDate(date)) {
+    errors.push(`Date of birth must be between ${MIN_BIRTH_YEAR} and today.`);
+  }
+  if (form.timeAccuracy !== 'unknown' && !parseTime(form.timeOfBirth)) {
+    errors.push('Enter your birth time as HH:MM (24-hour), or mark it unknown.');
+  }
+  if (!form.birthPlace) {
+    errors.push('Choose your birth place.');
+  }
+  return errors;
 };
 
 const ProfileScreen: React.FC = () => {
   const navigation =
     useNavigation<NativeStackNavigationProp<RootStackParamList, 'Profile'>>();
 
-  const [userData, setUserData] = React.useState({
-    name: '',
-    phone: '',
-    gender: '',
-  });
+  const name = useProfileStore((state) => state.name);
+  const phone = useProfileStore((state) => state.phone);
+  const gender = useProfileStore((state) => state.gender);
+  const birth = useProfileStore((state) => state.birth);
+  const saveProfile = useProfileStore((state) => state.saveProfile);
+
+  const [userData, setUserData] = React.useState<ProfileForm>(() =>
+    formFromProfile(name, phone, gender, birth)
+  );
+  const [placePickerVisible, setPlacePickerVisible] = React.useState(false);
+
+  // Refill the form once the saved profile has loaded from storage
+  React.useEffect(() => {
+    setUserData(formFromProfile(name, phone, gender, birth));
+  }, [name, phone, gender, birth]);
+
+  const update = (changes: Partial<ProfileForm>) =>
+    setUserData((prev) => ({ ...prev, ...changes }));
+
+  const localTime = localBirthTime(userData);
+  const resolvedOffset =
+    userData.birthPlace && localTime
+      ? placeUtcOffset(userData.birthPlace, localTime)
+      : null;
 
   const handleBack = () => {
     navigation.goBack();
   };
 
+  const handleSave = () => {
+    const errors = validateForm(userData);
+    if (errors.length > 0 || !localTime || !userData.birthPlace) {
+      Alert.alert('Check your details', errors.join('\n'));
+      return;
+    }
+    // A rectified time stays rectified until the date or time is edited
+    const keepsRectification =
+      !!birth &&
+      formatDate(birth) === formatDate(localTime) &&
+      formatTime(birth) === formatTime(localTime);
+    saveProfile({
+      name: userData.name.trim(),
+      phone: userData.phone.trim(),
+      gender: userData.gender.trim(),
+      birth: {
+        ...localTime,
+        place: userData.birthPlace,
+        timeAccuracy: userData.timeAccuracy,
+        timeWindowMinutes:
+          userData.timeAccuracy === 'exact'
+            ? 0
+            : userData.timeAccuracy === 'unknown'
+              ? UNKNOWN_TIME_WINDOW
+              : userData.timeWindowMinutes,
+        rectification: keepsRectification ? birth.rectification : undefined,
+      },
+    });
+    Alert.alert('Profile saved', 'Your charts now use these birth details.');
+  };
+
   React.useLayoutEffect(() => {
     navigation.setOptions({
       headerShown: false,
@@ -62,6 +219,7 @@ const ProfileScreen: React.FC = () => {
           style={styles.scrollView}
           contentContainerStyle={styles.scrollContent}
           showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
         >
           <View style={styles.content}>
             {/* Avatar */}
@@ -82,9 +240,7 @@ const ProfileScreen: React.FC = () => {
                 placeholder="Enter your name"
                 placeholderTextColor={colors.text.secondary}
                 value={userData.name}
-                onChangeText={(text) =>
-                  setUserData((prev) => ({ ...prev, name: text }))
-                }
+                onChangeText={(text) => update({ name: text })}
               />
 
               {/* Phone */}
@@ -95,9 +251,7 @@ const ProfileScreen: React.FC = () => {
                 placeholderTextColor={colors.text.secondary}
                 keyboardType="phone-pad"
                 value={userData.phone}
-                onChangeText={(text) =>
-                  setUserData((prev) => ({ ...prev, phone: text }))
-                }
+                onChangeText={(text) => update({ phone: text })}
               />
 
               {/* Gender */}
@@ -107,47 +261,155 @@ const ProfileScreen: React.FC = () => {
                 placeholder="Select"
                 placeholderTextColor={colors.text.secondary}
                 value={userData.gender}
-                onChangeText={(text) =>
-                  setUserData((prev) => ({ ...prev, gender: text }))
-                }
+                onChangeText={(text) => update({ gender: text })}
               />
-               <Text style={styles.inputLabel}>Date of Birth</Text>
+
+              {/* Date of birth */}
+              <Text style={styles.inputLabel}>Date of Birth</Text>
               <TextInput
                 style={styles.input}
-                placeholder="01/10/2000"
+                placeholder="DD/MM/YYYY"
                 placeholderTextColor={colors.text.secondary}
-                value={userData.gender}
-                onChangeText={(text) =>
-                  setUserData((prev) => ({ ...prev, gender: text }))
-                }
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+                value={userData.dateOfBirth}
+                onChangeText={(text) => update({ dateOfBirth: text })}
               />
+
+              {/* Time of birth */}
               <Text style={styles.inputLabel}>Birth Time</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="01:10"
-                placeholderTextColor={colors.text.secondary}
-                value={userData.gender}
-                onChangeText={(text) =>
-                  setUserData((prev) => ({ ...prev, gender: text }))
-                }
-              />
+              <View style={styles.chips}>
+                {TIME_ACCURACIES.map((option) => {
+                  const isSelected = userData.timeAccuracy === option.id;
+                  return (
+                    <TouchableOpacity
+                      key={option.id}
+                      style={[styles.chip, isSelected && styles.chipSelected]}
+                      onPress={() => update({ timeAccuracy: option.id })}
+                      accessibilityRole="tab"
+                      accessibilityState={{ selected: isSelected }}
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          { color: isSelected ? '#FFFFFF' : colors.text.secondary },
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {userData.timeAccuracy === 'unknown' ? (
+                <Text style={styles.hintText}>
+                  Charts use 12:00 noon until the time is known. The ascendant
+                  and houses may not be accurate.
+                </Text>
+              ) : (
+                <TextInput
+                  style={styles.input}
+                  placeholder="HH:MM (24-hour)"
+                  placeholderTextColor={colors.text.secondary}
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={5}
+                  value={userData.timeOfBirth}
+                  onChangeText={(text) => update({ timeOfBirth: text })}
+                />
+              )}
+              {userData.timeAccuracy === 'approximate' && (
+                <>
+                  <Text style={styles.inputLabel}>Accurate To Within</Text>
+                  <View style={styles.chips}>
+                    {TIME_WINDOWS.map((minutes) => {
+                      const isSelected = userData.timeWindowMinutes === minutes;
+                      return (
+                        <TouchableOpacity
+                          key={minutes}
+                          style={[styles.chip, isSelected && styles.chipSelected]}
+                          onPress={() => update({ timeWindowMinutes: minutes })}
+                          accessibilityRole="tab"
+                          accessibilityState={{ selected: isSelected }}
+                        >
+                          <Text
+                            style={[
+                              styles.chipText,
+                              { color: isSelected ? '#FFFFFF' : colors.text.secondary },
+                            ]}
+                          >
+                            ±{minutes < 60 ? `${minutes}m` : `${minutes / 60}h`}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              {birth?.rectification && (
+                <Text style={styles.hintText}>
+                  Rectified from {birth.rectification.events.length} life events
+                  {' · '}
+                  {birth.rectification.confidence} confidence, ±
+                  {birth.timeWindowMinutes} min
+                </Text>
+              )}
+              {birth && userData.timeAccuracy !== 'exact' && (
+                <TouchableOpacity
+                  style={styles.linkButton}
+                  onPress={() => navigation.navigate('RectificationScreen')}
+                  accessibilityRole="button"
+                >
+                  <Ionicons name="time-outline" size={16} color={colors.brand.primary} />
+                  <Text style={styles.linkText}>Find my birth time from life events</Text>
+                </TouchableOpacity>
+              )}
+
+              {/* Birth place */}
               <Text style={styles.inputLabel}>Birth Place</Text>
-              <TextInput
+              <TouchableOpacity
                 style={styles.input}
-                placeholder="Enter your birth place"
-                placeholderTextColor={colors.text.secondary}
-                value={userData.gender}
-                onChangeText={(text) =>
-                  setUserData((prev) => ({ ...prev, gender: text }))
-                }
-              />
+                onPress={() => setPlacePickerVisible(true)}
+                accessibilityRole="button"
+                accessibilityLabel="Choose birth place"
+              >
+                <Text
+                  style={[
+                    styles.placeText,
+                    !userData.birthPlace && { color: colors.text.secondary },
+                  ]}
+                >
+                  {userData.birthPlace
+                    ? placeLabel(userData.birthPlace)
+                    : 'Search your birth place'}
+                </Text>
+              </TouchableOpacity>
+              {resolvedOffset && (
+                <Text style={styles.hintText}>
+                  Clocks showed {formatUtcOffset(resolvedOffset.utcOffset)}
+                  {resolvedOffset.daylightSaving ? ' (daylight saving)' : ''}
+                  {resolvedOffset.note ? ` · ${resolvedOffset.note}` : ''}
+                </Text>
+              )}
             </View>
 
-            <TouchableOpacity style={styles.saveButton}>
+            <TouchableOpacity
+              style={styles.saveButton}
+              onPress={handleSave}
+              accessibilityRole="button"
+            >
               <Text style={styles.saveButtonText}>Save</Text>
             </TouchableOpacity>
           </View>
         </ScrollView>
+
+        <PlacePicker
+          visible={placePickerVisible}
+          title="Birth Place"
+          selected={userData.birthPlace}
+          onSelect={(place) => update({ birthPlace: place })}
+          onClose={() => setPlacePickerVisible(false)}
+        />
       </SafeAreaView>
     </BaseScreen>
   );
@@ -216,6 +478,50 @@ const styles = StyleSheet.create({
     color: colors.text.primary,
     ...typography.body,
   },
+  placeText: {
+    color: colors.text.primary,
+    ...typography.body,
+  },
+  hintText: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginTop: -spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: -spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  linkText: {
+    ...typography.caption,
+    color: colors.brand.primary,
+    fontWeight: '600',
+    marginLeft: spacing.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    marginBottom: spacing.md,
+    padding: spacing.xs,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface.primary,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+  },
+  chip: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.sm,
+    alignItems: 'center',
+  },
+  chipSelected: {
+    backgroundColor: colors.brand.primary,
+  },
+  chipText: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: '600',
+  },
   saveButton: {
     width: 170,
     minHeight: 28,
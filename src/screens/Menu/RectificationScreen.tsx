@@ -0,0 +1,639 @@
+/**
+ * Corp Astro - Birth Time Rectification Screen
+ *
+ * Finds a likely birth time for users who only know it roughly:
+ * - Search window around the recorded time
+ * - Dated life events such as marriage, job changes and childbirth
+ * - Candidate ascendants ranked by dasha and transit hits
+ * - The chosen time and its confidence written back to the profile
+ *
+ * @module RectificationScreen
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ColorValue,
+} from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Ionicons } from "@expo/vector-icons";
+
+// Design System
+import {
+  spacing,
+  typography,
+  radius,
+  colors,
+  shadows,
+} from "../../components/DesignSystem/designTokens";
+
+// Layout
+import CorporateProfessionalHeader from "../../components/professional/CorporateProfessionalHeader";
+import { OptionPicker } from "../../components/menusection/OptionPicker";
+import { formatDate, formatTime, isFutureDate, parseDate } from "./dateFields";
+
+// Stores
+import { useProfileStore } from "@/stores/profileStore";
+import { useSettingsStore } from "@/stores/settingsStore";
+
+// Astro engine
+import {
+  rectifyBirthTime,
+  getLifeEvent,
+  LIFE_EVENTS,
+  LifeEvent,
+  LifeEventKind,
+  RectificationCandidate,
+  RectificationConfidence,
+  RectificationResult,
+  SIGNS,
+} from "../../astro";
+
+/**
+ * Stack params for navigation
+ */
+type RootStackParamList = {
+  Home: undefined;
+  RectificationScreen: undefined;
+};
+
+type RectificationScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "RectificationScreen"
+>;
+
+// --- Helpers ---
+
+/** Search windows offered, in minutes either side of the recorded time */
+const SEARCH_WINDOWS = [
+  { minutes: 30, label: "±30m" },
+  { minutes: 60, label: "±1h" },
+  { minutes: 120, label: "±2h" },
+  { minutes: 360, label: "±6h" },
+  { minutes: 720, label: "All day" },
+];
+
+/** Candidates listed after the search */
+const MAX_CANDIDATES_SHOWN = 4;
+
+/** Widest offered window that still covers the profile's uncertainty */
+const defaultWindow = (timeWindowMinutes: number) =>
+  (
+    SEARCH_WINDOWS.find((option) => option.minutes >= timeWindowMinutes) ??
+    SEARCH_WINDOWS[SEARCH_WINDOWS.length - 1]
+  ).minutes;
+
+const confidenceColor = (confidence: RectificationConfidence): ColorValue =>
+  confidence === "high"
+    ? colors.brand.light
+    : confidence === "medium"
+      ? colors.luxury.bronze
+      : colors.mystical.light;
+
+const eventKey = (event: LifeEvent) => `${event.kind}-${formatDate(event)}`;
+
+const RectificationScreen: React.FC = () => {
+  const navigation = useNavigation<RectificationScreenNavigationProp>();
+
+  const birth = useProfileStore((state) => state.birth);
+  const setBirth = useProfileStore((state) => state.setBirth);
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+
+  const [windowMinutes, setWindowMinutes] = useState(() =>
+    defaultWindow(birth?.timeWindowMinutes ?? 0)
+  );
+  const [events, setEvents] = useState<LifeEvent[]>(
+    () => birth?.rectification?.events ?? []
+  );
+  const [eventKind, setEventKind] = useState<LifeEventKind>("marriage");
+  const [eventDate, setEventDate] = useState("");
+  const [kindPickerVisible, setKindPickerVisible] = useState(false);
+  const [result, setResult] = useState<RectificationResult | null>(null);
+
+  // --- Event Actions ---
+  const handleAddEvent = () => {
+    const date = parseDate(eventDate);
+    if (!date) {
+      Alert.alert("Check the date", "Enter the event date as DD/MM/YYYY.");
+      return;
+    }
+    if (
+      birth &&
+      Date.UTC(date.year, date.month - 1, date.day) <=
+        Date.UTC(birth.year, birth.month - 1, birth.day)
+    ) {
+      Alert.alert("Check the date", "The event must come after your birth.");
+      return;
+    }
+    if (isFutureDate(date)) {
+      Alert.alert("Check the date", "Only past events can be used.");
+      return;
+    }
+    const event: LifeEvent = { kind: eventKind, ...date };
+    setEvents((prev) =>
+      prev.some((item) => eventKey(item) === eventKey(event))
+        ? prev
+        : [...prev, event].sort(
+            (a, b) =>
+              Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day)
+          )
+    );
+    setEventDate("");
+    setResult(null);
+  };
+
+  const handleRemoveEvent = (event: LifeEvent) => {
+    setEvents((prev) => prev.filter((item) => eventKey(item) !== eventKey(event)));
+    setResult(null);
+  };
+
+  const handleSearch = () => {
+    if (!birth) return;
+    setResult(
+      rectifyBirthTime(
+        { place: birth.place, local: birth, windowMinutes, events },
+        { ayanamsa }
+      )
+    );
+  };
+
+  const handleUseTime = (candidate: RectificationCandidate) => {
+    if (!birth || !result) return;
+    setBirth({
+      ...birth,
+      hour: candidate.time.hour,
+      minute: candidate.time.minute,
+      timeAccuracy: "approximate",
+      timeWindowMinutes: candidate.windowMinutes,
+      rectification: {
+        confidence: result.confidence,
+        score: candidate.score,
+        events,
+      },
+    });
+    Alert.alert(
+      "Birth time updated",
+      `Your charts now use ${formatTime(candidate.time)} with ${SIGNS[candidate.ascendantSign].name} rising.`
+    );
+    navigation.goBack();
+  };
+
+  // --- UI Sections ---
+  const renderChips = <T extends string | number>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const isSelected = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={String(option.value)}
+            style={[
+              styles.chip,
+              isSelected && { backgroundColor: colors.brand.primary },
+            ]}
+            onPress={() => onSelect(option.value)}
+            accessibilityRole="tab"
+            accessibilityState={{ selected: isSelected }}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                { color: isSelected ? "#FFFFFF" : colors.text.secondary },
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderWindowSection = () =>
+    birth && (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+          Search Window
+        </Text>
+        <Text style={[styles.captionText, { color: colors.text.tertiary }]}>
+          Around {formatTime(birth)} on {formatDate(birth)} in {birth.place.name}
+        </Text>
+        {renderChips(
+          SEARCH_WINDOWS.map((option) => ({
+            value: option.minutes,
+            label: option.label,
+          })),
+          windowMinutes,
+          (minutes) => {
+            setWindowMinutes(minutes);
+            setResult(null);
+          }
+        )}
+      </View>
+    );
+
+  const renderEventsSection = () => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        Life Events
+      </Text>
+      <Text style={[styles.captionText, { color: colors.text.tertiary }]}>
+        Three or more events with exact dates give the clearest answer
+      </Text>
+
+      {events.map((event) => (
+        <View
+          key={eventKey(event)}
+          style={[styles.eventRow, { backgroundColor: colors.cosmos.deep }]}
+        >
+          <View style={styles.eventBody}>
+            <Text style={[styles.eventTitle, { color: colors.text.primary }]}>
+              {getLifeEvent(event.kind).name}
+            </Text>
+            <Text style={[styles.eventDate, { color: colors.text.secondary }]}>
+              {formatDate(event)}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => handleRemoveEvent(event)}
+            accessibilityRole="button"
+            accessibilityLabel={`Remove ${getLifeEvent(event.kind).name}`}
+          >
+            <Ionicons name="close-circle" size={22} color={colors.text.tertiary} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.addRow}>
+        <TouchableOpacity
+          style={[styles.kindButton, { backgroundColor: colors.surface.secondary }]}
+          onPress={() => setKindPickerVisible(true)}
+          accessibilityRole="button"
+          accessibilityLabel="Choose event type"
+        >
+          <Text style={[styles.kindText, { color: colors.text.primary }]}>
+            {getLifeEvent(eventKind).name}
+          </Text>
+          <Ionicons name="chevron-down" size={16} color={colors.text.tertiary} />
+        </TouchableOpacity>
+        <TextInput
+          style={[
+            styles.dateInput,
+            { backgroundColor: colors.surface.secondary, color: colors.text.primary },
+          ]}
+          placeholder="DD/MM/YYYY"
+          placeholderTextColor={colors.text.tertiary}
+          keyboardType="numbers-and-punctuation"
+          maxLength={10}
+          value={eventDate}
+          onChangeText={setEventDate}
+          onSubmitEditing={handleAddEvent}
+        />
+        <TouchableOpacity
+          style={[styles.addButton, { backgroundColor: colors.brand.primary }]}
+          onPress={handleAddEvent}
+          accessibilityRole="button"
+          accessibilityLabel="Add event"
+        >
+          <Ionicons name="add" size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity
+        style={[
+          styles.primaryButton,
+          { backgroundColor: colors.brand.primary },
+          events.length === 0 && styles.disabledButton,
+        ]}
+        onPress={handleSearch}
+        disabled={events.length === 0}
+        accessibilityRole="button"
+      >
+        <Text style={styles.primaryButtonText}>Find Birth Time</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderResults = () =>
+    result && (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+          Likely Birth Times
+        </Text>
+        <Text
+          style={[styles.confidenceText, { color: confidenceColor(result.confidence) }]}
+        >
+          {result.confidence.charAt(0).toUpperCase() + result.confidence.slice(1)}{" "}
+          confidence · {result.eventsUsed} events
+        </Text>
+
+        {result.candidates.slice(0, MAX_CANDIDATES_SHOWN).map((candidate, index) => (
+          <View
+            key={candidate.ascendantSign}
+            style={[
+              styles.candidateCard,
+              { backgroundColor: colors.cosmos.deep },
+              index === 0 && styles.bestCard,
+            ]}
+          >
+            <View style={styles.candidateHeader}>
+              <View style={styles.eventBody}>
+                <Text style={[styles.candidateTime, { color: colors.text.primary }]}>
+                  {formatTime(candidate.time)} ±{candidate.windowMinutes} min
+                </Text>
+                <Text style={[styles.eventDate, { color: colors.text.secondary }]}>
+                  {SIGNS[candidate.ascendantSign].name} rising
+                </Text>
+              </View>
+              <Text style={[styles.candidateScore, { color: colors.brand.light }]}>
+                {candidate.score}%
+              </Text>
+            </View>
+            <View style={[styles.scoreTrack, { backgroundColor: colors.surface.secondary }]}>
+              <View
+                style={[
+                  styles.scoreFill,
+                  { width: `${candidate.score}%`, backgroundColor: colors.brand.primary },
+                ]}
+              />
+            </View>
+
+            {index === 0 &&
+              candidate.events.map((score) => (
+                <View key={eventKey(score.event)} style={styles.reasonBlock}>
+                  <Text style={[styles.reasonTitle, { color: colors.text.primary }]}>
+                    {getLifeEvent(score.event.kind).name} · {formatDate(score.event)}
+                  </Text>
+                  {score.reasons.length > 0 ? (
+                    score.reasons.map((reason) => (
+                      <Text
+                        key={reason}
+                        style={[styles.reasonText, { color: colors.text.secondary }]}
+                      >
+                        • {reason}
+                      </Text>
+                    ))
+                  ) : (
+                    <Text style={[styles.reasonText, { color: colors.text.tertiary }]}>
+                      No dasha or transit support
+                    </Text>
+                  )}
+                </View>
+              ))}
+
+            <TouchableOpacity
+              style={styles.useButton}
+              onPress={() => handleUseTime(candidate)}
+              accessibilityRole="button"
+            >
+              <Text style={[styles.useButtonText, { color: colors.brand.primary }]}>
+                Use This Time
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    );
+
+  // --- Screen Render ---
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.cosmos.void }]}
+    >
+      <CorporateProfessionalHeader
+        title="Birth Time Rectification"
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {birth ? (
+          <>
+            {renderWindowSection()}
+            {renderEventsSection()}
+            {renderResults()}
+          </>
+        ) : (
+          <View style={styles.section}>
+            <Text style={[styles.captionText, { color: colors.text.secondary }]}>
+              Save your date and place of birth in your profile first.
+            </Text>
+          </View>
+        )}
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+
+      <OptionPicker
+        visible={kindPickerVisible}
+        title="Life Event"
+        options={LIFE_EVENTS.map((event) => ({ value: event.id, label: event.name }))}
+        selected={eventKind}
+        onSelect={setEventKind}
+        onClose={() => setKindPickerVisible(false)}
+      />
+    </SafeAreaView>
+  );
+};
+
+export default RectificationScreen;
+
+// --- Styles ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+  section: {
+    paddingHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.heading2.fontSize,
+    fontWeight: "600",
+    marginBottom: spacing.xs,
+    textAlign: "center",
+  },
+  captionText: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+    marginBottom: spacing.md,
+  },
+
+  // Window chips
+  chips: {
+    flexDirection: "row",
+    padding: spacing.xs,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface.primary,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+  },
+  chip: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.sm,
+    alignItems: "center",
+  },
+  chipText: {
+    fontSize: typography.caption.fontSize,
+    fontWeight: "600",
+  },
+
+  // Life events
+  eventRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: radius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.xs,
+    ...shadows.subtle,
+  },
+  eventBody: {
+    flex: 1,
+  },
+  eventTitle: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+  },
+  eventDate: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: spacing.sm,
+  },
+  kindButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderRadius: radius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  kindText: {
+    fontSize: typography.body.fontSize,
+  },
+  dateInput: {
+    width: 120,
+    borderRadius: radius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    marginLeft: spacing.sm,
+    fontSize: typography.body.fontSize,
+  },
+  addButton: {
+    width: 40,
+    height: 40,
+    borderRadius: radius.md,
+    alignItems: "center",
+    justifyContent: "center",
+    marginLeft: spacing.sm,
+  },
+  primaryButton: {
+    marginTop: spacing.lg,
+    paddingVertical: spacing.md,
+    borderRadius: radius.xl,
+    alignItems: "center",
+    ...shadows.subtle,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: typography.bodyLarge.fontSize,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+
+  // Results
+  confidenceText: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+    textAlign: "center",
+    marginBottom: spacing.md,
+  },
+  candidateCard: {
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border.subtle,
+    ...shadows.subtle,
+  },
+  bestCard: {
+    borderColor: colors.brand.primary,
+  },
+  candidateHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  candidateTime: {
+    fontSize: typography.heading3.fontSize,
+    fontWeight: "700",
+  },
+  candidateScore: {
+    fontSize: typography.heading3.fontSize,
+    fontWeight: "700",
+  },
+  scoreTrack: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: spacing.sm,
+    overflow: "hidden",
+  },
+  scoreFill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+  reasonBlock: {
+    marginTop: spacing.md,
+  },
+  reasonTitle: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+    marginBottom: 2,
+  },
+  reasonText: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+  useButton: {
+    alignSelf: "flex-end",
+    marginTop: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  useButtonText: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+  },
+});
@@ -13,10 +13,15 @@ import React, { useState } from 'react';
 import { View, Text, ScrollView, Pressable, Alert } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { PARTNERSHIP_RATINGS } from '../../astro';
+import { usePartnershipReport } from '@/hooks/usePartnershipReport';
+import { usePartnersStore } from '@/stores/partnersStore';
+import { useProfileStore } from '@/stores/profileStore';
 
 type RootStackParamList = {
   Home: undefined;
   Reports: undefined;
+  PartnershipScreen: undefined;
 };
 
 import { corpAstroDarkTheme } from '../../components/DesignSystem/DarkTheme';
@@ -32,6 +37,8 @@ interface Report {
   status: 'completed' | 'processing' | 'pending';
   description: string;
   accuracy: string;
+  // Screen that shows the report, for reports calculated on the device
+  screen?: keyof RootStackParamList;
 }
 
 type ReportsScreenNavigationProp = NativeStackNavigationProp<
@@ -43,6 +50,13 @@ const ReportsScreen: React.FC = () => {
   const theme = corpAstroDarkTheme;
   const navigation = useNavigation<ReportsScreenNavigationProp>();
   const [selectedCategory, setSelectedCategory] = useState('all');
+  const partnershipReport = usePartnershipReport();
+  const partners = usePartnersStore((state) => state.partners);
+  const birth = useProfileStore((state) => state.birth);
+  // Unknown birth times leave the houses, and so the lord factors, uncertain
+  const partnershipTimesExact = [birth, ...partners.map((partner) => partner.birth)].every(
+    (details) => details?.timeAccuracy === 'exact'
+  );
 
   React.useLayoutEffect(() => {
     navigation.setOptions({ headerShown: false });
@@ -74,11 +88,13 @@ const ReportsScreen: React.FC = () => {
       id: '3',
       title: 'Partnership Compatibility',
       type: 'Relationship',
-      date: '2025-01-12',
-      status: 'processing',
-      description:
-        'Analysis of business partnership compatibility and team dynamics.',
-      accuracy: 'Pending',
+      date: new Date().toISOString().slice(0, 10),
+      status: partnershipReport ? 'completed' : 'pending',
+      description: partnershipReport
+        ? `${PARTNERSHIP_RATINGS.find((rating) => rating.id === partnershipReport.rating)?.name}: ${partnershipReport.score}/100 across ${partnershipReport.members.length} founders, ${partnershipReport.risks.length} risk areas.`
+        : 'Add your co-founders to analyse business partnership compatibility and team dynamics.',
+      accuracy: partnershipTimesExact ? 'High' : 'Moderate',
+      screen: 'PartnershipScreen',
     },
     {
       id: '4',
@@ -150,7 +166,9 @@ const ReportsScreen: React.FC = () => {
   };
 
   const handleReportPress = (report: Report) => {
-    if (report.status === 'completed') {
+    if (report.screen) {
+      navigation.navigate(report.screen);
+    } else if (report.status === 'completed') {
       Alert.alert(
         report.title,
         `View your ${report.title.toLowerCase()} report with ${report.accuracy} accuracy.`,
@@ -27,18 +27,31 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
 
-type RootStackParamList = {
-  Home: undefined;
-  Settings: undefined;
-  // Add other screens as needed
-};
-
 // Design System - Import the same design tokens as Services screen
 import { corpAstroDarkTheme } from '../../components/DesignSystem/DarkTheme';
 import { designTokens, spacing, typography, radius, colors, shadows, cards, badges, animations } from '../../components/DesignSystem/designTokens';
 
 // Components
 import CorporateHeader from '../../components/professional/CorporateProfessionalHeader';
+import { OptionPicker } from '../../components/menusection/OptionPicker';
+
+// Stores & Engine
+import { useSettingsStore } from '@/stores/settingsStore';
+import {
+  AYANAMSAS,
+  HOUSE_SYSTEMS,
+  ASPECT_ORBS,
+  getAyanamsa,
+  getHouseSystem,
+  getAspectOrbs,
+} from '../../astro';
+import { CHART_STYLES, getChartStyle } from '../../components/charts';
+
+type RootStackParamList = {
+  Home: undefined;
+  Settings: undefined;
+  // Add other screens as needed
+};
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -90,9 +103,14 @@ const SettingsScreen: React.FC = () => {
   const [emailReports, setEmailReports] = useState(false);
   
   // Astrology Preferences
-  const [zodiacSystem, setZodiacSystem] = useState('Tropical');
-  const [houseSystem, setHouseSystem] = useState('Placidus');
-  const [aspectOrbs, setAspectOrbs] = useState('Default');
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+  const setAyanamsa = useSettingsStore((state) => state.setAyanamsa);
+  const houseSystem = useSettingsStore((state) => state.houseSystem);
+  const setHouseSystem = useSettingsStore((state) => state.setHouseSystem);
+  const chartStyle = useSettingsStore((state) => state.chartStyle);
+  const setChartStyle = useSettingsStore((state) => state.setChartStyle);
+  const aspectOrbs = useSettingsStore((state) => state.aspectOrbs);
+  const setAspectOrbs = useSettingsStore((state) => state.setAspectOrbs);
   const [showAsteroids, setShowAsteroids] = useState(false);
   const [showFixedStars, setShowFixedStars] = useState(true);
   
@@ -108,6 +126,9 @@ const SettingsScreen: React.FC = () => {
   const [personalizedAds, setPersonalizedAds] = useState(false);
   const [dataSharing, setDataSharing] = useState(false);
 
+  // Option pickers
+  const [activePicker, setActivePicker] = useState<'zodiac' | 'houses' | 'chartStyle' | 'aspectOrbs' | null>(null);
+
   // ============================================================================
   // EVENT HANDLERS
   // ============================================================================
@@ -263,18 +284,34 @@ const SettingsScreen: React.FC = () => {
         {
           id: 'zodiac-system',
           title: 'Zodiac System',
-          subtitle: zodiacSystem,
+          subtitle: getAyanamsa(ayanamsa).name,
           icon: 'planet',
           type: 'button',
-          action: () => showComingSoon('Zodiac System Selection'),
+          action: () => setActivePicker('zodiac'),
         },
         {
           id: 'house-system',
           title: 'House System',
-          subtitle: houseSystem,
+          subtitle: getHouseSystem(houseSystem).name,
           icon: 'home',
           type: 'button',
-          action: () => showComingSoon('House System Selection'),
+          action: () => setActivePicker('houses'),
+        },
+        {
+          id: 'chart-style',
+          title: 'Chart Style',
+          subtitle: getChartStyle(chartStyle).name,
+          icon: 'grid',
+          type: 'button',
+          action: () => setActivePicker('chartStyle'),
+        },
+        {
+          id: 'aspect-orbs',
+          title: 'Aspect Orbs',
+          subtitle: getAspectOrbs(aspectOrbs).name,
+          icon: 'git-network',
+          type: 'button',
+          action: () => setActivePicker('aspectOrbs'),
         },
        
       ],
@@ -431,6 +468,55 @@ const SettingsScreen: React.FC = () => {
         {/* Bottom Spacer */}
         <View style={styles.bottomSpacing} />
       </ScrollView>
+
+      <OptionPicker
+        visible={activePicker === 'zodiac'}
+        title="Zodiac System"
+        options={AYANAMSAS.map((option) => ({
+          value: option.id,
+          label: option.name,
+          description: option.description,
+        }))}
+        selected={ayanamsa}
+        onSelect={setAyanamsa}
+        onClose={() => setActivePicker(null)}
+      />
+      <OptionPicker
+        visible={activePicker === 'houses'}
+        title="House System"
+        options={HOUSE_SYSTEMS.map((option) => ({
+          value: option.id,
+          label: option.name,
+          description: option.description,
+        }))}
+        selected={houseSystem}
+        onSelect={setHouseSystem}
+        onClose={() => setActivePicker(null)}
+      />
+      <OptionPicker
+        visible={activePicker === 'chartStyle'}
+        title="Chart Style"
+        options={CHART_STYLES.map((option) => ({
+          value: option.id,
+          label: option.name,
+          description: option.description,
+        }))}
+        selected={chartStyle}
+        onSelect={setChartStyle}
+        onClose={() => setActivePicker(null)}
+      />
+      <OptionPicker
+        visible={activePicker === 'aspectOrbs'}
+        title="Aspect Orbs"
+        options={ASPECT_ORBS.map((option) => ({
+          value: option.id,
+          label: option.name,
+          description: option.description,
+        }))}
+        selected={aspectOrbs}
+        onSelect={setAspectOrbs}
+        onClose={() => setActivePicker(null)}
+      />
     </View>
   );
 };
@@ -0,0 +1,233 @@
+/**
+ * Corp Astro - Team Screen
+ *
+ * Team members registered under the user's business:
+ * - Each member's birth details, entered like a partner's
+ * - Removing members who have left
+ * - The user's own profile counts as a member once it has birth details
+ *
+ * The team synergy heatmap on the My Business tab reads this roster.
+ *
+ * @module TeamScreen
+ * @version 1.0.0
+ * @since 2025
+ */
+
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  TouchableOpacity,
+} from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Ionicons } from "@expo/vector-icons";
+
+// Design System
+import {
+  spacing,
+  typography,
+  radius,
+  colors,
+  shadows,
+} from "../../components/DesignSystem/designTokens";
+
+// Layout
+import CorporateProfessionalHeader from "../../components/professional/CorporateProfessionalHeader";
+import { PersonBirthForm } from "../../components/menusection/PersonBirthForm";
+
+// Stores
+import { useProfileStore } from "@/stores/profileStore";
+import { useBusinessStore } from "@/stores/businessStore";
+
+// Astro engine
+import { placeLabel } from "../../astro";
+
+/**
+ * Stack params for navigation
+ */
+type RootStackParamList = {
+  Home: undefined;
+  ProfileScreen: undefined;
+  TeamScreen: undefined;
+};
+
+type TeamScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  "TeamScreen"
+>;
+
+const TeamScreen: React.FC = () => {
+  const navigation = useNavigation<TeamScreenNavigationProp>();
+
+  const profileName = useProfileStore((state) => state.name);
+  const hasBirth = useProfileStore((state) => state.birth !== null);
+  const team = useBusinessStore((state) => state.team);
+  const addTeamMember = useBusinessStore((state) => state.addTeamMember);
+  const removeTeamMember = useBusinessStore((state) => state.removeTeamMember);
+
+  // --- UI Sections ---
+  const renderProfileMember = () =>
+    hasBirth ? (
+      <View style={[styles.memberRow, { backgroundColor: colors.cosmos.deep }]}>
+        <View style={styles.memberBody}>
+          <Text style={[styles.memberName, { color: colors.text.primary }]}>
+            {profileName || "You"}
+          </Text>
+          <Text style={[styles.memberLine, { color: colors.text.tertiary }]}>
+            From your profile
+          </Text>
+        </View>
+      </View>
+    ) : (
+      <TouchableOpacity
+        style={[styles.memberRow, { backgroundColor: colors.cosmos.deep }]}
+        onPress={() => navigation.navigate("ProfileScreen")}
+        accessibilityRole="button"
+      >
+        <View style={styles.memberBody}>
+          <Text style={[styles.memberName, { color: colors.text.primary }]}>
+            Add yourself
+          </Text>
+          <Text style={[styles.memberLine, { color: colors.text.tertiary }]}>
+            Save your birth details in your profile to join the team
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={colors.text.tertiary} />
+      </TouchableOpacity>
+    );
+
+  const renderTeam = () => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+        Team Members
+      </Text>
+      {renderProfileMember()}
+      {team.map((member) => (
+        <View
+          key={member.id}
+          style={[styles.memberRow, { backgroundColor: colors.cosmos.deep }]}
+        >
+          <View style={styles.memberBody}>
+            <Text style={[styles.memberName, { color: colors.text.primary }]}>
+              {member.name || "Member"}
+            </Text>
+            <Text style={[styles.memberLine, { color: colors.text.tertiary }]}>
+              {`${member.birth.day}/${member.birth.month}/${member.birth.year}`}
+              {member.birth.timeAccuracy === "unknown" ? " · time unknown" : ""}
+              {` · ${placeLabel(member.birth.place)}`}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => removeTeamMember(member.id)}
+            accessibilityRole="button"
+            accessibilityLabel={`Remove ${member.name || "member"}`}
+          >
+            <Ionicons name="close-circle" size={22} color={colors.text.tertiary} />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <Text style={[styles.captionText, { color: colors.text.secondary }]}>
+        The synergy heatmap needs at least two members.
+      </Text>
+    </View>
+  );
+
+  const renderForm = () => (
+    <View style={styles.section}>
+      <Text style={[styles.formTitle, { color: colors.text.secondary }]}>
+        Add a team member
+      </Text>
+      <PersonBirthForm
+        personLabel="Member"
+        submitLabel="Add Member"
+        clearOnSubmit
+        onSubmit={addTeamMember}
+      />
+    </View>
+  );
+
+  // --- Screen Render ---
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.cosmos.void }]}
+    >
+      <CorporateProfessionalHeader
+        title="My Team"
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {renderTeam()}
+        {renderForm()}
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default TeamScreen;
+
+// --- Styles ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
+  bottomSpacing: {
+    height: 40,
+  },
+  section: {
+    paddingHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.heading2.fontSize,
+    fontWeight: "600",
+    marginBottom: spacing.md,
+    textAlign: "center",
+  },
+  captionText: {
+    fontSize: typography.caption.fontSize,
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+  memberRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: radius.md,
+    padding: spacing.md,
+    marginBottom: spacing.xs,
+    ...shadows.subtle,
+  },
+  memberBody: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+  },
+  memberLine: {
+    fontSize: typography.caption.fontSize,
+    marginTop: 2,
+  },
+  formTitle: {
+    fontSize: typography.body.fontSize,
+    fontWeight: "600",
+    marginBottom: spacing.sm,
+  },
+});
@@ -0,0 +1,58 @@
+/**
+ * Corp Astro - Date and Time Fields
+ *
+ * Parsing and formatting for the typed date and time fields on the
+ * profile and life event forms.
+ *
+ * @module dateFields
+ * @version 1.0.0
+ * @since 2025
+ */
+
+export interface DateFields {
+  year: number;
+  /** 1 = January ... 12 = December */
+  month: number;
+  day: number;
+}
+
+export interface TimeFields {
+  hour: number;
+  minute: number;
+}
+
+export const pad = (value: number) => String(value).padStart(2, "0");
+
+/** Formats as DD/MM/YYYY */
+export const formatDate = ({ year, month, day }: DateFields) =>
+  `${pad(day)}/${pad(month)}/${year}`;
+
+/** Formats as a 24-hour HH:MM */
+export const formatTime = ({ hour, minute }: TimeFields) => `${pad(hour)}:${pad(minute)}`;
+
+/** Parses DD/MM/YYYY, rejecting days the month does not have */
+export const parseDate = (text: string): DateFields | null => {
+  const match = text.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (!match) return null;
+  const [day, month, year] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return { year, month, day };
+};
+
+/** Parses a 24-hour HH:MM time */
+export const parseTime = (text: string): TimeFields | null => {
+  const match = text.trim().match(/^(\d{1,2})[:.](\d{2})$/);
+  if (!match) return null;
+  const [hour, minute] = match.slice(1).map(Number);
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+};
+
+/** Whether a date falls after today */
+export const isFutureDate = ({ year, month, day }: DateFields) => {
+  const now = new Date();
+  return (
+    Date.UTC(year, month - 1, day) > Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())
+  );
+};
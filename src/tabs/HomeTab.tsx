@@ -41,16 +41,167 @@ import {
 // Import extracted components
 import { CosmicWelcomeSection } from '../components/Home/CosmicWelcomeSection';
 import { DailyInsightsSection } from '../components/Home/DailyInsightsSection';
-import { BusinessDashboardSection } from '../components/Home/BusinessDashboardSection';
+import { BusinessDashboardSection, metricsFromBhavaBala } from '../components/Home/BusinessDashboardSection';
 import { HoroscopeCard } from '../components/Home/HoroscopeCard';
 
 // Import premium components
 import CorporateProfessionalHeader from '../components/professional/CorporateProfessionalHeader';
 import { HamburgerMenu, useHamburgerMenu } from '../components/Home/HamburgerMenu';
+import { CurrentPlaceRow } from '../components/menusection/CurrentPlaceRow';
+
+// Import stores & astro engine
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useProfileStore } from '@/stores/profileStore';
+import { useBirthInput } from '@/hooks/useBirthInput';
+import { useCurrentPlace } from '@/hooks/useCurrentPlace';
+import { useTeamSynergy } from '@/hooks/useTeamSynergy';
+import {
+  calculateBhavaBala,
+  calculateDailyChoghadiyas,
+  calculateDailyMuhurtas,
+  calculatePanchang,
+  castChart,
+  formatClockTime,
+  getGraha,
+  placeLocalTime,
+  placeLocation,
+  NAKSHATRAS,
+  SIGNS,
+  type AyanamsaId,
+  type ChoghadiyaId,
+  type Paksha,
+  type Panchang,
+  type Place,
+  type TimePeriod,
+} from '../astro';
+
+// Daily panchang for a 'YYYY-MM-DD' civil date at a place
+const calculateDailyPanchang = (localDate: string, place: Place, ayanamsa: AyanamsaId): Panchang => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return calculatePanchang(year, month, day, placeLocation(place, year, month, day), { ayanamsa });
+};
+
+// Short civil date of a panchang day, e.g. 'Mon, Oct 20'
+const panchangDayLabel = (panchang: Panchang) =>
+  new Date(Date.UTC(panchang.year, panchang.month - 1, panchang.day)).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+type TimingTemplate = Omit<TimingData, 'time' | 'start' | 'end'>;
+
+// Business focus of each weekday, Sunday first
+const VARA_FOCUS: { speciality: string; description: string }[] = [
+  { speciality: 'Authority and Leadership', description: 'Sun energy - good for leadership moves, government work and dealings with seniors' },
+  { speciality: 'Emotional intelligence in business', description: 'Moon energy - focus on customer relationships and public-facing work' },
+  { speciality: 'Courage and Property', description: 'Mars energy - good for real estate, construction, sports businesses (use caution)' },
+  { speciality: 'Communication and Commerce', description: 'Mercury rules - exceptional for communication, contracts, technology ventures' },
+  { speciality: 'Knowledge and Expansion', description: 'Jupiter energy - ideal for education, wisdom-based businesses, teaching, consulting' },
+  { speciality: 'Luxury and Prosperity', description: 'Venus energy - perfect for luxury business, arts, beauty, entertainment sectors' },
+  { speciality: 'Completion and Karma', description: 'Saturn energy - finish existing work before starting new ventures' },
+];
+
+const PAKSHA_TIMINGS: Record<Paksha, TimingTemplate> = {
+  Shukla: {
+    name: 'Shukla Paksha (Waxing Moon)',
+    type: 'auspicious',
+    description: 'Growth phase - excellent for new business launches, expansion, team building',
+    intensity: 'high',
+    category: 'business',
+    panchang: {
+      paksha: 'Shukla (Bright fortnight)',
+      energy: 'Growth and Expansion',
+      tithis: 'Pratipada to Purnima',
+    },
+  },
+  Krishna: {
+    name: 'Krishna Paksha (Waning Moon)',
+    type: 'neutral',
+    description: 'Reflection phase - good for analysis, planning, debt collection, cost optimization',
+    intensity: 'medium',
+    category: 'business',
+    panchang: {
+      paksha: 'Krishna (Dark fortnight)',
+      energy: 'Introspection and Completion',
+      advice: 'Complete existing projects',
+    },
+  },
+};
+
+// Tithis marked on the month view, by tithi index 0-29
+const MONTH_TITHIS: { indices: number[]; timing: TimingTemplate }[] = [
+  {
+    indices: [14],
+    timing: {
+      name: 'Purnima (Full Moon)',
+      type: 'auspicious',
+      description: 'Peak energy day - ideal for major announcements, product launches, celebrations',
+      intensity: 'high',
+      category: 'business',
+      panchang: {
+        tithi: 'Purnima (15th tithi)',
+        energy: 'Complete manifestation',
+        speciality: 'Maximum lunar energy',
+      },
+    },
+  },
+  {
+    indices: [29],
+    timing: {
+      name: 'Amavasya (New Moon)',
+      type: 'avoid',
+      description: 'New beginnings preparation - avoid major launches, focus on planning and strategy',
+      intensity: 'low',
+      category: 'general',
+      panchang: {
+        tithi: 'Amavasya (30th tithi)',
+        energy: 'Minimum lunar energy',
+        advice: 'Plan for future cycles',
+      },
+    },
+  },
+  {
+    indices: [10, 25],
+    timing: {
+      name: 'Ekadashi Tithi',
+      type: 'auspicious',
+      description: 'Spiritual business energy - excellent for service-oriented and wellness businesses',
+      intensity: 'high',
+      category: 'business',
+      panchang: {
+        tithi: 'Ekadashi (11th tithi)',
+        energy: 'Spiritual and Service',
+        speciality: 'Higher consciousness in business',
+      },
+    },
+  },
+  {
+    indices: [13, 28],
+    timing: {
+      name: 'Chaturdashi Tithi',
+      type: 'avoid',
+      description: 'Avoid important decisions - energy can be destructive if not handled properly',
+      intensity: 'medium',
+      category: 'general',
+      panchang: {
+        tithi: 'Chaturdashi (14th tithi)',
+        energy: 'Destructive potential',
+        caution: 'Avoid major commitments',
+      },
+    },
+  },
+];
 
 const HomeTab: React.FC = () => {
   const theme = corpAstroDarkTheme;
   const navigation = useNavigation();
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
+  const userName = useProfileStore((state) => state.name);
+  const birthInput = useBirthInput();
+  const currentPlace = useCurrentPlace();
+  const teamSynergy = useTeamSynergy();
 
   // small helper to translate expo-router style paths to react-navigation names
   const navigateTo = (to: string | { pathname?: string } | any) => {
@@ -285,25 +436,123 @@ const HomeTab: React.FC = () => {
       details: 'Moon in 12th house suggests decreased clarity in evening hours. Better to postpone important choices until tomorrow morning.',
       color: '#FF6B6B',
     },
-    {
-      icon: '👥',
-      title: 'Team harmony at 85% today',
-      details: 'Strong collaborative energy supports group projects and team meetings. Excellent day for building workplace relationships.',
-      color: '#4CAF50',
-    },
-  ], []);
+    teamSynergy
+      ? {
+          icon: '👥',
+          title: `Team energy at ${teamSynergy.teamEnergy}% today`,
+          details: `${teamSynergy.harmony}% pairwise harmony across ${teamSynergy.members.length} members. ${
+            teamSynergy.teamEnergy >= 60
+              ? 'Strong collaborative energy supports group projects and team meetings.'
+              : teamSynergy.teamEnergy >= 45
+                ? 'Steady energy; keep team meetings focused on agreed priorities.'
+                : 'Low transit support; keep meetings short and hold big group decisions.'
+          }`,
+          color: teamSynergy.teamEnergy >= 60 ? '#4CAF50' : teamSynergy.teamEnergy >= 45 ? '#FFC107' : '#FF6B6B',
+        }
+      : {
+          icon: '👥',
+          title: 'See your team harmony',
+          details: 'Register your team members on the My Business tab to get a daily team energy score and a synergy heatmap.',
+          color: '#4CAF50',
+        },
+  ], [teamSynergy]);
+
+  // Panchang at the user's place, null until they have one; recomputed only
+  // when the local date, place or ayanamsa changes
+  const localToday = currentPlace ? placeLocalTime(currentPlace, currentTime) : null;
+  const panchangDate = localToday
+    ? `${localToday.year}-${String(localToday.month).padStart(2, '0')}-${String(localToday.day).padStart(2, '0')}`
+    : null;
+  const todayPanchang = useMemo(
+    () => (currentPlace && panchangDate ? calculateDailyPanchang(panchangDate, currentPlace, ayanamsa) : null),
+    [panchangDate, currentPlace, ayanamsa]
+  );
+
+  // Panchangs from today for the open tab: a week of daily windows, or a
+  // month of pakshas and tithis
+  const daysAhead = activeTimePeriod === 'thisMonth' ? 30 : activeTimePeriod === 'thisWeek' ? 7 : 0;
+  const upcomingPanchangs = useMemo(() => {
+    if (!currentPlace || !panchangDate) return [];
+    const [year, month, day] = panchangDate.split('-').map(Number);
+    return Array.from({ length: daysAhead }, (_, offset) =>
+      calculateDailyPanchang(
+        new Date(Date.UTC(year, month - 1, day + offset)).toISOString().slice(0, 10),
+        currentPlace,
+        ayanamsa
+      )
+    );
+  }, [daysAhead, panchangDate, currentPlace, ayanamsa]);
+
+  // Natal chart from the saved profile, null until it has birth details;
+  // dashboard metrics follow its house strengths
+  const natalChart = useMemo(
+    () => (birthInput ? castChart(birthInput, { ayanamsa }) : null),
+    [birthInput, ayanamsa]
+  );
+  const dashboardMetrics = useMemo(
+    () => (natalChart ? metricsFromBhavaBala(calculateBhavaBala(natalChart)) : null),
+    [natalChart]
+  );
+  const sunSign = natalChart?.planets.find((planet) => planet.id === 'Su')?.sign;
+  const moonSign = natalChart?.planets.find((planet) => planet.id === 'Mo')?.sign;
 
   // Authentic Panchang-based Auspicious Timings - Enhanced with traditional Hindu astrology
   const getAuspiciousTimings = (): TimingData[] => {
-    const currentDate = new Date();
-    const todayData = calculateDailyPanchang(currentDate);
+    const todayData = todayPanchang;
+    if (!todayData) return [];
+    const muhurtas = calculateDailyMuhurtas(todayData);
+    const choghadiyas = calculateDailyChoghadiyas(todayData);
+    const dayChoghadiya = (id: ChoghadiyaId) =>
+      choghadiyas.find((period) => period.isDay && period.choghadiya.id === id);
+    const isWednesday = todayData.vara.index === 3;
+
+    // Sunrise-based periods; omitted where the Sun does not rise or set
+    const muhurtaTiming = (
+      period: TimePeriod | undefined,
+      timing: TimingTemplate,
+      panchang: Panchang = todayData
+    ): TimingData[] =>
+      period
+        ? [{
+            ...timing,
+            time: formatPanchangPeriod(period, panchang),
+            start: period.start,
+            end: period.end,
+          }]
+        : [];
     
     switch (activeTimePeriod) {
       case 'today':
         return [
           { 
+            name: "Today's Panchang", 
+            time: `Sunrise ${formatPanchangTime(todayData.sunrise, todayData)} · Sunset ${formatPanchangTime(todayData.sunset, todayData)}`, 
+            type: 'neutral',
+            description: `${todayData.vara.name} (${todayData.vara.english}). Moonrise ${formatPanchangTime(todayData.moonrise, todayData)}, moonset ${formatPanchangTime(todayData.moonset, todayData)}`,
+            intensity: 'medium',
+            category: 'general',
+            panchang: {
+              nakshatra: `${todayData.nakshatra.name} till ${formatPanchangTime(todayData.nakshatra.end, todayData)}`,
+              nature: `${todayData.tithi.name} till ${formatPanchangTime(todayData.tithi.end, todayData)}`,
+              meaning: `${todayData.yoga.name} Yoga till ${formatPanchangTime(todayData.yoga.end, todayData)} · ${todayData.karana.name} Karana till ${formatPanchangTime(todayData.karana.end, todayData)}`,
+              vara: todayData.vara.name,
+              paksha: `${todayData.paksha} Paksha`,
+              tithi: todayData.tithi.name,
+            }
+          },
+          ...muhurtaTiming(muhurtas?.abhijit, isWednesday ? {
+            name: 'Abhijit Muhurat', 
+            type: 'neutral',
+            description: 'Abhijit is not observed on Wednesdays - prefer another window for crucial decisions',
+            intensity: 'low',
+            category: 'business',
+            panchang: {
+              nakshatra: 'Abhijit (28th Nakshatra)',
+              nature: 'Not observed on Budhavara',
+              deity: 'Vishnu',
+            }
+          } : {
             name: 'Abhijit Muhurat', 
-            time: '12:12 PM to 01:00 PM', 
             type: 'auspicious',
             description: 'Most powerful muhurat - ideal for all business ventures, contracts, and crucial decisions',
             intensity: 'high',
@@ -313,10 +562,9 @@ const HomeTab: React.FC = () => {
               nature: 'Sarvabhadra',
               deity: 'Vishnu',
             }
-          },
-          { 
+          }),
+          ...muhurtaTiming(muhurtas?.rahuKaal, {
             name: 'Rahu Kaal', 
-            time: '01:30 PM to 03:00 PM', 
             type: 'avoid',
             description: 'Highly inauspicious - avoid starting new ventures, important meetings, financial transactions',
             intensity: 'high',
@@ -325,23 +573,21 @@ const HomeTab: React.FC = () => {
               nature: 'Malefic planetary period',
               impact: 'Obstacles and delays',
             }
-          },
-          { 
+          }),
+          ...muhurtaTiming(dayChoghadiya('shubh'), {
             name: 'Shubh Choghadiya', 
-            time: '10:15 AM to 11:45 AM', 
             type: 'auspicious',
             description: 'Favorable for partnerships, collaborations, team meetings and relationship building',
             intensity: 'medium',
             category: 'business',
             panchang: {
               type: 'Shubh Choghadiya',
-              duration: '90 minutes',
-              nature: 'Benefic'
+              nature: 'Benefic',
+              ruler: 'Jupiter'
             }
-          },
-          { 
+          }),
+          ...muhurtaTiming(dayChoghadiya('labh'), {
             name: 'Labh Choghadiya', 
-            time: '06:45 AM to 08:15 AM', 
             type: 'auspicious',
             description: 'Excellent for financial planning, investments, profit-oriented activities',
             intensity: 'high',
@@ -351,10 +597,9 @@ const HomeTab: React.FC = () => {
               meaning: 'Profit and Gain',
               ruler: 'Mercury'
             }
-          },
-          { 
+          }),
+          ...muhurtaTiming(dayChoghadiya('amrit'), {
             name: 'Amrit Choghadiya', 
-            time: '03:30 PM to 05:00 PM', 
             type: 'auspicious',
             description: 'Nectar-like auspicious time for important announcements and launches',
             intensity: 'high',
@@ -364,10 +609,9 @@ const HomeTab: React.FC = () => {
               meaning: 'Nectar Time',
               energy: 'Divine blessing'
             }
-          },
-          { 
+          }),
+          ...muhurtaTiming(muhurtas?.gulikaKaal, {
             name: 'Gulika Kaal', 
-            time: '07:30 AM to 09:00 AM', 
             type: 'avoid',
             description: 'Minor malefic period - suitable only for routine work, avoid new initiatives',
             intensity: 'medium',
@@ -376,208 +620,127 @@ const HomeTab: React.FC = () => {
               nature: 'Son of Saturn',
               impact: 'Delays and obstacles'
             }
-          },
-          { 
-            name: 'Pushya Nakshatra', 
-            time: '11:00 PM to 02:15 AM+1', 
-            type: 'auspicious',
-            description: 'Most auspicious nakshatra for business growth and prosperity rituals',
-            intensity: 'high',
-            category: 'business',
-            panchang: {
-              nakshatra: 'Pushya',
-              deity: 'Brihaspati',
-              nature: 'Nourishing and Prosperous'
-            }
-          }
-        ];
-      case 'thisWeek':
-        return [
-          { 
-            name: 'Monday - Abhijit Week', 
-            time: '12:00 PM to 01:00 PM Daily', 
-            type: 'auspicious',
-            description: 'Daily Abhijit muhurat perfect for consistent business growth activities',
-            intensity: 'high',
-            category: 'business',
-            panchang: {
-              vara: 'Soma (Moon day)',
-              energy: 'Emotional intelligence in business'
-            }
-          },
-          { 
-            name: 'Wednesday - Budh Hora', 
-            time: '10:00 AM to 12:00 PM', 
-            type: 'auspicious',
-            description: 'Mercury rules - exceptional for communication, contracts, technology ventures',
-            intensity: 'high',
-            category: 'business',
-            panchang: {
-              vara: 'Budha (Mercury day)',
-              speciality: 'Communication and Commerce'
-            }
-          },
-          { 
-            name: 'Thursday - Guru Day', 
-            time: '06:00 AM to 09:00 AM', 
-            type: 'auspicious',
-            description: 'Jupiter energy - ideal for education, wisdom-based businesses, teaching, consulting',
-            intensity: 'high',
-            category: 'business',
-            panchang: {
-              vara: 'Guru (Jupiter day)',
-              speciality: 'Knowledge and Expansion'
-            }
-          },
-          { 
-            name: 'Friday - Shukra Day', 
-            time: '02:00 PM to 05:00 PM', 
-            type: 'auspicious',
-            description: 'Venus energy - perfect for luxury business, arts, beauty, entertainment sectors',
-            intensity: 'high',
-            category: 'financial',
-            panchang: {
-              vara: 'Shukra (Venus day)',
-              speciality: 'Luxury and Prosperity'
-            }
-          },
-          { 
-            name: 'Tuesday - Mangal Energy', 
-            time: '06:00 AM to 08:00 AM', 
-            type: 'neutral',
-            description: 'Mars energy - good for real estate, construction, sports businesses (use caution)',
-            intensity: 'medium',
-            category: 'business',
-            panchang: {
-              vara: 'Mangala (Mars day)',
-              caution: 'Aggressive energy needs balance'
-            }
-          },
-          { 
-            name: 'Saturday - Shani Period', 
-            time: 'Focus on Karma', 
+          }),
+          ...muhurtaTiming(muhurtas?.yamaganda, {
+            name: 'Yamaganda', 
             type: 'avoid',
-            description: 'Saturn day - avoid new ventures, focus on completing existing work and karma',
-            intensity: 'low',
-            category: 'general',
-            panchang: {
-              vara: 'Shani (Saturn day)',
-              advice: 'Complete pending tasks'
-            }
-          }
-        ];
-      case 'thisMonth':
-        return [
-          { 
-            name: 'Shukla Paksha (Waxing Moon)', 
-            time: '18th - 2nd Sept (15 days)', 
-            type: 'auspicious',
-            description: 'Growth phase - excellent for new business launches, expansion, team building',
-            intensity: 'high',
-            category: 'business',
-            panchang: {
-              paksha: 'Shukla (Bright fortnight)',
-              energy: 'Growth and Expansion',
-              tithis: 'Pratipada to Purnima'
-            }
-          },
-          { 
-            name: 'Krishna Paksha (Waning Moon)', 
-            time: '3rd - 17th Sept', 
-            type: 'neutral',
-            description: 'Reflection phase - good for analysis, planning, debt collection, cost optimization',
+            description: 'Inauspicious period ruled by Yama - avoid travel, new ventures and major purchases',
             intensity: 'medium',
-            category: 'business',
-            panchang: {
-              paksha: 'Krishna (Dark fortnight)',
-              energy: 'Introspection and Completion',
-              advice: 'Complete existing projects'
-            }
-          },
-          { 
-            name: 'Purnima (Full Moon)', 
-            time: '2nd September', 
-            type: 'auspicious',
-            description: 'Peak energy day - ideal for major announcements, product launches, celebrations',
-            intensity: 'high',
-            category: 'business',
-            panchang: {
-              tithi: 'Purnima (15th tithi)',
-              energy: 'Complete manifestation',
-              speciality: 'Maximum lunar energy'
-            }
-          },
-          { 
-            name: 'Amavasya (New Moon)', 
-            time: '17th September', 
-            type: 'avoid',
-            description: 'New beginnings preparation - avoid major launches, focus on planning and strategy',
-            intensity: 'low',
             category: 'general',
             panchang: {
-              tithi: 'Amavasya (30th tithi)',
-              energy: 'Minimum lunar energy',
-              advice: 'Plan for future cycles'
+              nature: 'Son of Jupiter',
+              impact: 'Setbacks to new beginnings'
             }
-          },
+          }),
           { 
-            name: 'Ekadashi Tithi', 
-            time: '28th Aug & 12th Sept', 
-            type: 'auspicious',
-            description: 'Spiritual business energy - excellent for service-oriented and wellness businesses',
-            intensity: 'high',
-            category: 'business',
-            panchang: {
-              tithi: 'Ekadashi (11th tithi)',
-              energy: 'Spiritual and Service',
-              speciality: 'Higher consciousness in business'
-            }
-          },
-          { 
-            name: 'Chaturdashi Days', 
-            time: '31st Aug & 15th Sept', 
-            type: 'avoid',
-            description: 'Avoid important decisions - energy can be destructive if not handled properly',
+            name: `${todayData.nakshatra.name} Nakshatra`, 
+            time: `Till ${formatPanchangTime(todayData.nakshatra.end, todayData)}`, 
+            type: 'neutral',
+            description: `Moon in ${todayData.nakshatra.name} pada ${todayData.nakshatra.pada}, ruled by ${getGraha(NAKSHATRAS[todayData.nakshatra.index].lord).name}`,
             intensity: 'medium',
             category: 'general',
             panchang: {
-              tithi: 'Chaturdashi (14th tithi)',
-              energy: 'Destructive potential',
-              caution: 'Avoid major commitments'
+              nakshatra: todayData.nakshatra.name,
+              deity: NAKSHATRAS[todayData.nakshatra.index].deity,
+              nature: `Ruled by ${getGraha(NAKSHATRAS[todayData.nakshatra.index].lord).name}`
             }
           }
         ];
+      case 'thisWeek':
+        // Each day's best window and its Rahu Kaal; Abhijit is not observed
+        // on Wednesdays, so Labh Choghadiya stands in
+        return upcomingPanchangs.flatMap((day) => {
+          const dayMuhurtas = calculateDailyMuhurtas(day);
+          const focus = VARA_FOCUS[day.vara.index];
+          const label = panchangDayLabel(day);
+          const vara = `${day.vara.name} (${getGraha(day.vara.lord).name} day)`;
+          const isBudhavara = day.vara.index === 3;
+          const bestWindow = isBudhavara
+            ? calculateDailyChoghadiyas(day).find((period) => period.isDay && period.choghadiya.id === 'labh')
+            : dayMuhurtas?.abhijit;
+          return [
+            ...muhurtaTiming(bestWindow, {
+              name: `${label} · ${isBudhavara ? 'Labh Choghadiya' : 'Abhijit Muhurat'}`,
+              type: 'auspicious',
+              description: focus.description,
+              intensity: 'high',
+              category: 'business',
+              panchang: {
+                vara,
+                speciality: focus.speciality,
+              }
+            }, day),
+            ...muhurtaTiming(dayMuhurtas?.rahuKaal, {
+              name: `${label} · Rahu Kaal`,
+              type: 'avoid',
+              description: 'Avoid starting new ventures, important meetings and financial transactions',
+              intensity: 'medium',
+              category: 'business',
+              panchang: {
+                vara,
+                impact: 'Obstacles and delays',
+              }
+            }, day),
+          ];
+        });
+      case 'thisMonth': {
+        // Runs of days in each paksha, then the marked tithis by the tithi
+        // prevailing at sunrise, the day they are observed
+        const pakshaRuns = upcomingPanchangs.reduce<Panchang[][]>((runs, day) => {
+          const run = runs[runs.length - 1];
+          if (run && run[0].paksha === day.paksha) run.push(day);
+          else runs.push([day]);
+          return runs;
+        }, []);
+        return [
+          ...pakshaRuns.map((run): TimingData => {
+            const first = run[0];
+            const last = run[run.length - 1];
+            return {
+              ...PAKSHA_TIMINGS[first.paksha],
+              time: `${panchangDayLabel(first)} to ${panchangDayLabel(last)} (${run.length} day${run.length === 1 ? '' : 's'})`,
+              start: first.sunrise ?? undefined,
+              end: last.nextSunrise ?? undefined,
+            };
+          }),
+          ...upcomingPanchangs.flatMap((day) =>
+            MONTH_TITHIS.filter(({ indices }) => indices.includes(day.tithi.index)).map(({ timing }): TimingData => ({
+              ...timing,
+              time: `${panchangDayLabel(day)} till ${formatPanchangTime(day.tithi.end, day)}`,
+              start: day.sunrise ?? undefined,
+              end: day.tithi.end ?? undefined,
+            }))
+          ),
+        ];
+      }
       default:
         return [];
     }
   };
 
-  // Helper function to calculate daily panchang (simplified version for demo)
-  const calculateDailyPanchang = (date: Date) => {
-    // This would typically connect to a real panchang API or calculation engine
-    // For demo purposes, returning structured data
-    return {
-      tithi: 'Shukla Dvitiya',
-      nakshatra: 'Ashwini',
-      yoga: 'Vishkumbha', 
-      karana: 'Bava',
-      vara: 'Mangalwar',
-      sunrise: '06:20 AM',
-      sunset: '07:04 PM',
-      rahu_kaal: '01:30 PM - 03:00 PM',
-      gulika_kaal: '07:30 AM - 09:00 AM',
-      abhijit_muhurat: '12:12 PM - 01:00 PM'
-    };
+  // Local clock time, marked +1 when it falls on the following day
+  const formatPanchangTime = (date: Date | null, panchang: Panchang) => {
+    if (!date) return '—';
+    const { utcOffset } = panchang.location;
+    const localDay = new Date(date.getTime() + utcOffset * 3600000).getUTCDate();
+    return `${formatClockTime(date, utcOffset)}${localDay !== panchang.day ? '+1' : ''}`;
   };
 
+  const formatPanchangPeriod = (period: TimePeriod, panchang: Panchang) =>
+    `${formatPanchangTime(period.start, panchang)} to ${formatPanchangTime(period.end, panchang)}`;
+
   // Enhanced Guidance Data with authentic Hindu business wisdom
   const getGuidanceData = () => {
     switch (activeTimePeriod) {
-      case 'today':
+      case 'today': {
+        // Clock times only where today's panchang has them
+        const muhurtas = todayPanchang ? calculateDailyMuhurtas(todayPanchang) : null;
+        const periodTime = (period: TimePeriod | undefined) =>
+          todayPanchang && period ? ` (${formatPanchangPeriod(period, todayPanchang)})` : '';
         return {
           positive: [
             { 
-              text: 'Begin crucial meetings during Abhijit Muhurat (12:12-1:00 PM) for guaranteed success', 
+              text: `Begin crucial meetings during Abhijit Muhurat${periodTime(muhurtas?.abhijit)} for guaranteed success`, 
               priority: 'high' as const, 
               category: 'strategic' as const,
               confidence: 98,
@@ -614,7 +777,7 @@ const HomeTab: React.FC = () => {
           ],
           negative: [
             { 
-              text: 'Completely avoid Rahu Kaal (1:30-3:00 PM) - all ventures will face obstacles', 
+              text: `Completely avoid Rahu Kaal${periodTime(muhurtas?.rahuKaal)} - all ventures will face obstacles`, 
               priority: 'high' as const, 
               category: 'timing' as const,
               confidence: 99,
@@ -643,6 +806,7 @@ const HomeTab: React.FC = () => {
             }
           ]
         };
+      }
       case 'thisWeek':
         return {
           positive: [
@@ -1362,6 +1526,9 @@ const HomeTab: React.FC = () => {
           <Text style={[styles.sectionSubtitle, { color: theme.colors.neutral.light }]}>
             Strategic timing intelligence for optimal business decisions
           </Text>
+          <View style={styles.currentPlaceRow}>
+            <CurrentPlaceRow />
+          </View>
         </View>
 
         <ScrollView 
@@ -1840,7 +2007,11 @@ const HomeTab: React.FC = () => {
       >
         <CosmicWelcomeSection 
           greeting={getGreeting()}
-          userName="Rajesh Kumar"
+          userName={userName || 'Guest'}
+          sunSign={sunSign === undefined ? undefined : SIGNS[sunSign].name}
+          moonSign={moonSign === undefined ? undefined : SIGNS[moonSign].name}
+          ascendantSign={natalChart?.ascendant.sign}
+          onAddBirthDetails={() => navigateTo('ProfileScreen')}
         />
         <DailyInsightsSection
           insightsData={insightsData}
@@ -1855,7 +2026,7 @@ const HomeTab: React.FC = () => {
         {renderAstroRatanIntroCard()}
         {renderVedicCharts()}
         {renderPersonalizedReports()}
-        <BusinessDashboardSection />
+        {dashboardMetrics && <BusinessDashboardSection metrics={dashboardMetrics} />}
         
         <View style={styles.bottomSpacing} />
       </ScrollView>
@@ -3212,6 +3383,9 @@ const styles = StyleSheet.create({
   auspiciousTimingsHeader: {
     marginBottom: 20,
   },
+  currentPlaceRow: {
+    marginTop: 12,
+  },
   professionalTimingsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
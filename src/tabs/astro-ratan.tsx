@@ -41,6 +41,7 @@ type RootStackParamList = {
   AstroRatan: undefined;
   MyBusiness: undefined;
   RatanStudio: undefined;
+  CompatibilityScreen: { title?: string } | undefined;
 };
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'AstroRatan'>;
@@ -232,11 +233,16 @@ export default function AstroRatanScreen() {
     ]).start();
   }, []);
 
-  const quickSuggestions = [
+  const quickSuggestions: {
+    text: string;
+    icon: string;
+    category: string;
+    screen?: 'CompatibilityScreen';
+  }[] = [
     { text: "Daily horoscope", icon: "🔮", category: "Today" },
     { text: "Birth chart analysis", icon: "🌙", category: "Personal" },
     { text: "Planetary positions", icon: "💫", category: "Current" },
-    { text: "Love compatibility", icon: "💝", category: "Relationship" },
+    { text: "Love compatibility", icon: "💝", category: "Relationship", screen: "CompatibilityScreen" },
     { text: "Lucky numbers", icon: "✨", category: "Fortune" },
     { text: "Career guidance", icon: "🌟", category: "Professional" },
   ];
@@ -420,7 +426,12 @@ export default function AstroRatanScreen() {
                 <TouchableOpacity
                   key={index}
                   style={styles.suggestionPill}
-                  onPress={() => sendQuickMessage(`${suggestion.icon} ${suggestion.text}`)}
+                  onPress={() =>
+                    // Suggestions backed by a calculation open its screen instead of the chat
+                    suggestion.screen
+                      ? navigation.navigate(suggestion.screen, { title: suggestion.text })
+                      : sendQuickMessage(`${suggestion.icon} ${suggestion.text}`)
+                  }
                   activeOpacity={0.8}
                 >
                   <LinearGradient
@@ -1,10 +1,11 @@
 /**
  * Corp Astro - Business Intelligence Hub
  * 
- * Simple, clean DOs and DON'Ts for business guidance.
+ * Simple, clean DOs and DON'Ts for business guidance, read from the
+ * company's incorporation chart once the business details are saved.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -17,6 +18,12 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
+import { TeamSynergyHeatmap } from '../components/charts';
+import { useTeamSynergy } from '@/hooks/useTeamSynergy';
+import { useBusinessBirthInput } from '@/hooks/useBirthInput';
+import { useBusinessStore } from '@/stores/businessStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { GuidanceItem, GuidancePeriod, calculateBusinessGuidance, castChart } from '../astro';
 
 type RootStackParamList = {
   Home: undefined;
@@ -24,6 +31,8 @@ type RootStackParamList = {
   AstroRatan: undefined;
   MyBusiness: undefined;
   RatanStudio: undefined;
+  TeamScreen: undefined;
+  BusinessScreen: undefined;
 };
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'MyBusiness'>;
@@ -33,6 +42,10 @@ const { width } = Dimensions.get('window');
 export default function BusinessIntelligenceScreen() {
   const navigation = useNavigation<NavigationProp>();
   const [activeTab, setActiveTab] = useState('today');
+  const teamSynergy = useTeamSynergy();
+  const businessName = useBusinessStore((state) => state.business?.name);
+  const businessBirthInput = useBusinessBirthInput();
+  const ayanamsa = useSettingsStore((state) => state.ayanamsa);
 
   // Set navigation options
   React.useLayoutEffect(() => {
@@ -41,67 +54,18 @@ export default function BusinessIntelligenceScreen() {
     });
   }, [navigation]);
   
-  // Simple DOs and DON'Ts data
-  const businessGuidance = {
-    today: {
-      dos: [
-        "Engage in lively conversations",
-        "Explore new hobbies", 
-        "Connect with loved ones",
-        "Focus on creative projects",
-        "Make important phone calls",
-        "Schedule team meetings"
-      ],
-      donts: [
-        "Rush financial decisions",
-        "Avoid deep conversations", 
-        "Overcommit socially",
-        "Start new partnerships",
-        "Sign major contracts",
-        "Make impulsive purchases"
-      ]
-    },
-    week: {
-      dos: [
-        "Plan strategic initiatives",
-        "Network with industry leaders",
-        "Invest in skill development", 
-        "Strengthen existing partnerships",
-        "Focus on team building",
-        "Review financial portfolios"
-      ],
-      donts: [
-        "Avoid major restructuring",
-        "Delay important decisions",
-        "Neglect due diligence",
-        "Overlook market research", 
-        "Rush expansion plans",
-        "Ignore team feedback"
-      ]
-    },
-    month: {
-      dos: [
-        "Launch new business ventures",
-        "Expand into new markets",
-        "Strengthen brand presence",
-        "Build strategic alliances",
-        "Invest in technology",
-        "Develop long-term vision"
-      ],
-      donts: [
-        "Avoid hostile takeovers",
-        "Don't ignore compliance",
-        "Avoid overextending resources",
-        "Don't neglect cash flow",
-        "Avoid rushed hiring",
-        "Don't compromise on quality"
-      ]
-    }
-  };
-
-  const getCurrentGuidance = () => {
-    return businessGuidance[activeTab as keyof typeof businessGuidance];
-  };
+  // DOs and DON'Ts from the company chart, null until the business details are saved
+  const guidanceChart = useMemo(
+    () => (businessBirthInput ? castChart(businessBirthInput, { ayanamsa }) : null),
+    [businessBirthInput, ayanamsa]
+  );
+  const today = new Date().toDateString();
+  const guidance = useMemo(() => {
+    if (!guidanceChart) return null;
+    const from = new Date(today);
+    from.setHours(12, 0, 0, 0);
+    return calculateBusinessGuidance(guidanceChart, activeTab as GuidancePeriod, from);
+  }, [guidanceChart, activeTab, today]);
 
   const renderTabButton = (tabId: string, label: string, isActive: boolean) => (
     <TouchableOpacity
@@ -127,7 +91,7 @@ export default function BusinessIntelligenceScreen() {
     </TouchableOpacity>
   );
 
-  const renderDoItem = (item: string, index: number) => (
+  const renderDoItem = (item: GuidanceItem, index: number) => (
     <View key={index} style={{
       flexDirection: 'row',
       alignItems: 'flex-start',
@@ -150,18 +114,22 @@ export default function BusinessIntelligenceScreen() {
       }}>
         <Text style={{ color: '#fff', fontSize: 16, fontWeight: 'bold' }}>✓</Text>
       </View>
-      <Text style={{ 
-        fontSize: 16, 
-        color: '#fff',
-        flex: 1,
-        lineHeight: 24
-      }}>
-        {item}
-      </Text>
+      <View style={{ flex: 1 }}>
+        <Text style={{ 
+          fontSize: 16, 
+          color: '#fff',
+          lineHeight: 24
+        }}>
+          {item.text}
+        </Text>
+        <Text style={{ fontSize: 12, color: '#64748b', marginTop: 2 }}>
+          {item.basis}
+        </Text>
+      </View>
     </View>
   );
 
-  const renderDontItem = (item: string, index: number) => (
+  const renderDontItem = (item: GuidanceItem, index: number) => (
     <View key={index} style={{
       flexDirection: 'row',
       alignItems: 'flex-start',
@@ -184,17 +152,27 @@ export default function BusinessIntelligenceScreen() {
       }}>
         <Text style={{ color: '#fff', fontSize: 16, fontWeight: 'bold' }}>✕</Text>
       </View>
-      <Text style={{ 
-        fontSize: 16, 
-        color: '#fff',
-        flex: 1,
-        lineHeight: 24
-      }}>
-        {item}
-      </Text>
+      <View style={{ flex: 1 }}>
+        <Text style={{ 
+          fontSize: 16, 
+          color: '#fff',
+          lineHeight: 24
+        }}>
+          {item.text}
+        </Text>
+        <Text style={{ fontSize: 12, color: '#64748b', marginTop: 2 }}>
+          {item.basis}
+        </Text>
+      </View>
     </View>
   );
 
+  const renderEmptyItem = (text: string) => (
+    <Text style={{ fontSize: 14, color: '#64748b', paddingHorizontal: 16 }}>
+      {text}
+    </Text>
+  );
+
   return (
     <SafeAreaView style={{ flex: 1, backgroundColor: '#08080F' }}>
       <ScrollView style={{ flex: 1 }} showsVerticalScrollIndicator={false}>
@@ -213,7 +191,9 @@ export default function BusinessIntelligenceScreen() {
             color: '#64748b',
             marginBottom: 24
           }}>
-            Smart guidance for business success
+            {businessBirthInput
+              ? `Guidance from ${businessName || 'your company'}'s incorporation chart`
+              : 'Guidance from your company\'s incorporation chart'}
           </Text>
 
           {/* Tab Navigation */}
@@ -228,74 +208,145 @@ export default function BusinessIntelligenceScreen() {
           </ScrollView>
         </View>
 
-        {/* DOs and DONTs Content */}
-        <View style={{ paddingHorizontal: 20, paddingBottom: 100 }}>
-          {/* DOs Section */}
-          <View style={{ marginBottom: 40 }}>
+        {/* Team Synergy */}
+        <View style={{ paddingHorizontal: 20, marginBottom: 32 }}>
+          <View style={{
+            backgroundColor: '#1a1a2e',
+            borderRadius: 16,
+            padding: 16,
+            borderWidth: 1,
+            borderColor: '#333'
+          }}>
             <View style={{
               flexDirection: 'row',
               alignItems: 'center',
-              marginBottom: 20,
-              paddingHorizontal: 16
+              justifyContent: 'space-between',
+              marginBottom: 6
             }}>
+              <Text style={{ fontSize: 20, fontWeight: '800', color: '#fff' }}>
+                Team Synergy
+              </Text>
+              <TouchableOpacity onPress={() => navigation.navigate('TeamScreen')}>
+                <Text style={{ fontSize: 14, fontWeight: '600', color: '#2E86DE' }}>
+                  Manage Team
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {teamSynergy ? (
+              <>
+                <Text style={{ fontSize: 14, color: '#64748b', marginBottom: 16 }}>
+                  {teamSynergy.harmony}% harmony · {teamSynergy.teamEnergy}% energy today
+                </Text>
+                <TeamSynergyHeatmap synergy={teamSynergy} size={width - 72} />
+                <Text style={{ fontSize: 12, color: '#64748b', marginTop: 12, lineHeight: 18 }}>
+                  Each cell shows how a pair works together. The outlined diagonal is each member&apos;s energy today.
+                </Text>
+              </>
+            ) : (
+              <Text style={{ fontSize: 14, color: '#64748b', lineHeight: 20 }}>
+                Register your team&apos;s birth details to see how each pair works together and the team&apos;s energy today.
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {/* DOs and DONTs Content */}
+        {guidance ? (
+          <View style={{ paddingHorizontal: 20, paddingBottom: 100 }}>
+            {/* DOs Section */}
+            <View style={{ marginBottom: 40 }}>
               <View style={{
-                width: 50,
-                height: 50,
-                borderRadius: 25,
-                backgroundColor: '#22c55e',
+                flexDirection: 'row',
                 alignItems: 'center',
-                justifyContent: 'center',
-                marginRight: 16
+                marginBottom: 20,
+                paddingHorizontal: 16
               }}>
-                <Text style={{ color: '#fff', fontSize: 20, fontWeight: 'bold' }}>✓</Text>
+                <View style={{
+                  width: 50,
+                  height: 50,
+                  borderRadius: 25,
+                  backgroundColor: '#22c55e',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  marginRight: 16
+                }}>
+                  <Text style={{ color: '#fff', fontSize: 20, fontWeight: 'bold' }}>✓</Text>
+                </View>
+                <Text style={{ 
+                  fontSize: 24, 
+                  fontWeight: '800', 
+                  color: '#fff'
+                }}>
+                  Yes for {activeTab}
+                </Text>
+              </View>
+              
+              <View>
+                {guidance.dos.length > 0
+                  ? guidance.dos.map(renderDoItem)
+                  : renderEmptyItem('No transit strongly favours new moves')}
               </View>
-              <Text style={{ 
-                fontSize: 24, 
-                fontWeight: '800', 
-                color: '#fff'
-              }}>
-                Yes for {activeTab}
-              </Text>
-            </View>
-            
-            <View>
-              {getCurrentGuidance().dos.map(renderDoItem)}
             </View>
-          </View>
 
-          {/* DONTs Section */}
-          <View>
-            <View style={{
-              flexDirection: 'row',
-              alignItems: 'center',
-              marginBottom: 20,
-              paddingHorizontal: 16
-            }}>
+            {/* DONTs Section */}
+            <View>
               <View style={{
-                width: 50,
-                height: 50,
-                borderRadius: 25,
-                backgroundColor: '#ef4444',
+                flexDirection: 'row',
                 alignItems: 'center',
-                justifyContent: 'center',
-                marginRight: 16
+                marginBottom: 20,
+                paddingHorizontal: 16
               }}>
-                <Text style={{ color: '#fff', fontSize: 20, fontWeight: 'bold' }}>✕</Text>
+                <View style={{
+                  width: 50,
+                  height: 50,
+                  borderRadius: 25,
+                  backgroundColor: '#ef4444',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  marginRight: 16
+                }}>
+                  <Text style={{ color: '#fff', fontSize: 20, fontWeight: 'bold' }}>✕</Text>
+                </View>
+                <Text style={{ 
+                  fontSize: 24, 
+                  fontWeight: '800', 
+                  color: '#fff'
+                }}>
+                  No for {activeTab}
+                </Text>
+              </View>
+              
+              <View>
+                {guidance.donts.length > 0
+                  ? guidance.donts.map(renderDontItem)
+                  : renderEmptyItem('No transit warns against business as usual')}
               </View>
-              <Text style={{ 
-                fontSize: 24, 
-                fontWeight: '800', 
-                color: '#fff'
-              }}>
-                No for {activeTab}
-              </Text>
             </View>
-            
-            <View>
-              {getCurrentGuidance().donts.map(renderDontItem)}
+          </View>
+        ) : (
+          <View style={{ paddingHorizontal: 20, paddingBottom: 100 }}>
+            <View style={{
+              backgroundColor: '#1a1a2e',
+              borderRadius: 16,
+              padding: 16,
+              borderWidth: 1,
+              borderColor: '#333'
+            }}>
+              <Text style={{ fontSize: 20, fontWeight: '800', color: '#fff', marginBottom: 6 }}>
+                Add your business details
+              </Text>
+              <Text style={{ fontSize: 14, color: '#64748b', lineHeight: 20, marginBottom: 16 }}>
+                DOs and DON&apos;Ts are read from your company&apos;s incorporation date, time and place.
+              </Text>
+              <TouchableOpacity onPress={() => navigation.navigate('BusinessScreen')}>
+                <Text style={{ fontSize: 14, fontWeight: '600', color: '#2E86DE' }}>
+                  Add Business Details
+                </Text>
+              </TouchableOpacity>
             </View>
           </View>
-        </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -24,24 +24,36 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
+/** Params every chart service screen takes */
+type ChartServiceParams = {
+  chartId: string;
+  chartType: string;
+  title: string;
+};
+
 type RootStackParamList = {
   Home: undefined;
   Services: undefined;
   AstroRatan: undefined;
   MyBusiness: undefined;
   RatanStudio: undefined;
-  ChartDetailScreen: {
-    chartId: string;
-    chartType: string;
-    title: string;
+  ChartDetailScreen: ChartServiceParams & {
     energyType: string;
     description: string;
     isPremium: string;
     powerLevel: number;
   };
+  DashaScreen: ChartServiceParams;
+  AshtakavargaScreen: ChartServiceParams;
+  SudarshanScreen: ChartServiceParams;
+  TransitScreen: ChartServiceParams;
+  SadeSatiScreen: ChartServiceParams;
+  CompatibilityScreen: { title?: string };
+  MuhurtaScreen: { mode: 'choghadiya' | 'hora'; title: string };
 };
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Services'>;
+
 import { LinearGradient } from 'expo-linear-gradient';
 
 // Import theme and design tokens
@@ -54,6 +66,23 @@ import CorporateHeader from '../components/professional/CorporateProfessionalHea
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
+type ChartServiceScreen =
+  | 'DashaScreen'
+  | 'AshtakavargaScreen'
+  | 'SudarshanScreen'
+  | 'TransitScreen'
+  | 'SadeSatiScreen';
+
+/** Chart types that open their own screen instead of the chart detail */
+const CHART_SERVICE_SCREENS: Record<string, ChartServiceScreen> = {
+  vimshottari: 'DashaScreen',
+  ashtottari: 'DashaScreen',
+  ashtakavarga: 'AshtakavargaScreen',
+  sudharshan: 'SudarshanScreen',
+  transits: 'TransitScreen',
+  sade_sati: 'SadeSatiScreen',
+};
+
 export default function ServicesScreen() {
   const theme = corpAstroDarkTheme;
   const navigation = useNavigation<NavigationProp>();
@@ -401,7 +430,7 @@ export default function ServicesScreen() {
           energy: 'Relational',
           charts: [
             { 
-              title: 'Sacred Marriage Analysis', 
+              id: 'marriage-analysis', title: 'Sacred Marriage Analysis', chartType: 'ashtakoota',
               description: 'Divine partnership blueprint - comprehensive compatibility analysis, timing for marriage, and relationship success strategies.',
               mysticalFeatures: ['Soul mate recognition', 'Marriage timing secrets', 'Relationship harmony rituals'],
               energyType: 'Partnership',
@@ -411,7 +440,7 @@ export default function ServicesScreen() {
               powerLevel: 91
             },
             { 
-              title: 'Love Compatibility Magic', 
+              id: 'love-compatibility', title: 'Love Compatibility Magic', chartType: 'ashtakoota',
               description: 'Romantic harmony assessment - deep compatibility analysis covering emotional, mental, physical, and spiritual connection levels.',
               mysticalFeatures: ['Love chemistry analysis', 'Compatibility enhancement', 'Romantic timing guidance'],
               energyType: 'Romantic',
@@ -677,7 +706,7 @@ export default function ServicesScreen() {
               powerLevel: 95
             },
             { 
-              title: 'Choghadiya Wisdom', 
+              id: 'choghadiya', title: 'Choghadiya Wisdom', chartType: 'choghadiya',
               description: 'Day-night period optimization - master the 8-period system for timing different types of activities throughout the day.',
               mysticalFeatures: ['Period mastery', 'Activity optimization', 'Time consciousness'],
               energyType: 'Systematic',
@@ -687,7 +716,7 @@ export default function ServicesScreen() {
               powerLevel: 81
             },
             { 
-              title: 'Planetary Hora Secrets', 
+              id: 'planetary-hora', title: 'Planetary Hora Secrets', chartType: 'planetary_hora',
               description: 'Hourly planetary rulership wisdom - use planetary hours for specific intentions, rituals, and important actions.',
               mysticalFeatures: ['Hourly optimization', 'Planetary hour mastery', 'Intention timing precision'],
               energyType: 'Hourly',
@@ -912,10 +941,29 @@ export default function ServicesScreen() {
   }) => {
     console.log(`✨ Accessing ${service.title} - ${service.energyType}`);
     
-    // Navigate to dynamic chart detail page
-    if (service.chartType && service.id) {
-      // Use type assertion for navigation to bypass TypeScript's strict type checking
-      (navigation as any).navigate('ChartDetailScreen', {
+    const chartScreen = service.chartType ? CHART_SERVICE_SCREENS[service.chartType] : undefined;
+
+    if (chartScreen && service.chartType) {
+      // Dasha, Ashtakavarga, Sudarshan, transit and Sade Sati services have their own screens
+      navigation.navigate(chartScreen, {
+        chartId: service.id,
+        chartType: service.chartType,
+        title: service.title,
+      });
+    } else if (service.chartType === 'ashtakoota') {
+      // Compatibility services open Guna Milan against the user's profile
+      navigation.navigate('CompatibilityScreen', {
+        title: service.title,
+      });
+    } else if (service.chartType === 'choghadiya' || service.chartType === 'planetary_hora') {
+      // Day timing services open the live Choghadiya / Hora tables
+      navigation.navigate('MuhurtaScreen', {
+        mode: service.chartType === 'choghadiya' ? 'choghadiya' : 'hora',
+        title: service.title,
+      });
+    } else if (service.chartType && service.id) {
+      // Navigate to dynamic chart detail page
+      navigation.navigate('ChartDetailScreen', {
         chartId: service.id,
         chartType: service.chartType,
         title: service.title,
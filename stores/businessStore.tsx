@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { BirthDetails } from './profileStore';
+import { fileStorage } from './fileStorage';
+
+export interface BusinessProfile {
+  name: string;
+  // Legal form, e.g. Private Limited or Partnership
+  type: string;
+  // Moment and place of incorporation; the company chart is cast from them
+  incorporation: BirthDetails;
+}
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  // Birth details the team synergy heatmap casts the member's chart from
+  birth: BirthDetails;
+}
+
+interface BusinessState {
+  // Null until the user has saved their business details
+  business: BusinessProfile | null;
+  // Team members registered under the business, besides the user
+  team: TeamMember[];
+  saveBusiness: (business: BusinessProfile) => void;
+  addTeamMember: (name: string, birth: BirthDetails) => void;
+  removeTeamMember: (id: string) => void;
+}
+
+export const useBusinessStore = create<BusinessState>()(
+  persist(
+    (set) => ({
+      business: null,
+      team: [],
+      saveBusiness: (business) => set({ business }),
+      addTeamMember: (name, birth) =>
+        set((state) => ({
+          team: [...state.team, { id: Date.now().toString(), name, birth }],
+        })),
+      removeTeamMember: (id) =>
+        set((state) => ({
+          team: state.team.filter((member) => member.id !== id),
+        })),
+    }),
+    {
+      name: 'business',
+      storage: createJSONStorage(() => fileStorage),
+    }
+  )
+);
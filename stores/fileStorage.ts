@@ -0,0 +1,23 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { StateStorage } from 'zustand/middleware';
+
+// Persisted stores are written as one JSON file each under the app's
+// document directory; the web build keeps them in localStorage instead.
+const fileFor = (name: string) => `${FileSystem.documentDirectory}${name}.json`;
+
+export const fileStorage: StateStorage =
+  Platform.OS === 'web'
+    ? {
+        getItem: (name) => globalThis.localStorage?.getItem(name) ?? null,
+        setItem: (name, value) => globalThis.localStorage?.setItem(name, value),
+        removeItem: (name) => globalThis.localStorage?.removeItem(name),
+      }
+    : {
+        getItem: async (name) => {
+          const info = await FileSystem.getInfoAsync(fileFor(name));
+          return info.exists ? FileSystem.readAsStringAsync(fileFor(name)) : null;
+        },
+        setItem: (name, value) => FileSystem.writeAsStringAsync(fileFor(name), value),
+        removeItem: (name) => FileSystem.deleteAsync(fileFor(name), { idempotent: true }),
+      };
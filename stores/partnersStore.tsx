@@ -0,0 +1,38 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { BirthDetails } from './profileStore';
+import { fileStorage } from './fileStorage';
+
+export interface Partner {
+  id: string;
+  name: string;
+  // Birth details the partnership report casts the partner's chart from
+  birth: BirthDetails;
+}
+
+interface PartnersState {
+  // Co-founders and business partners compared with the user
+  partners: Partner[];
+  addPartner: (name: string, birth: BirthDetails) => void;
+  removePartner: (id: string) => void;
+}
+
+export const usePartnersStore = create<PartnersState>()(
+  persist(
+    (set) => ({
+      partners: [],
+      addPartner: (name, birth) =>
+        set((state) => ({
+          partners: [...state.partners, { id: Date.now().toString(), name, birth }],
+        })),
+      removePartner: (id) =>
+        set((state) => ({
+          partners: state.partners.filter((partner) => partner.id !== id),
+        })),
+    }),
+    {
+      name: 'partners',
+      storage: createJSONStorage(() => fileStorage),
+    }
+  )
+);
@@ -0,0 +1,76 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import {
+  BirthInput,
+  LifeEvent,
+  LocalDateTime,
+  Place,
+  RectificationConfidence,
+  birthInputAt,
+} from '@/src/astro';
+import { fileStorage } from './fileStorage';
+
+export type BirthTimeAccuracy = 'exact' | 'approximate' | 'unknown';
+
+export interface BirthRectification {
+  // How clearly the life events pointed to the rectified time
+  confidence: RectificationConfidence;
+  // Share of the possible event points the time scored, 0-100
+  score: number;
+  // Events the time was fitted to, kept for the next rectification
+  events: LifeEvent[];
+}
+
+export interface BirthDetails extends LocalDateTime {
+  // Where the user was born; its time zone history fixes the UTC offset
+  place: Place;
+  // How sure the user is of the recorded time
+  timeAccuracy: BirthTimeAccuracy;
+  // Minutes either side of the recorded time the true time may lie
+  timeWindowMinutes: number;
+  // Set when the time came from the rectification assistant
+  rectification?: BirthRectification;
+}
+
+export interface Profile {
+  name: string;
+  phone: string;
+  gender: string;
+  // Null until the user has entered date, time and place of birth
+  birth: BirthDetails | null;
+}
+
+/**
+ * Chart input for saved birth details, at the place's historical offset
+ */
+export const birthDetailsInput = (birth: BirthDetails): BirthInput => {
+  const { place, year, month, day, hour, minute } = birth;
+  return birthInputAt(place, { year, month, day, hour, minute });
+};
+
+interface ProfileState extends Profile {
+  // Where the user is now, for the daily panchang; the birth place until set
+  currentPlace: Place | null;
+  saveProfile: (profile: Profile) => void;
+  setBirth: (birth: BirthDetails) => void;
+  setCurrentPlace: (currentPlace: Place) => void;
+}
+
+export const useProfileStore = create<ProfileState>()(
+  persist(
+    (set) => ({
+      name: '',
+      phone: '',
+      gender: '',
+      birth: null,
+      currentPlace: null,
+      saveProfile: (profile) => set(profile),
+      setBirth: (birth) => set({ birth }),
+      setCurrentPlace: (currentPlace) => set({ currentPlace }),
+    }),
+    {
+      name: 'profile',
+      storage: createJSONStorage(() => fileStorage),
+    }
+  )
+);
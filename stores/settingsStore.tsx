@@ -0,0 +1,49 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import {
+  AyanamsaId,
+  DEFAULT_AYANAMSA,
+  HouseSystemId,
+  DEFAULT_HOUSE_SYSTEM,
+  AspectOrbId,
+  DEFAULT_ASPECT_ORBS,
+} from '@/src/astro';
+import {
+  ChartStyleId,
+  DEFAULT_CHART_STYLE,
+} from '@/src/components/charts/chartStyles';
+import { fileStorage } from './fileStorage';
+
+interface SettingsState {
+  // Zodiac system applied to every chart, dasha and panchang calculation
+  ayanamsa: AyanamsaId;
+  // House system used for cusps and the Bhava Chalit
+  houseSystem: HouseSystemId;
+  // Regional layout used to draw every rashi chart
+  chartStyle: ChartStyleId;
+  // Orb preset for Western aspects in the aspect grid
+  aspectOrbs: AspectOrbId;
+  setAyanamsa: (ayanamsa: AyanamsaId) => void;
+  setHouseSystem: (houseSystem: HouseSystemId) => void;
+  setChartStyle: (chartStyle: ChartStyleId) => void;
+  setAspectOrbs: (aspectOrbs: AspectOrbId) => void;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      ayanamsa: DEFAULT_AYANAMSA,
+      houseSystem: DEFAULT_HOUSE_SYSTEM,
+      chartStyle: DEFAULT_CHART_STYLE,
+      aspectOrbs: DEFAULT_ASPECT_ORBS,
+      setAyanamsa: (ayanamsa) => set({ ayanamsa }),
+      setHouseSystem: (houseSystem) => set({ houseSystem }),
+      setChartStyle: (chartStyle) => set({ chartStyle }),
+      setAspectOrbs: (aspectOrbs) => set({ aspectOrbs }),
+    }),
+    {
+      name: 'settings',
+      storage: createJSONStorage(() => fileStorage),
+    }
+  )
+);